@@ -7,18 +7,34 @@
  * 1. Data Fetching: Loads all content (lessons, products, courses, events, etc.) from Supabase on mount.
  * 2. Auth State: Manages user session (AuthOverlay) and profile data (user_shibari table).
  * 3. Navigation: Handles sidebar lesson selection and top navigation for modals (Marketplace, Catalog, etc.).
- * 4. Lesson Logic: Manages "Locked" state for free vs registered users (first 4 lessons free).
- * 5. Routing: Uses a "Single Page" approach with heavy modal usage for sub-modules.
+ * 4. Lesson Logic: Manages "Locked" state from each lesson's access tier (utils/lessonAccess; the database itself
+ *    sends locked lessons without their video and text) and per-student progress (utils/progress), resuming at the last visited lesson.
+ *    Students keep private lesson notes and bookmarks (utils/notes), collected on /notes.
+ * 5. Routing: URL paths (utils/router) map to the lesson view and sub-module modals, so every screen has a shareable link.
+ * 6. Cart: Persisted in localStorage for guests and in the profile for members (utils/cart).
  */
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { supabase } from './supabaseClient';
-import { Lesson, Product, Course, AppEvent, HistoryEvent, CartItem, UserProfile, CatalogCategory, CatalogVideo, Article, DictionaryEntry } from './types';
+import { Lesson, Product, ProductVariant, Course, AppEvent, HistoryEvent, CartItem, UserProfile, CatalogCategory, CatalogVideo, Article, DictionaryEntry, AppSettings, LessonSubtitles, LessonNote, Bookmark, BookmarkType } from './types';
 import { INITIAL_LESSONS, INITIAL_PRODUCTS, INITIAL_COURSES, INITIAL_EVENTS, INITIAL_HISTORY, INITIAL_DICTIONARY, INITIAL_CATALOG_CATEGORIES, INITIAL_CATALOG_VIDEOS, UI_TRANSLATIONS, INITIAL_SOCIAL_RESOURCES, INITIAL_ARTICLES } from './constants';
-import { Settings, Menu, ShoppingBag, User as UserIcon, LogOut, Globe, HelpCircle, ArrowRight, Play, Lock, FileText } from 'lucide-react';
+import BehaviorTracker from './utils/BehaviorTracker';
+import { useRouter, buildPath, lessonPath, ModalId, encodeCatalogFilters, decodeCatalogFilters } from './utils/router';
+import { loadGuestCart, saveGuestCart, clearGuestCart, loadProfileCart, saveProfileCart, mergeCarts, reconcileCart, CartReconcileResult, lineKey, cartLineKey, productForVariant, isCourseItem } from './utils/cart';
+import { getAvailableStock } from './utils/stock';
+import { fetchEntitledCourseIds, ENTITLEMENTS_REPAIR_SQL } from './utils/entitlements';
+import { fetchIsAdmin, acceptAdminInvite, rememberPendingInvite, takePendingInvite, INVITE_QUERY_PARAM } from './utils/roles';
+import { getLessonLock } from './utils/lessonAccess';
+import { fetchLessons, isLessonPublished } from './utils/lessons';
+import { LessonProgressMap, LessonProgressUpdate, loadGuestProgress, saveGuestProgress, clearGuestProgress, fetchLessonProgress, saveLessonProgress, mergeProgress, applyProgressUpdate, lastVisitedLessonId, completionPercent } from './utils/progress';
+import { fetchLessonSubtitles, activeSegmentIndex } from './utils/subtitles';
+import { LessonQuizMap, QuizResultMap, fetchLessonQuizzes, loadQuizResults, loadGuestQuizResults, submitQuizAnswers, saveGuestQuizResults, applyQuizAttempt, getQuizLock } from './utils/quizzes';
+import { loadNotebook, createNote, hasBookmark, saveNotes, deleteNote, saveBookmarks, deleteBookmark, saveGuestNotes, saveGuestBookmarks } from './utils/notes';
+import { Settings, Menu, ShoppingBag, User as UserIcon, LogOut, Globe, HelpCircle, ArrowRight, Play, Lock, FileText, Check, CheckCircle, NotebookPen } from 'lucide-react';
 
 // Components
-import AuthOverlay from './components/AuthOverlay';
+import AuthOverlay, { AuthMode } from './components/AuthOverlay';
+import ProfileModal from './components/ProfileModal';
 import CartDrawer from './components/CartDrawer';
 import MarketplaceModal from './components/MarketplaceModal';
 import CoursesModal from './components/CoursesModal';
@@ -29,7 +45,16 @@ import EventsModal from './components/EventsModal';
 import NavazuModal from './components/NavazuModal';
 import ResourcesModal from './components/ResourcesModal';
 import SettingsModal from './components/SettingsModal';
-import VideoPlayer from './components/VideoPlayer';
+import VideoPlayer, { VideoPlayerHandle } from './components/VideoPlayer';
+import { PlaybackEvent } from './utils/video';
+import LessonTranscript from './components/LessonTranscript';
+import LessonQuiz from './components/LessonQuiz';
+import LessonNotes from './components/LessonNotes';
+import NotesModal from './components/NotesModal';
+import BookmarkButton from './components/BookmarkButton';
+import VideoChapters from './components/VideoChapters';
+import { sanitizeChapters, activeChapterIndex } from './utils/chapters';
+import LessonLockedPanel from './components/LessonLockedPanel';
 import TextContent from './components/TextContent';
 import DictionaryDrawer from './components/DictionaryDrawer';
 import ArticlesModal from './components/ArticlesModal';
@@ -46,17 +71,45 @@ const App: React.FC = () => {
   // User & Auth State
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [isAuthOpen, setIsAuthOpen] = useState(false);
+  const [authMode, setAuthMode] = useState<AuthMode>('login'); // Mode the AuthOverlay opens in
   
   // UI State
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [cartNotice, setCartNotice] = useState<Pick<CartReconcileResult, 'removed' | 'repriced'> | null>(null);
+  // Where cart changes are persisted: undefined = not restored yet / catalog unavailable, null = guest (localStorage), string = user id
+  const cartOwnerRef = useRef<string | null | undefined>(undefined);
+  const [lessonProgress, setLessonProgress] = useState<LessonProgressMap>({});
+  // Same convention as the cart: undefined = not loaded yet, null = guest (localStorage), string = user id
+  const progressOwnerRef = useRef<string | null | undefined>(undefined);
+  const dirtyProgressRef = useRef<Set<number>>(new Set()); // Lessons changed since the last database write
+  const progressSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const progressRef = useRef<LessonProgressMap>({});
+  progressRef.current = lessonProgress;
+  const [quizResults, setQuizResults] = useState<QuizResultMap>({}); // Loaded with the progress and owned by progressOwnerRef
+  const quizSectionRef = useRef<HTMLDivElement>(null);
+  const pendingQuizScrollRef = useRef<number | null>(null); // Lesson whose quiz to scroll to once it is open
+  const [notes, setNotes] = useState<LessonNote[]>([]); // Private notes and bookmarks, also owned by progressOwnerRef
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const pendingSeekRef = useRef<{ lessonId: number; seconds: number } | null>(null); // Note moment to jump to once its lesson is open
+  const hasResumedRef = useRef(false);
+  const readSentinelRef = useRef<HTMLDivElement>(null);
+  const videoPlayerRef = useRef<VideoPlayerHandle>(null);
+  const [lessonSubtitles, setLessonSubtitles] = useState<LessonSubtitles[]>([]); // Subtitles of the open lesson
+  const [activeSegment, setActiveSegment] = useState(-1); // Transcript line playing right now
+  const savedPositionRef = useRef(0); // Lesson video position last written to progress
+  const videoTimeRef = useRef<number | null>(null); // Last reported position of the lesson video (new notes start there)
+  const [activeChapter, setActiveChapter] = useState(-1);
+  const videoSectionRef = useRef<HTMLDivElement>(null);
   const [selectedTerm, setSelectedTerm] = useState<string | null>(null); // Triggers Dictionary Drawer
   const [isSidebarOpen, setIsSidebarOpen] = useState(false); // Mobile sidebar toggle
 
-  // Modals Controller
-  // 'activeModal' determines which overlay is currently visible (Shop, Courses, etc.)
-  const [activeModal, setActiveModal] = useState<string | null>(null);
-  const [readingArticle, setReadingArticle] = useState<Article | null>(null); // Specific state for Article Reader
+  // Router
+  // The URL is the source of truth for the visible overlay (Shop, Courses, etc.) and its selected item.
+  const { route, navigate, goBack } = useRouter();
+  const [isAuthReady, setIsAuthReady] = useState(false); // Lesson deep links wait for the session check
+  const [isCatalogReady, setIsCatalogReady] = useState(false); // Cart reconciliation waits for the first data load
+  const [isCatalogLoaded, setIsCatalogLoaded] = useState(false); // Products and courses really came from the database
   
   // Loaded Data Containers
   const [products, setProducts] = useState<Product[]>(INITIAL_PRODUCTS);
@@ -67,6 +120,9 @@ const App: React.FC = () => {
   const [catalogCategories, setCatalogCategories] = useState<CatalogCategory[]>(INITIAL_CATALOG_CATEGORIES);
   const [catalogVideos, setCatalogVideos] = useState<CatalogVideo[]>(INITIAL_CATALOG_VIDEOS);
   const [dictionary, setDictionary] = useState<DictionaryEntry[]>(INITIAL_DICTIONARY);
+  const [lessonQuizzes, setLessonQuizzes] = useState<LessonQuizMap>({});
+  const [appSettings, setAppSettings] = useState<AppSettings | null>(null);
+  const [entitledCourseIds, setEntitledCourseIds] = useState<number[]>([]); // Active course entitlements of the user
   
   // Localization
   const [lang, setLang] = useState<'ru' | 'en'>('ru');
@@ -75,20 +131,27 @@ const App: React.FC = () => {
   // --- Logic: Authentication & Profile Sync ---
   // Checks Supabase session. If user exists, fetches detailed profile from 'user_shibari'.
   // If profile is missing (new user), creates a default entry.
+  // system_role is taken from user_roles_shibari, never from the profile row or auth metadata.
   const fetchUserProfile = async () => {
     if (!supabase) return;
     const { data: { session } } = await supabase.auth.getSession();
     
     if (session?.user) {
+        BehaviorTracker.identify(session.user.id);
         try {
-            const { data: profile } = await supabase
-                .from('user_shibari')
-                .select('*')
-                .eq('id', session.user.id)
-                .single();
+            const [{ data: profile }, isAdmin] = await Promise.all([
+                supabase.from('user_shibari').select('*').eq('id', session.user.id).single(),
+                fetchIsAdmin(session.user.id)
+            ]);
+            const systemRole = isAdmin ? 'admin' : 'user';
 
             if (profile) {
-                setUserProfile(profile as UserProfile);
+                // A confirmed email change lands in auth.users first; mirror it into the profile
+                if (session.user.email && profile.email !== session.user.email) {
+                    profile.email = session.user.email;
+                    await supabase.from('user_shibari').update({ email: session.user.email }).eq('id', session.user.id);
+                }
+                setUserProfile({ ...(profile as UserProfile), system_role: systemRole });
             } else {
                 const metadata = session.user.user_metadata || {};
                 const newProfile = {
@@ -99,12 +162,12 @@ const App: React.FC = () => {
                     city: metadata.city || '',
                     shibari_role: metadata.shibari_role || 'unknown',
                     experience_level: metadata.experience_level || 'newbie',
-                    system_role: metadata.system_role || 'user',
+                    system_role: 'user',
                     created_at: new Date().toISOString()
                 };
                 await supabase.from('user_shibari').insert([newProfile]);
                 // @ts-ignore
-                setUserProfile(newProfile as UserProfile);
+                setUserProfile({ ...newProfile, system_role: systemRole } as UserProfile);
             }
         } catch (e) {
             console.error("Error fetching user profile:", e);
@@ -115,18 +178,30 @@ const App: React.FC = () => {
   };
 
   // --- Logic: Data Loading ---
+  // Lessons come from get_lessons and their quizzes from get_lesson_quizzes: what they contain depends on who asks
+  // (utils/lessonAccess). Only the latest request is applied, so a reply from before sign-in cannot overwrite a newer one.
+  const lessonsRequestRef = useRef(0);
+  const loadLessons = async () => {
+      const request = ++lessonsRequestRef.current;
+      const [lData, quizzes] = await Promise.all([fetchLessons(), fetchLessonQuizzes()]);
+      if (request !== lessonsRequestRef.current) return;
+      if (lData && lData.length) setLessons(lData);
+      setLessonQuizzes(quizzes);
+  };
+
   // Fetches all dynamic content from Supabase tables. Falls back to INITIAL constants if fetch fails or DB is empty.
   const fetchData = async () => {
      if (!supabase) return;
      try {
-        const { data: lData } = await supabase.from('lessons_shibari').select('*').order('id');
-        if (lData && lData.length) setLessons(lData as Lesson[]);
+        await loadLessons();
 
         const { data: pData } = await supabase.from('market_shibari').select('*').order('id');
         if (pData && pData.length) setProducts(pData);
 
         const { data: cData } = await supabase.from('kurs_market_shibari').select('*').order('id');
         if (cData && cData.length) setCourses(cData);
+        // Only the real catalog can tell which cart lines are gone (against INITIAL_* every stored line would be)
+        if (pData && pData.length && cData && cData.length) setIsCatalogLoaded(true);
 
         const { data: eData } = await supabase.from('event_shibari').select('*').order('date');
         if (eData && eData.length) setEvents(eData);
@@ -149,13 +224,47 @@ const App: React.FC = () => {
      } catch(e) { console.error("Error fetching data", e); }
   };
 
+  // --- Logic: Global Settings ---
+  // Loads the single 'app_settings' row (edited in Admin Hub -> General).
+  const fetchAppSettings = async (): Promise<AppSettings | null> => {
+      if (!supabase) return null;
+      try {
+          const { data } = await supabase.from('app_settings').select('*').limit(1).maybeSingle();
+          setAppSettings(data as AppSettings | null);
+          return data as AppSettings | null;
+      } catch (e) {
+          console.error("Error loading app settings", e);
+          return null;
+      }
+  };
+
+  // --- Logic: Analytics ---
+  // Starts BehaviorTracker with the Gold User / Yandex config from app settings.
+  // The tracker still starts with defaults if the row is missing.
+  const initBehaviorTracker = async () => {
+      const settings = await fetchAppSettings();
+
+      BehaviorTracker.init(null, {
+          goldThreshold: settings?.gold_user_threshold_minutes,
+          yandexId: settings?.yandex_id,
+          goldConfig: settings?.gold_config,
+          goals: settings?.goals_config
+      });
+  };
+
   // --- Effects ---
   useEffect(() => {
-    fetchData();
-    fetchUserProfile();
+    fetchData().finally(() => setIsCatalogReady(true));
+    initBehaviorTracker();
+    fetchUserProfile().finally(() => setIsAuthReady(true));
     // Subscribe to auth changes (Sign In / Sign Out / Token Refresh)
     const { data: { subscription } } = supabase!.auth.onAuthStateChange((event, session) => {
-        if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED' || event === 'USER_UPDATED') {
+        if (event === 'PASSWORD_RECOVERY') {
+            // Came back from a reset link: ask for the new password
+            setAuthMode('recovery');
+            setIsAuthOpen(true);
+            fetchUserProfile();
+        } else if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED' || event === 'USER_UPDATED') {
             fetchUserProfile();
         } else if (event === 'SIGNED_OUT') {
             setUserProfile(null);
@@ -164,37 +273,76 @@ const App: React.FC = () => {
     return () => { subscription.unsubscribe(); };
   }, []);
 
-  // --- Handlers: Admin & Cart ---
-  const handleUpdateLesson = async (id: number, data: Partial<Lesson>) => {
-      if (!supabase) return;
-      // Optimistic update for immediate UI feedback
-      setLessons(prev => prev.map(l => l.id === id ? { ...l, ...data } : l));
-      
-      try { 
-          const { error } = await supabase.from('lessons_shibari').update(data).eq('id', id); 
-          if (error) throw error;
-      } catch (e: any) { 
-          console.error("Update failed:", e);
-          alert(`Ошибка сохранения урока: ${e.message || 'Check console'}`);
-          fetchData(); // Revert on error
+  // Expired or invalid emailed links (reset, magic link) come back with #error_description; AuthOverlay shows it
+  useEffect(() => {
+      if (window.location.hash.includes('error_description')) setIsAuthOpen(true);
+  }, []);
+
+  // --- Logic: Persistent Cart ---
+  // Restores the cart once both the session and the catalog are known, and again on sign-in / sign-out.
+  // Signing in merges the guest cart into the profile cart; signing out leaves an empty guest cart.
+  // If the catalog failed to load, the stored lines are shown as they are and nothing is written back.
+  useEffect(() => {
+      if (!isAuthReady || !isCatalogReady) return;
+      cartOwnerRef.current = undefined; // Pause persistence while restoring
+
+      const guestCart = loadGuestCart();
+      let restored = guestCart;
+      if (userProfile) restored = mergeCarts(loadProfileCart(userProfile.cart), guestCart);
+
+      if (!isCatalogLoaded) {
+          setCartNotice(null);
+          setCart(restored);
+          return;
       }
-  };
+      if (userProfile) clearGuestCart();
+
+      const { items, removed, repriced } = reconcileCart(restored, products, courses);
+      setCartNotice(removed.length || repriced.length ? { removed, repriced } : null);
 
-  const addToCart = (product: Product) => {
+      cartOwnerRef.current = userProfile ? userProfile.id : null;
+      setCart(items);
+  }, [isAuthReady, isCatalogReady, isCatalogLoaded, userProfile?.id]);
+
+  useEffect(() => {
+      const owner = cartOwnerRef.current;
+      if (owner === undefined) return;
+      if (owner === null) {
+          saveGuestCart(cart);
+          return;
+      }
+      // Members: debounce quantity clicks into a single profile write
+      const timer = setTimeout(() => saveProfileCart(owner, cart), 500);
+      return () => clearTimeout(timer);
+  }, [cart]);
+
+  // --- Handlers: Cart ---
+  // Cart lines are keyed by product + variant (see utils/cart.lineKey).
+  // Quantities never exceed the stock known from the loaded catalog; checkout re-checks against the DB.
+  // A course line always has quantity 1.
+  const addToCart = (product: Product, variant?: ProductVariant) => {
+      const key = lineKey(product, variant?.id);
+      const available = isCourseItem(product) ? 1 : getAvailableStock(product, variant?.id);
+      const inCart = cart.find(item => cartLineKey(item) === key)?.quantity || 0;
+      if (available !== null && inCart + 1 > available) return;
+
+      BehaviorTracker.trackCartAction('add');
       setCart(prev => {
-          const existing = prev.find(item => item.product.id === product.id);
-          if (existing) return prev.map(item => item.product.id === product.id ? { ...item, quantity: item.quantity + 1 } : item);
-          return [...prev, { product, quantity: 1 }];
+          const existing = prev.find(item => cartLineKey(item) === key);
+          if (existing) return prev.map(item => cartLineKey(item) === key ? { ...item, quantity: item.quantity + 1 } : item);
+          return [...prev, { product: productForVariant(product, variant), quantity: 1, ...(variant ? { variantId: variant.id } : {}) }];
       });
   };
 
-  const removeFromCart = (productId: number) => setCart(prev => prev.filter(item => item.product.id !== productId));
+  const removeFromCart = (key: string) => setCart(prev => prev.filter(item => cartLineKey(item) !== key));
 
-  const updateCartQuantity = (productId: number, delta: number) => {
+  const updateCartQuantity = (key: string, delta: number) => {
       setCart(prev => prev.map(item => {
-          if (item.product.id === productId) {
+          if (cartLineKey(item) === key) {
               const newQ = item.quantity + delta;
-              return newQ < 1 ? item : { ...item, quantity: newQ };
+              const stock = isCourseItem(item.product) ? 1 : item.product.stock;
+              if (newQ < 1 || (typeof stock === 'number' && newQ > stock)) return item;
+              return { ...item, quantity: newQ };
           }
           return item;
       }));
@@ -205,7 +353,373 @@ const App: React.FC = () => {
       return item[field];
   };
 
-  const activeLesson = lessons.find(l => l.id === currentLessonId) || lessons[0];
+  // Drafts are only listed for admins (to preview them); students see published lessons
+  const visibleLessons = useMemo(
+      () => userProfile?.system_role === 'admin' ? lessons : lessons.filter(isLessonPublished),
+      [lessons, userProfile?.system_role]
+  );
+
+  // Business Logic: each lesson declares who can open it (utils/lessonAccess),
+  // and an unpassed gating quiz locks the lessons after it (utils/quizzes; admins skip it).
+  const lessonLockAt = (index: number, results: QuizResultMap = quizResults) => {
+      const lesson = visibleLessons[index];
+      if (!lesson) return null;
+      return getLessonLock(lesson, index, userProfile, entitledCourseIds)
+          || (userProfile?.system_role === 'admin' ? null : getQuizLock(visibleLessons, index, lessonQuizzes, results, !!userProfile));
+  };
+  const isLessonLocked = (index: number, results?: QuizResultMap) => lessonLockAt(index, results) !== null;
+
+  // Sync: /lesson/:id -> current lesson (a locked lesson shows its upsell instead of the content)
+  useEffect(() => {
+      if (route.lessonId === null || !isAuthReady) return;
+      if (visibleLessons.some(l => l.id === route.lessonId)) setCurrentLessonId(route.lessonId);
+  }, [route.lessonId, visibleLessons, isAuthReady]);
+
+  // Analytics: every path change (lesson navigation, opened module or item) is a page view.
+  // Query-only changes (catalog filters) are reported as filter usage instead.
+  useEffect(() => {
+      BehaviorTracker.trackPageView(window.location.pathname);
+  }, [route.lessonId, route.modal, route.itemId]);
+
+  const activeLesson = visibleLessons.find(l => l.id === currentLessonId) || visibleLessons[0] || lessons[0];
+  const activeLessonLock = lessonLockAt(visibleLessons.indexOf(activeLesson));
+
+  // --- Logic: Lesson Progress ---
+  // Loads progress (with quiz results, notes and bookmarks) once the session and the lessons are known,
+  // and again on sign-in / sign-out. Signing in merges the guest copies into the stored ones. On the first load the student
+  // resumes at the last visited lesson unless the URL already points at a lesson.
+  const flushProgress = () => {
+      if (progressSaveTimerRef.current) clearTimeout(progressSaveTimerRef.current);
+      progressSaveTimerRef.current = null;
+      const owner = progressOwnerRef.current;
+      if (!owner) return;
+      const rows = Array.from(dirtyProgressRef.current).map(id => progressRef.current[id]).filter(Boolean);
+      dirtyProgressRef.current.clear();
+      saveLessonProgress(owner, rows);
+  };
+
+  useEffect(() => {
+      if (!isAuthReady || !isCatalogReady) return;
+      flushProgress();
+      progressOwnerRef.current = undefined; // Pause tracking while loading
+      let cancelled = false;
+
+      const load = async () => {
+          const guestProgress = loadGuestProgress();
+          if (!userProfile) return guestProgress;
+          const merged = mergeProgress(await fetchLessonProgress(userProfile.id), guestProgress);
+          if (Object.keys(guestProgress).length) {
+              await saveLessonProgress(userProfile.id, Object.values(merged));
+              clearGuestProgress();
+          }
+          return merged;
+      };
+
+      const owner = userProfile ? userProfile.id : null;
+      // Guest attempts re-submitted on sign-in may pass gating quizzes: the lessons behind them are fetched again
+      const hasGuestAttempts = !!owner && Object.keys(loadGuestQuizResults()).length > 0;
+      Promise.all([load(), loadQuizResults(owner), loadNotebook(owner)]).then(([progress, results, notebook]) => {
+          if (hasGuestAttempts) loadLessons();
+          if (cancelled) return;
+          progressOwnerRef.current = owner;
+          setLessonProgress(progress);
+          setQuizResults(results);
+          setNotes(notebook.notes);
+          setBookmarks(notebook.bookmarks);
+
+          if (hasResumedRef.current) return;
+          hasResumedRef.current = true;
+          const lastId = lastVisitedLessonId(progress);
+          const index = visibleLessons.findIndex(l => l.id === lastId);
+          if (lastId === null || index === -1 || isLessonLocked(index, results) || route.lessonId !== null) return;
+          setCurrentLessonId(lastId);
+          if (!route.modal) navigate(lessonPath(lastId), { replace: true });
+      });
+      return () => { cancelled = true; };
+  }, [isAuthReady, isCatalogReady, userProfile?.id]);
+
+  // Guests write through to localStorage; members batch writes every few seconds
+  useEffect(() => {
+      const owner = progressOwnerRef.current;
+      if (owner === undefined) return;
+      if (owner === null) {
+          saveGuestProgress(lessonProgress);
+          return;
+      }
+      if (dirtyProgressRef.current.size && !progressSaveTimerRef.current) {
+          progressSaveTimerRef.current = setTimeout(flushProgress, 5000);
+      }
+  }, [lessonProgress]);
+
+  // Don't lose the last seconds of watch time when the tab is closed
+  useEffect(() => {
+      window.addEventListener('pagehide', flushProgress);
+      return () => window.removeEventListener('pagehide', flushProgress);
+  }, []);
+
+  const recordLessonProgress = (lessonId: number, update: LessonProgressUpdate) => {
+      if (progressOwnerRef.current === undefined) return;
+      const index = visibleLessons.findIndex(l => l.id === lessonId);
+      if (index === -1 || isLessonLocked(index)) return;
+      const lesson = visibleLessons[index];
+      const hasVideo = !!(lesson && getData(lesson, 'video_url'));
+      dirtyProgressRef.current.add(lessonId);
+      setLessonProgress(prev => ({ ...prev, [lessonId]: applyProgressUpdate(prev[lessonId], lessonId, update, hasVideo) }));
+  };
+
+  // Opening a lesson marks it as started (and as the one to resume at)
+  const isProgressReady = progressOwnerRef.current !== undefined;
+  useEffect(() => {
+      if (isProgressReady) recordLessonProgress(currentLessonId, {});
+  }, [currentLessonId, isProgressReady]);
+
+  // Reading: the end of the lesson text scrolled into view
+  useEffect(() => {
+      const sentinel = readSentinelRef.current;
+      if (!sentinel || !isProgressReady || lessonProgress[currentLessonId]?.read_complete) return;
+      const observer = new IntersectionObserver(entries => {
+          if (entries.some(entry => entry.isIntersecting)) {
+              observer.disconnect();
+              recordLessonProgress(currentLessonId, { readComplete: true });
+          }
+      });
+      observer.observe(sentinel);
+      return () => observer.disconnect();
+  }, [currentLessonId, isProgressReady, lessonProgress[currentLessonId]?.read_complete]);
+
+  const progressPercent = useMemo(
+      () => completionPercent(lessonProgress, visibleLessons.filter(isLessonPublished).map(l => l.id)),
+      [lessonProgress, visibleLessons]
+  );
+  const activeLessonProgress = lessonProgress[activeLesson?.id];
+
+  // --- Logic: Quizzes ---
+  // Every attempt is graded by the server, which also stores it for members (guests: localStorage);
+  // a member passing a gating quiz gets the next lessons reloaded with their content.
+  // Resolves to false when the attempt couldn't be graded.
+  const submitQuiz = async (lessonId: number, answers: Record<string, string[]>): Promise<boolean> => {
+      const owner = progressOwnerRef.current;
+      if (owner === undefined || !lessonQuizzes[lessonId]) return false;
+      try {
+          const grade = await submitQuizAnswers(lessonId, answers);
+          if (progressOwnerRef.current !== owner) return false; // Signed in or out meanwhile
+          if (owner && grade.passed && lessonQuizzes[lessonId].gates_next && !quizResults[lessonId]?.passed) loadLessons();
+          setQuizResults(prev => {
+              const next = { ...prev, [lessonId]: applyQuizAttempt(prev[lessonId], lessonId, answers, grade) };
+              if (!owner) saveGuestQuizResults(next);
+              return next;
+          });
+          return true;
+      } catch (e) {
+          return false;
+      }
+  };
+
+  // "Go to the quiz" on a locked lesson: open the lesson with the quiz and scroll down to it
+  const openLessonQuiz = (lessonId: number) => {
+      pendingQuizScrollRef.current = lessonId;
+      handleLessonClick(lessonId);
+  };
+
+  useEffect(() => {
+      if (pendingQuizScrollRef.current !== currentLessonId) return;
+      pendingQuizScrollRef.current = null;
+      requestAnimationFrame(() => quizSectionRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' }));
+  }, [currentLessonId]);
+
+  // --- Logic: Notes & Bookmarks ---
+  // Private to the student. Guests write through to localStorage, members write every change right away.
+  const syncNotebook = (write: Promise<void>) => write.catch((e: any) => {
+      console.error(e);
+      alert(t.notes_sync_failed);
+  });
+
+  const putNote = (note: LessonNote) => {
+      const owner = progressOwnerRef.current;
+      if (owner === undefined) return;
+      const next = [...notes.filter(n => n.id !== note.id), note];
+      setNotes(next);
+      if (owner) syncNotebook(saveNotes(owner, [note]));
+      else saveGuestNotes(next);
+  };
+
+  const removeNote = (noteId: string) => {
+      const owner = progressOwnerRef.current;
+      if (owner === undefined) return;
+      const next = notes.filter(n => n.id !== noteId);
+      setNotes(next);
+      if (owner) syncNotebook(deleteNote(owner, noteId));
+      else saveGuestNotes(next);
+  };
+
+  const toggleBookmark = (type: BookmarkType, itemId: string | number) => {
+      const owner = progressOwnerRef.current;
+      if (owner === undefined) return;
+      const existing = bookmarks.find(b => b.item_type === type && b.item_id === String(itemId));
+      const bookmark: Bookmark = existing || { item_type: type, item_id: String(itemId), created_at: new Date().toISOString() };
+      const next = existing ? bookmarks.filter(b => b !== existing) : [...bookmarks, bookmark];
+      setBookmarks(next);
+      if (owner) syncNotebook(existing ? deleteBookmark(owner, bookmark) : saveBookmarks(owner, [bookmark]));
+      else saveGuestBookmarks(next);
+  };
+  const isBookmarked = (type: BookmarkType, itemId: string | number) => hasBookmark(bookmarks, type, itemId);
+
+  const activeLessonNotes = useMemo(() => notes.filter(n => n.lesson_id === activeLesson?.id), [notes, activeLesson?.id]);
+
+  // A note from "My notes": open its lesson and jump to the moment it was written at
+  // (waits until the lesson is current and the notes screen has closed)
+  const openNote = (lessonId: number, videoTime: number | null) => {
+      pendingSeekRef.current = videoTime !== null ? { lessonId, seconds: videoTime } : null;
+      handleLessonClick(lessonId);
+  };
+
+  useEffect(() => {
+      const pending = pendingSeekRef.current;
+      if (!pending || pending.lessonId !== currentLessonId || route.modal) return;
+      pendingSeekRef.current = null;
+      requestAnimationFrame(() => seekFromText(pending.seconds));
+  }, [currentLessonId, route.modal]);
+
+  // --- Logic: Transcript ---
+  // Subtitles are loaded per open lesson; English visitors get the English track when there is one.
+  const isActiveLessonOpen = !!activeLesson && !activeLessonLock;
+  useEffect(() => {
+      setLessonSubtitles([]);
+      setActiveSegment(-1);
+      if (!activeLesson || !isActiveLessonOpen) return;
+      let cancelled = false;
+      fetchLessonSubtitles(activeLesson.id).then(rows => {
+          if (!cancelled) setLessonSubtitles(rows);
+      });
+      return () => { cancelled = true; };
+  }, [activeLesson?.id, isActiveLessonOpen]);
+
+  const transcript = useMemo(() => {
+      const byLang = (l: string) => lessonSubtitles.find(row => row.lang === l)?.segments || [];
+      const english = byLang('en');
+      return lang === 'en' && english.length ? english : byLang('ru');
+  }, [lessonSubtitles, lang]);
+
+  // --- Logic: Lesson Video ---
+  const chapters = useMemo(() => sanitizeChapters(activeLesson?.chapters), [activeLesson]);
+  useEffect(() => {
+      setActiveChapter(-1);
+      videoTimeRef.current = null;
+  }, [activeLesson?.id]);
+
+  // The player reports its position several times a second; transcript and chapter state only change with the segment.
+  // Progress gets the played seconds and coverage, and the position on pause / every 10 seconds to resume from.
+  const handleLessonPlayback = (event: PlaybackEvent) => {
+      videoTimeRef.current = event.currentTime;
+      if (transcript.length) setActiveSegment(activeSegmentIndex(transcript, event.currentTime));
+      if (chapters.length) setActiveChapter(activeChapterIndex(chapters, event.currentTime));
+      if (event.type === 'ended') {
+          savedPositionRef.current = 0;
+          recordLessonProgress(activeLesson.id, { position: 0 });
+          return;
+      }
+      const savePosition = event.type === 'pause' || Math.abs(event.currentTime - savedPositionRef.current) >= 10;
+      const played = event.duration > 0 ? event.played : 0;
+      if (!played && !savePosition) return;
+      if (savePosition) savedPositionRef.current = event.currentTime;
+      recordLessonProgress(activeLesson.id, {
+          watchedSeconds: played,
+          videoDuration: event.duration || undefined,
+          watchedPercent: event.watchedPercent,
+          position: savePosition ? Math.floor(event.currentTime) : undefined
+      });
+  };
+
+  const seekToSegment = (index: number) => {
+      setActiveSegment(index);
+      videoPlayerRef.current?.seekTo(transcript[index].start);
+  };
+
+  const seekToChapter = (index: number) => {
+      setActiveChapter(index);
+      videoPlayerRef.current?.seekTo(chapters[index].start);
+  };
+
+  // Timestamp links in the lesson text are read below the video: bring it back into view
+  const seekFromText = (seconds: number) => {
+      videoSectionRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      videoPlayerRef.current?.seekTo(seconds);
+  };
+
+  // Derived from the URL
+  const activeModal = route.modal;
+  const readingArticle = activeModal === 'articles' && route.itemId
+      ? articles.find(a => String(a.id) === route.itemId) || null
+      : null;
+  const routeItemNumber = route.itemId ? parseInt(route.itemId) : null;
+
+  // --- Logic: Admin Invites ---
+  // /?admin_invite=<token>: a signed-out visitor is asked to sign in first, then the invite is accepted.
+  // The server checks the token and that the signed-in email matches the invite.
+  useEffect(() => {
+      if (!isAuthReady) return;
+      const fromUrl = route.query.get(INVITE_QUERY_PARAM);
+      if (fromUrl) {
+          const query = new URLSearchParams(route.query);
+          query.delete(INVITE_QUERY_PARAM);
+          const qs = query.toString();
+          navigate(window.location.pathname + (qs ? `?${qs}` : ''), { replace: true });
+          rememberPendingInvite(fromUrl);
+          if (!userProfile) setIsAuthOpen(true);
+      }
+      if (!userProfile) return;
+
+      const token = takePendingInvite();
+      if (!token) return;
+      acceptAdminInvite(token)
+          .then(accepted => {
+              alert(accepted ? t.admin_invite_accepted : t.admin_invite_invalid);
+              if (accepted) fetchUserProfile();
+          })
+          .catch((e: any) => alert(`${t.admin_invite_invalid} (${e.message})`));
+  }, [isAuthReady, userProfile?.id, route.query]);
+
+  // --- Logic: Course Access ---
+  // Admins can open every course; students see the courses they are entitled to.
+  useEffect(() => {
+      if (!userProfile?.id) {
+          setEntitledCourseIds([]);
+          return;
+      }
+      fetchEntitledCourseIds(userProfile.id)
+          .then(setEntitledCourseIds)
+          .catch((e: any) => console.error(`Course access load failed: ${e.message}\nSQL:\n${ENTITLEMENTS_REPAIR_SQL}`));
+  }, [userProfile?.id]);
+
+  // Signing in or out, a subscription or a new course changes which lessons come with their content
+  useEffect(() => {
+      if (!isCatalogReady) return; // The first load is part of fetchData
+      loadLessons();
+  }, [userProfile?.id, userProfile?.system_role, userProfile?.is_subscription_active, entitledCourseIds]);
+
+  const accessibleCourseIds = useMemo(
+      () => userProfile?.system_role === 'admin' ? courses.map(c => c.id) : entitledCourseIds,
+      [userProfile?.system_role, courses, entitledCourseIds]
+  );
+
+  // Courses in orders that are placed but not yet completed (access opens on completion)
+  const pendingCourseIds = useMemo(() => (userProfile?.orders_history || [])
+      .filter(order => order.status === 'new' || order.status === 'processing')
+      .flatMap(order => order.items.map(item => item.courseId))
+      .filter((id): id is number => typeof id === 'number'),
+  [userProfile?.orders_history]);
+  const catalogFilters = useMemo(() => decodeCatalogFilters(route.query, catalogCategories), [route.query, catalogCategories]);
+
+  const openModal = (modal: ModalId) => navigate(buildPath(modal));
+
+  // Closing a module returns to the previous screen. When a detail item is open
+  // (e.g. "Buy" from a course page), jump straight back to the lesson instead.
+  const closeModal = () => {
+      if (route.itemId) navigate(lessonPath(currentLessonId), { replace: true });
+      else goBack(lessonPath(currentLessonId));
+  };
+
+  const openArticle = (article: Article) => navigate(buildPath('articles', article.id));
 
   // Logic: "Related Articles" slots
   // Maps the lesson's configured related_articles IDs to actual Article objects.
@@ -246,13 +760,19 @@ const App: React.FC = () => {
       return result;
   }, [activeLesson, articles]);
 
-  const handleLessonClick = (lessonId: number, isLocked: boolean) => {
-      if (isLocked) {
-          setIsAuthOpen(true); // Prompt login for locked lessons
-      } else {
-          setCurrentLessonId(lessonId);
-          setIsSidebarOpen(false);
-      }
+  const handleLessonClick = (lessonId: number) => {
+      navigate(lessonPath(lessonId));
+      setIsSidebarOpen(false);
+  };
+
+  const openAuth = (mode: AuthMode) => {
+      setAuthMode(mode);
+      setIsAuthOpen(true);
+  };
+
+  const closeAuth = () => {
+      setIsAuthOpen(false);
+      setAuthMode('login');
   };
 
   return (
@@ -272,22 +792,27 @@ const App: React.FC = () => {
                   </div>
                   <h1 className="text-xl font-bold tracking-tight text-white leading-none">Shibari School</h1>
               </div>
-              <div className="text-[10px] text-neutral-500 font-bold uppercase tracking-widest mb-3 pl-2">
-                  {t.course_content}
+              <div className="flex justify-between items-baseline mb-3 px-2">
+                  <span className="text-[10px] text-neutral-500 font-bold uppercase tracking-widest">{t.course_content}</span>
+                  <span className="text-[10px] text-neutral-500 font-bold font-mono" title={t.progress_completed}>{progressPercent}%</span>
+              </div>
+              <div className="h-1 mx-2 bg-[#151515] rounded-full overflow-hidden">
+                  <div className="h-full bg-red-600 transition-all duration-500" style={{ width: `${progressPercent}%` }} />
               </div>
           </div>
 
           {/* Lesson List */}
           <div className="flex-1 overflow-y-auto custom-scrollbar px-3 pb-4 space-y-1">
-              {lessons.map((lesson, index) => {
+              {visibleLessons.map((lesson, index) => {
                   const isActive = currentLessonId === lesson.id;
-                  // Business Logic: First 4 lessons are free. Others require auth.
-                  const isLocked = !userProfile && index >= 4;
+                  const lock = lessonLockAt(index);
+                  const isLocked = lock !== null;
+                  const status = lessonProgress[lesson.id]?.status;
 
                   return (
                       <button 
                           key={lesson.id}
-                          onClick={() => handleLessonClick(lesson.id, isLocked)}
+                          onClick={() => handleLessonClick(lesson.id)}
                           className={`w-full flex items-center gap-4 px-4 py-3.5 rounded-lg transition-all group text-left ${
                               isActive ? 'bg-[#151515]' : 'hover:bg-[#111]'
                           } ${isLocked ? 'opacity-60 hover:opacity-100' : ''}`}
@@ -297,13 +822,20 @@ const App: React.FC = () => {
                               ? 'bg-neutral-900 text-neutral-500'
                               : isActive 
                                 ? 'bg-red-600 text-white' 
-                                : 'bg-[#222] text-[#666] group-hover:bg-[#333]'
-                          }`}>
-                              {isLocked ? <Lock className="w-3 h-3" /> : index + 1}
+                                : status === 'completed'
+                                  ? 'bg-red-900/40 text-red-400'
+                                  : status === 'started'
+                                    ? 'bg-[#222] text-[#999] ring-1 ring-red-900/60 group-hover:bg-[#333]'
+                                    : 'bg-[#222] text-[#666] group-hover:bg-[#333]'
+                          }`} title={lock ? t[`lesson_locked_${lock.reason}`] : status ? t[`lesson_${status}`] : undefined}>
+                              {isLocked ? <Lock className="w-3 h-3" /> : status === 'completed' ? <Check className="w-3 h-3" /> : index + 1}
                           </div>
                           <span className={`text-sm font-medium leading-tight ${isActive ? 'text-white' : 'text-[#888] group-hover:text-neutral-300'} ${isLocked ? 'text-neutral-500' : ''}`}>
                               {getData(lesson, 'title')}
                           </span>
+                          {!isLessonPublished(lesson) && (
+                              <span className="ml-auto text-[9px] uppercase tracking-widest text-yellow-500 border border-yellow-900/50 px-1.5 rounded shrink-0">{t.lesson_draft}</span>
+                          )}
                       </button>
                   );
               })}
@@ -312,7 +844,7 @@ const App: React.FC = () => {
           {/* User Footer */}
           <div className="p-6 border-t border-[#222] bg-black space-y-4">
               {userProfile && (
-                  <div className="flex items-center gap-3 px-2">
+                  <button onClick={() => openModal('profile')} title={t.profile} className="w-full flex items-center gap-3 px-2 text-left rounded-lg hover:bg-[#111] transition-colors">
                       <div className="w-9 h-9 rounded-full bg-[#111] border border-[#222] flex items-center justify-center shrink-0 text-neutral-400">
                           <UserIcon className="w-4 h-4" />
                       </div>
@@ -324,12 +856,19 @@ const App: React.FC = () => {
                               {userProfile.system_role === 'admin' ? 'Administrator' : 'Student'}
                           </span>
                       </div>
-                  </div>
+                  </button>
               )}
 
+              <button
+                onClick={() => { openModal('notes'); setIsSidebarOpen(false); }}
+                className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-lg bg-[#1a1a1a] border border-[#333] text-[#888] hover:text-white hover:border-[#555] transition-all text-xs font-bold uppercase tracking-wider"
+              >
+                  <NotebookPen className="w-4 h-4" /> {t.my_notes}
+              </button>
+
               {userProfile && userProfile.system_role === 'admin' && (
                   <button 
-                    onClick={() => setActiveModal('settings')}
+                    onClick={() => openModal('settings')}
                     className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-lg bg-[#1a1a1a] border border-[#333] text-[#888] hover:text-white hover:border-[#555] transition-all text-xs font-bold uppercase tracking-wider"
                   >
                       <Settings className="w-4 h-4" /> {t.settings}
@@ -376,16 +915,17 @@ const App: React.FC = () => {
            <header className="hidden md:flex h-24 bg-[#050505] z-10 border-b border-white/5 relative items-center px-8 md:px-12">
                <div className="w-full max-w-5xl mx-auto flex items-center justify-between">
                    <nav className="flex items-center gap-8 lg:gap-10 text-xs font-bold uppercase tracking-[0.2em] text-neutral-500">
-                       <NavButton onClick={() => setActiveModal('articles')} label="Статьи" isActive={activeModal === 'articles'} />
-                       <NavButton onClick={() => setActiveModal('dictionary')} label="Словарь" isActive={activeModal === 'dictionary'} />
-                       <NavButton onClick={() => setActiveModal('navazu')} label="Навадзу" isActive={activeModal === 'navazu'} />
-                       <NavButton onClick={() => setActiveModal('shop')} label="Магазин" isActive={activeModal === 'shop'} />
-                       <NavButton onClick={() => setActiveModal('courses')} label="Курсы" isActive={activeModal === 'courses'} />
-                       <NavButton onClick={() => setActiveModal('catalog')} label="Каталог" isActive={activeModal === 'catalog'} />
-                       <NavButton onClick={() => setActiveModal('history')} label="История" isActive={activeModal === 'history'} />
-                       <NavButton onClick={() => setActiveModal('kinbakushi')} label="Мастера" isActive={activeModal === 'kinbakushi'} />
-                       <NavButton onClick={() => setActiveModal('events')} label="Афиша" isActive={activeModal === 'events'} />
-                       <NavButton onClick={() => setActiveModal('resources')} label="Ресурсы" isActive={activeModal === 'resources'} />
+                       <NavButton onClick={() => openModal('articles')} label="Статьи" isActive={activeModal === 'articles'} />
+                       <NavButton onClick={() => openModal('dictionary')} label="Словарь" isActive={activeModal === 'dictionary'} />
+                       <NavButton onClick={() => openModal('navazu')} label="Навадзу" isActive={activeModal === 'navazu'} />
+                       <NavButton onClick={() => openModal('shop')} label="Магазин" isActive={activeModal === 'shop'} />
+                       <NavButton onClick={() => openModal('courses')} label="Курсы" isActive={activeModal === 'courses'} />
+                       <NavButton onClick={() => openModal('catalog')} label="Каталог" isActive={activeModal === 'catalog'} />
+                       <NavButton onClick={() => openModal('history')} label="История" isActive={activeModal === 'history'} />
+                       <NavButton onClick={() => openModal('kinbakushi')} label="Мастера" isActive={activeModal === 'kinbakushi'} />
+                       <NavButton onClick={() => openModal('events')} label="Афиша" isActive={activeModal === 'events'} />
+                       <NavButton onClick={() => openModal('resources')} label="Ресурсы" isActive={activeModal === 'resources'} />
+                       <NavButton onClick={() => openModal('notes')} label="Заметки" isActive={activeModal === 'notes'} />
                    </nav>
                </div>
            </header>
@@ -395,10 +935,13 @@ const App: React.FC = () => {
                <div className="px-6 md:px-12 py-10 max-w-[1600px] mx-auto pb-32">
                    
                    <div className="mb-8 w-full max-w-5xl mx-auto flex flex-col items-start text-left relative">
-                       {/* Floating Dictionary Button */}
-                       <div className="absolute right-0 top-0">
+                       {/* Floating Bookmark & Dictionary Buttons */}
+                       <div className="absolute right-0 top-0 flex items-center gap-4">
+                            {isProgressReady && (
+                                <BookmarkButton isActive={isBookmarked('lesson', activeLesson.id)} onToggle={() => toggleBookmark('lesson', activeLesson.id)} t={t} iconClassName="w-7 h-7" />
+                            )}
                             <button 
-                                    onClick={() => setActiveModal('dictionary')}
+                                    onClick={() => openModal('dictionary')}
                                     className="text-[#444] hover:text-white transition-colors"
                                     title={t.dictionary}
                             >
@@ -406,63 +949,145 @@ const App: React.FC = () => {
                             </button>
                        </div>
 
-                       <div className="inline-block px-3 py-1.5 mb-4 text-[10px] font-bold text-red-500 bg-red-900/10 border border-red-900/30 rounded uppercase tracking-widest">
-                           {t.current_lesson}
+                       <div className="flex flex-wrap items-center gap-3 mb-4">
+                           <div className="inline-block px-3 py-1.5 text-[10px] font-bold text-red-500 bg-red-900/10 border border-red-900/30 rounded uppercase tracking-widest">
+                               {t.current_lesson}
+                           </div>
+                           {activeLessonProgress?.status === 'completed' ? (
+                               <span className="flex items-center gap-1.5 text-[10px] font-bold text-green-500 uppercase tracking-widest">
+                                   <CheckCircle className="w-3.5 h-3.5" /> {t.lesson_completed}
+                               </span>
+                           ) : isProgressReady && !activeLessonLock && (
+                               <button
+                                   onClick={() => recordLessonProgress(activeLesson.id, { markCompleted: true })}
+                                   className="text-[10px] font-bold text-neutral-500 hover:text-white uppercase tracking-widest transition-colors"
+                               >
+                                   {t.mark_completed}
+                               </button>
+                           )}
                        </div>
                        <h2 className="text-3xl md:text-5xl font-black text-white tracking-tight leading-tight">
                            {getData(activeLesson, 'title')}
                        </h2>
                    </div>
 
-                   {/* Video Player */}
-                   <div className="mb-10 w-full max-w-5xl mx-auto">
-                       <div className="aspect-video bg-black rounded-xl overflow-hidden border border-[#222] shadow-[0_0_40px_rgba(0,0,0,0.5)] relative w-full">
-                           <VideoPlayer url={getData(activeLesson, 'video_url')} />
+                   {activeLessonLock ? (
+                       <div className="mb-10 w-full max-w-5xl mx-auto">
+                           <LessonLockedPanel
+                               lock={activeLessonLock}
+                               courses={courses}
+                               lessons={visibleLessons}
+                               pendingCourseIds={pendingCourseIds}
+                               onSignIn={() => openAuth('login')}
+                               onRegister={() => openAuth('register')}
+                               onOpenCourse={(courseId) => navigate(buildPath('courses', courseId))}
+                               onOpenLesson={openLessonQuiz}
+                               onContact={() => openModal('resources')}
+                               t={t}
+                               getData={getData}
+                           />
+                       </div>
+                   ) : (
+                       <>
+                       {/* Video Player */}
+                       <div ref={videoSectionRef} className="mb-10 w-full max-w-5xl mx-auto">
+                           <div className="aspect-video bg-black rounded-xl overflow-hidden border border-[#222] shadow-[0_0_40px_rgba(0,0,0,0.5)] relative w-full">
+                               <VideoPlayer
+                                   ref={videoPlayerRef}
+                                   url={getData(activeLesson, 'video_url')}
+                                   resumeAt={activeLessonProgress?.last_position || 0}
+                                   onPlayback={handleLessonPlayback}
+                               />
+                           </div>
                        </div>
-                   </div>
 
-                   {/* Related Articles Row */}
-                   <div className="w-full max-w-5xl mx-auto mb-12">
-                        <div className="flex items-center gap-3 mb-6 pl-1 border-b border-white/5 pb-4">
-                            <FileText className="w-4 h-4 text-red-600" />
-                            <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.15em]">
-                                {lang === 'ru' ? 'Материалы к уроку' : 'Related Materials'}
-                            </h3>
-                        </div>
-                        
-                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-                            {currentRelatedArticles.map((article, index) => (
-                                <button 
-                                        key={`${article.id}-${index}`}
-                                        onClick={() => setReadingArticle(article)}
-                                        className="bg-[#111] border border-[#222] rounded-xl text-left hover:border-red-900/30 transition-all group flex flex-col hover:-translate-y-1 shadow-sm hover:shadow-red-900/10 hover:bg-[#161616] p-5 h-full"
-                                >
-                                    <div className="flex justify-between items-start gap-4 mb-3">
-                                        <h4 className="text-sm font-bold text-white group-hover:text-red-500 transition-colors leading-snug">
-                                            {getData(article, 'title')}
-                                        </h4>
-                                        <span className="text-[10px] font-bold text-neutral-600 group-hover:text-red-500 font-mono uppercase bg-black/50 px-2 py-1 rounded transition-colors shrink-0">
-                                            #{index + 1}
-                                        </span>
-                                    </div>
-                                    
-                                    <p className="text-xs text-neutral-500 line-clamp-2 leading-relaxed">
-                                        {getData(article, 'description')}
-                                    </p>
-                                </button>
-                            ))}
-                        </div>
-                   </div>
+                       {/* Chapters */}
+                       {chapters.length > 0 && (
+                           <div className="w-full max-w-5xl mx-auto mb-12">
+                               <VideoChapters chapters={chapters} activeIndex={activeChapter} onSeek={seekToChapter} lang={lang} t={t} />
+                           </div>
+                       )}
 
-                   {/* Text Content (With Dictionary Hooks) */}
-                   <div className="w-full max-w-5xl mx-auto border-t border-white/5 pt-10">
-                        <TextContent 
-                            paragraphs={getData(activeLesson, 'content') || []} 
-                            dictionary={dictionary} 
-                            onWordClick={setSelectedTerm}
-                            lang={lang}
-                        />
-                   </div>
+                       {/* Timed Transcript (from the lesson subtitles) */}
+                       {transcript.length > 0 && (
+                           <LessonTranscript segments={transcript} activeIndex={activeSegment} onSeek={seekToSegment} t={t} />
+                       )}
+
+                       {/* Private Notes */}
+                       {isProgressReady && (
+                           <div className="w-full max-w-5xl mx-auto mb-12">
+                               <LessonNotes
+                                   notes={activeLessonNotes}
+                                   getVideoTime={() => videoTimeRef.current}
+                                   onAdd={(text, videoTime) => putNote(createNote(activeLesson.id, text, videoTime))}
+                                   onUpdate={putNote}
+                                   onDelete={removeNote}
+                                   onSeek={seekFromText}
+                                   t={t}
+                               />
+                           </div>
+                       )}
+
+                       {/* Related Articles Row */}
+                       <div className="w-full max-w-5xl mx-auto mb-12">
+                            <div className="flex items-center gap-3 mb-6 pl-1 border-b border-white/5 pb-4">
+                                <FileText className="w-4 h-4 text-red-600" />
+                                <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.15em]">
+                                    {lang === 'ru' ? 'Материалы к уроку' : 'Related Materials'}
+                                </h3>
+                            </div>
+                            
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                                {currentRelatedArticles.map((article, index) => (
+                                    <button 
+                                            key={`${article.id}-${index}`}
+                                            onClick={() => openArticle(article)}
+                                            className="bg-[#111] border border-[#222] rounded-xl text-left hover:border-red-900/30 transition-all group flex flex-col hover:-translate-y-1 shadow-sm hover:shadow-red-900/10 hover:bg-[#161616] p-5 h-full"
+                                    >
+                                        <div className="flex justify-between items-start gap-4 mb-3">
+                                            <h4 className="text-sm font-bold text-white group-hover:text-red-500 transition-colors leading-snug">
+                                                {getData(article, 'title')}
+                                            </h4>
+                                            <span className="text-[10px] font-bold text-neutral-600 group-hover:text-red-500 font-mono uppercase bg-black/50 px-2 py-1 rounded transition-colors shrink-0">
+                                                #{index + 1}
+                                            </span>
+                                        </div>
+                                        
+                                        <p className="text-xs text-neutral-500 line-clamp-2 leading-relaxed">
+                                            {getData(article, 'description')}
+                                        </p>
+                                    </button>
+                                ))}
+                            </div>
+                       </div>
+
+                       {/* Text Content (With Dictionary Hooks) */}
+                       <div className="w-full max-w-5xl mx-auto border-t border-white/5 pt-10">
+                            <TextContent 
+                                paragraphs={getData(activeLesson, 'content') || []} 
+                                dictionary={dictionary} 
+                                onWordClick={setSelectedTerm}
+                                lang={lang}
+                                onTimestampClick={seekFromText}
+                            />
+                            <div ref={readSentinelRef} className="h-px" />
+                       </div>
+
+                       {/* Knowledge Check */}
+                       {!!lessonQuizzes[activeLesson.id]?.questions.length && (
+                           <div ref={quizSectionRef}>
+                               <LessonQuiz
+                                   key={`${activeLesson.id}-${isProgressReady}`} // Remount once saved results arrive
+                                   quiz={lessonQuizzes[activeLesson.id]}
+                                   result={quizResults[activeLesson.id]}
+                                   onSubmit={(answers) => submitQuiz(activeLesson.id, answers)}
+                                   lang={lang}
+                                   t={t}
+                               />
+                           </div>
+                       )}
+                       </>
+                   )}
 
                    <div className="text-center mt-20 text-[#333] text-xs uppercase tracking-widest font-bold">
                        {t.copyright}
@@ -487,62 +1112,159 @@ const App: React.FC = () => {
        </main>
 
        {/* --- MODALS & OVERLAYS --- */}
+
+       {/* Before the dictionary drawer: a bookmarked term opens on top of it */}
+       <NotesModal
+         isOpen={activeModal === 'notes'}
+         onClose={closeModal}
+         notes={notes}
+         bookmarks={bookmarks}
+         lessons={visibleLessons}
+         articles={articles}
+         catalogVideos={catalogVideos}
+         dictionary={dictionary}
+         onOpenNote={openNote}
+         onOpenArticle={openArticle}
+         onOpenVideo={(v) => navigate(buildPath('catalog', v.id))}
+         onOpenTerm={setSelectedTerm}
+         onDeleteNote={removeNote}
+         onToggleBookmark={toggleBookmark}
+         lang={lang}
+         t={t}
+         getData={getData}
+       />
        
        <DictionaryDrawer 
           term={selectedTerm} 
           dictionary={dictionary} 
           onClose={() => setSelectedTerm(null)} 
+          bookmarks={bookmarks}
+          onToggleBookmark={toggleBookmark}
           lang={lang} 
           t={t}
        />
 
        <CartDrawer 
           isOpen={isCartOpen} 
-          onClose={() => setIsCartOpen(false)} 
+          onClose={() => { setIsCartOpen(false); setCartNotice(null); }} 
           cart={cart} 
+          notice={cartNotice}
           userProfile={userProfile} 
           onUpdateQuantity={updateCartQuantity} 
           onRemove={removeFromCart} 
           onClear={() => setCart([])} 
+          onOrderPlaced={() => { fetchData(); fetchUserProfile(); }}
           t={t}
           getData={getData}
        />
 
-       {isAuthOpen && <AuthOverlay onLoginSuccess={() => { setIsAuthOpen(false); fetchData(); }} onClose={() => setIsAuthOpen(false)} t={t} />}
+       {isAuthOpen && <AuthOverlay key={authMode} initialMode={authMode} onLoginSuccess={() => { setIsAuthOpen(false); setAuthMode('login'); fetchData(); }} onClose={closeAuth} t={t} />}
+       <ProfileModal
+         isOpen={activeModal === 'profile' && !!userProfile}
+         onClose={closeModal}
+         userProfile={userProfile}
+         courses={courses}
+         entitledCourseIds={entitledCourseIds}
+         pendingCourseIds={pendingCourseIds}
+         onOpenCourse={(c) => navigate(buildPath('courses', c.id, entitledCourseIds.includes(c.id) ? new URLSearchParams({ watch: '1' }) : undefined))}
+         onProfileUpdated={fetchUserProfile}
+         onAccountDeleted={() => {
+             // The auth session is already gone; drop everything tied to the deleted user
+             setUserProfile(null);
+             setEntitledCourseIds([]);
+             clearGuestCart();
+             navigate(buildPath(null), { replace: true });
+         }}
+         t={t}
+         getData={getData}
+       />
 
-       <MarketplaceModal isOpen={activeModal === 'shop'} onClose={() => setActiveModal(null)} products={products} cart={cart} addToCart={addToCart} openCart={() => setIsCartOpen(true)} lang={lang} t={t} getData={getData} />
-       <CoursesModal isOpen={activeModal === 'courses'} onClose={() => setActiveModal(null)} courses={courses} cart={cart} addToCart={addToCart} openCart={() => setIsCartOpen(true)} lang={lang} t={t} getData={getData} />
-       <CatalogModal isOpen={activeModal === 'catalog'} onClose={() => setActiveModal(null)} categories={catalogCategories} videos={catalogVideos} lang={lang} t={t} />
-       <HistoryModal isOpen={activeModal === 'history'} onClose={() => setActiveModal(null)} events={historyEvents} lang={lang} t={t} />
-       <KinbakushiModal isOpen={activeModal === 'kinbakushi'} onClose={() => setActiveModal(null)} lang={lang} t={t} />
-       <EventsModal isOpen={activeModal === 'events'} onClose={() => setActiveModal(null)} events={events} lang={lang} t={t} />
-       <NavazuModal isOpen={activeModal === 'navazu'} onClose={() => setActiveModal(null)} lang={lang} />
-       <ResourcesModal isOpen={activeModal === 'resources'} onClose={() => setActiveModal(null)} resources={INITIAL_SOCIAL_RESOURCES} lang={lang} t={t} />
-       <GlossaryModal isOpen={activeModal === 'dictionary'} onClose={() => setActiveModal(null)} dictionary={dictionary} lang={lang} t={t} />
+       <MarketplaceModal 
+         isOpen={activeModal === 'shop'} 
+         onClose={closeModal} 
+         products={products} 
+         cart={cart} 
+         addToCart={addToCart} 
+         openCart={() => setIsCartOpen(true)} 
+         selectedProductId={activeModal === 'shop' ? routeItemNumber : null}
+         onSelectProduct={(p) => p ? navigate(buildPath('shop', p.id)) : goBack(buildPath('shop'))}
+         lang={lang} 
+         t={t} 
+         getData={getData} 
+       />
+       <CoursesModal 
+         isOpen={activeModal === 'courses'} 
+         onClose={closeModal} 
+         courses={courses} 
+         cart={cart} 
+         addToCart={addToCart} 
+         openCart={() => setIsCartOpen(true)} 
+         selectedCourseId={activeModal === 'courses' ? routeItemNumber : null}
+         onSelectCourse={(c) => c ? navigate(buildPath('courses', c.id)) : goBack(buildPath('courses'))}
+         entitledCourseIds={accessibleCourseIds}
+         pendingCourseIds={pendingCourseIds}
+         isPlayerOpen={activeModal === 'courses' && route.query.get('watch') === '1'}
+         onTogglePlayer={(open) => open
+             ? navigate(buildPath('courses', route.itemId, new URLSearchParams({ watch: '1' })))
+             : goBack(buildPath('courses', route.itemId))}
+         lang={lang} 
+         t={t} 
+         getData={getData} 
+       />
+       <CatalogModal 
+         isOpen={activeModal === 'catalog'} 
+         onClose={closeModal} 
+         categories={catalogCategories} 
+         videos={catalogVideos} 
+         filters={catalogFilters}
+         onFiltersChange={(f) => navigate(buildPath('catalog', route.itemId, encodeCatalogFilters(f)), { replace: true })}
+         activeVideoId={activeModal === 'catalog' ? routeItemNumber : null}
+         onSelectVideo={(v) => v ? navigate(buildPath('catalog', v.id, route.query)) : goBack(buildPath('catalog', null, route.query))}
+         bookmarks={bookmarks}
+         onToggleBookmark={toggleBookmark}
+         lang={lang} 
+         t={t} 
+       />
+       <HistoryModal isOpen={activeModal === 'history'} onClose={closeModal} events={historyEvents} lang={lang} t={t} />
+       <KinbakushiModal isOpen={activeModal === 'kinbakushi'} onClose={closeModal} lang={lang} t={t} />
+       <EventsModal 
+         isOpen={activeModal === 'events'} 
+         onClose={closeModal} 
+         events={events} 
+         selectedEventId={activeModal === 'events' ? routeItemNumber : null}
+         onSelectEvent={(e) => e ? navigate(buildPath('events', e.id)) : goBack(buildPath('events'))}
+         lang={lang} 
+         t={t} 
+       />
+       <NavazuModal isOpen={activeModal === 'navazu'} onClose={closeModal} lang={lang} />
+       <ResourcesModal isOpen={activeModal === 'resources'} onClose={closeModal} resources={appSettings?.social_resources?.length ? appSettings.social_resources : INITIAL_SOCIAL_RESOURCES} lang={lang} t={t} />
+       <GlossaryModal isOpen={activeModal === 'dictionary'} onClose={closeModal} dictionary={dictionary} bookmarks={bookmarks} onToggleBookmark={toggleBookmark} lang={lang} t={t} />
 
+       {/* /articles shows the list, /articles/:id shows only the reader */}
        <ArticlesModal 
-         isOpen={activeModal === 'articles'} 
-         onClose={() => setActiveModal(null)} 
+         isOpen={activeModal === 'articles' && !route.itemId} 
+         onClose={closeModal} 
          articles={articles} 
-         lessons={lessons}
-         onSelectArticle={(a) => { setActiveModal(null); setReadingArticle(a); }}
+         lessons={visibleLessons}
+         onSelectArticle={openArticle}
          lang={lang}
          t={t}
          getData={getData}
        />
        <ArticleReader 
          article={readingArticle} 
-         onClose={() => setReadingArticle(null)} 
+         onClose={() => goBack(buildPath('articles'))} 
+         isBookmarked={!!readingArticle && isBookmarked('article', readingArticle.id)}
+         onToggleBookmark={() => readingArticle && toggleBookmark('article', readingArticle.id)}
          lang={lang} 
          t={t}
          getData={getData}
        />
 
        <SettingsModal 
-          isOpen={activeModal === 'settings'} 
-          onClose={() => setActiveModal(null)} 
+          isOpen={activeModal === 'settings' && userProfile?.system_role === 'admin'} 
+          onClose={closeModal} 
           lessons={lessons} 
-          onUpdateLesson={handleUpdateLesson}
           products={products}
           courses={courses}
           events={events}
@@ -551,7 +1273,8 @@ const App: React.FC = () => {
           catalogCategories={catalogCategories}
           catalogVideos={catalogVideos}
           dictionary={dictionary}
-          onRefresh={fetchData}
+          onRefresh={() => { fetchData(); fetchAppSettings(); }}
+          currentUserId={userProfile?.id}
        />
 
     </div>
@@ -0,0 +1,399 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Loader2, RefreshCw, BarChart3, Users, Clock, ShoppingCart, AlertTriangle } from 'lucide-react';
+import { MetricGoal } from '../types';
+import { supabase } from '../supabaseClient';
+
+interface SessionRow {
+  session_id: string;
+  user_id: string | null;
+  log_data: any;
+  updated_at: string;
+}
+
+interface Bucket {
+  key: string;
+  count: number;
+}
+
+interface Segment {
+  device: string;
+  source: string;
+  audience: 'all' | 'guest' | 'member';
+  goal: string;
+}
+
+const DEFAULT_SEGMENT: Segment = { device: 'all', source: 'all', audience: 'all', goal: 'all' };
+
+// Sessions are loaded in one request; beyond this the range should be narrowed.
+const SESSION_LIMIT = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UTM_KEYS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+
+const SCROLL_BUCKETS = [
+  { key: '0–24%', min: 0, max: 24 },
+  { key: '25–49%', min: 25, max: 49 },
+  { key: '50–74%', min: 50, max: 74 },
+  { key: '75–99%', min: 75, max: 99 },
+  { key: '100%', min: 100, max: 100 }
+];
+
+// --- Helpers ---
+
+const toDateKey = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Local midnight of a YYYY-MM-DD input value
+const parseDateKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d).getTime();
+};
+
+const sessionStart = (row: SessionRow): number => row.log_data?.temporal?.session_start_ts || Date.parse(row.updated_at);
+
+const countBy = (rows: SessionRow[], pick: (row: SessionRow) => string | null | undefined): Bucket[] => {
+  const counts: Record<string, number> = {};
+  rows.forEach(row => {
+      const key = pick(row);
+      if (key === null || key === undefined || key === '') return;
+      counts[key] = (counts[key] || 0) + 1;
+  });
+  return Object.entries(counts).map(([key, count]) => ({ key, count })).sort((a, b) => b.count - a.count);
+};
+
+const percent = (part: number, total: number) => total > 0 ? Math.round(part / total * 100) : 0;
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.round(seconds % 60);
+  return m > 0 ? `${m}м ${s}с` : `${s}с`;
+};
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+const matchesSegment = (row: SessionRow, segment: Segment) => {
+  const log = row.log_data || {};
+  if (segment.device !== 'all' && log.context?.device_category !== segment.device) return false;
+  if (segment.source !== 'all' && log.source?.traffic_source !== segment.source) return false;
+  if (segment.audience === 'guest' && row.user_id) return false;
+  if (segment.audience === 'member' && !row.user_id) return false;
+  if (segment.goal !== 'all' && !(log._internal?.goals_reached || []).includes(segment.goal)) return false;
+  return true;
+};
+
+// --- Component ---
+
+const AnalyticsDashboard: React.FC = () => {
+  const [dateFrom, setDateFrom] = useState(() => toDateKey(Date.now() - 29 * DAY_MS));
+  const [dateTo, setDateTo] = useState(() => toDateKey(Date.now()));
+  const [segment, setSegment] = useState<Segment>(DEFAULT_SEGMENT);
+  const [utmKey, setUtmKey] = useState('utm_source');
+
+  const [rows, setRows] = useState<SessionRow[]>([]);
+  const [configuredGoals, setConfiguredGoals] = useState<MetricGoal[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+      if (!supabase) {
+          setError("No database connection");
+          return;
+      }
+      setIsLoading(true);
+      setError(null);
+      try {
+          // updated_at is always >= session start, so the lower bound is exact;
+          // the upper bound is padded for sessions that were still syncing the next day.
+          const { data, error } = await supabase
+              .from('user_behavior_logs_shibari')
+              .select('session_id, user_id, log_data, updated_at')
+              .gte('updated_at', new Date(parseDateKey(dateFrom)).toISOString())
+              .lt('updated_at', new Date(parseDateKey(dateTo) + 2 * DAY_MS).toISOString())
+              .order('updated_at', { ascending: false })
+              .limit(SESSION_LIMIT);
+          if (error) throw error;
+          setRows((data || []) as SessionRow[]);
+      } catch (e: any) {
+          console.error("Error loading analytics:", e);
+          setError(e.message);
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  useEffect(() => { loadSessions(); }, [dateFrom, dateTo]);
+
+  useEffect(() => {
+      if (!supabase) return;
+      supabase.from('app_settings').select('goals_config').limit(1).maybeSingle()
+          .then(({ data }) => setConfiguredGoals(data?.goals_config || []));
+  }, []);
+
+  const setPreset = (days: number) => {
+      setDateFrom(toDateKey(Date.now() - (days - 1) * DAY_MS));
+      setDateTo(toDateKey(Date.now()));
+  };
+
+  // Sessions that started inside the selected range
+  const inRange = useMemo(() => {
+      const from = parseDateKey(dateFrom);
+      const to = parseDateKey(dateTo) + DAY_MS;
+      return rows.filter(row => {
+          const ts = sessionStart(row);
+          return ts >= from && ts < to;
+      });
+  }, [rows, dateFrom, dateTo]);
+
+  // Filter options come from the range, before the segment is applied
+  const sourceOptions = useMemo(() => countBy(inRange, r => r.log_data?.source?.traffic_source).map(b => b.key), [inRange]);
+  const goalNames = useMemo(() => {
+      const names = new Set(configuredGoals.map(g => g.name));
+      inRange.forEach(r => (r.log_data?._internal?.goals_reached || []).forEach((n: string) => names.add(n)));
+      return Array.from(names);
+  }, [inRange, configuredGoals]);
+
+  const sessions = useMemo(() => inRange.filter(row => matchesSegment(row, segment)), [inRange, segment]);
+  const total = sessions.length;
+
+  // --- Aggregations ---
+
+  const daily = useMemo(() => {
+      const counts = countBy(sessions, r => toDateKey(sessionStart(r)));
+      const byDay: Record<string, number> = {};
+      counts.forEach(b => { byDay[b.key] = b.count; });
+
+      const days: Bucket[] = [];
+      for (let ts = parseDateKey(dateFrom); ts <= parseDateKey(dateTo); ts += DAY_MS) {
+          const key = toDateKey(ts);
+          days.push({ key, count: byDay[key] || 0 });
+      }
+      return days;
+  }, [sessions, dateFrom, dateTo]);
+
+  const summary = useMemo(() => ({
+      avgActive: average(sessions.map(r => r.log_data?._internal?.active_seconds || 0)),
+      avgPageviews: average(sessions.map(r => r.log_data?.behavior?.total_pageviews || 0)),
+      members: sessions.filter(r => r.user_id).length
+  }), [sessions]);
+
+  const sources = useMemo(() => countBy(sessions, r => r.log_data?.source?.traffic_source), [sessions]);
+  const utm = useMemo(() => countBy(sessions, r => r.log_data?.source?.utm?.[utmKey]), [sessions, utmKey]);
+  const devices = useMemo(() => countBy(sessions, r => r.log_data?.context?.device_category), [sessions]);
+  const systems = useMemo(() => countBy(sessions, r => r.log_data?.context?.os_type), [sessions]);
+
+  const funnel = useMemo(() => {
+      const viewers = sessions.filter(r => (r.log_data?.ecommerce?.viewed_product_count || 0) > 0);
+      const adders = sessions.filter(r => (r.log_data?.ecommerce?.cart_adds_count || 0) > 0);
+      return {
+          viewers: viewers.length,
+          adders: adders.length,
+          avgRatio: average(viewers.map(r => r.log_data?.calculated?.cart_to_detail_ratio || 0))
+      };
+  }, [sessions]);
+
+  const scroll = useMemo(() => SCROLL_BUCKETS.map(bucket => ({
+      key: bucket.key,
+      count: sessions.filter(r => {
+          const depth = Math.round(r.log_data?.behavior?.max_scroll_depth || 0);
+          return depth >= bucket.min && depth <= bucket.max;
+      }).length
+  })), [sessions]);
+
+  const goals = useMemo(() => goalNames.map(name => ({
+      key: name,
+      label: configuredGoals.find(g => g.name === name)?.label,
+      count: sessions.filter(r => (r.log_data?._internal?.goals_reached || []).includes(name)).length
+  })), [sessions, goalNames, configuredGoals]);
+
+  const maxDaily = Math.max(1, ...daily.map(d => d.count));
+  const selectClass = "bg-neutral-900 border border-neutral-800 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-red-600";
+
+  return (
+    <div className="space-y-6 pb-10">
+        {/* Filters */}
+        <div className="bg-neutral-900/30 p-4 rounded-xl border border-neutral-800 flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+                <label className="text-[10px] font-bold text-neutral-500 uppercase">С</label>
+                <input type="date" value={dateFrom} max={dateTo} onChange={e => e.target.value && setDateFrom(e.target.value)} className={selectClass} />
+            </div>
+            <div className="space-y-1">
+                <label className="text-[10px] font-bold text-neutral-500 uppercase">По</label>
+                <input type="date" value={dateTo} min={dateFrom} onChange={e => e.target.value && setDateTo(e.target.value)} className={selectClass} />
+            </div>
+            <div className="flex gap-1">
+                {[7, 30, 90].map(days => (
+                    <button key={days} onClick={() => setPreset(days)} className="px-3 py-2 text-xs font-bold rounded-lg bg-neutral-800 text-neutral-400 hover:text-white">{days}д</button>
+                ))}
+            </div>
+
+            <div className="w-px h-8 bg-neutral-800 mx-1 hidden md:block" />
+
+            <select value={segment.device} onChange={e => setSegment({ ...segment, device: e.target.value })} className={selectClass}>
+                <option value="all">Все устройства</option>
+                <option value="desktop">desktop</option>
+                <option value="mobile">mobile</option>
+                <option value="tablet">tablet</option>
+            </select>
+            <select value={segment.source} onChange={e => setSegment({ ...segment, source: e.target.value })} className={selectClass}>
+                <option value="all">Все источники</option>
+                {sourceOptions.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <select value={segment.audience} onChange={e => setSegment({ ...segment, audience: e.target.value as Segment['audience'] })} className={selectClass}>
+                <option value="all">Все посетители</option>
+                <option value="guest">Гости</option>
+                <option value="member">Ученики (вход)</option>
+            </select>
+            <select value={segment.goal} onChange={e => setSegment({ ...segment, goal: e.target.value })} className={selectClass}>
+                <option value="all">Любые цели</option>
+                {goalNames.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+
+            <button onClick={loadSessions} disabled={isLoading} className="ml-auto px-4 py-2 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-white text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin"/> : <RefreshCw className="w-4 h-4"/>} Обновить
+            </button>
+        </div>
+
+        {error && (
+            <div className="bg-red-900/20 border border-red-900/50 p-3 rounded-lg text-xs text-red-200 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 shrink-0"/> Ошибка загрузки: {error}
+            </div>
+        )}
+        {rows.length >= SESSION_LIMIT && (
+            <div className="bg-yellow-900/20 border border-yellow-900/50 p-3 rounded-lg text-xs text-yellow-200">
+                Загружено максимум {SESSION_LIMIT} сессий — сузьте период для точных цифр.
+            </div>
+        )}
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatCard icon={BarChart3} label="Сессии" value={String(total)} />
+            <StatCard icon={Clock} label="Активное время (ср.)" value={formatDuration(summary.avgActive)} />
+            <StatCard icon={Users} label="Ученики" value={`${percent(summary.members, total)}%`} hint={`${summary.members} сессий`} />
+            <StatCard icon={ShoppingCart} label="Добавили в корзину" value={`${percent(funnel.adders, total)}%`} hint={`${summary.avgPageviews.toFixed(1)} стр./сессия`} />
+        </div>
+
+        {/* Sessions over time */}
+        <Panel title="Сессии по дням">
+            {total === 0 ? <Empty /> : (
+                <div className="flex items-end gap-[2px] h-40">
+                    {daily.map(day => (
+                        <div key={day.key} className="flex-1 h-full flex flex-col justify-end group relative" title={`${day.key}: ${day.count}`}>
+                            <div className="bg-red-600/70 group-hover:bg-red-500 rounded-t-sm min-h-[1px]" style={{ height: `${day.count / maxDaily * 100}%` }} />
+                        </div>
+                    ))}
+                </div>
+            )}
+            {total > 0 && (
+                <div className="flex justify-between text-[10px] text-neutral-600 font-mono mt-2">
+                    <span>{dateFrom}</span><span>{dateTo}</span>
+                </div>
+            )}
+        </Panel>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Panel title="Источники трафика">
+                <BarList items={sources} total={total} />
+            </Panel>
+            <Panel
+                title="UTM-метки"
+                action={
+                    <select value={utmKey} onChange={e => setUtmKey(e.target.value)} className="bg-neutral-900 border border-neutral-800 rounded px-2 py-1 text-xs text-white outline-none">
+                        {UTM_KEYS.map(k => <option key={k} value={k}>{k}</option>)}
+                    </select>
+                }
+            >
+                <BarList items={utm} total={total} />
+            </Panel>
+            <Panel title="Устройства">
+                <BarList items={devices} total={total} />
+            </Panel>
+            <Panel title="Операционные системы">
+                <BarList items={systems} total={total} />
+            </Panel>
+
+            <Panel title="Воронка: товар → корзина">
+                {total === 0 ? <Empty /> : (
+                    <div className="space-y-3">
+                        <BarList
+                            items={[
+                                { key: 'Все сессии', count: total },
+                                { key: 'Смотрели товар', count: funnel.viewers },
+                                { key: 'Добавили в корзину', count: funnel.adders }
+                            ]}
+                            total={total}
+                        />
+                        <p className="text-xs text-neutral-500">
+                            Из смотревших добавили: <span className="text-white font-bold">{percent(funnel.adders, funnel.viewers)}%</span>
+                            <span className="mx-2">·</span>
+                            cart_to_detail_ratio (ср.): <span className="text-white font-bold">{funnel.avgRatio.toFixed(2)}</span>
+                        </p>
+                    </div>
+                )}
+            </Panel>
+            <Panel title="Глубина скролла">
+                <BarList items={scroll} total={total} keepOrder />
+            </Panel>
+        </div>
+
+        <Panel title="Достижение целей">
+            {goals.length === 0 ? <Empty text="Цели не настроены" /> : (
+                <BarList items={goals.map(g => ({ key: g.label ? `${g.label} (${g.key})` : g.key, count: g.count }))} total={total} keepOrder />
+            )}
+        </Panel>
+    </div>
+  );
+};
+
+// --- Presentational pieces ---
+
+const StatCard: React.FC<{ icon: React.ElementType, label: string, value: string, hint?: string }> = ({ icon: Icon, label, value, hint }) => (
+    <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-4">
+        <div className="text-[10px] font-bold text-neutral-500 uppercase flex items-center gap-1"><Icon className="w-3 h-3"/> {label}</div>
+        <div className="text-2xl font-bold text-white mt-1">{value}</div>
+        {hint && <div className="text-[10px] text-neutral-600 mt-1">{hint}</div>}
+    </div>
+);
+
+const Panel: React.FC<{ title: string, action?: React.ReactNode, children: React.ReactNode }> = ({ title, action, children }) => (
+    <div className="bg-neutral-900/30 border border-neutral-800 rounded-xl p-5">
+        <div className="flex items-center justify-between mb-4">
+            <h4 className="text-xs font-bold text-neutral-400 uppercase tracking-wider">{title}</h4>
+            {action}
+        </div>
+        {children}
+    </div>
+);
+
+const Empty: React.FC<{ text?: string }> = ({ text = 'Нет данных за период' }) => (
+    <div className="text-neutral-600 text-sm text-center py-6">{text}</div>
+);
+
+// Horizontal bars; share is relative to all sessions in the segment
+const BarList: React.FC<{ items: Bucket[], total: number, keepOrder?: boolean, limit?: number }> = ({ items, total, keepOrder, limit = 8 }) => {
+    if (total === 0 || items.length === 0) return <Empty />;
+    const list = keepOrder ? items : items.slice(0, limit);
+    const rest = keepOrder ? 0 : items.slice(limit).reduce((sum, b) => sum + b.count, 0);
+
+    return (
+        <div className="space-y-2">
+            {list.map(item => (
+                <div key={item.key}>
+                    <div className="flex justify-between text-xs mb-1">
+                        <span className="text-neutral-300 truncate pr-2">{item.key}</span>
+                        <span className="text-neutral-500 font-mono shrink-0">{item.count} · {percent(item.count, total)}%</span>
+                    </div>
+                    <div className="h-1.5 bg-neutral-800 rounded-full overflow-hidden">
+                        <div className="h-full bg-red-600" style={{ width: `${percent(item.count, total)}%` }} />
+                    </div>
+                </div>
+            ))}
+            {rest > 0 && <div className="text-[10px] text-neutral-600">Другие: {rest}</div>}
+        </div>
+    );
+};
+
+export default AnalyticsDashboard;
@@ -2,10 +2,11 @@
 import React, { useState } from 'react';
 import { 
   Plus, Trash2, Save, ArrowLeft, Image as ImageIcon, 
-  Type, AlignLeft, Grid, Layout, Upload, Loader2, X, Link as LinkIcon
+  Type, AlignLeft, Grid, Layout, Upload, Loader2, X, Link as LinkIcon, Languages
 } from 'lucide-react';
 import { Article, ArticleBlock, ArticleBlockType, ArticleImage } from '../types';
 import { supabase } from '../supabaseClient';
+import TranslationReview from './TranslationReview';
 
 interface ArticleConstructorProps {
   articles: Article[];
@@ -17,6 +18,7 @@ const ArticleConstructor: React.FC<ArticleConstructorProps> = ({ articles, onSav
   const [currentArticle, setCurrentArticle] = useState<Partial<Article>>({});
   const [blocks, setBlocks] = useState<ArticleBlock[]>([]);
   const [isSaving, setIsSaving] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
   const [uploadingImageId, setUploadingImageId] = useState<string | null>(null);
   
   // Состояние для переключения режима ввода (файл/ссылка) для каждой картинки: { "blockId-imgIndex": true }
@@ -50,6 +52,8 @@ const ArticleConstructor: React.FC<ArticleConstructorProps> = ({ articles, onSav
       const payload = {
         title: currentArticle.title,
         description: currentArticle.description,
+        title_en: currentArticle.title_en || null,
+        description_en: currentArticle.description_en || null,
         content: blocks, // Supabase автоматически сериализует JSON
         url: currentArticle.url || `#article-${Date.now()}` // Генерируем заглушку, если нет
       };
@@ -91,6 +95,8 @@ create table if not exists public.letter_shibari (
   created_at timestamp with time zone default timezone('utc'::text, now()) not null,
   title text,
   description text,
+  title_en text,
+  description_en text,
   url text,
   content jsonb
 );
@@ -98,6 +104,8 @@ create table if not exists public.letter_shibari (
 -- 2. Добавляем колонки, если таблица была неполной
 alter table public.letter_shibari add column if not exists title text;
 alter table public.letter_shibari add column if not exists description text;
+alter table public.letter_shibari add column if not exists title_en text;
+alter table public.letter_shibari add column if not exists description_en text;
 alter table public.letter_shibari add column if not exists url text;
 alter table public.letter_shibari add column if not exists content jsonb;
 
@@ -162,6 +170,11 @@ $$;
     }
   };
 
+  const applyTranslation = (values: Record<string, string>) => {
+    setCurrentArticle(prev => ({ ...prev, ...values }));
+    setIsTranslating(false);
+  };
+
   // --- Block Management ---
 
   const addBlock = (type: ArticleBlockType) => {
@@ -312,14 +325,19 @@ $$;
         <button onClick={() => setView('list')} className="text-neutral-400 hover:text-white flex items-center gap-2">
             <ArrowLeft className="w-4 h-4" /> Назад
         </button>
-        <button 
-            onClick={handleSave} 
-            disabled={isSaving}
-            className="bg-green-700 hover:bg-green-600 text-white px-6 py-2 rounded-lg font-medium flex items-center gap-2 disabled:opacity-50"
-        >
-            {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4" />}
-            Сохранить
-        </button>
+        <div className="flex gap-2">
+            <button onClick={() => setIsTranslating(true)} className="bg-blue-900/30 hover:bg-blue-900/50 text-blue-400 px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors">
+                <Languages className="w-4 h-4" /> Перевести на EN
+            </button>
+            <button 
+                onClick={handleSave} 
+                disabled={isSaving}
+                className="bg-green-700 hover:bg-green-600 text-white px-6 py-2 rounded-lg font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4" />}
+                Сохранить
+            </button>
+        </div>
       </div>
 
       <div className="flex-1 overflow-y-auto pr-2 space-y-6">
@@ -339,6 +357,22 @@ $$;
                 rows={2}
                 className="w-full bg-transparent text-neutral-400 text-sm resize-none outline-none"
             />
+            <div className="pt-4 border-t border-neutral-800 space-y-2">
+                <span className="bg-blue-900/30 text-blue-500 text-xs font-bold px-2 py-1 rounded">EN</span>
+                <input 
+                    value={currentArticle.title_en || ''}
+                    onChange={e => setCurrentArticle({...currentArticle, title_en: e.target.value})}
+                    placeholder="Title (English)"
+                    className="w-full bg-transparent text-xl font-bold text-white placeholder-neutral-600 outline-none"
+                />
+                <textarea 
+                    value={currentArticle.description_en || ''}
+                    onChange={e => setCurrentArticle({...currentArticle, description_en: e.target.value})}
+                    placeholder="Lead (English)..."
+                    rows={2}
+                    className="w-full bg-transparent text-neutral-400 text-sm resize-none outline-none"
+                />
+            </div>
         </div>
 
         {/* Blocks List */}
@@ -500,6 +534,17 @@ $$;
             </div>
         </div>
       </div>
+
+      {isTranslating && (
+          <TranslationReview
+              fields={[
+                  { key: 'title_en', label: 'Название', source: currentArticle.title || '', current: currentArticle.title_en || '' },
+                  { key: 'description_en', label: 'Лид', source: currentArticle.description || '', current: currentArticle.description_en || '' }
+              ]}
+              onApply={applyTranslation}
+              onClose={() => setIsTranslating(false)}
+          />
+      )}
     </div>
   );
 };
@@ -2,16 +2,19 @@
 import React from 'react';
 import { X, ArrowRight, ExternalLink } from 'lucide-react';
 import { Article, ArticleBlock } from '../types';
+import BookmarkButton from './BookmarkButton';
 
 interface ArticleReaderProps {
   article: Article | null;
   onClose: () => void;
+  isBookmarked?: boolean;
+  onToggleBookmark?: () => void;
   lang?: 'ru' | 'en';
   t?: any;
   getData?: (item: any, field: string) => string;
 }
 
-const ArticleReader: React.FC<ArticleReaderProps> = ({ article, onClose, lang='ru', t, getData }) => {
+const ArticleReader: React.FC<ArticleReaderProps> = ({ article, onClose, isBookmarked = false, onToggleBookmark, lang='ru', t, getData }) => {
   if (!article) return null;
   const _getData = getData || ((i: any, f: string) => i[f]);
 
@@ -36,12 +39,15 @@ const ArticleReader: React.FC<ArticleReaderProps> = ({ article, onClose, lang='r
                 {_getData(article, 'title')}
             </h1>
         </div>
-        <button 
-          onClick={onClose}
-          className="group flex items-center justify-center w-10 h-10 rounded-full bg-neutral-800 border border-neutral-700 text-neutral-400 hover:text-white hover:border-red-600 hover:bg-red-900/20 transition-all ml-4 shrink-0"
-        >
-          <X className="w-5 h-5" />
-        </button>
+        <div className="flex items-center gap-4 ml-4 shrink-0">
+            {onToggleBookmark && t && <BookmarkButton isActive={isBookmarked} onToggle={onToggleBookmark} t={t} />}
+            <button 
+              onClick={onClose}
+              className="group flex items-center justify-center w-10 h-10 rounded-full bg-neutral-800 border border-neutral-700 text-neutral-400 hover:text-white hover:border-red-600 hover:bg-red-900/20 transition-all"
+            >
+              <X className="w-5 h-5" />
+            </button>
+        </div>
       </div>
 
       {/* Content Scroll Area */}
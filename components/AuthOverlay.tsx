@@ -1,27 +1,44 @@
 
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../supabaseClient';
-import { UserProfile, ShibariRole, ExperienceLevel, SystemRole } from '../types';
-import { Loader2, ArrowRight, User, MapPin, Mail, Lock, Heart, Star, AlertCircle, X, CheckCircle } from 'lucide-react';
+import { UserProfile, ShibariRole, ExperienceLevel } from '../types';
+import { Loader2, ArrowRight, User, MapPin, Mail, Lock, Heart, Star, AlertCircle, X, CheckCircle, KeyRound, Wand2 } from 'lucide-react';
 import BehaviorTracker from '../utils/BehaviorTracker';
+import { UI_TRANSLATIONS } from '../constants';
+import { MIN_PASSWORD_LENGTH, authRedirectUrl, updatePassword, sendPasswordReset } from '../utils/auth';
+
+// 'recovery' is opened by App after a password reset link (Supabase PASSWORD_RECOVERY event)
+export type AuthMode = 'login' | 'register' | 'forgot' | 'magic' | 'recovery';
 
 interface AuthOverlayProps {
   onLoginSuccess: () => void;
   onClose?: () => void;
+  initialMode?: AuthMode;
   t?: any;
 }
 
-const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t }) => {
-  const [isLoginMode, setIsLoginMode] = useState(true);
+const MODE_TITLES: Record<AuthMode, (t: any) => string> = {
+  login: t => t.login,
+  register: t => t.register,
+  forgot: t => t.reset_password_title,
+  magic: t => t.magic_link,
+  recovery: t => t.new_password_title
+};
+
+const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, initialMode = 'login', t }) => {
+  const [mode, setMode] = useState<AuthMode>(initialMode);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
   // Fallback for missing translations
-  const _t = t || {
-      login: 'Login', register: 'Register', email: 'Email', password: 'Password',
-      user_name: 'Username', country: 'Country', city: 'City', role: 'Role', experience: 'Experience',
-      next: 'Next', back: 'Back', invalid_credentials: "Invalid login credentials", auth_error: "Auth Error", account_created: "Account created"
+  const _t = t || UI_TRANSLATIONS.en;
+
+  const switchMode = (next: AuthMode) => {
+      setMode(next);
+      setStep(1);
+      setError(null);
+      setSuccessMessage(null);
   };
 
   useEffect(() => {
@@ -34,7 +51,7 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
         if (errorDesc) {
             let msg = decodeURIComponent(errorDesc.replace(/\+/g, ' '));
             if (errorCode === 'otp_expired') {
-                msg = "Expired link.";
+                msg = _t.link_expired;
             }
             setError(msg);
             window.history.replaceState(null, '', window.location.pathname);
@@ -44,6 +61,7 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
 
   // Registration Form State
   const [step, setStep] = useState(1);
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -98,14 +116,13 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
     try {
       if (!supabase) throw new Error("Supabase client not initialized");
 
-      const systemRole: SystemRole = formData.email.includes('admin') ? 'admin' : 'user';
+      // No role in the metadata: admin rights come only from user_roles_shibari (see utils/roles)
       const metadata = {
         full_name: formData.fullName,
         country: formData.country,
         city: formData.city,
         shibari_role: formData.shibariRole,
-        experience_level: formData.experienceLevel,
-        system_role: systemRole
+        experience_level: formData.experienceLevel
       };
 
       const { data: authData, error: authError } = await supabase.auth.signUp({
@@ -122,7 +139,8 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
           const newProfile: Partial<UserProfile> = {
             id: authData.user.id,
             email: formData.email,
-            ...metadata
+            ...metadata,
+            system_role: 'user'
           };
           
           await supabase.from('user_shibari').insert([newProfile]);
@@ -130,9 +148,8 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
           onLoginSuccess();
       } else {
           // Email Confirm On - User must verify email
+          switchMode('login');
           setSuccessMessage(_t.account_created || "Account created! Check email.");
-          setIsLoginMode(true);
-          setStep(1);
           // Optional: Create profile here if not relying on session triggers, 
           // but better to let App.tsx fetch/create on first valid login session.
       }
@@ -145,6 +162,67 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
     }
   };
 
+  // --- Logic: Emailed links ---
+  // Reset: the link signs the user in and App reopens this overlay in 'recovery' mode.
+  // Magic link: only for existing accounts, registration still collects the profile fields.
+  const handleSendLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.email.includes('@')) {
+        setError(_t.email_required);
+        return;
+    }
+    setIsLoading(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      if (!supabase) throw new Error("Supabase client not initialized");
+
+      if (mode === 'forgot') {
+          await sendPasswordReset(formData.email);
+      } else {
+          const { error } = await supabase.auth.signInWithOtp({
+              email: formData.email,
+              options: { shouldCreateUser: false, emailRedirectTo: authRedirectUrl() }
+          });
+          if (error) throw error;
+      }
+
+      setSuccessMessage(mode === 'forgot' ? _t.reset_link_sent : _t.magic_link_sent);
+    } catch (err: any) {
+      console.error(err);
+      // Unknown emails are reported by signInWithOtp when shouldCreateUser is false
+      setError(mode === 'magic' && /signups not allowed/i.test(err.message || '') ? _t.magic_link_no_account : (err.message || _t.auth_error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSetNewPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.password.length < MIN_PASSWORD_LENGTH) {
+        setError(_t.password_too_short);
+        return;
+    }
+    if (formData.password !== confirmPassword) {
+        setError(_t.passwords_mismatch);
+        return;
+    }
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await updatePassword(formData.password);
+      setSuccessMessage(_t.password_updated);
+      setTimeout(onLoginSuccess, 1200);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || _t.auth_error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const renderStep1_Auth = () => (
     <div className="space-y-4 animate-in fade-in slide-in-from-right-8 duration-300">
         <h3 className="text-xl font-bold text-white mb-2">Auth Data</h3>
@@ -174,7 +252,7 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
         </div>
         <button 
             onClick={() => {
-                if(formData.email && formData.password.length >= 6) setStep(2);
+                if(formData.email && formData.password.length >= MIN_PASSWORD_LENGTH) setStep(2);
                 else setError("Enter email and password (min 6 chars)");
             }}
             className="w-full bg-neutral-800 hover:bg-neutral-700 text-white py-3 rounded-lg font-bold mt-4 flex items-center justify-center gap-2 transition-colors"
@@ -301,10 +379,10 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
             <div className="p-6 pb-2 flex justify-between items-start">
                  <div>
                     <h2 className="text-2xl font-bold text-white mb-1">
-                        {isLoginMode ? _t.login : _t.register}
+                        {MODE_TITLES[mode](_t)}
                     </h2>
                     <p className="text-sm text-neutral-400">
-                        {isLoginMode ? 'Welcome back.' : 'Create account.'}
+                        {mode === 'login' ? 'Welcome back.' : mode === 'register' ? 'Create account.' : mode === 'forgot' ? _t.reset_password_hint : mode === 'magic' ? _t.magic_link_hint : _t.new_password_hint}
                     </p>
                  </div>
                  {onClose && (
@@ -330,7 +408,7 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
                     </div>
                 )}
 
-                {isLoginMode ? (
+                {mode === 'login' && (
                     <form onSubmit={handleLogin} className="space-y-4 animate-in fade-in slide-in-from-right-8 duration-300">
                         <div className="space-y-2">
                             <label className="text-xs text-neutral-500 uppercase font-bold flex items-center gap-2">
@@ -349,6 +427,9 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
                                 <label className="text-xs text-neutral-500 uppercase font-bold flex items-center gap-2">
                                     <Lock className="w-3 h-3" /> {_t.password}
                                 </label>
+                                <button type="button" onClick={() => switchMode('forgot')} className="text-xs text-neutral-500 hover:text-red-500 transition-colors">
+                                    {_t.forgot_password}
+                                </button>
                              </div>
                             <input 
                                 type="password" 
@@ -365,8 +446,17 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
                         >
                             {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : _t.login}
                         </button>
+                        <button 
+                            type="button"
+                            onClick={() => switchMode('magic')}
+                            className="w-full bg-transparent border border-neutral-800 hover:border-neutral-600 text-neutral-300 hover:text-white py-3 rounded-lg font-bold text-sm flex items-center justify-center gap-2 transition-colors"
+                        >
+                            <Wand2 className="w-4 h-4" /> {_t.magic_link}
+                        </button>
                     </form>
-                ) : (
+                )}
+
+                {mode === 'register' && (
                     <>
                         {step === 1 && renderStep1_Auth()}
                         {step === 2 && renderStep2_Personal()}
@@ -374,17 +464,87 @@ const AuthOverlay: React.FC<AuthOverlayProps> = ({ onLoginSuccess, onClose, t })
                     </>
                 )}
 
-                <div className="mt-6 pt-6 border-t border-neutral-800 text-center">
-                    <p className="text-sm text-neutral-500">
-                        {isLoginMode ? 'No account?' : 'Have account?'}
+                {(mode === 'forgot' || mode === 'magic') && (
+                    <form onSubmit={handleSendLink} className="space-y-4 animate-in fade-in slide-in-from-right-8 duration-300">
+                        <div className="space-y-2">
+                            <label className="text-xs text-neutral-500 uppercase font-bold flex items-center gap-2">
+                                <Mail className="w-3 h-3" /> {_t.email}
+                            </label>
+                            <input 
+                                type="email" 
+                                value={formData.email}
+                                onChange={e => handleInputChange('email', e.target.value)}
+                                className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none transition-colors"
+                                placeholder="email@example.com"
+                            />
+                        </div>
                         <button 
-                            onClick={() => { setIsLoginMode(!isLoginMode); setStep(1); setError(null); setSuccessMessage(null); }}
-                            className="ml-2 text-white font-bold hover:text-red-500 transition-colors"
+                            type="submit" 
+                            disabled={isLoading}
+                            className="w-full bg-red-700 hover:bg-red-600 text-white py-3 rounded-lg font-bold mt-4 flex items-center justify-center gap-2 transition-all shadow-lg shadow-red-900/20"
                         >
-                            {isLoginMode ? _t.register : _t.login}
+                            {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : (mode === 'forgot' ? _t.send_reset_link : _t.send_magic_link)}
                         </button>
-                    </p>
-                </div>
+                    </form>
+                )}
+
+                {mode === 'recovery' && (
+                    <form onSubmit={handleSetNewPassword} className="space-y-4 animate-in fade-in slide-in-from-right-8 duration-300">
+                        <div className="space-y-2">
+                            <label className="text-xs text-neutral-500 uppercase font-bold flex items-center gap-2">
+                                <KeyRound className="w-3 h-3" /> {_t.new_password}
+                            </label>
+                            <input 
+                                type="password" 
+                                value={formData.password}
+                                onChange={e => handleInputChange('password', e.target.value)}
+                                className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none transition-colors"
+                                placeholder="••••••••"
+                                autoComplete="new-password"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className="text-xs text-neutral-500 uppercase font-bold flex items-center gap-2">
+                                <Lock className="w-3 h-3" /> {_t.confirm_password}
+                            </label>
+                            <input 
+                                type="password" 
+                                value={confirmPassword}
+                                onChange={e => { setConfirmPassword(e.target.value); setError(null); }}
+                                className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none transition-colors"
+                                placeholder="••••••••"
+                                autoComplete="new-password"
+                            />
+                        </div>
+                        <button 
+                            type="submit" 
+                            disabled={isLoading || !!successMessage}
+                            className="w-full bg-red-700 hover:bg-red-600 text-white py-3 rounded-lg font-bold mt-4 flex items-center justify-center gap-2 transition-all shadow-lg shadow-red-900/20 disabled:opacity-50"
+                        >
+                            {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : _t.save_password}
+                        </button>
+                    </form>
+                )}
+
+                {mode !== 'recovery' && (
+                    <div className="mt-6 pt-6 border-t border-neutral-800 text-center">
+                        {mode === 'login' || mode === 'register' ? (
+                            <p className="text-sm text-neutral-500">
+                                {mode === 'login' ? 'No account?' : 'Have account?'}
+                                <button 
+                                    onClick={() => switchMode(mode === 'login' ? 'register' : 'login')}
+                                    className="ml-2 text-white font-bold hover:text-red-500 transition-colors"
+                                >
+                                    {mode === 'login' ? _t.register : _t.login}
+                                </button>
+                            </p>
+                        ) : (
+                            <button onClick={() => switchMode('login')} className="text-sm text-white font-bold hover:text-red-500 transition-colors">
+                                {_t.back_to_login}
+                            </button>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
     </div>
@@ -0,0 +1,23 @@
+import React from 'react';
+import { Bookmark, BookmarkCheck } from 'lucide-react';
+
+interface BookmarkButtonProps {
+  isActive: boolean;
+  onToggle: () => void;
+  t: any;
+  className?: string;
+  iconClassName?: string;
+}
+
+// Adds the item to / removes it from the student's bookmarks ("My notes")
+const BookmarkButton: React.FC<BookmarkButtonProps> = ({ isActive, onToggle, t, className = '', iconClassName = 'w-5 h-5' }) => (
+  <button
+      onClick={(e) => { e.stopPropagation(); onToggle(); }}
+      title={isActive ? t.bookmark_remove : t.bookmark_add}
+      className={`transition-colors ${isActive ? 'text-red-500 hover:text-red-400' : 'text-neutral-500 hover:text-white'} ${className}`}
+  >
+      {isActive ? <BookmarkCheck className={iconClassName} /> : <Bookmark className={iconClassName} />}
+  </button>
+);
+
+export default BookmarkButton;
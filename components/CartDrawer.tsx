@@ -1,35 +1,120 @@
 
 import React, { useState } from 'react';
-import { X, ShoppingBag, Trash2, Plus, Minus, ArrowRight, CheckCircle, Loader2, AlertCircle, Mail } from 'lucide-react';
-import { CartItem, UserProfile, Order, OrderItem } from '../types';
+import { X, ShoppingBag, Trash2, Plus, Minus, ArrowRight, CheckCircle, Loader2, AlertCircle, Mail, Tag } from 'lucide-react';
+import { CartItem, UserProfile, Order, PromoCode } from '../types';
 import { supabase } from '../supabaseClient';
 import emailjs from '@emailjs/browser';
+import BehaviorTracker from '../utils/BehaviorTracker';
+import { placeOrder, ORDERS_REPAIR_SQL } from '../utils/orders';
+import { fetchPromoCode, validatePromoCode, calculateDiscount, PromoError } from '../utils/promo';
+import { stockShortagesOf } from '../utils/stock';
+import { cartLineKey, isCourseItem } from '../utils/cart';
+
+const PROMO_ERROR_FALLBACK: Record<PromoError, string> = {
+  promo_invalid: "Промокод не найден",
+  promo_expired: "Срок действия промокода истёк",
+  promo_limit_reached: "Промокод больше недоступен",
+  promo_not_applicable: "Промокод не действует на товары в корзине",
+  promo_login_required: "Войдите, чтобы использовать промокод"
+};
 
 interface CartDrawerProps {
   isOpen: boolean;
   onClose: () => void;
   cart: CartItem[];
+  notice?: { removed: string[]; repriced: string[] } | null; // Result of reconciling a restored cart
   userProfile: UserProfile | null;
-  onUpdateQuantity: (productId: number, delta: number) => void;
-  onRemove: (productId: number) => void;
+  onUpdateQuantity: (lineKey: string, delta: number) => void;
+  onRemove: (lineKey: string) => void;
   onClear: () => void;
+  onOrderPlaced?: () => void; // Reload catalog (stock changed)
   t?: any;
   getData?: any;
 }
 
 const CartDrawer: React.FC<CartDrawerProps> = ({ 
-  isOpen, onClose, cart, userProfile, onUpdateQuantity, onRemove, onClear, t, getData 
+  isOpen, onClose, cart, notice, userProfile, onUpdateQuantity, onRemove, onClear, onOrderPlaced, t, getData 
 }) => {
   const [isSuccess, setIsSuccess] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [guestEmail, setGuestEmail] = useState('');
 
+  // Promo
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<PromoCode | null>(null);
+  const [promoError, setPromoError] = useState<PromoError | null>(null);
+  const [isCheckingPromo, setIsCheckingPromo] = useState(false);
+
   const _getData = getData || ((i: any, f: string) => i[f]);
 
   const totalAmount = cart.reduce((sum, item) => sum + (item.product.price || 0) * item.quantity, 0);
 
+  // The applied code is re-checked on every cart change (e.g. the eligible item was removed).
+  // Codes are used against an account, so signing out drops it.
+  const promoProblem = appliedPromo ? (userProfile ? validatePromoCode(appliedPromo, cart) : 'promo_login_required') : null;
+  const discountAmount = appliedPromo && !promoProblem ? calculateDiscount(appliedPromo, cart) : 0;
+  const payableAmount = Math.max(0, totalAmount - discountAmount);
+
+  const promoErrorText = (key: PromoError) => t?.[key] || PROMO_ERROR_FALLBACK[key];
+
+  const handleApplyPromo = async () => {
+      if (!promoInput.trim()) return;
+      setIsCheckingPromo(true);
+      setPromoError(null);
+      try {
+          const promo = await fetchPromoCode(promoInput);
+          const problem = validatePromoCode(promo, cart);
+          if (problem) {
+              setPromoError(problem);
+              setAppliedPromo(null);
+          } else {
+              setAppliedPromo(promo);
+              setPromoInput('');
+          }
+      } catch (e) {
+          console.error("Promo check failed:", e);
+          setPromoError('promo_invalid');
+      } finally {
+          setIsCheckingPromo(false);
+      }
+  };
+
+  const removePromo = () => {
+      setAppliedPromo(null);
+      setPromoError(null);
+  };
+
+  // place_order re-checks the code while using it; a code used up meanwhile (someone else's order)
+  // comes back as a PromoError key
+  const isPromoError = (message: string): message is PromoError => message in PROMO_ERROR_FALLBACK;
+
+  // Analytics: quantity steps count as cart adds/removes
+  const handleQuantityChange = (key: string, delta: number) => {
+      const item = cart.find(i => cartLineKey(i) === key);
+      if (!item || item.quantity + delta < 1) return; // Quantity never drops below 1 here
+      if (delta > 0 && isAtStockLimit(item)) return;
+      BehaviorTracker.trackCartAction(delta > 0 ? 'add' : 'remove');
+      onUpdateQuantity(key, delta);
+  };
+
+  const handleRemove = (key: string) => {
+      BehaviorTracker.trackCartAction('remove');
+      onRemove(key);
+  };
+
+  const isAtStockLimit = (item: CartItem) =>
+      isCourseItem(item.product) || (typeof item.product.stock === 'number' && item.quantity >= item.product.stock);
+
+  // Course access is granted to an account, so guests cannot buy courses
+  const needsAccountForCourses = !userProfile && cart.some(item => isCourseItem(item.product));
+
   const handleCheckout = async () => {
+    if (needsAccountForCourses) {
+        setError(t ? t.course_login_required : "Войдите, чтобы купить курс");
+        return;
+    }
+
     // If not logged in, Email is required
     if (!userProfile && !guestEmail) {
         setError(t ? "Please enter email" : "Введите email");
@@ -47,79 +132,35 @@ const CartDrawer: React.FC<CartDrawerProps> = ({
     try {
         if (!supabase) throw new Error("No database connection");
 
-        let userData = null;
-        
-        // If user is logged in, fetch their current data to update it
-        if (userProfile) {
-            const { data, error: fetchError } = await supabase
-                .from('user_shibari')
-                .select('orders_history, rope_purchases_count, total_revenue_usd, ordered_courses_list')
-                .eq('id', userProfile.id)
-                .single();
-            if (!fetchError) userData = data;
+        if (appliedPromo && promoProblem) {
+            throw new Error(promoErrorText(promoProblem));
         }
 
-        const orderId = `ORD-${Date.now().toString().slice(-6)}`;
-        const orderDate = new Date().toISOString();
-
-        const orderItems: OrderItem[] = cart.map(item => ({
-            productId: item.product.id,
-            title: item.product.title,
-            quantity: item.quantity,
-            price: item.product.price || 0
-        }));
-
-        const newOrder: Order = {
-            id: orderId,
-            date: orderDate,
-            total_amount: totalAmount,
-            status: 'new',
-            items: orderItems,
-            customer_details: {
-                name: userProfile?.full_name || 'Guest',
-                email: userProfile?.email || guestEmail
+        let order: Order;
+        try {
+            // Prices, the discount and the totals are computed by the server; stock and the promo
+            // use are taken in the same transaction, so a failed order leaves both untouched
+            order = await placeOrder(
+                cart,
+                { name: userProfile?.full_name || 'Guest', email: userProfile?.email || guestEmail },
+                appliedPromo?.code || null
+            );
+        } catch (orderError: any) {
+            const shortages = stockShortagesOf(orderError);
+            if (shortages) {
+                setError(`${t ? t.stock_shortage : 'Недостаточно на складе'}: ${shortages.map(s => `${s.title} — ${s.available}`).join(', ')}`);
+                return;
             }
-        };
-
-        // If user exists, update CRM
-        if (userProfile && userData) {
-            const currentHistory = userData.orders_history || [];
-            const historyArray = Array.isArray(currentHistory) ? currentHistory : [];
-            const updatedHistory = [newOrder, ...historyArray];
-            const updatedCount = (userData.rope_purchases_count || 0) + 1;
-            const updatedRevenue = (userData.total_revenue_usd || 0) + totalAmount;
-
-            // Check for Courses in Cart
-            const courseItems = cart.filter(item => item.product.color === 'Video Course' || item.product.is_course);
-            let hasOrderedCourse = courseItems.length > 0;
-            
-            // Update List of ordered courses
-            let courseList = userData.ordered_courses_list || [];
-            courseItems.forEach(c => {
-                if (!courseList.includes(c.product.title)) {
-                    courseList.push(c.product.title);
-                }
-            });
-
-            const updatePayload: any = {
-                orders_history: updatedHistory,
-                rope_purchases_count: updatedCount,
-                total_revenue_usd: updatedRevenue,
-                ordered_courses_list: courseList
-            };
-
-            if (hasOrderedCourse) {
-                updatePayload.has_ordered_course = true;
+            if (isPromoError(orderError.message)) {
+                setAppliedPromo(null);
+                setPromoError(orderError.message);
+                throw new Error(promoErrorText(orderError.message));
             }
+            if (orderError.message === 'course_login_required') throw new Error(t ? t.course_login_required : "Войдите, чтобы купить курс");
+            console.error(`Order save failed. SQL:\n${ORDERS_REPAIR_SQL}`);
+            throw orderError;
+        }
 
-            const { error: updateError } = await supabase
-                .from('user_shibari')
-                .update(updatePayload)
-                .eq('id', userProfile.id);
-
-            if (updateError) throw updateError;
-        } 
-        
         // --- SEND EMAIL VIA EMAILJS (DYNAMIC CONFIG) ---
         try {
             // Fetch configuration from DB first
@@ -133,9 +174,13 @@ const CartDrawer: React.FC<CartDrawerProps> = ({
                 const emailParams = {
                     to_email: userProfile?.email || guestEmail,
                     to_name: userProfile?.full_name || 'Guest',
-                    order_id: orderId,
-                    order_summary: cart.map(item => `${item.product.title} (x${item.quantity}) - $${(item.product.price || 0) * item.quantity}`).join('\n'),
-                    total_amount: totalAmount,
+                    order_id: order.id,
+                    order_summary: order.items.map(item => `${item.title}${item.variantLabel ? ` [${item.variantLabel}]` : ''} (x${item.quantity}) - $${item.price * item.quantity}`).join('\n')
+                        + (order.promo_code ? `\nPromo ${order.promo_code}: -$${order.discount_amount}` : ''),
+                    subtotal_amount: order.subtotal_amount,
+                    promo_code: order.promo_code || '',
+                    discount_amount: order.discount_amount || 0,
+                    total_amount: order.total_amount,
                     order_date: new Date().toLocaleDateString()
                 };
 
@@ -149,8 +194,10 @@ const CartDrawer: React.FC<CartDrawerProps> = ({
         }
 
         onClear();
+        onOrderPlaced?.();
         setIsSuccess(true);
         setGuestEmail('');
+        removePromo();
 
     } catch (err: any) {
         console.error(err);
@@ -204,6 +251,15 @@ const CartDrawer: React.FC<CartDrawerProps> = ({
       ) : (
           /* Cart Content */
           <div className="flex flex-col h-[calc(100%-80px)]">
+              {notice && (
+                  <div className="mx-6 mt-4 bg-yellow-900/20 border border-yellow-900/50 p-3 rounded-lg flex items-start gap-2">
+                      <AlertCircle className="w-4 h-4 text-yellow-500 shrink-0 mt-0.5" />
+                      <div className="text-xs text-yellow-200 space-y-1">
+                          {notice.removed.length > 0 && <p>{t ? t.cart_items_removed : "Больше не продаются и убраны из корзины:"} {notice.removed.join(', ')}</p>}
+                          {notice.repriced.length > 0 && <p>{t ? t.cart_items_repriced : "Изменилась цена:"} {notice.repriced.join(', ')}</p>}
+                      </div>
+                  </div>
+              )}
               {cart.length === 0 ? (
                   <div className="flex-1 flex flex-col items-center justify-center text-neutral-500 p-8">
                       <ShoppingBag className="w-16 h-16 mb-4 opacity-20" />
@@ -215,7 +271,7 @@ const CartDrawer: React.FC<CartDrawerProps> = ({
                       {/* Items List */}
                       <div className="flex-1 overflow-y-auto p-6 space-y-6">
                           {cart.map(item => (
-                              <div key={item.product.id} className="flex gap-4">
+                              <div key={cartLineKey(item)} className="flex gap-4">
                                   <div className="w-20 h-20 bg-black rounded-lg border border-neutral-800 shrink-0 overflow-hidden">
                                       {item.product.images?.[0] ? (
                                           <img src={item.product.images[0]} alt="" className="w-full h-full object-cover" />
@@ -227,16 +283,16 @@ const CartDrawer: React.FC<CartDrawerProps> = ({
                                       <div>
                                           <div className="flex justify-between items-start">
                                               <h4 className="text-white font-medium text-sm line-clamp-2">{_getData(item.product, 'title')}</h4>
-                                              <button onClick={() => onRemove(item.product.id)} className="text-neutral-600 hover:text-red-500 transition-colors p-1 -mt-1 -mr-1"><Trash2 className="w-4 h-4" /></button>
+                                              <button onClick={() => handleRemove(cartLineKey(item))} className="text-neutral-600 hover:text-red-500 transition-colors p-1 -mt-1 -mr-1"><Trash2 className="w-4 h-4" /></button>
                                           </div>
                                           <p className="text-xs text-neutral-500 mt-1">{_getData(item.product, 'color')}</p>
                                       </div>
                                       <div className="flex justify-between items-center mt-2">
                                           <div className="font-mono text-white font-bold">${(item.product.price || 0) * item.quantity}</div>
                                           <div className="flex items-center gap-3 bg-neutral-800 rounded-md px-2 py-1">
-                                              <button onClick={() => onUpdateQuantity(item.product.id, -1)} className="text-neutral-400 hover:text-white"><Minus className="w-3 h-3" /></button>
+                                              <button onClick={() => handleQuantityChange(cartLineKey(item), -1)} className="text-neutral-400 hover:text-white"><Minus className="w-3 h-3" /></button>
                                               <span className="text-xs text-white w-4 text-center">{item.quantity}</span>
-                                              <button onClick={() => onUpdateQuantity(item.product.id, 1)} className="text-neutral-400 hover:text-white"><Plus className="w-3 h-3" /></button>
+                                              <button onClick={() => handleQuantityChange(cartLineKey(item), 1)} disabled={isAtStockLimit(item)} className="text-neutral-400 hover:text-white disabled:opacity-30"><Plus className="w-3 h-3" /></button>
                                           </div>
                                       </div>
                                   </div>
@@ -253,6 +309,10 @@ const CartDrawer: React.FC<CartDrawerProps> = ({
                               </div>
                           )}
 
+                          {needsAccountForCourses && (
+                              <p className="text-xs text-yellow-400">{t ? t.course_login_required : "Войдите, чтобы купить курс"}</p>
+                          )}
+
                           {/* Guest Email Input */}
                           {!userProfile && (
                               <div className="space-y-1 animate-in fade-in">
@@ -269,14 +329,50 @@ const CartDrawer: React.FC<CartDrawerProps> = ({
                               </div>
                           )}
                           
+                          {/* Promo Code */}
+                          {appliedPromo ? (
+                              <div className="flex items-center justify-between bg-neutral-800/60 border border-neutral-700 rounded-lg px-3 py-2">
+                                  <span className="text-xs text-white font-mono flex items-center gap-2"><Tag className="w-3 h-3 text-red-500" /> {appliedPromo.code}</span>
+                                  <button onClick={removePromo} className="text-neutral-500 hover:text-white"><X className="w-4 h-4" /></button>
+                              </div>
+                          ) : !userProfile ? (
+                              <p className="text-xs text-neutral-500 flex items-center gap-2"><Tag className="w-3 h-3" /> {promoErrorText('promo_login_required')}</p>
+                          ) : (
+                              <div className="flex gap-2">
+                                  <input
+                                    value={promoInput}
+                                    onChange={(e) => { setPromoInput(e.target.value); setPromoError(null); }}
+                                    onKeyDown={(e) => e.key === 'Enter' && handleApplyPromo()}
+                                    placeholder={t ? t.promo_code : "Промокод"}
+                                    className="flex-1 bg-neutral-800 border border-neutral-700 rounded-lg px-3 py-2 text-sm text-white focus:border-red-600 outline-none uppercase placeholder:normal-case"
+                                  />
+                                  <button
+                                    onClick={handleApplyPromo}
+                                    disabled={isCheckingPromo || !promoInput.trim()}
+                                    className="px-4 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-white text-xs font-bold disabled:opacity-50"
+                                  >
+                                      {isCheckingPromo ? <Loader2 className="w-4 h-4 animate-spin" /> : (t ? t.promo_apply : "Применить")}
+                                  </button>
+                              </div>
+                          )}
+                          {(promoError || promoProblem) && (
+                              <p className="text-xs text-red-400 -mt-2">{promoErrorText((promoError || promoProblem)!)}</p>
+                          )}
+
                           <div className="space-y-2">
                               <div className="flex justify-between text-neutral-400 text-sm">
                                   <span>Items ({cart.reduce((a,b)=>a+b.quantity,0)})</span>
                                   <span>${totalAmount}</span>
                               </div>
+                              {discountAmount > 0 && (
+                                  <div className="flex justify-between text-green-400 text-sm">
+                                      <span>{t ? t.discount : 'Скидка'} ({appliedPromo?.code})</span>
+                                      <span>-${discountAmount}</span>
+                                  </div>
+                              )}
                               <div className="flex justify-between text-white text-xl font-bold pt-2 border-t border-neutral-800">
                                   <span>{t ? t.total : 'Total'}</span>
-                                  <span>${totalAmount}</span>
+                                  <span>${payableAmount}</span>
                               </div>
                           </div>
                           
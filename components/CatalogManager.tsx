@@ -4,6 +4,9 @@ import { Plus, Trash2, Save, Database, Video, LayoutGrid, Loader2, ChevronDown,
 import { CatalogCategory, CatalogVideo, VideoCategoryRef } from '../types';
 import { supabase } from '../supabaseClient';
 import { INITIAL_CATALOG_CATEGORIES, INITIAL_CATALOG_VIDEOS } from '../constants';
+import VideoUrlField from './VideoUrlField';
+import ChaptersEditor from './ChaptersEditor';
+import { chaptersColumnSql } from '../utils/chapters';
 
 interface CatalogManagerProps {
   categories: CatalogCategory[];
@@ -47,6 +50,7 @@ CREATE TABLE IF NOT EXISTS public.catalog_videos_shibari (
     category_refs jsonb DEFAULT '[]'::jsonb,
     created_at timestamp with time zone DEFAULT timezone('utc'::text, now())
 );
+${chaptersColumnSql('catalog_videos_shibari')}
 
 -- 2. Enable RLS
 ALTER TABLE public.catalog_categories_shibari ENABLE ROW LEVEL SECURITY;
@@ -250,15 +254,21 @@ END $$;
           alert("Название и ссылка обязательны");
           return;
       }
+      if (currentVideo.chapters?.some(c => !c.title.trim())) {
+          alert("У каждой главы видео должно быть название");
+          return;
+      }
       setIsSaving(true);
       try {
           if (!supabase) throw new Error("No DB");
-          const payload = {
+          const payload: Partial<CatalogVideo> = {
               title: currentVideo.title,
               description: currentVideo.description,
               video_url: currentVideo.video_url,
               category_refs: currentVideo.category_refs || []
           };
+          // Tables created before chapters existed don't have the column: only sent once used
+          if (currentVideo.chapters !== undefined) payload.chapters = currentVideo.chapters;
 
           if (currentVideo.id) {
               const { error } = await supabase.from('catalog_videos_shibari').update(payload).eq('id', currentVideo.id);
@@ -269,7 +279,7 @@ END $$;
           }
           onSave();
           setView('dashboard');
-      } catch (e: any) { alert("Ошибка сохранения: " + e.message); }
+      } catch (e: any) { alert(`Ошибка сохранения: ${e.message}\n\nЕсли ошибка 'column does not exist', выполните этот SQL:\n\n${repairSql}`); }
       finally { setIsSaving(false); }
   };
 
@@ -330,12 +340,11 @@ END $$;
                           />
                       </div>
                       <div className="space-y-2">
-                          <label className="text-xs text-neutral-500 font-bold uppercase">Ссылка (YouTube)</label>
-                          <input 
+                          <label className="text-xs text-neutral-500 font-bold uppercase">Ссылка на видео</label>
+                          <VideoUrlField
                               value={currentVideo.video_url || ''}
-                              onChange={e => setCurrentVideo({...currentVideo, video_url: e.target.value})}
-                              className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none"
-                              placeholder="https://..."
+                              onChange={value => setCurrentVideo({...currentVideo, video_url: value})}
+                              inputClassName="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none"
                           />
                       </div>
                       <div className="space-y-2">
@@ -348,6 +357,10 @@ END $$;
                               placeholder="О чем это видео..."
                           />
                       </div>
+                      <ChaptersEditor
+                          chapters={currentVideo.chapters || []}
+                          onChange={chapters => setCurrentVideo({...currentVideo, chapters: chapters.length ? chapters : null})}
+                      />
                   </div>
 
                   {/* Right: Tagging */}
@@ -1,61 +1,94 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { X, Play, FolderOpen, ChevronDown, Check, Filter } from 'lucide-react';
-import { CatalogCategory, CatalogVideo } from '../types';
-import VideoPlayer from './VideoPlayer';
+import { Bookmark, BookmarkType, CatalogCategory, CatalogVideo } from '../types';
+import VideoPlayer, { VideoPlayerHandle } from './VideoPlayer';
+import VideoChapters from './VideoChapters';
+import BookmarkButton from './BookmarkButton';
+import BehaviorTracker from '../utils/BehaviorTracker';
+import { PlaybackEvent } from '../utils/video';
+import { loadWatchHistory, recordWatchEvent, WATCHED_PERCENT } from '../utils/watchHistory';
+import { sanitizeChapters, activeChapterIndex } from '../utils/chapters';
+import { hasBookmark } from '../utils/notes';
 
 interface CatalogModalProps {
   isOpen: boolean;
   onClose: () => void;
   categories: CatalogCategory[];
   videos: CatalogVideo[];
+  // Filter and video selection live in the URL (/catalog/:videoId?cat=...&sub=...)
+  filters: Record<string, string[]>;
+  onFiltersChange: (filters: Record<string, string[]>) => void;
+  activeVideoId?: number | null;
+  onSelectVideo: (video: CatalogVideo | null) => void;
+  bookmarks: Bookmark[];
+  onToggleBookmark: (type: BookmarkType, itemId: number) => void;
   lang: 'ru' | 'en';
   t: any;
   subcategories?: any; 
 }
 
 const CatalogModal: React.FC<CatalogModalProps> = ({ 
-    isOpen, onClose, categories, videos, lang, t 
+    isOpen, onClose, categories, videos, filters, onFiltersChange, activeVideoId, onSelectVideo, bookmarks, onToggleBookmark, lang, t 
 }) => {
-  // Store selected filters as: { categoryId: [subcategoryId1, subcategoryId2] }
-  const [filters, setFilters] = useState<Record<string, string[]>>({});
-  const [activeVideo, setActiveVideo] = useState<CatalogVideo | null>(null);
+  // Selected filters come in as: { categoryId: [subcategoryId1, subcategoryId2] }
   const [openDropdownId, setOpenDropdownId] = useState<string | null>(null);
 
+  const [watchHistory, setWatchHistory] = useState(loadWatchHistory);
+  const savedPositionRef = useRef(0);
+  const playerRef = useRef<VideoPlayerHandle>(null);
+  const [activeChapter, setActiveChapter] = useState(-1);
+
+  const activeVideo = videos.find(v => v.id === activeVideoId) || null;
+  const chapters = useMemo(() => sanitizeChapters(activeVideo?.chapters), [activeVideo]);
+  useEffect(() => { setActiveChapter(-1); }, [activeVideoId]);
+
+  const seekToChapter = (index: number) => {
+      setActiveChapter(index);
+      playerRef.current?.seekTo(chapters[index].start);
+  };
+
+  // Where the open video is left: on pause, at the end and every 10 seconds of playback
+  const handleActivePlayback = (event: PlaybackEvent) => {
+      if (chapters.length) setActiveChapter(activeChapterIndex(chapters, event.currentTime));
+      if (!activeVideo || event.type === 'play') return;
+      if (event.type === 'timeupdate' && Math.abs(event.currentTime - savedPositionRef.current) < 10) return;
+      savedPositionRef.current = event.currentTime;
+      setWatchHistory(recordWatchEvent(watchHistory, activeVideo.id, event));
+  };
+
   // Toggle a specific subcategory filter
   const toggleFilter = (categoryId: string, subcategoryId: string) => {
-      setFilters(prev => {
-          const currentSubs = prev[categoryId] || [];
-          const isSelected = currentSubs.includes(subcategoryId);
-          
-          let newSubs;
-          if (isSelected) {
-              newSubs = currentSubs.filter(id => id !== subcategoryId);
-          } else {
-              newSubs = [...currentSubs, subcategoryId];
-          }
+      const currentSubs = filters[categoryId] || [];
+      const isSelected = currentSubs.includes(subcategoryId);
+      
+      let newSubs;
+      if (isSelected) {
+          newSubs = currentSubs.filter(id => id !== subcategoryId);
+      } else {
+          newSubs = [...currentSubs, subcategoryId];
+      }
 
-          const newFilters = { ...prev };
-          if (newSubs.length === 0) {
-              delete newFilters[categoryId];
-          } else {
-              newFilters[categoryId] = newSubs;
-          }
-          return newFilters;
-      });
+      BehaviorTracker.trackFilterUsage();
+
+      const newFilters = { ...filters };
+      if (newSubs.length === 0) {
+          delete newFilters[categoryId];
+      } else {
+          newFilters[categoryId] = newSubs;
+      }
+      onFiltersChange(newFilters);
   };
 
   // Clear all filters for a specific category
   const clearCategoryFilters = (categoryId: string) => {
-      setFilters(prev => {
-          const newFilters = { ...prev };
-          delete newFilters[categoryId];
-          return newFilters;
-      });
+      const newFilters = { ...filters };
+      delete newFilters[categoryId];
+      onFiltersChange(newFilters);
   };
 
   const clearAllFilters = () => {
-      setFilters({});
+      onFiltersChange({});
       setOpenDropdownId(null);
   };
 
@@ -237,7 +270,7 @@ const CatalogModal: React.FC<CatalogModalProps> = ({
                      {filteredVideos.map(video => (
                          <div 
                             key={video.id} 
-                            onClick={() => setActiveVideo(video)}
+                            onClick={() => onSelectVideo(video)}
                             className="group flex flex-col cursor-pointer transition-transform hover:-translate-y-1 duration-300"
                          >
                              {/* Video Thumbnail (Frameless) */}
@@ -246,13 +279,26 @@ const CatalogModal: React.FC<CatalogModalProps> = ({
                                  <div className="w-full h-full pointer-events-none group-hover:scale-105 transition-transform duration-500">
                                      <VideoPlayer url={video.video_url} showPlayButton={false} /> 
                                  </div>
+                                 {/* Watch history: badge once watched, otherwise how far it got */}
+                                 {watchHistory[video.id]?.watched_percent >= WATCHED_PERCENT ? (
+                                     <div className="absolute top-2 left-2 bg-black/70 text-green-400 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded flex items-center gap-1">
+                                         <Check className="w-3 h-3" /> {t.watched}
+                                     </div>
+                                 ) : watchHistory[video.id]?.duration > 0 && watchHistory[video.id].position > 0 && (
+                                     <div className="absolute bottom-0 inset-x-0 h-1 bg-white/10">
+                                         <div className="h-full bg-red-600" style={{ width: `${Math.min(100, (watchHistory[video.id].position / watchHistory[video.id].duration) * 100)}%` }} />
+                                     </div>
+                                 )}
                              </div>
                              
                              {/* Content Below */}
                              <div className="pt-4">
-                                 <h3 className="text-base md:text-lg font-bold text-white leading-snug mb-2 group-hover:text-red-500 transition-colors line-clamp-2">
-                                     {video.title}
-                                 </h3>
+                                 <div className="flex items-start justify-between gap-3 mb-2">
+                                     <h3 className="text-base md:text-lg font-bold text-white leading-snug group-hover:text-red-500 transition-colors line-clamp-2">
+                                         {video.title}
+                                     </h3>
+                                     <BookmarkButton isActive={hasBookmark(bookmarks, 'catalog_video', video.id)} onToggle={() => onToggleBookmark('catalog_video', video.id)} t={t} className="shrink-0 mt-0.5" iconClassName="w-4 h-4" />
+                                 </div>
                                  <p className="text-sm text-neutral-500 line-clamp-2 leading-relaxed">
                                      {video.description}
                                  </p>
@@ -267,18 +313,36 @@ const CatalogModal: React.FC<CatalogModalProps> = ({
       {/* Active Video Overlay */}
       {activeVideo && (
           <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-300">
-              <div className="relative w-[95%] md:w-[80%] max-w-6xl aspect-video bg-black rounded-xl shadow-2xl overflow-hidden border border-white/10 flex flex-col">
-                  <button 
-                      onClick={() => setActiveVideo(null)}
-                      className="absolute top-4 right-4 z-20 p-2 bg-black/60 hover:bg-red-600 text-white rounded-full transition-colors backdrop-blur-md border border-white/10"
-                  >
-                      <X className="w-6 h-6" />
-                  </button>
-                  
-                  <div className="flex-1 w-full h-full">
-                      {/* Assuming VideoPlayer handles iframe auto-play logic inside */}
-                      <VideoPlayer url={activeVideo.video_url} />
+              <div className="w-[95%] md:w-[80%] max-w-6xl max-h-[95vh] overflow-y-auto">
+                  <div className="relative w-full aspect-video bg-black rounded-xl shadow-2xl overflow-hidden border border-white/10 flex flex-col">
+                      <button 
+                          onClick={() => onSelectVideo(null)}
+                          className="absolute top-4 right-4 z-20 p-2 bg-black/60 hover:bg-red-600 text-white rounded-full transition-colors backdrop-blur-md border border-white/10"
+                      >
+                          <X className="w-6 h-6" />
+                      </button>
+                      
+                      <div className="flex-1 w-full h-full">
+                          {/* Assuming VideoPlayer handles iframe auto-play logic inside */}
+                          <VideoPlayer
+                              ref={playerRef}
+                              url={activeVideo.video_url}
+                              resumeAt={watchHistory[activeVideo.id]?.position || 0}
+                              onPlayback={handleActivePlayback}
+                          />
+                      </div>
                   </div>
+
+                  <div className="mt-4 flex items-center justify-between gap-4 px-1">
+                      <h3 className="text-lg font-bold text-white leading-snug">{activeVideo.title}</h3>
+                      <BookmarkButton isActive={hasBookmark(bookmarks, 'catalog_video', activeVideo.id)} onToggle={() => onToggleBookmark('catalog_video', activeVideo.id)} t={t} className="shrink-0" />
+                  </div>
+
+                  {chapters.length > 0 && (
+                      <div className="mt-4 bg-neutral-950/90 border border-white/10 rounded-xl p-4">
+                          <VideoChapters chapters={chapters} activeIndex={activeChapter} onSeek={seekToChapter} lang={lang} t={t} />
+                      </div>
+                  )}
               </div>
           </div>
       )}
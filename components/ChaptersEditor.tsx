@@ -0,0 +1,81 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, ListVideo } from 'lucide-react';
+import { VideoChapter } from '../types';
+import { parseClock } from '../utils/chapters';
+import { formatClock } from '../utils/subtitles';
+
+interface ChaptersEditorProps {
+  chapters: VideoChapter[];
+  onChange: (chapters: VideoChapter[]) => void;
+}
+
+const byStart = (chapters: VideoChapter[]) => [...chapters].sort((a, b) => a.start - b.start);
+
+// Start time typed as "12:34"; applied on blur, an invalid value reverts
+const ClockInput: React.FC<{ value: number; onChange: (seconds: number) => void }> = ({ value, onChange }) => {
+  const [text, setText] = useState(formatClock(value));
+  useEffect(() => { setText(formatClock(value)); }, [value]);
+  const isValid = parseClock(text) !== null;
+
+  return (
+    <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => {
+            const seconds = parseClock(text);
+            if (seconds === null) setText(formatClock(value));
+            else onChange(seconds);
+        }}
+        className={`w-20 shrink-0 bg-neutral-900 border rounded px-2 py-2 text-white text-sm font-mono outline-none focus:border-red-600 ${isValid ? 'border-neutral-800' : 'border-red-800'}`}
+        placeholder="0:00"
+    />
+  );
+};
+
+// Chapter list of a lesson or catalog video; edited as part of the surrounding form
+const ChaptersEditor: React.FC<ChaptersEditorProps> = ({ chapters, onChange }) => {
+  const update = (index: number, data: Partial<VideoChapter>) =>
+      onChange(chapters.map((c, i) => i === index ? { ...c, ...data } : c));
+
+  const add = () => {
+      const last = chapters[chapters.length - 1];
+      onChange([...chapters, { start: last ? last.start + 60 : 0, title: '', title_en: null }]);
+  };
+
+  return (
+    <div className="space-y-3">
+        <label className="text-xs font-bold text-neutral-500 uppercase flex justify-between items-center">
+            <span className="flex items-center gap-2"><ListVideo className="w-3.5 h-3.5" /> Главы видео</span>
+            <span className="text-[10px] font-normal normal-case opacity-50">В тексте урока ссылка на момент видео: [12:34]</span>
+        </label>
+        {chapters.map((chapter, index) => (
+            <div key={index} className="flex gap-2 items-center">
+                <ClockInput value={chapter.start} onChange={(start) => onChange(byStart(chapters.map((c, i) => i === index ? { ...c, start } : c)))} />
+                <input
+                    type="text"
+                    value={chapter.title}
+                    onChange={(e) => update(index, { title: e.target.value })}
+                    className={`flex-1 min-w-0 bg-neutral-900 border rounded px-3 py-2 text-white text-sm outline-none focus:border-red-600 ${chapter.title.trim() ? 'border-neutral-800' : 'border-red-800'}`}
+                    placeholder="Название главы"
+                />
+                <input
+                    type="text"
+                    value={chapter.title_en || ''}
+                    onChange={(e) => update(index, { title_en: e.target.value || null })}
+                    className="flex-1 min-w-0 bg-neutral-900 border border-neutral-800 rounded px-3 py-2 text-white text-sm outline-none focus:border-red-600"
+                    placeholder="Chapter title (EN)"
+                />
+                <button onClick={() => onChange(chapters.filter((_, i) => i !== index))} className="p-2 text-red-500 hover:bg-red-900/40 rounded shrink-0" title="Удалить главу">
+                    <Trash2 className="w-4 h-4" />
+                </button>
+            </div>
+        ))}
+        <button onClick={add} className="text-xs bg-neutral-800 hover:bg-neutral-700 text-white px-3 py-1.5 rounded flex items-center gap-1.5">
+            <Plus className="w-3 h-3" /> Добавить главу
+        </button>
+    </div>
+  );
+};
+
+export default ChaptersEditor;
@@ -1,9 +1,11 @@
 
-import React, { useState } from 'react';
-import { Plus, Trash2, Save, ArrowLeft, Loader2, Video, Database, PenTool, LayoutList, HelpCircle, Image as ImageIcon, Upload, X } from 'lucide-react';
-import { Course, ProductFAQ } from '../types';
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, Save, ArrowLeft, Loader2, Video, Database, PenTool, LayoutList, HelpCircle, Image as ImageIcon, Upload, X, KeyRound, UserPlus } from 'lucide-react';
+import { Course, CourseEntitlement, CourseModuleContent, ProductFAQ, UserProfile } from '../types';
 import { supabase } from '../supabaseClient';
 import { INITIAL_COURSES } from '../constants';
+import { fetchCourseContent, saveCourseContent, createCourseModule, fetchCourseEntitlements, COURSE_CONTENT_TABLE, grantCourseAccess, revokeCourseAccess, ENTITLEMENTS_REPAIR_SQL } from '../utils/entitlements';
+import VideoUrlField from './VideoUrlField';
 
 interface CourseManagerProps {
   courses: Course[];
@@ -15,6 +17,9 @@ const CourseManager: React.FC<CourseManagerProps> = ({ courses, onSave }) => {
   const [currentCourse, setCurrentCourse] = useState<Partial<Course>>({});
   const [isSaving, setIsSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
+  // Module videos are stored apart from the course row (see utils/entitlements)
+  const [moduleContent, setModuleContent] = useState<CourseModuleContent[]>([]);
+  const [isContentLoading, setIsContentLoading] = useState(false);
 
   // --- Seed Logic ---
   const handleSeedCourses = async () => {
@@ -47,8 +52,17 @@ const CourseManager: React.FC<CourseManagerProps> = ({ courses, onSave }) => {
   };
 
   const startEdit = (course?: Course) => {
+    setModuleContent([]);
     if (course) {
       setCurrentCourse(course);
+      setIsContentLoading(true);
+      fetchCourseContent(course)
+        .then(setModuleContent)
+        .catch((e: any) => {
+            console.error(e);
+            alert(`Не удалось загрузить содержимое модулей: ${e.message}\n\nSQL:\n${ENTITLEMENTS_REPAIR_SQL}`);
+        })
+        .finally(() => setIsContentLoading(false));
     } else {
       setCurrentCourse({
         title: '',
@@ -70,6 +84,11 @@ const CourseManager: React.FC<CourseManagerProps> = ({ courses, onSave }) => {
       alert("Введите название курса");
       return;
     }
+    if (isContentLoading) return;
+    if (moduleContent.some(m => !m.title.trim())) {
+      alert("У каждого модуля должно быть название");
+      return;
+    }
 
     setIsSaving(true);
     try {
@@ -83,21 +102,32 @@ const CourseManager: React.FC<CourseManagerProps> = ({ courses, onSave }) => {
         price: currentCourse.price,
         video_url: currentCourse.video_url,
         image_url: currentCourse.image_url,
-        modules: currentCourse.modules || [],
+        modules: moduleContent.map(m => m.title), // Public outline for the landing page
         faq: currentCourse.faq || []
       };
 
-      if (currentCourse.id) {
+      let courseId = currentCourse.id;
+      if (courseId) {
         const { error } = await supabase
           .from('kurs_market_shibari')
           .update(payload)
-          .eq('id', currentCourse.id);
+          .eq('id', courseId);
         if (error) throw error;
       } else {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('kurs_market_shibari')
-          .insert([payload]);
+          .insert([payload])
+          .select('id')
+          .single();
         if (error) throw error;
+        courseId = data.id;
+      }
+
+      try {
+        await saveCourseContent(courseId!, moduleContent);
+      } catch (contentError: any) {
+        console.error(contentError);
+        alert(`Курс сохранён, но видео модулей — нет: ${contentError.message}\n\nSQL:\n${ENTITLEMENTS_REPAIR_SQL}`);
       }
 
       onSave();
@@ -132,6 +162,7 @@ create policy "Allow all operations" on public.kurs_market_shibari for all using
     try {
       if (supabase) {
         await supabase.from('kurs_market_shibari').delete().eq('id', id);
+        await supabase.from(COURSE_CONTENT_TABLE).delete().eq('course_id', id);
         onSave();
       }
     } catch (e) {
@@ -162,27 +193,13 @@ create policy "Allow all operations" on public.kurs_market_shibari for all using
 
   // --- Helper Editors ---
 
-  const addModule = () => {
-      setCurrentCourse(prev => ({
-          ...prev,
-          modules: [...(prev.modules || []), '']
-      }));
-  };
+  const addModule = () => setModuleContent(prev => [...prev, createCourseModule()]);
 
-  const updateModule = (index: number, val: string) => {
-      setCurrentCourse(prev => {
-          const newModules = [...(prev.modules || [])];
-          newModules[index] = val;
-          return { ...prev, modules: newModules };
-      });
+  const updateModule = (index: number, patch: Partial<CourseModuleContent>) => {
+      setModuleContent(prev => prev.map((m, i) => i === index ? { ...m, ...patch } : m));
   };
 
-  const removeModule = (index: number) => {
-      setCurrentCourse(prev => ({
-          ...prev,
-          modules: prev.modules?.filter((_, i) => i !== index)
-      }));
-  };
+  const removeModule = (index: number) => setModuleContent(prev => prev.filter((_, i) => i !== index));
 
   const addFaq = () => {
     setCurrentCourse(prev => ({
@@ -321,11 +338,11 @@ create policy "Allow all operations" on public.kurs_market_shibari for all using
                        </div>
                   </div>
 
-                  <input 
+                  <VideoUrlField
                     value={currentCourse.video_url || ''}
-                    onChange={e => setCurrentCourse({...currentCourse, video_url: e.target.value})}
-                    placeholder="Ссылка на промо-видео (YouTube)"
-                    className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none text-sm"
+                    onChange={value => setCurrentCourse({...currentCourse, video_url: value})}
+                    placeholder="Ссылка на промо-видео"
+                    inputClassName="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none text-sm"
                   />
               </div>
               
@@ -353,20 +370,38 @@ create policy "Allow all operations" on public.kurs_market_shibari for all using
                   <h4 className="font-bold text-white text-sm flex items-center gap-2"><LayoutList className="w-4 h-4"/> Модули курса (Минимум 8)</h4>
                   <button onClick={addModule} className="text-xs text-red-500 hover:text-red-400 font-bold flex items-center gap-1"><Plus className="w-3 h-3"/> Добавить модуль</button>
               </div>
-              <div className="space-y-2">
-                  {(currentCourse.modules || []).map((mod, idx) => (
-                      <div key={idx} className="flex gap-2 items-center">
-                          <span className="text-neutral-500 text-xs w-6">{idx + 1}.</span>
-                          <input 
-                            value={mod}
-                            onChange={e => updateModule(idx, e.target.value)}
-                            placeholder={`Название модуля ${idx + 1}`}
-                            className="flex-1 bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none"
-                          />
-                          <button onClick={() => removeModule(idx)} className="text-neutral-500 hover:text-red-500"><Trash2 className="w-4 h-4"/></button>
+              <p className="text-neutral-500 text-xs mb-4">Названия видны всем на странице курса, видео и описание — только ученикам с доступом.</p>
+              <div className="space-y-4">
+                  {isContentLoading && <div className="flex justify-center py-2"><Loader2 className="w-4 h-4 animate-spin text-neutral-500"/></div>}
+                  {moduleContent.map((mod, idx) => (
+                      <div key={mod.id} className="flex gap-2 items-start border-b border-neutral-800 pb-4 last:border-0 last:pb-0">
+                          <span className="text-neutral-500 text-xs w-6 pt-2">{idx + 1}.</span>
+                          <div className="flex-1 space-y-2">
+                              <input 
+                                value={mod.title}
+                                onChange={e => updateModule(idx, { title: e.target.value })}
+                                placeholder={`Название модуля ${idx + 1}`}
+                                className="w-full bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none"
+                              />
+                              <VideoUrlField
+                                value={mod.video_url}
+                                onChange={value => updateModule(idx, { video_url: value })}
+                                placeholder="Ссылка на видео модуля"
+                                inputClassName="w-full bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-neutral-300 outline-none"
+                                preview={false}
+                              />
+                              <textarea 
+                                value={mod.description || ''}
+                                onChange={e => updateModule(idx, { description: e.target.value })}
+                                placeholder="Описание / конспект модуля"
+                                rows={2}
+                                className="w-full bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-neutral-300 outline-none resize-none"
+                              />
+                          </div>
+                          <button onClick={() => removeModule(idx)} className="text-neutral-500 hover:text-red-500 pt-2"><Trash2 className="w-4 h-4"/></button>
                       </div>
                   ))}
-                  {!currentCourse.modules?.length && <div className="text-neutral-500 text-sm text-center py-2">Модулей нет</div>}
+                  {!isContentLoading && !moduleContent.length && <div className="text-neutral-500 text-sm text-center py-2">Модулей нет</div>}
               </div>
           </div>
 
@@ -399,9 +434,135 @@ create policy "Allow all operations" on public.kurs_market_shibari for all using
                   ))}
               </div>
           </div>
+
+          {currentCourse.id && <CourseAccessPanel courseId={currentCourse.id} />}
       </div>
     </div>
   );
 };
 
+// --- Access (entitlements) ---
+
+type AccessRow = CourseEntitlement & { profile?: Pick<UserProfile, 'id' | 'full_name' | 'email'> };
+
+const CourseAccessPanel: React.FC<{ courseId: number }> = ({ courseId }) => {
+  const [rows, setRows] = useState<AccessRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [isGranting, setIsGranting] = useState(false);
+  const [showRevoked, setShowRevoked] = useState(false);
+
+  const load = async () => {
+      if (!supabase) return;
+      setIsLoading(true);
+      setLoadError(null);
+      try {
+          const entitlements = await fetchCourseEntitlements(courseId);
+          const ids = Array.from(new Set(entitlements.map(e => e.user_id)));
+          const { data: profiles } = ids.length
+              ? await supabase.from('user_shibari').select('id, full_name, email').in('id', ids)
+              : { data: [] };
+          setRows(entitlements.map(e => ({ ...e, profile: (profiles || []).find((p: any) => p.id === e.user_id) })));
+      } catch (e: any) {
+          console.error(e);
+          setLoadError(e.message);
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  useEffect(() => { load(); }, [courseId]);
+
+  const handleGrant = async () => {
+      const target = email.trim().toLowerCase();
+      if (!target || !supabase) return;
+      setIsGranting(true);
+      try {
+          const { data: user, error } = await supabase
+              .from('user_shibari')
+              .select('id')
+              .ilike('email', target)
+              .maybeSingle();
+          if (error) throw error;
+          if (!user) {
+              alert("Пользователь с таким email не найден. Ученик должен сначала зарегистрироваться.");
+              return;
+          }
+          await grantCourseAccess(user.id, courseId, 'manual');
+          setEmail('');
+          load();
+      } catch (e: any) {
+          alert(`Ошибка: ${e.message}`);
+      } finally {
+          setIsGranting(false);
+      }
+  };
+
+  const handleRevoke = async (row: AccessRow) => {
+      if (!window.confirm(`Закрыть доступ для ${row.profile?.email || row.user_id}?`)) return;
+      try {
+          await revokeCourseAccess(row.user_id, courseId);
+          load();
+      } catch (e: any) {
+          alert(`Ошибка: ${e.message}`);
+      }
+  };
+
+  const visible = rows.filter(r => showRevoked || !r.revoked_at);
+
+  return (
+      <div className="bg-neutral-900/50 border border-neutral-800 rounded-xl p-4 space-y-4">
+          <div className="flex items-center justify-between">
+              <h4 className="font-bold text-white text-sm flex items-center gap-2"><KeyRound className="w-4 h-4"/> Доступ к курсу ({rows.filter(r => !r.revoked_at).length})</h4>
+              <label className="text-xs text-neutral-500 flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" checked={showRevoked} onChange={e => setShowRevoked(e.target.checked)} className="accent-red-600"/> Показать закрытые
+              </label>
+          </div>
+
+          <div className="flex gap-2">
+              <input 
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleGrant()}
+                placeholder="Email ученика"
+                className="flex-1 bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none"
+              />
+              <button onClick={handleGrant} disabled={isGranting || !email.trim()} className="bg-red-700 hover:bg-red-600 text-white px-4 py-2 rounded text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+                  {isGranting ? <Loader2 className="w-4 h-4 animate-spin"/> : <UserPlus className="w-4 h-4"/>} Выдать
+              </button>
+          </div>
+
+          {loadError && (
+              <div className="space-y-2">
+                  <p className="text-red-300 text-xs">Не удалось загрузить доступы: {loadError}</p>
+                  <pre className="text-[10px] text-neutral-400 bg-black/40 p-3 rounded overflow-x-auto">{ENTITLEMENTS_REPAIR_SQL}</pre>
+              </div>
+          )}
+
+          <div className="space-y-1">
+              {isLoading && <div className="flex justify-center py-2"><Loader2 className="w-4 h-4 animate-spin text-neutral-500"/></div>}
+              {visible.map(row => (
+                  <div key={row.user_id} className={`flex items-center justify-between gap-4 text-sm px-3 py-2 rounded bg-black/30 ${row.revoked_at ? 'opacity-50' : ''}`}>
+                      <div className="min-w-0">
+                          <div className="text-white truncate">{row.profile?.full_name || row.profile?.email || row.user_id}</div>
+                          <div className="text-neutral-500 text-xs truncate">
+                              {row.profile?.email} · {row.source === 'purchase' ? `покупка ${row.order_id || ''}` : 'вручную'}
+                              {row.granted_at && ` · ${new Date(row.granted_at).toLocaleDateString()}`}
+                              {row.revoked_at && ` · закрыт ${new Date(row.revoked_at).toLocaleDateString()}`}
+                          </div>
+                      </div>
+                      {row.revoked_at ? (
+                          <button onClick={() => grantCourseAccess(row.user_id, courseId, 'manual').then(load).catch((e: any) => alert(`Ошибка: ${e.message}`))} className="text-xs text-neutral-400 hover:text-white shrink-0">Вернуть</button>
+                      ) : (
+                          <button onClick={() => handleRevoke(row)} className="text-xs text-red-500 hover:text-red-400 shrink-0">Закрыть</button>
+                      )}
+                  </div>
+              ))}
+              {!isLoading && !visible.length && <div className="text-neutral-500 text-sm text-center py-2">Доступов нет</div>}
+          </div>
+      </div>
+  );
+};
+
 export default CourseManager;
\ No newline at end of file
@@ -0,0 +1,119 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Play, AlertCircle } from 'lucide-react';
+import { Course, CourseModuleContent } from '../types';
+import VideoPlayer from './VideoPlayer';
+import { fetchCourseContent } from '../utils/entitlements';
+
+interface CoursePlayerProps {
+  course: Course;
+  onClose: () => void;
+  t: any;
+  getData: (item: any, field: string) => string;
+}
+
+// Module-by-module viewer for a course the user is entitled to (access is checked by CoursesModal)
+const CoursePlayer: React.FC<CoursePlayerProps> = ({ course, onClose, t, getData }) => {
+  const [modules, setModules] = useState<CourseModuleContent[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+      let cancelled = false;
+      setIsLoading(true);
+      setLoadError(null);
+      fetchCourseContent(course)
+          .then(data => { if (!cancelled) { setModules(data); setActiveIndex(0); } })
+          .catch((e: any) => { if (!cancelled) setLoadError(e.message); })
+          .finally(() => { if (!cancelled) setIsLoading(false); });
+      return () => { cancelled = true; };
+  }, [course.id]);
+
+  const activeModule = modules[activeIndex];
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col bg-black animate-in fade-in duration-200">
+        {/* Header */}
+        <div className="flex justify-between items-center p-4 md:p-6 border-b border-white/10 shrink-0">
+            <div className="min-w-0">
+                <p className="text-[10px] md:text-xs text-neutral-500 uppercase tracking-widest">{course.author}</p>
+                <h2 className="text-lg md:text-2xl font-bold text-white truncate">{getData(course, 'title')}</h2>
+            </div>
+            <button onClick={onClose} className="flex items-center justify-center w-10 h-10 rounded-full bg-black border border-white/20 text-white hover:border-red-600 hover:bg-red-600 transition-all shrink-0">
+                <X className="w-5 h-5" />
+            </button>
+        </div>
+
+        {isLoading ? (
+            <div className="flex-1 flex items-center justify-center"><Loader2 className="w-8 h-8 text-red-600 animate-spin" /></div>
+        ) : loadError ? (
+            <div className="flex-1 flex flex-col items-center justify-center gap-2 text-neutral-400 p-6 text-center">
+                <AlertCircle className="w-8 h-8 text-red-600" />
+                <p>{t.course_content_error}</p>
+                <p className="text-xs text-neutral-600">{loadError}</p>
+            </div>
+        ) : (
+            <div className="flex-1 flex flex-col lg:flex-row overflow-hidden">
+                {/* Video + notes */}
+                <div className="flex-1 overflow-y-auto p-4 md:p-8">
+                    {activeModule ? (
+                        <div className="max-w-4xl mx-auto space-y-6">
+                            {activeModule.video_url ? (
+                                <VideoPlayer url={activeModule.video_url} />
+                            ) : (
+                                <div className="w-full aspect-video bg-neutral-900 rounded-xl border border-neutral-800 flex items-center justify-center text-neutral-500 text-sm">
+                                    {t.course_module_no_video}
+                                </div>
+                            )}
+                            <div>
+                                <p className="text-xs font-bold text-red-500 uppercase tracking-widest mb-2">{t.modules} · {activeIndex + 1} / {modules.length}</p>
+                                <h3 className="text-2xl font-bold text-white mb-4">{getData(activeModule, 'title')}</h3>
+                                {activeModule.description && (
+                                    <p className="text-neutral-300 leading-8 whitespace-pre-line">{getData(activeModule, 'description')}</p>
+                                )}
+                            </div>
+                            <div className="flex justify-between pt-4 border-t border-white/10">
+                                <button
+                                    onClick={() => setActiveIndex(i => i - 1)}
+                                    disabled={activeIndex === 0}
+                                    className="px-4 py-2 rounded-lg text-sm font-bold text-neutral-300 hover:text-white disabled:opacity-30"
+                                >
+                                    {t.back}
+                                </button>
+                                <button
+                                    onClick={() => setActiveIndex(i => i + 1)}
+                                    disabled={activeIndex >= modules.length - 1}
+                                    className="px-4 py-2 rounded-lg text-sm font-bold bg-red-700 hover:bg-red-600 text-white disabled:opacity-30"
+                                >
+                                    {t.next}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="flex items-center justify-center h-full text-neutral-500">{t.course_module_no_video}</div>
+                    )}
+                </div>
+
+                {/* Module list */}
+                <div className="lg:w-80 shrink-0 border-t lg:border-t-0 lg:border-l border-white/10 overflow-y-auto max-h-[40vh] lg:max-h-none">
+                    <h4 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.2em] p-4">{t.course_content}</h4>
+                    {modules.map((mod, idx) => (
+                        <button
+                            key={mod.id}
+                            onClick={() => setActiveIndex(idx)}
+                            className={`w-full flex items-start gap-3 px-4 py-3 text-left transition-colors ${idx === activeIndex ? 'bg-red-900/20 border-l-2 border-red-600' : 'border-l-2 border-transparent hover:bg-white/5'}`}
+                        >
+                            <span className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold shrink-0 ${idx === activeIndex ? 'bg-red-600 text-white' : 'bg-neutral-800 text-neutral-400'}`}>
+                                {idx === activeIndex ? <Play className="w-3 h-3 fill-white" /> : idx + 1}
+                            </span>
+                            <span className={`text-sm pt-0.5 ${idx === activeIndex ? 'text-white font-bold' : 'text-neutral-400'}`}>{getData(mod, 'title')}</span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default CoursePlayer;
@@ -3,6 +3,8 @@ import React, { useState } from 'react';
 import { X, Video, ChevronDown, ChevronUp, ShoppingCart, User, CheckCircle, Play, Image as ImageIcon } from 'lucide-react';
 import { Course, CartItem, Product } from '../types';
 import VideoPlayer from './VideoPlayer';
+import CoursePlayer from './CoursePlayer';
+import { courseToProduct, courseIdOf } from '../utils/cart';
 
 interface CoursesModalProps {
   isOpen: boolean;
@@ -11,46 +13,33 @@ interface CoursesModalProps {
   addToCart: (product: Product) => void;
   openCart: () => void;
   cart: CartItem[];
+  selectedCourseId?: number | null; // Driven by /courses/:id
+  onSelectCourse: (course: Course | null) => void;
+  entitledCourseIds: number[]; // Courses the user can watch (admins: all)
+  pendingCourseIds: number[];  // Ordered but not yet paid
+  isPlayerOpen: boolean;       // Driven by /courses/:id?watch=1
+  onTogglePlayer: (open: boolean) => void;
   lang: 'ru' | 'en';
   t: any;
   getData: (item: any, field: string) => string;
 }
 
 const CoursesModal: React.FC<CoursesModalProps> = ({ 
-    isOpen, onClose, courses, addToCart, openCart, cart, lang, t, getData
+    isOpen, onClose, courses, addToCart, openCart, cart, selectedCourseId, onSelectCourse,
+    entitledCourseIds, pendingCourseIds, isPlayerOpen, onTogglePlayer, lang, t, getData
 }) => {
-  const [selectedCourse, setSelectedCourse] = useState<Course | null>(null);
+  const selectedCourse = courses.find(c => c.id === selectedCourseId) || null;
 
   if (!isOpen) return null;
 
+  const hasAccess = (course: Course) => entitledCourseIds.includes(course.id);
+
   const handleBuy = (course: Course) => {
-      // Map Course to Product to fit into existing Cart Logic
-      let thumb = course.image_url;
-      
-      // Fallback to youtube thumbnail if no image uploaded
-      if (!thumb && course.video_url) {
-        try {
-            const videoId = course.video_url.split('v=')[1]?.split('&')[0];
-            if (videoId) thumb = `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`;
-        } catch (e) {}
+      // Already in the cart: just show it
+      if (!cart.some(item => courseIdOf(item.product) === course.id)) {
+          addToCart(courseToProduct(course));
       }
-
-      const productFromCourse: Product = {
-          id: 90000 + course.id, // Ensure unique ID range
-          title: course.title,
-          title_en: course.title_en,
-          price: course.price,
-          description_short: "Online Video Course",
-          description_long: course.description_long,
-          color: "Video Course", // Specific identifier for Cart Logic
-          images: [thumb || "https://images.unsplash.com/photo-1533561052600-4b68e9255416?auto=format&fit=crop&q=80&w=800"], 
-          video_url: course.video_url,
-          is_course: true // Helper flag
-      };
-      
-      addToCart(productFromCourse);
       openCart();
-      setSelectedCourse(null);
       onClose();
   };
 
@@ -98,7 +87,7 @@ const CoursesModal: React.FC<CoursesModalProps> = ({
                      {courses.map(course => (
                          <div 
                             key={course.id} 
-                            onClick={() => setSelectedCourse(course)}
+                            onClick={() => onSelectCourse(course)}
                             className="group flex flex-col bg-neutral-900/50 border border-white/10 rounded-2xl overflow-hidden hover:border-red-600 transition-all duration-300 cursor-pointer hover:shadow-[0_0_20px_rgba(220,38,38,0.1)]"
                          >
                              {/* Preview: Show Image if available, else Video Thumbnail */}
@@ -122,9 +111,15 @@ const CoursesModal: React.FC<CoursesModalProps> = ({
                                      <h3 className="text-xl font-bold text-white group-hover:text-red-500 transition-colors leading-tight">
                                         {getData(course, 'title')}
                                      </h3>
-                                     <span className="bg-white/10 text-white text-xs font-bold px-2 py-1 rounded">
-                                        ${course.price}
-                                     </span>
+                                     {hasAccess(course) ? (
+                                        <span className="bg-green-900/30 text-green-400 text-xs font-bold px-2 py-1 rounded flex items-center gap-1 shrink-0">
+                                            <CheckCircle className="w-3 h-3" /> {t.course_access_open}
+                                        </span>
+                                     ) : (
+                                        <span className="bg-white/10 text-white text-xs font-bold px-2 py-1 rounded">
+                                            ${course.price}
+                                        </span>
+                                     )}
                                  </div>
                                  
                                  <div className="flex items-center gap-2 text-xs text-neutral-500 mb-4 font-bold uppercase tracking-wider">
@@ -150,20 +145,29 @@ const CoursesModal: React.FC<CoursesModalProps> = ({
       </div>
 
       {/* Landing Page Modal */}
-      {selectedCourse && (
+      {selectedCourse && (isPlayerOpen && hasAccess(selectedCourse) ? (
+          <CoursePlayer 
+            course={selectedCourse} 
+            onClose={() => onTogglePlayer(false)} 
+            t={t} 
+            getData={getData} 
+          />
+      ) : (
           <CourseLandingOverlay 
             course={selectedCourse} 
-            onClose={() => setSelectedCourse(null)} 
+            onClose={() => onSelectCourse(null)} 
             onBuy={() => handleBuy(selectedCourse)} 
+            onWatch={hasAccess(selectedCourse) ? () => onTogglePlayer(true) : undefined}
+            isPending={pendingCourseIds.includes(selectedCourse.id)}
             t={t} 
             getData={getData} 
           />
-      )}
+      ))}
     </div>
   );
 };
 
-const CourseLandingOverlay: React.FC<{ course: Course, onClose: () => void, onBuy: () => void, t: any, getData: any }> = ({ course, onClose, onBuy, t, getData }) => {
+const CourseLandingOverlay: React.FC<{ course: Course, onClose: () => void, onBuy: () => void, onWatch?: () => void, isPending: boolean, t: any, getData: any }> = ({ course, onClose, onBuy, onWatch, isPending, t, getData }) => {
     const [openFaqIndex, setOpenFaqIndex] = useState<number | null>(null);
 
     return (
@@ -196,13 +200,28 @@ const CourseLandingOverlay: React.FC<{ course: Course, onClose: () => void, onBu
                              </p>
                         </div>
                         <div className="w-full md:w-auto shrink-0 flex flex-col gap-4 bg-neutral-900/30 p-6 rounded-xl border border-white/10">
-                             <div className="text-4xl font-mono font-bold text-red-600">${course.price}</div>
-                             <button 
-                                onClick={onBuy}
-                                className="w-full bg-white hover:bg-neutral-200 text-black px-8 py-4 rounded-xl font-bold text-sm tracking-widest uppercase shadow-lg transition-all active:scale-95 flex items-center justify-center gap-2"
-                             >
-                                <ShoppingCart className="w-4 h-4" /> {t.buy_course}
-                             </button>
+                             {onWatch ? (
+                                <button 
+                                    onClick={onWatch}
+                                    className="w-full bg-red-700 hover:bg-red-600 text-white px-8 py-4 rounded-xl font-bold text-sm tracking-widest uppercase shadow-lg transition-all active:scale-95 flex items-center justify-center gap-2"
+                                >
+                                    <Play className="w-4 h-4 fill-white" /> {t.watch_course}
+                                </button>
+                             ) : (
+                                <>
+                                    <div className="text-4xl font-mono font-bold text-red-600">${course.price}</div>
+                                    {isPending ? (
+                                        <p className="text-xs text-yellow-400 max-w-[16rem]">{t.course_access_pending}</p>
+                                    ) : (
+                                        <button 
+                                            onClick={onBuy}
+                                            className="w-full bg-white hover:bg-neutral-200 text-black px-8 py-4 rounded-xl font-bold text-sm tracking-widest uppercase shadow-lg transition-all active:scale-95 flex items-center justify-center gap-2"
+                                        >
+                                            <ShoppingCart className="w-4 h-4" /> {t.buy_course}
+                                        </button>
+                                    )}
+                                </>
+                             )}
                         </div>
                     </div>
 
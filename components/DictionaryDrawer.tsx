@@ -1,19 +1,24 @@
 
 import React, { useEffect, useState } from 'react';
 import { X, BookOpen } from 'lucide-react';
-import { DictionaryEntry } from '../types';
+import { Bookmark, BookmarkType, DictionaryEntry } from '../types';
+import { hasBookmark } from '../utils/notes';
+import BookmarkButton from './BookmarkButton';
 
 interface DictionaryDrawerProps {
   term: string | null;
   dictionary: DictionaryEntry[];
   onClose: () => void;
+  bookmarks?: Bookmark[];
+  onToggleBookmark?: (type: BookmarkType, itemId: string) => void;
   lang?: 'ru' | 'en';
   t?: any;
 }
 
-const DictionaryDrawer: React.FC<DictionaryDrawerProps> = ({ term, dictionary, onClose, lang = 'ru', t }) => {
+const DictionaryDrawer: React.FC<DictionaryDrawerProps> = ({ term, dictionary, onClose, bookmarks = [], onToggleBookmark, lang = 'ru', t }) => {
   const [definition, setDefinition] = useState<string | null>(null);
   const [displayTerm, setDisplayTerm] = useState<string | null>(null);
+  const [entryTerm, setEntryTerm] = useState<string | null>(null); // Russian term of the found entry (bookmark id)
 
   useEffect(() => {
     if (term) {
@@ -23,6 +28,7 @@ const DictionaryDrawer: React.FC<DictionaryDrawerProps> = ({ term, dictionary, o
         (d.term_en && d.term_en.toLowerCase() === term.toLowerCase())
       );
 
+      setEntryTerm(entry ? entry.term : null);
       if (entry) {
           if (lang === 'en') {
               setDefinition(entry.definition_en || entry.definition);
@@ -64,7 +70,12 @@ const DictionaryDrawer: React.FC<DictionaryDrawerProps> = ({ term, dictionary, o
             <span className="inline-block px-3 py-1 bg-red-900/30 text-red-400 text-xs font-bold tracking-wide uppercase rounded-full mb-3">
               Term
             </span>
-            <h2 className="text-2xl sm:text-3xl font-extrabold text-white mb-6 break-words">{displayTerm || term}</h2>
+            <div className="flex items-start justify-between gap-4 mb-6">
+                <h2 className="text-2xl sm:text-3xl font-extrabold text-white break-words">{displayTerm || term}</h2>
+                {entryTerm && onToggleBookmark && t && (
+                    <BookmarkButton isActive={hasBookmark(bookmarks, 'term', entryTerm)} onToggle={() => onToggleBookmark('term', entryTerm)} t={t} className="mt-2 shrink-0" />
+                )}
+            </div>
             
             <span className="inline-block px-3 py-1 bg-neutral-800 text-neutral-400 text-xs font-bold tracking-wide uppercase rounded-full mb-3">
               Definition
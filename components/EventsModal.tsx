@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
 import { X, Calendar, MapPin, Ticket, Clock, ArrowRight, MessageCircle, Send, ExternalLink } from 'lucide-react';
 import { AppEvent } from '../types';
 
@@ -7,14 +7,22 @@ interface EventsModalProps {
   isOpen: boolean;
   onClose: () => void;
   events: AppEvent[];
+  selectedEventId?: number | null; // Driven by /events/:id
+  onSelectEvent: (event: AppEvent | null) => void;
   lang: 'ru' | 'en';
   t: any;
 }
 
 const EventsModal: React.FC<EventsModalProps> = ({ 
-    isOpen, onClose, events, lang, t 
+    isOpen, onClose, events, selectedEventId, onSelectEvent, lang, t 
 }) => {
-  const [contactEvent, setContactEvent] = useState<AppEvent | null>(null);
+  // The linked event opens its registration popup and is scrolled into view behind it
+  const contactEvent = events.find(e => e.id === selectedEventId) || null;
+
+  useEffect(() => {
+      if (!isOpen || !contactEvent) return;
+      document.getElementById(`event-${contactEvent.id}`)?.scrollIntoView({ block: 'center' });
+  }, [isOpen, contactEvent]);
 
   if (!isOpen) return null;
 
@@ -70,7 +78,7 @@ const EventsModal: React.FC<EventsModalProps> = ({
               ) : (
                   <div className="flex flex-col gap-6">
                       {events.map((event, idx) => (
-                          <div key={event.id} className="bg-neutral-900 border border-neutral-800 rounded-2xl overflow-hidden group hover:border-red-900/50 transition-all duration-300 shadow-lg flex flex-col md:flex-row min-h-[220px]">
+                          <div key={event.id} id={`event-${event.id}`} className="bg-neutral-900 border border-neutral-800 rounded-2xl overflow-hidden group hover:border-red-900/50 transition-all duration-300 shadow-lg flex flex-col md:flex-row min-h-[220px]">
                               
                               {/* Content Section (Left on Desktop) */}
                               <div className="flex-1 p-6 md:p-8 flex flex-col justify-between order-1">
@@ -109,7 +117,7 @@ const EventsModal: React.FC<EventsModalProps> = ({
                                       
                                       {event.registration_url && (
                                           <button 
-                                              onClick={() => setContactEvent(event)}
+                                              onClick={() => onSelectEvent(event)}
                                               className="group/btn flex items-center gap-2 text-white font-bold bg-red-700 hover:bg-red-600 px-5 py-2.5 rounded-lg transition-all shadow-lg shadow-red-900/20"
                                           >
                                               {t.register_event || "Записаться"} 
@@ -146,7 +154,7 @@ const EventsModal: React.FC<EventsModalProps> = ({
               <div className="bg-neutral-900 border border-neutral-800 rounded-2xl w-full max-w-md shadow-2xl relative overflow-hidden flex flex-col">
                   {/* Close Btn */}
                   <button 
-                      onClick={() => setContactEvent(null)}
+                      onClick={() => onSelectEvent(null)}
                       className="absolute top-4 right-4 text-neutral-500 hover:text-white transition-colors bg-black/20 p-1 rounded-full z-10"
                   >
                       <X className="w-5 h-5" />
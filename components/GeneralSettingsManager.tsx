@@ -0,0 +1,374 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Save, Loader2, Plus, Trash2, Mail, BarChart2, Code, Share2, Crown, Send, AlertCircle, CheckCircle, RotateCcw } from 'lucide-react';
+import { AppSettings, SocialResource } from '../types';
+import { supabase } from '../supabaseClient';
+import { INITIAL_SOCIAL_RESOURCES, DEFAULT_EMAILJS_PUBLIC_KEY, DEFAULT_EMAILJS_SERVICE_ID, DEFAULT_EMAILJS_TEMPLATE_ID } from '../constants';
+import emailjs from '@emailjs/browser';
+
+interface GeneralSettingsManagerProps {
+  onSave: () => void;
+}
+
+type FieldErrors = Partial<Record<keyof AppSettings, string>> & { resources?: Record<number, string> };
+
+// Logic: Validation
+// Returns a message per invalid field. Empty optional fields are valid.
+const validateAppSettings = (s: AppSettings): FieldErrors => {
+  const errors: FieldErrors = {};
+
+  if (s.gtm_id && !/^GTM-[A-Z0-9]{4,10}$/.test(s.gtm_id)) {
+      errors.gtm_id = 'Формат: GTM-XXXXXXX';
+  }
+  if (s.yandex_id && !/^\d{5,12}$/.test(s.yandex_id)) {
+      errors.yandex_id = 'Номер счетчика Яндекс.Метрики (только цифры)';
+  }
+  if (s.gold_user_threshold_minutes !== undefined && s.gold_user_threshold_minutes !== null) {
+      const v = Number(s.gold_user_threshold_minutes);
+      if (!Number.isFinite(v) || v <= 0 || v > 24 * 60) errors.gold_user_threshold_minutes = 'Число минут от 1 до 1440';
+  }
+
+  // EmailJS: either all three keys or none
+  const emailKeys = [s.emailjs_service_id, s.emailjs_template_id, s.emailjs_public_key];
+  const filledKeys = emailKeys.filter(k => k && k.trim()).length;
+  if (filledKeys > 0 && filledKeys < 3) {
+      if (!s.emailjs_service_id) errors.emailjs_service_id = 'Нужны все три ключа EmailJS';
+      if (!s.emailjs_template_id) errors.emailjs_template_id = 'Нужны все три ключа EmailJS';
+      if (!s.emailjs_public_key) errors.emailjs_public_key = 'Нужны все три ключа EmailJS';
+  }
+  if (s.emailjs_service_id && !/^[\w-]+$/.test(s.emailjs_service_id)) errors.emailjs_service_id = 'Только латиница, цифры, _ и -';
+  if (s.emailjs_template_id && !/^[\w-]+$/.test(s.emailjs_template_id)) errors.emailjs_template_id = 'Только латиница, цифры, _ и -';
+  if (s.emailjs_public_key && !/^[\w-]+$/.test(s.emailjs_public_key)) errors.emailjs_public_key = 'Только латиница, цифры, _ и -';
+
+  if (s.custom_html_body && /<script[^>]*src=["']?http:/i.test(s.custom_html_body)) {
+      errors.custom_html_body = 'Скрипты должны подключаться по https://';
+  }
+
+  const resourceErrors: Record<number, string> = {};
+  const seenIds = new Set<string>();
+  (s.social_resources || []).forEach((r, idx) => {
+      if (!r.id || !r.label) resourceErrors[idx] = 'Заполните ID и название';
+      else if (seenIds.has(r.id)) resourceErrors[idx] = 'ID должен быть уникальным';
+      else {
+          try {
+              const url = new URL(r.url);
+              if (!['http:', 'https:'].includes(url.protocol)) resourceErrors[idx] = 'Ссылка должна начинаться с http(s)://';
+          } catch (e) {
+              resourceErrors[idx] = 'Некорректная ссылка';
+          }
+      }
+      seenIds.add(r.id);
+  });
+  if (Object.keys(resourceErrors).length > 0) errors.resources = resourceErrors;
+
+  return errors;
+};
+
+const GeneralSettingsManager: React.FC<GeneralSettingsManagerProps> = ({ onSave }) => {
+  const [settings, setSettings] = useState<AppSettings>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testEmail, setTestEmail] = useState('');
+  const [testResult, setTestResult] = useState<{ ok: boolean, message: string } | null>(null);
+
+  // Repair SQL in case table is missing or structure is wrong.
+  // Everyone reads the settings, only admins change them (utils/roles, run ROLES_REPAIR_SQL first).
+  const repairSql = `
+CREATE TABLE IF NOT EXISTS public.app_settings (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    gtm_id text,
+    yandex_id text,
+    custom_html_body text,
+    gold_user_threshold_minutes integer DEFAULT 5,
+    gold_config jsonb DEFAULT '[]',
+    emailjs_service_id text,
+    emailjs_template_id text,
+    emailjs_public_key text,
+    social_resources jsonb DEFAULT '[]',
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all" ON public.app_settings;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'app_settings' AND policyname = 'Read settings') THEN
+    CREATE POLICY "Read settings" ON public.app_settings FOR SELECT USING (true);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'app_settings' AND policyname = 'Admins manage settings') THEN
+    CREATE POLICY "Admins manage settings" ON public.app_settings FOR ALL USING (public.is_shibari_admin()) WITH CHECK (public.is_shibari_admin());
+  END IF;
+END $$;
+  `.trim();
+
+  const loadSettings = async () => {
+      setIsLoading(true);
+      try {
+          if (!supabase) throw new Error("No database connection");
+          const { data } = await supabase.from('app_settings').select('*').limit(1).maybeSingle();
+          if (data) {
+              setSettings(data as AppSettings);
+          } else {
+              // No row yet: prefill with the defaults the app already uses
+              setSettings({
+                  gold_user_threshold_minutes: 5,
+                  emailjs_service_id: DEFAULT_EMAILJS_SERVICE_ID,
+                  emailjs_template_id: DEFAULT_EMAILJS_TEMPLATE_ID,
+                  emailjs_public_key: DEFAULT_EMAILJS_PUBLIC_KEY,
+                  social_resources: INITIAL_SOCIAL_RESOURCES
+              });
+          }
+      } catch (e) {
+          console.error("Error loading settings:", e);
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  useEffect(() => { loadSettings(); }, []);
+
+  const errors = useMemo(() => validateAppSettings(settings), [settings]);
+  const hasErrors = Object.keys(errors).length > 0;
+
+  const update = (field: keyof AppSettings, value: any) => setSettings(prev => ({ ...prev, [field]: value }));
+
+  const handleSave = async () => {
+    if (hasErrors) {
+        alert("Исправьте ошибки в форме перед сохранением");
+        return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (!supabase) throw new Error("No database connection");
+
+      const payload = {
+        gtm_id: settings.gtm_id?.trim() || null,
+        yandex_id: settings.yandex_id?.trim() || null,
+        custom_html_body: settings.custom_html_body || null,
+        gold_user_threshold_minutes: settings.gold_user_threshold_minutes ? Number(settings.gold_user_threshold_minutes) : null,
+        emailjs_service_id: settings.emailjs_service_id?.trim() || null,
+        emailjs_template_id: settings.emailjs_template_id?.trim() || null,
+        emailjs_public_key: settings.emailjs_public_key?.trim() || null,
+        social_resources: settings.social_resources || []
+      };
+
+      if (settings.id) {
+        const { error } = await supabase.from('app_settings').update(payload).eq('id', settings.id);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.from('app_settings').insert([payload]).select().single();
+        if (error) throw error;
+        if (data) setSettings(data as AppSettings);
+      }
+
+      alert("Настройки сохранены");
+      onSave();
+    } catch (e: any) {
+      console.error(e);
+      alert(`Ошибка сохранения: ${e.message}\nSQL:\n${repairSql}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Logic: EmailJS Test
+  // Sends a fake order with the keys currently in the form (saved or not).
+  const handleTestEmail = async () => {
+      setTestResult(null);
+      if (!testEmail.includes('@')) {
+          setTestResult({ ok: false, message: 'Введите email получателя' });
+          return;
+      }
+      if (!settings.emailjs_service_id || !settings.emailjs_template_id || !settings.emailjs_public_key) {
+          setTestResult({ ok: false, message: 'Заполните все ключи EmailJS' });
+          return;
+      }
+
+      setIsTesting(true);
+      try {
+          await emailjs.send(settings.emailjs_service_id, settings.emailjs_template_id, {
+              to_email: testEmail,
+              to_name: 'Admin',
+              order_id: 'TEST',
+              order_summary: 'Тестовое письмо из Admin Hub (x1) - $0',
+              total_amount: 0,
+              order_date: new Date().toLocaleDateString()
+          }, settings.emailjs_public_key);
+          setTestResult({ ok: true, message: `Письмо отправлено на ${testEmail}` });
+      } catch (e: any) {
+          console.error("EmailJS test failed:", e);
+          setTestResult({ ok: false, message: `Ошибка EmailJS: ${e?.text || e?.message || 'unknown'}` });
+      } finally {
+          setIsTesting(false);
+      }
+  };
+
+  // --- Social Resources ---
+  const addResource = () => update('social_resources', [...(settings.social_resources || []), { id: '', label: '', url: 'https://' }]);
+
+  const updateResource = (index: number, field: keyof SocialResource, value: string) => {
+      const list = [...(settings.social_resources || [])];
+      list[index] = { ...list[index], [field]: value };
+      update('social_resources', list);
+  };
+
+  const removeResource = (index: number) => update('social_resources', (settings.social_resources || []).filter((_, i) => i !== index));
+
+  if (isLoading) {
+      return (
+          <div className="flex items-center justify-center h-64 text-neutral-500">
+              <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+      );
+  }
+
+  const inputClass = (hasError?: boolean) => `w-full bg-neutral-900 border ${hasError ? 'border-red-600' : 'border-neutral-800'} rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none text-sm`;
+
+  return (
+    <div className="space-y-8 pb-10">
+        <div className="flex justify-between items-center">
+            <p className="text-neutral-400">Глобальные настройки сайта (таблица app_settings).</p>
+            <div className="flex gap-2">
+                <button onClick={loadSettings} className="text-neutral-400 hover:text-white flex items-center gap-2 px-3 py-2 bg-neutral-800 rounded-lg transition-colors text-sm">
+                    <RotateCcw className="w-4 h-4" /> Отменить изменения
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={isSaving || hasErrors}
+                    className="bg-green-700 hover:bg-green-600 text-white px-6 py-2 rounded-lg font-medium flex items-center gap-2 disabled:opacity-50 transition-colors shadow-lg shadow-green-900/20"
+                >
+                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4" />} Сохранить
+                </button>
+            </div>
+        </div>
+
+        {/* Analytics */}
+        <div className="bg-neutral-900/30 p-6 rounded-xl border border-neutral-800 space-y-4">
+            <h3 className="text-white font-bold flex items-center gap-2"><BarChart2 className="w-4 h-4 text-red-500"/> Аналитика</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-neutral-500 uppercase">Google Tag Manager ID</label>
+                    <input value={settings.gtm_id || ''} onChange={e => update('gtm_id', e.target.value.toUpperCase())} placeholder="GTM-XXXXXXX" className={inputClass(!!errors.gtm_id)} />
+                    <FieldError message={errors.gtm_id} />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-neutral-500 uppercase">Яндекс.Метрика ID</label>
+                    <input value={settings.yandex_id || ''} onChange={e => update('yandex_id', e.target.value)} placeholder="12345678" className={inputClass(!!errors.yandex_id)} />
+                    <FieldError message={errors.yandex_id} />
+                </div>
+            </div>
+        </div>
+
+        {/* Gold User */}
+        <div className="bg-neutral-900/30 p-6 rounded-xl border border-neutral-800 space-y-4">
+            <h3 className="text-white font-bold flex items-center gap-2"><Crown className="w-4 h-4 text-yellow-500"/> Gold User</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-neutral-500 uppercase">Порог активного времени (мин)</label>
+                    <input
+                        type="number"
+                        value={settings.gold_user_threshold_minutes ?? ''}
+                        onChange={e => update('gold_user_threshold_minutes', e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                        placeholder="5"
+                        className={inputClass(!!errors.gold_user_threshold_minutes)}
+                    />
+                    <FieldError message={errors.gold_user_threshold_minutes} />
+                </div>
+                <div className="text-xs text-neutral-500 self-center leading-relaxed">
+                    Используется, если не заданы правила Gold Config.
+                    Сейчас правил: <span className="text-white font-bold">{settings.gold_config?.length || 0}</span>
+                </div>
+            </div>
+        </div>
+
+        {/* EmailJS */}
+        <div className="bg-neutral-900/30 p-6 rounded-xl border border-neutral-800 space-y-4">
+            <h3 className="text-white font-bold flex items-center gap-2"><Mail className="w-4 h-4 text-red-500"/> EmailJS (письма о заказах)</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-neutral-500 uppercase">Service ID</label>
+                    <input value={settings.emailjs_service_id || ''} onChange={e => update('emailjs_service_id', e.target.value)} placeholder="service_xxx" className={inputClass(!!errors.emailjs_service_id)} />
+                    <FieldError message={errors.emailjs_service_id} />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-neutral-500 uppercase">Template ID</label>
+                    <input value={settings.emailjs_template_id || ''} onChange={e => update('emailjs_template_id', e.target.value)} placeholder="template_xxx" className={inputClass(!!errors.emailjs_template_id)} />
+                    <FieldError message={errors.emailjs_template_id} />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-neutral-500 uppercase">Public Key</label>
+                    <input value={settings.emailjs_public_key || ''} onChange={e => update('emailjs_public_key', e.target.value)} placeholder="xxxxxxxx" className={inputClass(!!errors.emailjs_public_key)} />
+                    <FieldError message={errors.emailjs_public_key} />
+                </div>
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-2 pt-2 border-t border-neutral-800">
+                <input
+                    type="email"
+                    value={testEmail}
+                    onChange={e => setTestEmail(e.target.value)}
+                    placeholder="Email для тестового письма"
+                    className="flex-1 bg-neutral-950 border border-neutral-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-red-500"
+                />
+                <button
+                    onClick={handleTestEmail}
+                    disabled={isTesting}
+                    className="bg-neutral-800 hover:bg-neutral-700 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors text-sm border border-neutral-700 disabled:opacity-50"
+                >
+                    {isTesting ? <Loader2 className="w-4 h-4 animate-spin"/> : <Send className="w-4 h-4" />} Отправить тест
+                </button>
+            </div>
+            {testResult && (
+                <div className={`p-3 rounded-lg flex items-start gap-2 border ${testResult.ok ? 'bg-green-900/20 border-green-900/50' : 'bg-red-900/20 border-red-900/50'}`}>
+                    {testResult.ok ? <CheckCircle className="w-4 h-4 text-green-500 shrink-0 mt-0.5" /> : <AlertCircle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />}
+                    <p className={`text-xs ${testResult.ok ? 'text-green-200' : 'text-red-200'}`}>{testResult.message}</p>
+                </div>
+            )}
+        </div>
+
+        {/* Custom HTML */}
+        <div className="bg-neutral-900/30 p-6 rounded-xl border border-neutral-800 space-y-2">
+            <h3 className="text-white font-bold flex items-center gap-2"><Code className="w-4 h-4 text-red-500"/> Custom HTML (body)</h3>
+            <textarea
+                value={settings.custom_html_body || ''}
+                onChange={e => update('custom_html_body', e.target.value)}
+                rows={5}
+                placeholder="<!-- Виджеты, пиксели, чаты -->"
+                className={`${inputClass(!!errors.custom_html_body)} font-mono resize-y`}
+            />
+            <FieldError message={errors.custom_html_body} />
+        </div>
+
+        {/* Social Resources */}
+        <div className="bg-neutral-900/30 p-6 rounded-xl border border-neutral-800 space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-white font-bold flex items-center gap-2"><Share2 className="w-4 h-4 text-red-500"/> Ресурсы (соцсети)</h3>
+                <button onClick={addResource} className="text-xs text-red-500 hover:text-red-400 font-bold flex items-center gap-1"><Plus className="w-3 h-3"/> Добавить</button>
+            </div>
+            <p className="text-[11px] text-neutral-600">ID задает иконку: youtube, instagram, facebook, twitter, spotify, telegram_channel, telegram_bot, vk, tiktok, appstore, googleplay, vimeo.</p>
+            <div className="space-y-3">
+                {(settings.social_resources || []).map((r, idx) => (
+                    <div key={idx} className="space-y-1">
+                        <div className="flex gap-2">
+                            <input value={r.id} onChange={e => updateResource(idx, 'id', e.target.value)} placeholder="id" className="w-40 bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none font-mono" />
+                            <input value={r.label} onChange={e => updateResource(idx, 'label', e.target.value)} placeholder="Название" className="w-48 bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none" />
+                            <input value={r.url} onChange={e => updateResource(idx, 'url', e.target.value)} placeholder="https://" className="flex-1 bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none" />
+                            <button onClick={() => removeResource(idx)} className="text-neutral-500 hover:text-red-500 px-2"><Trash2 className="w-4 h-4"/></button>
+                        </div>
+                        <FieldError message={errors.resources?.[idx]} />
+                    </div>
+                ))}
+                {!settings.social_resources?.length && <div className="text-neutral-500 text-sm text-center py-2">Список пуст (будут показаны ресурсы по умолчанию)</div>}
+            </div>
+        </div>
+    </div>
+  );
+};
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) => (
+    message ? <p className="text-[11px] text-red-400">{message}</p> : null
+);
+
+export default GeneralSettingsManager;
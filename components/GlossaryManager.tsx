@@ -1,9 +1,10 @@
 
 import React, { useState, useMemo } from 'react';
-import { Plus, Trash2, Save, ArrowLeft, Loader2, BookA, Search, Database } from 'lucide-react';
+import { Plus, Trash2, Save, ArrowLeft, Loader2, BookA, Search, Database, Languages } from 'lucide-react';
 import { DictionaryEntry } from '../types';
 import { supabase } from '../supabaseClient';
 import { INITIAL_DICTIONARY } from '../constants';
+import TranslationReview from './TranslationReview';
 
 interface GlossaryManagerProps {
   dictionary: DictionaryEntry[];
@@ -14,6 +15,7 @@ const GlossaryManager: React.FC<GlossaryManagerProps> = ({ dictionary, onSave })
   const [view, setView] = useState<'list' | 'edit'>('list');
   const [currentEntry, setCurrentEntry] = useState<Partial<DictionaryEntry>>({});
   const [isSaving, setIsSaving] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
 
   // Repair SQL in case table is missing or structure is wrong
@@ -118,6 +120,11 @@ END $$;
     }
   };
 
+  const applyTranslation = (values: Record<string, string>) => {
+    setCurrentEntry(prev => ({ ...prev, ...values }));
+    setIsTranslating(false);
+  };
+
   const handleDelete = async (id: number) => {
     if (!window.confirm("Удалить термин?")) return;
     try {
@@ -205,9 +212,14 @@ END $$;
              <button onClick={() => setView('list')} className="text-neutral-400 hover:text-white flex items-center gap-2 px-3 py-1 bg-neutral-800 rounded transition-colors">
                 <ArrowLeft className="w-4 h-4" /> Назад
              </button>
-             <button onClick={handleSave} disabled={isSaving} className="bg-green-700 hover:bg-green-600 text-white px-6 py-2 rounded-lg font-medium flex items-center gap-2 disabled:opacity-50 transition-colors shadow-lg shadow-green-900/20">
-                {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4" />} Сохранить
-            </button>
+             <div className="flex gap-2">
+                <button onClick={() => setIsTranslating(true)} className="bg-blue-900/30 hover:bg-blue-900/50 text-blue-400 px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors">
+                    <Languages className="w-4 h-4" /> Перевести на EN
+                </button>
+                <button onClick={handleSave} disabled={isSaving} className="bg-green-700 hover:bg-green-600 text-white px-6 py-2 rounded-lg font-medium flex items-center gap-2 disabled:opacity-50 transition-colors shadow-lg shadow-green-900/20">
+                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4" />} Сохранить
+                </button>
+             </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -269,6 +281,17 @@ END $$;
                 </div>
             </div>
         </div>
+
+        {isTranslating && (
+            <TranslationReview
+                fields={[
+                    { key: 'term_en', label: 'Термин', source: currentEntry.term || '', current: currentEntry.term_en || '' },
+                    { key: 'definition_en', label: 'Определение', source: currentEntry.definition || '', current: currentEntry.definition_en || '' }
+                ]}
+                onApply={applyTranslation}
+                onClose={() => setIsTranslating(false)}
+            />
+        )}
     </div>
   );
 };
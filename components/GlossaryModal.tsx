@@ -1,17 +1,21 @@
 
 import React, { useMemo } from 'react';
 import { X } from 'lucide-react';
-import { DictionaryEntry } from '../types';
+import { Bookmark, BookmarkType, DictionaryEntry } from '../types';
+import { hasBookmark } from '../utils/notes';
+import BookmarkButton from './BookmarkButton';
 
 interface GlossaryModalProps {
   isOpen: boolean;
   onClose: () => void;
   dictionary: DictionaryEntry[];
+  bookmarks?: Bookmark[];
+  onToggleBookmark?: (type: BookmarkType, itemId: string) => void;
   lang?: 'ru' | 'en';
   t?: any;
 }
 
-const GlossaryModal: React.FC<GlossaryModalProps> = ({ isOpen, onClose, dictionary, lang = 'ru', t }) => {
+const GlossaryModal: React.FC<GlossaryModalProps> = ({ isOpen, onClose, dictionary, bookmarks = [], onToggleBookmark, lang = 'ru', t }) => {
   // Группируем слова по первой букве
   // Must be called before early return
   const groupedDictionary = useMemo(() => {
@@ -88,8 +92,11 @@ const GlossaryModal: React.FC<GlossaryModalProps> = ({ isOpen, onClose, dictiona
                         <div key={index} className="flex flex-col md:flex-row md:gap-12 gap-2 group">
                         {/* Term Column */}
                         <div className="md:w-1/3 md:text-right shrink-0">
-                            <h3 className="text-xl md:text-2xl font-medium text-red-600 transition-colors">
+                            <h3 className="text-xl md:text-2xl font-medium text-red-600 transition-colors inline-flex md:flex-row-reverse items-center gap-3">
                             {displayTerm}
+                            {onToggleBookmark && t && (
+                                <BookmarkButton isActive={hasBookmark(bookmarks, 'term', entry.term)} onToggle={() => onToggleBookmark('term', entry.term)} t={t} iconClassName="w-4 h-4" />
+                            )}
                             </h3>
                         </div>
                         
@@ -0,0 +1,431 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Trash2, Save, Loader2, Target, Activity, Database, CheckCircle, XCircle, RefreshCw } from 'lucide-react';
+import { MetricGoal, MetricRule, MetricType } from '../types';
+import { supabase } from '../supabaseClient';
+import BehaviorTracker, { METRIC_DEFINITIONS, MetricPath, LEGACY_GOLD_GOAL, evaluateRule, evaluateGoal, getMetricValue } from '../utils/BehaviorTracker';
+
+interface GoalRulesManagerProps {
+  onSave: () => void;
+}
+
+interface StoredSession {
+  session_id: string;
+  log_data: any;
+  updated_at?: string;
+}
+
+const GROUP_LABELS: Record<string, string> = {
+  behavior: 'Поведение',
+  ecommerce: 'E-commerce',
+  video: 'Видео',
+  context: 'Контекст',
+  temporal: 'Время визита',
+  source: 'Источник',
+  calculated: 'Расчетные',
+  _internal: 'Сессия'
+};
+
+const TYPE_LABELS: Record<MetricType, string> = {
+  range: 'В диапазоне',
+  threshold: 'Не меньше',
+  time: 'Время не меньше (сек)',
+  select: 'Равно',
+  boolean: 'Да / Нет'
+};
+
+const METRIC_PATHS = Object.keys(METRIC_DEFINITIONS) as MetricPath[];
+
+// Paths grouped by metrics interface for <optgroup>
+const METRIC_GROUPS = METRIC_PATHS.reduce((acc, path) => {
+  const group = path.split('.')[0];
+  (acc[group] = acc[group] || []).push(path);
+  return acc;
+}, {} as Record<string, MetricPath[]>);
+
+const newId = () => Math.random().toString(36).substring(2, 10);
+
+// Default values for a freshly picked metric/type pair
+const createRule = (path: MetricPath, type?: MetricType, id?: string): MetricRule => {
+  const def = METRIC_DEFINITIONS[path];
+  const ruleType = type && def.types.includes(type) ? type : def.types[0];
+  const rule: MetricRule = { id: id || newId(), metricPath: path, label: def.label, type: ruleType };
+
+  if (ruleType === 'boolean') rule.value = true;
+  if (ruleType === 'select') rule.value = def.options?.[0] ?? '';
+  if (ruleType === 'threshold' || ruleType === 'time') rule.value = 0;
+  if (ruleType === 'range') { rule.min = 0; rule.max = undefined; }
+  return rule;
+};
+
+const formatValue = (v: any) => {
+  if (v === undefined || v === null) return '—';
+  if (typeof v === 'number') return Number.isInteger(v) ? String(v) : v.toFixed(2);
+  return String(v);
+};
+
+// Logic: Validation
+// Goal names are sent to Yandex.Metrica, so they are restricted to identifier characters.
+const validateGoals = (goals: MetricGoal[]): string | null => {
+  const names = new Set<string>();
+  for (const goal of goals) {
+      if (!/^[A-Za-z0-9_]+$/.test(goal.name)) return `Имя цели "${goal.name}" — только латиница, цифры и _`;
+      if (names.has(goal.name)) return `Имя цели "${goal.name}" повторяется`;
+      names.add(goal.name);
+      for (const rule of goal.rules) {
+          const def = METRIC_DEFINITIONS[rule.metricPath as MetricPath];
+          if (!def) return `${goal.name}: неизвестная метрика ${rule.metricPath}`;
+          if (!def.types.includes(rule.type)) return `${goal.name}: тип "${rule.type}" недоступен для ${rule.metricPath}`;
+          if (rule.type === 'range' && rule.min !== undefined && rule.max !== undefined && rule.min > rule.max) {
+              return `${goal.name}: минимум больше максимума (${rule.label})`;
+          }
+      }
+  }
+  return null;
+};
+
+const GoalRulesManager: React.FC<GoalRulesManagerProps> = ({ onSave }) => {
+  const [settingsId, setSettingsId] = useState<number | null>(null);
+  const [goals, setGoals] = useState<MetricGoal[]>([]);
+  const [selectedGoalId, setSelectedGoalId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Preview state
+  const [liveMetrics, setLiveMetrics] = useState<any>(null);
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+
+  const loadConfig = async () => {
+      setIsLoading(true);
+      try {
+          if (!supabase) throw new Error("No database connection");
+          const { data } = await supabase.from('app_settings').select('id, gold_config, goals_config').limit(1).maybeSingle();
+          setSettingsId(data?.id ?? null);
+
+          let loaded: MetricGoal[] = data?.goals_config || [];
+          if (loaded.length === 0) {
+              // Migrate the legacy single-goal config into the editor
+              loaded = [{ id: 'gold', name: LEGACY_GOLD_GOAL, label: 'Gold User', rules: data?.gold_config || [] }];
+          }
+          setGoals(loaded);
+          setSelectedGoalId(loaded[0]?.id || null);
+      } catch (e) {
+          console.error("Error loading goals:", e);
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  const loadSessions = async () => {
+      if (!supabase) return;
+      setIsLoadingSessions(true);
+      try {
+          const { data, error } = await supabase
+              .from('user_behavior_logs_shibari')
+              .select('session_id, log_data, updated_at')
+              .order('updated_at', { ascending: false })
+              .limit(100);
+          if (error) throw error;
+          setSessions((data || []) as StoredSession[]);
+      } catch (e: any) {
+          console.error(e);
+          alert("Ошибка загрузки сессий: " + e.message);
+      } finally {
+          setIsLoadingSessions(false);
+      }
+  };
+
+  useEffect(() => { loadConfig(); }, []);
+
+  // Live preview: snapshot the current session every 2 seconds
+  useEffect(() => {
+      const snapshot = () => setLiveMetrics(JSON.parse(JSON.stringify(BehaviorTracker.getMetrics(), (_k, v) => v instanceof Set ? Array.from(v) : v)));
+      snapshot();
+      const timer = setInterval(snapshot, 2000);
+      return () => clearInterval(timer);
+  }, []);
+
+  const selectedGoal = goals.find(g => g.id === selectedGoalId) || null;
+  const validationError = useMemo(() => validateGoals(goals), [goals]);
+
+  const updateGoal = (id: string, patch: Partial<MetricGoal>) => {
+      setGoals(prev => prev.map(g => g.id === id ? { ...g, ...patch } : g));
+  };
+
+  const addGoal = () => {
+      const goal: MetricGoal = { id: newId(), name: `Goal_${goals.length + 1}`, label: '', rules: [] };
+      setGoals(prev => [...prev, goal]);
+      setSelectedGoalId(goal.id);
+  };
+
+  const removeGoal = (id: string) => {
+      if (!window.confirm("Удалить цель?")) return;
+      const rest = goals.filter(g => g.id !== id);
+      setGoals(rest);
+      if (selectedGoalId === id) setSelectedGoalId(rest[0]?.id || null);
+  };
+
+  const updateRules = (rules: MetricRule[]) => selectedGoal && updateGoal(selectedGoal.id, { rules });
+
+  const handleSave = async () => {
+      if (validationError) {
+          alert(validationError);
+          return;
+      }
+
+      setIsSaving(true);
+      try {
+          if (!supabase) throw new Error("No database connection");
+
+          const payload = {
+              goals_config: goals,
+              // Keep the legacy field in sync for older clients
+              gold_config: goals.find(g => g.name === LEGACY_GOLD_GOAL)?.rules || []
+          };
+
+          if (settingsId) {
+              const { error } = await supabase.from('app_settings').update(payload).eq('id', settingsId);
+              if (error) throw error;
+          } else {
+              const { data, error } = await supabase.from('app_settings').insert([payload]).select('id').single();
+              if (error) throw error;
+              setSettingsId(data?.id ?? null);
+          }
+
+          alert("Цели сохранены. Новые правила применяются к сессиям, начатым после перезагрузки страницы.");
+          onSave();
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка сохранения: ${e.message}\nSQL:\nALTER TABLE public.app_settings ADD COLUMN IF NOT EXISTS goals_config jsonb DEFAULT '[]';`);
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  // Stored sessions preview for the selected goal
+  const sessionStats = useMemo(() => {
+      if (!selectedGoal || sessions.length === 0) return null;
+      const matched = sessions.filter(s => evaluateGoal(selectedGoal, s.log_data)).length;
+      const perRule = selectedGoal.rules.map(rule => sessions.filter(s => evaluateRule(rule, s.log_data)).length);
+      return { matched, perRule };
+  }, [selectedGoal, sessions]);
+
+  if (isLoading) {
+      return (
+          <div className="flex items-center justify-center h-64 text-neutral-500">
+              <Loader2 className="w-6 h-6 animate-spin" />
+          </div>
+      );
+  }
+
+  return (
+    <div className="space-y-6 pb-10">
+        <div className="flex justify-between items-center">
+            <p className="text-neutral-400">Цели поведения: цель достигнута, когда выполнены все правила.</p>
+            <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="bg-green-700 hover:bg-green-600 text-white px-6 py-2 rounded-lg font-medium flex items-center gap-2 disabled:opacity-50 transition-colors shadow-lg shadow-green-900/20"
+            >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4" />} Сохранить
+            </button>
+        </div>
+
+        {validationError && (
+            <div className="bg-red-900/20 border border-red-900/50 p-3 rounded-lg text-xs text-red-200">{validationError}</div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-6">
+            {/* Goals List */}
+            <div className="space-y-2">
+                {goals.map(goal => (
+                    <button
+                        key={goal.id}
+                        onClick={() => setSelectedGoalId(goal.id)}
+                        className={`w-full text-left px-4 py-3 rounded-xl border transition-colors ${selectedGoalId === goal.id ? 'bg-red-900/20 border-red-900/50 text-white' : 'bg-neutral-900 border-neutral-800 text-neutral-400 hover:border-neutral-700'}`}
+                    >
+                        <div className="flex items-center gap-2 font-bold text-sm"><Target className="w-4 h-4 shrink-0"/> <span className="truncate">{goal.label || goal.name}</span></div>
+                        <div className="text-[10px] font-mono text-neutral-500 mt-1 flex justify-between">
+                            <span className="truncate">{goal.name}</span>
+                            <span>{goal.rules.length} правил</span>
+                        </div>
+                    </button>
+                ))}
+                <button onClick={addGoal} className="w-full text-xs text-red-500 hover:text-red-400 font-bold flex items-center justify-center gap-1 py-2 border border-dashed border-neutral-800 rounded-xl">
+                    <Plus className="w-3 h-3"/> Новая цель
+                </button>
+            </div>
+
+            {/* Goal Editor */}
+            {selectedGoal ? (
+                <div className="space-y-6">
+                    <div className="bg-neutral-900/30 p-6 rounded-xl border border-neutral-800 space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+                            <div className="space-y-1">
+                                <label className="text-xs font-bold text-neutral-500 uppercase">Имя цели (Яндекс.Метрика)</label>
+                                <input
+                                    value={selectedGoal.name}
+                                    onChange={e => updateGoal(selectedGoal.id, { name: e.target.value })}
+                                    className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none text-sm font-mono"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <label className="text-xs font-bold text-neutral-500 uppercase">Название</label>
+                                <input
+                                    value={selectedGoal.label || ''}
+                                    onChange={e => updateGoal(selectedGoal.id, { label: e.target.value })}
+                                    placeholder="Например: Вовлеченный покупатель"
+                                    className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none text-sm"
+                                />
+                            </div>
+                            <button onClick={() => removeGoal(selectedGoal.id)} className="px-3 py-3 bg-neutral-800 hover:bg-red-900/50 text-red-500 rounded-lg transition-colors"><Trash2 className="w-4 h-4"/></button>
+                        </div>
+                        {selectedGoal.name === LEGACY_GOLD_GOAL && selectedGoal.rules.length === 0 && (
+                            <p className="text-[11px] text-neutral-500">Без правил эта цель срабатывает по порогу активного времени из вкладки «Общие».</p>
+                        )}
+                    </div>
+
+                    {/* Rules */}
+                    <div className="bg-neutral-900/30 p-6 rounded-xl border border-neutral-800 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h4 className="font-bold text-white text-sm">Правила (И)</h4>
+                            <button onClick={() => updateRules([...selectedGoal.rules, createRule(METRIC_PATHS[0])])} className="text-xs text-red-500 hover:text-red-400 font-bold flex items-center gap-1">
+                                <Plus className="w-3 h-3"/> Добавить правило
+                            </button>
+                        </div>
+
+                        {selectedGoal.rules.map((rule, idx) => {
+                            const live = liveMetrics ? getMetricValue(liveMetrics, rule.metricPath) : undefined;
+                            const livePass = liveMetrics ? evaluateRule(rule, liveMetrics) : false;
+                            return (
+                                <RuleRow
+                                    key={rule.id}
+                                    rule={rule}
+                                    liveValue={live}
+                                    livePass={livePass}
+                                    storedPass={sessionStats ? `${sessionStats.perRule[idx]} / ${sessions.length}` : null}
+                                    onChange={(r) => updateRules(selectedGoal.rules.map(x => x.id === rule.id ? r : x))}
+                                    onRemove={() => updateRules(selectedGoal.rules.filter(x => x.id !== rule.id))}
+                                />
+                            );
+                        })}
+                        {selectedGoal.rules.length === 0 && <div className="text-neutral-500 text-sm text-center py-2">Правил нет</div>}
+                    </div>
+
+                    {/* Preview */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-5">
+                            <h4 className="text-xs font-bold text-neutral-500 uppercase flex items-center gap-2 mb-3"><Activity className="w-3 h-3"/> Текущая сессия</h4>
+                            {liveMetrics && evaluateGoal(selectedGoal, liveMetrics) ? (
+                                <p className="text-green-400 font-bold flex items-center gap-2"><CheckCircle className="w-4 h-4"/> Цель выполнена</p>
+                            ) : (
+                                <p className="text-neutral-400 font-bold flex items-center gap-2"><XCircle className="w-4 h-4"/> Цель не выполнена</p>
+                            )}
+                            <p className="text-[10px] text-neutral-600 mt-2 font-mono">Сессия: {liveMetrics?.sessionId}</p>
+                        </div>
+                        <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-5">
+                            <div className="flex items-center justify-between mb-3">
+                                <h4 className="text-xs font-bold text-neutral-500 uppercase flex items-center gap-2"><Database className="w-3 h-3"/> Сохраненные сессии</h4>
+                                <button onClick={loadSessions} disabled={isLoadingSessions} className="text-xs text-red-500 hover:text-red-400 font-bold flex items-center gap-1">
+                                    {isLoadingSessions ? <Loader2 className="w-3 h-3 animate-spin"/> : <RefreshCw className="w-3 h-3"/>} {sessions.length ? 'Обновить' : 'Загрузить 100'}
+                                </button>
+                            </div>
+                            {sessionStats ? (
+                                <p className="text-white font-bold">
+                                    {sessionStats.matched} из {sessions.length}
+                                    <span className="text-neutral-500 font-normal text-sm ml-2">({Math.round(sessionStats.matched / sessions.length * 100)}%) достигли бы цели</span>
+                                </p>
+                            ) : (
+                                <p className="text-neutral-600 text-sm">Загрузите сессии из user_behavior_logs_shibari</p>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            ) : (
+                <div className="text-center text-neutral-600 py-10 border border-dashed border-neutral-800 rounded-xl">Добавьте цель</div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+// --- Rule Row ---
+// Metric picker + type constrained by METRIC_DEFINITIONS + value inputs for the chosen type.
+
+const RuleRow: React.FC<{
+  rule: MetricRule,
+  liveValue: any,
+  livePass: boolean,
+  storedPass: string | null,
+  onChange: (rule: MetricRule) => void,
+  onRemove: () => void
+}> = ({ rule, liveValue, livePass, storedPass, onChange, onRemove }) => {
+    const def = METRIC_DEFINITIONS[rule.metricPath as MetricPath];
+    const inputClass = "bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none focus:border-red-500";
+    const numberOrUndefined = (v: string) => v === '' ? undefined : parseFloat(v);
+
+    return (
+        <div className="flex flex-col gap-2 border-b border-neutral-800 pb-4 last:border-0 last:pb-0">
+            <div className="flex flex-wrap gap-2 items-center">
+                <select
+                    value={rule.metricPath}
+                    onChange={e => onChange(createRule(e.target.value as MetricPath, rule.type, rule.id))}
+                    className={`${inputClass} flex-1 min-w-[220px]`}
+                >
+                    {Object.entries(METRIC_GROUPS).map(([group, paths]) => (
+                        <optgroup key={group} label={GROUP_LABELS[group] || group}>
+                            {paths.map(path => <option key={path} value={path}>{METRIC_DEFINITIONS[path].label}</option>)}
+                        </optgroup>
+                    ))}
+                </select>
+
+                <select
+                    value={rule.type}
+                    onChange={e => onChange(createRule(rule.metricPath as MetricPath, e.target.value as MetricType, rule.id))}
+                    className={inputClass}
+                    disabled={!def || def.types.length === 1}
+                >
+                    {(def?.types || [rule.type]).map(type => <option key={type} value={type}>{TYPE_LABELS[type]}</option>)}
+                </select>
+
+                {rule.type === 'range' && (
+                    <>
+                        <input type="number" value={rule.min ?? ''} onChange={e => onChange({ ...rule, min: numberOrUndefined(e.target.value) })} placeholder="мин" className={`${inputClass} w-24`} />
+                        <input type="number" value={rule.max ?? ''} onChange={e => onChange({ ...rule, max: numberOrUndefined(e.target.value) })} placeholder="макс" className={`${inputClass} w-24`} />
+                    </>
+                )}
+                {(rule.type === 'threshold' || rule.type === 'time') && (
+                    <input type="number" value={rule.value as number ?? ''} onChange={e => onChange({ ...rule, value: numberOrUndefined(e.target.value) })} className={`${inputClass} w-28`} />
+                )}
+                {rule.type === 'select' && (
+                    def?.options?.length ? (
+                        <select value={String(rule.value ?? '')} onChange={e => onChange({ ...rule, value: e.target.value })} className={inputClass}>
+                            {def.options.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                        </select>
+                    ) : (
+                        <input value={String(rule.value ?? '')} onChange={e => onChange({ ...rule, value: e.target.value })} placeholder="значение" className={`${inputClass} w-40`} />
+                    )
+                )}
+                {rule.type === 'boolean' && (
+                    <select value={String(rule.value === true || rule.value === 'true')} onChange={e => onChange({ ...rule, value: e.target.value === 'true' })} className={inputClass}>
+                        <option value="true">Да</option>
+                        <option value="false">Нет</option>
+                    </select>
+                )}
+
+                <button onClick={onRemove} className="text-neutral-500 hover:text-red-500 px-2"><Trash2 className="w-4 h-4"/></button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-[10px] font-mono text-neutral-500">
+                <span>{rule.metricPath}</span>
+                <span className={livePass ? 'text-green-500' : 'text-neutral-500'}>
+                    сейчас: {formatValue(liveValue)} {livePass ? '✓' : '✗'}
+                </span>
+                {storedPass && <span>сессии: {storedPass}</span>}
+            </div>
+        </div>
+    );
+};
+
+export default GoalRulesManager;
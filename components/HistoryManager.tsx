@@ -1,9 +1,10 @@
 
 import React, { useState } from 'react';
-import { Plus, Trash2, Save, Database, Scroll, Loader2, Calendar } from 'lucide-react';
+import { Plus, Trash2, Save, Database, Scroll, Loader2, Calendar, Languages } from 'lucide-react';
 import { HistoryEvent } from '../types';
 import { supabase } from '../supabaseClient';
 import { INITIAL_HISTORY } from '../constants';
+import TranslationReview from './TranslationReview';
 
 interface HistoryManagerProps {
   events: HistoryEvent[];
@@ -14,6 +15,7 @@ const HistoryManager: React.FC<HistoryManagerProps> = ({ events, onSave }) => {
   const [view, setView] = useState<'list' | 'edit'>('list');
   const [currentEvent, setCurrentEvent] = useState<Partial<HistoryEvent>>({});
   const [isSaving, setIsSaving] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
 
   const repairSql = `
 CREATE TABLE IF NOT EXISTS public.history_shibari (
@@ -114,6 +116,11 @@ END $$;
     }
   };
 
+  const applyTranslation = (values: Record<string, string>) => {
+    setCurrentEvent(prev => ({ ...prev, ...values }));
+    setIsTranslating(false);
+  };
+
   const handleDelete = async (id: number) => {
     if (!window.confirm("Удалить событие?")) return;
     try {
@@ -180,9 +187,14 @@ END $$;
     <div className="flex flex-col h-full space-y-6">
         <div className="flex items-center justify-between border-b border-neutral-800 pb-4">
              <button onClick={() => setView('list')} className="text-neutral-400 hover:text-white flex items-center gap-2 px-3 py-1 bg-neutral-800 rounded">Назад</button>
-             <button onClick={handleSave} disabled={isSaving} className="bg-green-700 hover:bg-green-600 text-white px-6 py-2 rounded-lg font-medium flex items-center gap-2 disabled:opacity-50">
-                {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4" />} Сохранить
-            </button>
+             <div className="flex gap-2">
+                <button onClick={() => setIsTranslating(true)} className="bg-blue-900/30 hover:bg-blue-900/50 text-blue-400 px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors">
+                    <Languages className="w-4 h-4" /> Перевести на EN
+                </button>
+                <button onClick={handleSave} disabled={isSaving} className="bg-green-700 hover:bg-green-600 text-white px-6 py-2 rounded-lg font-medium flex items-center gap-2 disabled:opacity-50">
+                    {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4" />} Сохранить
+                </button>
+             </div>
         </div>
 
         <div className="space-y-4 max-w-2xl mx-auto w-full">
@@ -246,6 +258,17 @@ END $$;
                 />
             </div>
         </div>
+
+        {isTranslating && (
+            <TranslationReview
+                fields={[
+                    { key: 'title_en', label: 'Заголовок', source: currentEvent.title_ru || '', current: currentEvent.title_en || '' },
+                    { key: 'description_en', label: 'Описание', source: currentEvent.description_ru || '', current: currentEvent.description_en || '' }
+                ]}
+                onApply={applyTranslation}
+                onClose={() => setIsTranslating(false)}
+            />
+        )}
     </div>
   );
 };
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Lock, LogIn, UserPlus, Video, Crown, Clock, ClipboardCheck } from 'lucide-react';
+import { Course, Lesson } from '../types';
+import { LessonLock } from '../utils/lessonAccess';
+
+interface LessonLockedPanelProps {
+  lock: LessonLock;
+  courses: Course[];
+  lessons: Lesson[];
+  pendingCourseIds: number[];
+  onSignIn: () => void;
+  onRegister: () => void;
+  onOpenCourse: (courseId: number) => void;
+  onOpenLesson: (lessonId: number) => void;
+  onContact: () => void;
+  t: any;
+  getData: (item: any, field: string) => string;
+}
+
+// Shown in place of the video and text of a lesson the visitor can't open yet
+const LessonLockedPanel: React.FC<LessonLockedPanelProps> = ({ lock, courses, lessons, pendingCourseIds, onSignIn, onRegister, onOpenCourse, onOpenLesson, onContact, t, getData }) => {
+  const course = lock.courseId ? courses.find(c => c.id === lock.courseId) : undefined;
+  const quizLesson = lock.lessonId ? lessons.find(l => l.id === lock.lessonId) : undefined;
+  const isAwaitingPayment = !!course && pendingCourseIds.includes(course.id);
+
+  const Icon = lock.reason === 'login' ? Lock : lock.reason === 'subscription' ? Crown : lock.reason === 'quiz' ? ClipboardCheck : Video;
+
+  return (
+    <div className="w-full aspect-video max-h-[60vh] bg-[#0b0b0b] rounded-xl border border-[#222] flex flex-col items-center justify-center text-center gap-5 p-8">
+        <div className="w-14 h-14 rounded-full bg-red-900/20 border border-red-900/40 flex items-center justify-center">
+            <Icon className="w-6 h-6 text-red-500" />
+        </div>
+
+        {lock.reason === 'login' && (
+            <>
+                <div className="space-y-2 max-w-md">
+                    <h3 className="text-xl md:text-2xl font-bold text-white">{t.lesson_locked_login}</h3>
+                    <p className="text-sm text-neutral-400">{t.lesson_locked_login_hint}</p>
+                </div>
+                <div className="flex flex-wrap justify-center gap-3">
+                    <button onClick={onRegister} className="bg-red-700 hover:bg-red-600 text-white px-6 py-3 rounded-lg font-bold text-sm flex items-center gap-2 transition-colors">
+                        <UserPlus className="w-4 h-4" /> {t.register}
+                    </button>
+                    <button onClick={onSignIn} className="bg-neutral-800 hover:bg-neutral-700 text-white px-6 py-3 rounded-lg font-bold text-sm flex items-center gap-2 transition-colors">
+                        <LogIn className="w-4 h-4" /> {t.login}
+                    </button>
+                </div>
+            </>
+        )}
+
+        {lock.reason === 'subscription' && (
+            <>
+                <div className="space-y-2 max-w-md">
+                    <h3 className="text-xl md:text-2xl font-bold text-white">{t.lesson_locked_subscription}</h3>
+                    <p className="text-sm text-neutral-400">{t.lesson_locked_subscription_hint}</p>
+                </div>
+                <button onClick={onContact} className="bg-red-700 hover:bg-red-600 text-white px-6 py-3 rounded-lg font-bold text-sm transition-colors">
+                    {t.contact_school}
+                </button>
+            </>
+        )}
+
+        {lock.reason === 'course' && (
+            <>
+                <div className="space-y-2 max-w-md">
+                    <h3 className="text-xl md:text-2xl font-bold text-white">{t.lesson_locked_course}</h3>
+                    {course && <p className="text-sm text-neutral-400">{t.lesson_locked_course_hint} «{getData(course, 'title')}».</p>}
+                </div>
+                {course && (isAwaitingPayment ? (
+                    <p className="text-sm text-yellow-400 flex items-center gap-2"><Clock className="w-4 h-4" /> {t.course_awaiting_payment}</p>
+                ) : (
+                    <button onClick={() => onOpenCourse(course.id)} className="bg-red-700 hover:bg-red-600 text-white px-6 py-3 rounded-lg font-bold text-sm flex items-center gap-2 transition-colors">
+                        <Video className="w-4 h-4" /> {t.go_to_course} · ${course.price}
+                    </button>
+                ))}
+            </>
+        )}
+
+        {lock.reason === 'quiz' && (
+            <>
+                <div className="space-y-2 max-w-md">
+                    <h3 className="text-xl md:text-2xl font-bold text-white">{t.lesson_locked_quiz}</h3>
+                    {quizLesson && <p className="text-sm text-neutral-400">{t.lesson_locked_quiz_hint} «{getData(quizLesson, 'title')}».</p>}
+                </div>
+                {quizLesson && (
+                    <button onClick={() => onOpenLesson(quizLesson.id)} className="bg-red-700 hover:bg-red-600 text-white px-6 py-3 rounded-lg font-bold text-sm flex items-center gap-2 transition-colors">
+                        <ClipboardCheck className="w-4 h-4" /> {t.go_to_quiz}
+                    </button>
+                )}
+            </>
+        )}
+    </div>
+  );
+};
+
+export default LessonLockedPanel;
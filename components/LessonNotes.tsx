@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { NotebookPen, Pencil, Trash2, Lock } from 'lucide-react';
+import { LessonNote } from '../types';
+import { sortNotes } from '../utils/notes';
+import { parseClock } from '../utils/chapters';
+import { formatClock } from '../utils/subtitles';
+
+interface LessonNotesProps {
+  notes: LessonNote[]; // Notes of the open lesson
+  getVideoTime: () => number | null; // Current position of the lesson video, null before it played
+  onAdd: (text: string, videoTime: number | null) => void;
+  onUpdate: (note: LessonNote) => void;
+  onDelete: (noteId: string) => void;
+  onSeek: (seconds: number) => void;
+  t: any;
+}
+
+// Moment field: "12:34", empty = the note isn't tied to the video
+const TimeInput: React.FC<{ value: string; onChange: (value: string) => void; t: any }> = ({ value, onChange, t }) => (
+  <label className="flex items-center gap-2 text-xs text-neutral-500">
+      {t.note_time}
+      <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="—"
+          title={t.note_time_hint}
+          className={`w-20 bg-[#111] border rounded px-2 py-1.5 text-white text-xs font-mono outline-none focus:border-red-600 ${!value.trim() || parseClock(value) !== null ? 'border-[#222]' : 'border-red-800'}`}
+      />
+  </label>
+);
+
+const toSeconds = (value: string): number | null => value.trim() ? parseClock(value) : null;
+const isTimeValid = (value: string) => !value.trim() || parseClock(value) !== null;
+
+// Private notes under the lesson video. Starting a note picks up the moment the video is at.
+const LessonNotes: React.FC<LessonNotesProps> = ({ notes, getVideoTime, onAdd, onUpdate, onDelete, onSeek, t }) => {
+  const [text, setText] = useState('');
+  const [time, setTime] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editTime, setEditTime] = useState('');
+
+  const captureTime = () => {
+      if (text.trim()) return;
+      const seconds = getVideoTime();
+      setTime(seconds !== null ? formatClock(seconds) : '');
+  };
+
+  const add = () => {
+      if (!text.trim() || !isTimeValid(time)) return;
+      onAdd(text.trim(), toSeconds(time));
+      setText('');
+      setTime('');
+  };
+
+  const startEdit = (note: LessonNote) => {
+      setEditingId(note.id);
+      setEditText(note.text);
+      setEditTime(note.video_time !== null ? formatClock(note.video_time) : '');
+  };
+
+  const saveEdit = (note: LessonNote) => {
+      if (!editText.trim() || !isTimeValid(editTime)) return;
+      onUpdate({ ...note, text: editText.trim(), video_time: toSeconds(editTime), updated_at: new Date().toISOString() });
+      setEditingId(null);
+  };
+
+  return (
+    <div>
+        <div className="flex items-center justify-between gap-3 mb-4 pl-1 border-b border-white/5 pb-4">
+            <div className="flex items-center gap-3">
+                <NotebookPen className="w-4 h-4 text-red-600" />
+                <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.15em]">{t.my_notes}</h3>
+            </div>
+            <span className="text-[10px] text-neutral-600 uppercase tracking-widest flex items-center gap-1.5"><Lock className="w-3 h-3" /> {t.notes_private_hint}</span>
+        </div>
+
+        {notes.length > 0 && (
+            <div className="space-y-2 mb-4">
+                {sortNotes(notes).map(note => editingId === note.id ? (
+                    <div key={note.id} className="space-y-2 p-3 rounded-lg bg-[#111] border border-[#222]">
+                        <textarea
+                            value={editText}
+                            onChange={(e) => setEditText(e.target.value)}
+                            rows={3}
+                            autoFocus
+                            className="w-full bg-transparent text-sm text-white outline-none resize-y leading-relaxed"
+                        />
+                        <div className="flex flex-wrap items-center gap-3">
+                            <TimeInput value={editTime} onChange={setEditTime} t={t} />
+                            <div className="ml-auto flex gap-2">
+                                <button onClick={() => setEditingId(null)} className="text-xs text-neutral-500 hover:text-white px-3 py-1.5 transition-colors">{t.cancel}</button>
+                                <button onClick={() => saveEdit(note)} disabled={!editText.trim() || !isTimeValid(editTime)} className="text-xs font-bold bg-red-700 hover:bg-red-600 text-white px-3 py-1.5 rounded transition-colors disabled:opacity-40">{t.save}</button>
+                            </div>
+                        </div>
+                    </div>
+                ) : (
+                    <div key={note.id} className="group flex gap-4 px-3 py-2 rounded-lg hover:bg-white/5 transition-colors">
+                        {note.video_time !== null ? (
+                            <button onClick={() => onSeek(note.video_time!)} className="font-mono text-xs pt-0.5 shrink-0 w-14 text-left text-red-500 hover:text-red-400 transition-colors">
+                                {formatClock(note.video_time)}
+                            </button>
+                        ) : (
+                            <span className="font-mono text-xs pt-0.5 shrink-0 w-14 text-neutral-700">—</span>
+                        )}
+                        <p className="flex-1 min-w-0 text-sm text-neutral-300 leading-relaxed whitespace-pre-wrap break-words">{note.text}</p>
+                        <div className="flex gap-1 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button onClick={() => startEdit(note)} className="p-1 text-neutral-500 hover:text-white" title={t.note_edit}><Pencil className="w-3.5 h-3.5" /></button>
+                            <button onClick={() => window.confirm(t.note_delete_confirm) && onDelete(note.id)} className="p-1 text-neutral-500 hover:text-red-500" title={t.note_delete}><Trash2 className="w-3.5 h-3.5" /></button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        )}
+
+        <div className="space-y-2 p-3 rounded-lg bg-[#0a0a0a] border border-[#222] focus-within:border-neutral-700 transition-colors">
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onFocus={captureTime}
+                onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) add(); }}
+                rows={2}
+                placeholder={t.note_placeholder}
+                className="w-full bg-transparent text-sm text-white placeholder-neutral-600 outline-none resize-y leading-relaxed"
+            />
+            <div className="flex flex-wrap items-center gap-3">
+                <TimeInput value={time} onChange={setTime} t={t} />
+                <button onClick={add} disabled={!text.trim() || !isTimeValid(time)} className="ml-auto text-xs font-bold bg-red-700 hover:bg-red-600 text-white px-4 py-1.5 rounded transition-colors disabled:opacity-40 disabled:hover:bg-red-700">
+                    {t.note_add}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default LessonNotes;
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, CheckCircle, XCircle, RotateCcw, Lock } from 'lucide-react';
+import { LessonQuiz as LessonQuizData, QuizQuestion, QuizResult } from '../types';
+import { localized } from '../utils/quizzes';
+
+interface LessonQuizProps {
+  quiz: LessonQuizData;
+  result?: QuizResult;
+  onSubmit: (answers: Record<string, string[]>) => Promise<boolean>; // false: the attempt couldn't be graded
+  lang: 'ru' | 'en';
+  t: any;
+}
+
+// Knowledge check at the end of a lesson. After an attempt the chosen answers are marked right or wrong
+// (graded by the server); the right ones are only revealed once the quiz is passed, so a failed attempt can't just be copied.
+const LessonQuiz: React.FC<LessonQuizProps> = ({ quiz, result, onSubmit, lang, t }) => {
+  const [answers, setAnswers] = useState<Record<string, string[]>>({});
+  const [isRetaking, setIsRetaking] = useState(!result);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  const isChecked = !!result && !isRetaking;
+  const shownAnswers = isChecked ? result.answers : answers;
+  const isComplete = quiz.questions.every(q => answers[q.id]?.length);
+
+  const choose = (question: QuizQuestion, optionId: string) => {
+      if (isChecked) return;
+      setAnswers(prev => {
+          const current = prev[question.id] || [];
+          if (question.type !== 'multiple') return { ...prev, [question.id]: [optionId] };
+          return { ...prev, [question.id]: current.includes(optionId) ? current.filter(id => id !== optionId) : [...current, optionId] };
+      });
+  };
+
+  const handleSubmit = async () => {
+      if (!isComplete || isSubmitting) return;
+      setIsSubmitting(true);
+      setHasFailed(false);
+      const isGraded = await onSubmit(answers);
+      setIsSubmitting(false);
+      if (isGraded) setIsRetaking(false);
+      else setHasFailed(true);
+  };
+
+  const retake = () => {
+      setAnswers({});
+      setIsRetaking(true);
+  };
+
+  const hints: Record<QuizQuestion['type'], string> = { single: t.quiz_single_hint, multiple: t.quiz_multiple_hint, image: t.quiz_image_hint };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mt-12 border-t border-white/5 pt-10">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6 pl-1">
+            <div className="flex items-center gap-3">
+                <ClipboardCheck className="w-4 h-4 text-red-600" />
+                <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.15em]">{t.quiz_title}</h3>
+            </div>
+            <span className="text-[10px] font-bold text-neutral-500 uppercase tracking-widest">{t.quiz_pass_threshold}: {quiz.pass_percent}%</span>
+        </div>
+        {quiz.gates_next && !result?.passed && (
+            <p className="text-sm text-yellow-500/80 flex items-center gap-2 mb-6"><Lock className="w-4 h-4 shrink-0" /> {t.quiz_gates_next}</p>
+        )}
+
+        {isChecked && (
+            <div className={`mb-8 p-5 rounded-xl border flex flex-wrap items-center justify-between gap-4 ${result.passed ? 'bg-green-900/10 border-green-900/40' : 'bg-red-900/10 border-red-900/40'}`}>
+                <div className="flex items-center gap-3">
+                    {result.passed ? <CheckCircle className="w-6 h-6 text-green-500" /> : <XCircle className="w-6 h-6 text-red-500" />}
+                    <div>
+                        <p className="text-white font-bold">{result.passed ? t.quiz_passed : t.quiz_failed}</p>
+                        <p className="text-xs text-neutral-400">
+                            {t.quiz_score}: {result.last_score}%{result.best_score !== result.last_score && ` · ${t.quiz_best}: ${result.best_score}%`}
+                        </p>
+                    </div>
+                </div>
+                <button onClick={retake} className="bg-neutral-800 hover:bg-neutral-700 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 transition-colors">
+                    <RotateCcw className="w-4 h-4" /> {t.quiz_retake}
+                </button>
+            </div>
+        )}
+
+        <div className="space-y-8">
+            {quiz.questions.map((question, index) => {
+                const chosen = shownAnswers[question.id] || [];
+                const isCorrect = isChecked && !!result.checked[question.id];
+                const rightIds = (isChecked && result.correct?.[question.id]) || [];
+                const explanation = localized(question, 'explanation', lang);
+                return (
+                    <div key={question.id} className="space-y-4">
+                        <div className="space-y-1">
+                            <p className="text-white font-medium leading-relaxed">
+                                <span className="text-neutral-600 font-mono mr-2">{index + 1}.</span>{localized(question, 'text', lang)}
+                            </p>
+                            <p className="text-[11px] text-neutral-600 uppercase tracking-widest">{hints[question.type]}</p>
+                        </div>
+                        {question.image_url && (
+                            <img src={question.image_url} alt="" className="max-h-72 rounded-lg border border-white/10 object-contain" />
+                        )}
+                        <div className={question.type === 'image' ? 'grid grid-cols-2 md:grid-cols-3 gap-3' : 'space-y-2'}>
+                            {question.options.map(option => {
+                                const isChosen = chosen.includes(option.id);
+                                const isRight = rightIds.includes(option.id);
+                                const style = !isChecked
+                                    ? isChosen ? 'border-red-600 bg-red-900/20 text-white' : 'border-[#222] text-neutral-300 hover:border-neutral-600'
+                                    : isChosen
+                                        ? isCorrect || isRight ? 'border-green-700 bg-green-900/20 text-white' : 'border-red-700 bg-red-900/20 text-white'
+                                        : isRight ? 'border-green-900 text-neutral-300' : 'border-[#222] text-neutral-500';
+                                const text = localized(option, 'text', lang);
+                                return (
+                                    <button
+                                        key={option.id}
+                                        onClick={() => choose(question, option.id)}
+                                        disabled={isChecked}
+                                        className={`w-full text-left rounded-lg border transition-colors ${style} ${question.type === 'image' ? 'p-2 space-y-2' : 'px-4 py-3 flex items-center gap-3'}`}
+                                    >
+                                        {question.type === 'image' ? (
+                                            <>
+                                                {option.image_url && <img src={option.image_url} alt={text} className="w-full aspect-square object-cover rounded" />}
+                                                {text && <span className="block text-sm px-1">{text}</span>}
+                                            </>
+                                        ) : (
+                                            <>
+                                                <span className={`w-4 h-4 shrink-0 border flex items-center justify-center ${question.type === 'multiple' ? 'rounded' : 'rounded-full'} ${isChosen ? 'border-red-500 bg-red-600' : 'border-neutral-600'}`}>
+                                                    {isChosen && <span className={`w-1.5 h-1.5 bg-white ${question.type === 'multiple' ? 'rounded-sm' : 'rounded-full'}`} />}
+                                                </span>
+                                                <span className="text-sm leading-relaxed">{text}</span>
+                                            </>
+                                        )}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                        {isChecked && (
+                            <div className={`text-sm flex gap-2 ${isCorrect ? 'text-green-500' : 'text-red-400'}`}>
+                                {isCorrect ? <CheckCircle className="w-4 h-4 shrink-0 mt-0.5" /> : <XCircle className="w-4 h-4 shrink-0 mt-0.5" />}
+                                <span>
+                                    {isCorrect ? t.quiz_correct : t.quiz_wrong}
+                                    {explanation && <span className="text-neutral-400"> — {explanation}</span>}
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+
+        {!isChecked && (
+            <div className="mt-8 flex flex-wrap items-center gap-4">
+                <button
+                    onClick={handleSubmit}
+                    disabled={!isComplete || isSubmitting}
+                    className="bg-red-700 hover:bg-red-600 text-white px-6 py-3 rounded-lg font-bold text-sm transition-colors disabled:opacity-40 disabled:hover:bg-red-700"
+                >
+                    {t.quiz_submit}
+                </button>
+                {!isComplete && <span className="text-xs text-neutral-500">{t.quiz_answer_all}</span>}
+                {hasFailed && <span className="text-xs text-red-400">{t.quiz_submit_failed}</span>}
+                {result && (
+                    <button onClick={() => setIsRetaking(false)} className="text-xs text-neutral-500 hover:text-white transition-colors">{t.quiz_show_result}</button>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default LessonQuiz;
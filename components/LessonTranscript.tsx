@@ -0,0 +1,49 @@
+import React, { useEffect, useRef } from 'react';
+import { Captions } from 'lucide-react';
+import { SubtitleSegment } from '../types';
+import { formatClock } from '../utils/subtitles';
+
+interface LessonTranscriptProps {
+  segments: SubtitleSegment[];
+  activeIndex: number; // Segment playing right now, -1 if none
+  onSeek: (index: number) => void;
+  t: any;
+}
+
+// Timed transcript under the lesson video: follows playback and jumps the video on click
+const LessonTranscript: React.FC<LessonTranscriptProps> = ({ segments, activeIndex, onSeek, t }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the current segment in view by scrolling the list only, never the page
+  useEffect(() => {
+      const list = listRef.current;
+      const item = list?.children[activeIndex] as HTMLElement | undefined;
+      if (!list || !item) return;
+      if (item.offsetTop < list.scrollTop || item.offsetTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+          list.scrollTo({ top: item.offsetTop - list.clientHeight / 3, behavior: 'smooth' });
+      }
+  }, [activeIndex]);
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mb-12">
+        <div className="flex items-center gap-3 mb-4 pl-1 border-b border-white/5 pb-4">
+            <Captions className="w-4 h-4 text-red-600" />
+            <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.15em]">{t.transcript}</h3>
+        </div>
+        <div ref={listRef} className="relative max-h-72 overflow-y-auto pr-2 space-y-1">
+            {segments.map((segment, index) => (
+                <button
+                    key={index}
+                    onClick={() => onSeek(index)}
+                    className={`w-full text-left flex gap-4 px-3 py-2 rounded-lg transition-colors ${index === activeIndex ? 'bg-red-900/20 text-white' : 'text-neutral-400 hover:bg-white/5 hover:text-neutral-200'}`}
+                >
+                    <span className={`font-mono text-xs pt-0.5 shrink-0 w-14 ${index === activeIndex ? 'text-red-500' : 'text-neutral-600'}`}>{formatClock(segment.start)}</span>
+                    <span className="text-sm leading-relaxed whitespace-pre-line">{segment.text}</span>
+                </button>
+            ))}
+        </div>
+    </div>
+  );
+};
+
+export default LessonTranscript;
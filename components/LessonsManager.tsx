@@ -0,0 +1,567 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Trash2, Copy, Loader2, Wrench, ChevronDown, ChevronUp, GripVertical, FileText, Eye, EyeOff, Save, RotateCcw, Languages } from 'lucide-react';
+import { Lesson, LessonAccessLevel, Article, Course } from '../types';
+import { LESSON_ACCESS_LEVELS, lessonAccessLevel } from '../utils/lessonAccess';
+import { LESSONS_REPAIR_SQL, TranslationState, translationState, isMissingEnglish, sortLessons, isLessonPublished, createLesson, duplicateLesson, deleteLesson, saveLessonOrder, fetchLesson, updateLesson } from '../utils/lessons';
+import { setLeaveGuard, confirmLeave } from '../utils/router';
+import { TranslationField } from '../utils/translation';
+import TranslationReview from './TranslationReview';
+import SubtitlesEditor from './SubtitlesEditor';
+import QuizEditor from './QuizEditor';
+import VideoUrlField from './VideoUrlField';
+import ChaptersEditor from './ChaptersEditor';
+
+interface LessonsManagerProps {
+  lessons: Lesson[];
+  articles: Article[];
+  courses: Course[];
+  onSave: () => void;
+}
+
+const ACCESS_LEVEL_LABELS: Record<LessonAccessLevel, string> = {
+  public: 'Открытый (всем)',
+  registered: 'Для зарегистрированных',
+  subscriber: 'По подписке',
+  course: 'Покупателям курса'
+};
+
+// Fields edited in the lesson form (everything else is changed by dedicated actions)
+const EDITABLE_FIELDS: (keyof Lesson)[] = ['title', 'title_en', 'video_url', 'video_url_en', 'content', 'content_en', 'chapters', 'related_articles', 'access_level', 'access_course_id'];
+
+const TRANSLATION_BADGES: Record<TranslationState, { label: string; style: string } | null> = {
+  translated: { label: 'Переведено', style: 'text-green-400 border-green-900/50' },
+  partial: { label: 'Частично', style: 'text-yellow-400 border-yellow-900/50' },
+  missing: { label: 'Нет перевода', style: 'text-red-400 border-red-900/50' },
+  fallback: { label: 'Как в RU', style: 'text-neutral-400 border-neutral-700' },
+  empty: null
+};
+
+const TranslationBadge: React.FC<{ state: TranslationState }> = ({ state }) => {
+  const badge = TRANSLATION_BADGES[state];
+  if (!badge) return null;
+  return <span className={`text-[9px] font-bold normal-case px-1.5 rounded border ${badge.style}`}>{badge.label}</span>;
+};
+
+const UNSAVED_MESSAGE = "В уроке есть несохранённые изменения. Уйти без сохранения?";
+
+// Cleared fields are sent as null so the update actually empties them
+const changedFields = (base: Lesson, draft: Lesson): Partial<Lesson> => Object.fromEntries(
+  EDITABLE_FIELDS
+      .filter(field => JSON.stringify(base[field] ?? null) !== JSON.stringify(draft[field] ?? null))
+      .map(field => [field, draft[field] ?? null])
+);
+
+const LessonsManager: React.FC<LessonsManagerProps> = ({ lessons, articles, courses, onSave }) => {
+  const [busyId, setBusyId] = useState<number | 'new' | null>(null);
+
+  // Editor: one lesson at a time is edited as a local draft on top of the version it was opened with
+  const [draftBase, setDraftBase] = useState<Lesson | null>(null);
+  const [draft, setDraft] = useState<Lesson | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const expandedId = draft?.id ?? null;
+  const changes = useMemo(() => draftBase && draft ? changedFields(draftBase, draft) : {}, [draftBase, draft]);
+  const isDirty = Object.keys(changes).length > 0;
+
+  useEffect(() => {
+      setLeaveGuard(isDirty ? UNSAVED_MESSAGE : null);
+  }, [isDirty]);
+  useEffect(() => () => setLeaveGuard(null), []);
+
+  // Drag & drop: the dropped order is shown right away and kept until the reloaded lessons arrive
+  const [dragId, setDragId] = useState<number | null>(null);
+  const [overId, setOverId] = useState<number | null>(null);
+  const [localOrder, setLocalOrder] = useState<number[] | null>(null);
+  const [isReordering, setIsReordering] = useState(false);
+  const [filter, setFilter] = useState<'all' | 'missing_en'>('all');
+
+  useEffect(() => { setLocalOrder(null); }, [lessons]);
+
+  const ordered = useMemo(() => {
+      const sorted = sortLessons(lessons);
+      if (!localOrder) return sorted;
+      return localOrder.map(id => sorted.find(l => l.id === id)).filter((l): l is Lesson => !!l);
+  }, [lessons, localOrder]);
+
+  const missingEnglishCount = useMemo(() => lessons.filter(isMissingEnglish).length, [lessons]);
+  const shown = filter === 'missing_en' ? ordered.filter(isMissingEnglish) : ordered;
+
+  // The default access tier ("first 4 free") counts only lessons students can see
+  const publishedIndex = useMemo(() => {
+      const map: Record<number, number> = {};
+      ordered.filter(isLessonPublished).forEach((l, i) => { map[l.id] = i; });
+      return map;
+  }, [ordered]);
+
+  // --- Logic: Draft ---
+  const openEditor = (lesson: Lesson) => {
+      setDraftBase(lesson);
+      setDraft({ ...lesson });
+  };
+
+  const closeEditor = () => {
+      setDraftBase(null);
+      setDraft(null);
+  };
+
+  const toggleEditor = (lesson: Lesson) => {
+      if (lesson.id === expandedId) {
+          if (isDirty && !window.confirm(UNSAVED_MESSAGE)) return;
+          closeEditor();
+      } else {
+          if (isDirty && !window.confirm(UNSAVED_MESSAGE)) return;
+          openEditor(lesson);
+      }
+  };
+
+  const updateDraft = (data: Partial<Lesson>) => setDraft(prev => prev ? { ...prev, ...data } : prev);
+
+  const translationFields = (lesson: Lesson): TranslationField[] => [
+      { key: 'title', label: 'Название', source: lesson.title, current: lesson.title_en || '' },
+      { key: 'content', label: 'Текст', source: lesson.content?.join('\n') || '', current: lesson.content_en?.join('\n') || '' },
+      ...(lesson.chapters?.length ? [{
+          key: 'chapters',
+          label: 'Главы видео',
+          source: lesson.chapters.map(c => c.title).join('\n'),
+          current: lesson.chapters.map(c => c.title_en || '').join('\n')
+      }] : [])
+  ];
+
+  const applyTranslation = (values: Record<string, string>) => {
+      const data: Partial<Lesson> = {};
+      if (values.title !== undefined) data.title_en = values.title || null;
+      if (values.content !== undefined) data.content_en = values.content ? values.content.split('\n') : null;
+      if (values.chapters !== undefined && draft?.chapters) {
+          const lines = values.chapters.split('\n');
+          data.chapters = draft.chapters.map((c, i) => ({ ...c, title_en: lines[i]?.trim() || null }));
+      }
+      updateDraft(data);
+      setIsTranslating(false);
+  };
+
+  const handleDiscard = () => {
+      if (!draftBase || !window.confirm("Отменить все несохранённые изменения урока?")) return;
+      setDraft({ ...draftBase });
+  };
+
+  const handleSaveDraft = async () => {
+      if (!draftBase || !draft || !isDirty) return;
+      if (!draft.title.trim()) {
+          alert("Название урока обязательно");
+          return;
+      }
+      if (draft.chapters?.some(c => !c.title.trim())) {
+          alert("У каждой главы видео должно быть название");
+          return;
+      }
+      if (draft.access_level === 'course' && !draft.access_course_id) {
+          alert("Выберите курс для урока с доступом «Покупателям курса»");
+          return;
+      }
+      setIsSaving(true);
+      try {
+          const saved = await updateLesson(draftBase, changes);
+          if (!saved) {
+              // Someone else saved (or deleted) the lesson after it was opened here
+              const reload = window.confirm("Урок был изменён другим администратором после того, как вы открыли его. Ваши изменения не сохранены.\n\nЗагрузить актуальную версию? (Ваши правки будут потеряны — при необходимости сначала скопируйте их.)");
+              if (reload) {
+                  const fresh = await fetchLesson(draftBase.id);
+                  if (fresh) openEditor(fresh);
+                  else closeEditor();
+                  onSave();
+              }
+              return;
+          }
+          openEditor(saved);
+          onSave();
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка сохранения урока: ${e.message}\nSQL:\n${LESSONS_REPAIR_SQL}`);
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const showRepairSql = () => {
+      alert("Пожалуйста, выполните этот SQL в панели Supabase (клиент не может менять схему напрямую):\n\n" + LESSONS_REPAIR_SQL);
+  };
+
+  // --- Logic: CRUD ---
+  const handleCreate = async () => {
+      if (isDirty && !window.confirm(UNSAVED_MESSAGE)) return;
+      setBusyId('new');
+      try {
+          const lesson = await createLesson(lessons, 'Новый урок');
+          openEditor(lesson);
+          onSave();
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка создания: ${e.message}\nSQL:\n${LESSONS_REPAIR_SQL}`);
+      } finally {
+          setBusyId(null);
+      }
+  };
+
+  const handleDuplicate = async (lesson: Lesson) => {
+      if (isDirty && !window.confirm(UNSAVED_MESSAGE)) return;
+      setBusyId(lesson.id);
+      try {
+          const copy = await duplicateLesson(lessons, lesson);
+          openEditor(copy);
+          onSave();
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка копирования: ${e.message}\nSQL:\n${LESSONS_REPAIR_SQL}`);
+      } finally {
+          setBusyId(null);
+      }
+  };
+
+  const handleDelete = async (lesson: Lesson) => {
+      if (!window.confirm(`Удалить урок «${lesson.title}»? Это действие нельзя отменить.`)) return;
+      setBusyId(lesson.id);
+      try {
+          await deleteLesson(lesson.id);
+          if (lesson.id === expandedId) closeEditor();
+          onSave();
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка удаления: ${e.message}`);
+      } finally {
+          setBusyId(null);
+      }
+  };
+
+  const toggleStatus = async (lesson: Lesson) => {
+      const publish = !isLessonPublished(lesson);
+      if (!window.confirm(publish ? `Опубликовать урок «${lesson.title}»? Он станет виден ученикам.` : `Снять урок «${lesson.title}» с публикации? Ученики перестанут его видеть.`)) return;
+      // The open draft is based on its own loaded version, so it is used for the check
+      const loaded = lesson.id === draftBase?.id ? draftBase : lesson;
+      setBusyId(lesson.id);
+      try {
+          const saved = await updateLesson(loaded, { status: publish ? 'published' : 'draft' });
+          if (!saved) {
+              alert("Урок был изменён другим администратором. Обновите список и попробуйте снова.");
+              return;
+          }
+          // Keep the open draft's edits, but move its base to the new version
+          if (saved.id === draftBase?.id) {
+              setDraftBase(prev => prev ? { ...prev, status: saved.status, updated_at: saved.updated_at } : prev);
+              setDraft(prev => prev ? { ...prev, status: saved.status, updated_at: saved.updated_at } : prev);
+          }
+          onSave();
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка: ${e.message}\nSQL:\n${LESSONS_REPAIR_SQL}`);
+      } finally {
+          setBusyId(null);
+      }
+  };
+
+  // --- Logic: Reorder ---
+  const handleDrop = async (targetId: number) => {
+      const sourceId = dragId;
+      setDragId(null);
+      setOverId(null);
+      if (sourceId === null || sourceId === targetId) return;
+
+      const ids = ordered.map(l => l.id);
+      const from = ids.indexOf(sourceId);
+      ids.splice(from, 1);
+      ids.splice(ids.indexOf(targetId) + (from <= ids.indexOf(targetId) ? 1 : 0), 0, sourceId);
+      setLocalOrder(ids);
+
+      setIsReordering(true);
+      try {
+          await saveLessonOrder(ids.map(id => ordered.find(l => l.id === id)!));
+          onSave();
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка сохранения порядка: ${e.message}\nSQL:\n${LESSONS_REPAIR_SQL}`);
+          setLocalOrder(null);
+      } finally {
+          setIsReordering(false);
+      }
+  };
+
+  return (
+      <div className="space-y-8">
+          <div className="flex justify-between items-center">
+              <p className="text-neutral-400">Настройка контента уроков. Перетащите урок, чтобы изменить порядок.</p>
+              <div className="flex gap-2">
+                  <button onClick={showRepairSql} className="text-xs flex items-center gap-1 bg-neutral-900 border border-neutral-800 hover:border-red-900 text-neutral-500 hover:text-red-500 px-3 py-2 rounded transition-colors">
+                      <Wrench className="w-3 h-3" /> Fix DB Table
+                  </button>
+                  <select value={filter} onChange={e => setFilter(e.target.value as typeof filter)} className="bg-neutral-900 border border-neutral-800 rounded px-3 py-2 text-xs text-white outline-none">
+                      <option value="all">Все уроки</option>
+                      <option value="missing_en">Без английского ({missingEnglishCount})</option>
+                  </select>
+                  <div className="text-xs text-neutral-500 bg-neutral-900 border border-neutral-800 px-3 py-2 rounded flex items-center gap-2">
+                      {isReordering && <Loader2 className="w-3 h-3 animate-spin" />}
+                      Всего уроков: {lessons.length} · черновиков: {lessons.filter(l => !isLessonPublished(l)).length}
+                  </div>
+                  <button onClick={handleCreate} disabled={busyId === 'new'} className="bg-red-700 hover:bg-red-600 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors disabled:opacity-50 text-sm">
+                      {busyId === 'new' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />} Добавить урок
+                  </button>
+              </div>
+          </div>
+
+          <div className="grid gap-3">
+            {shown.map(lesson => {
+                const idx = ordered.indexOf(lesson);
+                const isPublished = isLessonPublished(lesson);
+                const isExpanded = expandedId === lesson.id;
+                const accessLevel = lessonAccessLevel(isExpanded && draft ? draft : lesson, publishedIndex[lesson.id] ?? idx);
+                return (
+                <div
+                    key={lesson.id}
+                    onDragOver={(e) => { if (dragId !== null) { e.preventDefault(); setOverId(lesson.id); } }}
+                    onDragLeave={() => setOverId(prev => prev === lesson.id ? null : prev)}
+                    onDrop={(e) => { e.preventDefault(); handleDrop(lesson.id); }}
+                    className={`bg-neutral-900/50 p-4 rounded-xl border transition-colors ${
+                        overId === lesson.id && dragId !== lesson.id ? 'border-red-600' : 'border-neutral-800 hover:border-neutral-700'
+                    } ${dragId === lesson.id ? 'opacity-40' : ''}`}
+                >
+                     {/* Header */}
+                     <div className={`flex justify-between items-center gap-3 ${isExpanded ? 'mb-6 pb-4 border-b border-neutral-800' : ''}`}>
+                        <div className="flex items-center gap-3 min-w-0">
+                            <div
+                                draggable
+                                onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDragId(lesson.id); }}
+                                onDragEnd={() => { setDragId(null); setOverId(null); }}
+                                className="cursor-grab active:cursor-grabbing text-neutral-600 hover:text-white p-1"
+                                title="Перетащите, чтобы изменить порядок"
+                            >
+                                <GripVertical className="w-4 h-4" />
+                            </div>
+                            <div className="w-8 h-8 rounded-full bg-neutral-800 flex items-center justify-center text-sm font-bold text-white border border-neutral-700 shrink-0">
+                                {idx + 1}
+                            </div>
+                            <button onClick={() => toggleEditor(lesson)} className="font-bold text-white text-lg truncate text-left hover:text-red-500 transition-colors">
+                                {(isExpanded && draft ? draft.title : lesson.title) || 'Без названия'}
+                            </button>
+                            {isMissingEnglish(lesson) && <span className="text-[10px] uppercase px-1.5 rounded border shrink-0 text-red-400 border-red-900/50" title="Нет английского перевода">EN</span>}
+                            {isExpanded && isDirty && <span className="w-2 h-2 rounded-full bg-yellow-400 shrink-0" title="Есть несохранённые изменения" />}
+                            <span className={`text-[10px] uppercase px-1.5 rounded border shrink-0 ${isPublished ? 'text-green-400 border-green-900/50' : 'text-yellow-400 border-yellow-900/50'}`}>
+                                {isPublished ? 'Опубликован' : 'Черновик'}
+                            </span>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                            <span className="text-[10px] font-mono text-neutral-500 uppercase mr-2 hidden md:inline">ID: {lesson.id}</span>
+                            <button onClick={() => toggleStatus(lesson)} disabled={busyId === lesson.id} className="disabled:opacity-40 p-2 rounded-lg text-neutral-400 hover:text-white hover:bg-neutral-800" title={isPublished ? 'Снять с публикации' : 'Опубликовать'}>
+                                {isPublished ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                            </button>
+                            <button onClick={() => handleDuplicate(lesson)} disabled={busyId === lesson.id} className="p-2 rounded-lg text-neutral-400 hover:text-white hover:bg-neutral-800 disabled:opacity-40" title="Дублировать">
+                                {busyId === lesson.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Copy className="w-4 h-4" />}
+                            </button>
+                            <button onClick={() => handleDelete(lesson)} disabled={busyId === lesson.id} className="p-2 rounded-lg text-red-500 hover:bg-red-900/40 disabled:opacity-40" title="Удалить">
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => toggleEditor(lesson)} className="p-2 rounded-lg text-neutral-400 hover:text-white hover:bg-neutral-800" title={isExpanded ? 'Свернуть' : 'Редактировать'}>
+                                {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                            </button>
+                        </div>
+                     </div>
+
+                     {isExpanded && draft && (
+                                <div className="space-y-6">
+                                    {/* Row 1: Title, video & text — RU | EN side by side */}
+                                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-x-6 gap-y-4">
+                                        <div className="text-xs font-bold text-white uppercase tracking-widest hidden lg:block">Русский</div>
+                                        <div className="text-xs font-bold text-white uppercase tracking-widest flex justify-between items-center">
+                                            <span className="hidden lg:inline">English</span>
+                                            <button onClick={() => setIsTranslating(true)} className="text-[10px] normal-case tracking-normal bg-blue-900/30 hover:bg-blue-900/50 text-blue-400 px-2 py-1 rounded flex items-center gap-1 transition-colors">
+                                                <Languages className="w-3 h-3" /> Перевести на EN
+                                            </button>
+                                        </div>
+
+                                        <div className="space-y-2">
+                                            <label className="text-xs font-bold text-neutral-500 uppercase">Название урока</label>
+                                            <input 
+                                                type="text" 
+                                                value={draft.title} 
+                                                onChange={(e) => updateDraft({ title: e.target.value })} 
+                                                className="w-full bg-neutral-950 border border-neutral-800 rounded-lg px-4 py-3 text-white text-sm focus:border-red-600 outline-none transition-colors"
+                                                placeholder="Название..."
+                                            />
+                                        </div>
+                                        <div className="space-y-2">
+                                            <label className="text-xs font-bold text-neutral-500 uppercase flex justify-between items-center">
+                                                <span>Title (EN)</span>
+                                                <TranslationBadge state={translationState(draft, 'title')} />
+                                            </label>
+                                            <input 
+                                                type="text" 
+                                                value={draft.title_en || ''} 
+                                                onChange={(e) => updateDraft({ title_en: e.target.value || null })} 
+                                                className="w-full bg-neutral-950 border border-neutral-800 rounded-lg px-4 py-3 text-white text-sm focus:border-red-600 outline-none transition-colors"
+                                                placeholder="Title..."
+                                            />
+                                        </div>
+
+                                        <div className="space-y-2">
+                                            <label className="text-xs font-bold text-neutral-500 uppercase">Видео</label>
+                                            <VideoUrlField
+                                                value={draft.video_url || ''}
+                                                onChange={(value) => updateDraft({ video_url: value })}
+                                                inputClassName="w-full bg-neutral-950 border border-neutral-800 rounded-lg px-4 py-3 text-white text-sm focus:border-red-600 outline-none transition-colors"
+                                            />
+                                        </div>
+                                        <div className="space-y-2">
+                                            <label className="text-xs font-bold text-neutral-500 uppercase flex justify-between items-center">
+                                                <span>Video (EN)</span>
+                                                <TranslationBadge state={translationState(draft, 'video_url')} />
+                                            </label>
+                                            <VideoUrlField
+                                                value={draft.video_url_en || ''}
+                                                onChange={(value) => updateDraft({ video_url_en: value || null })}
+                                                inputClassName="w-full bg-neutral-950 border border-neutral-800 rounded-lg px-4 py-3 text-white text-sm focus:border-red-600 outline-none transition-colors"
+                                                placeholder="Пусто — показывается русское видео"
+                                            />
+                                        </div>
+
+                                        <div className="space-y-2">
+                                            <label className="text-xs font-bold text-neutral-500 uppercase flex justify-between">
+                                                <span>Текст под видео</span>
+                                                <span className="text-[10px] font-normal opacity-50">Каждый абзац с новой строки</span>
+                                            </label>
+                                            <textarea 
+                                                value={draft.content?.join('\n') || ''}
+                                                onChange={(e) => updateDraft({ content: e.target.value.split('\n') })}
+                                                rows={8}
+                                                className="w-full bg-neutral-950 border border-neutral-800 rounded-lg px-4 py-3 text-white text-sm focus:border-red-600 outline-none transition-colors resize-y leading-relaxed"
+                                                placeholder="Введите текст урока..."
+                                            />
+                                        </div>
+                                        <div className="space-y-2">
+                                            <label className="text-xs font-bold text-neutral-500 uppercase flex justify-between items-center">
+                                                <span>Text (EN)</span>
+                                                <TranslationBadge state={translationState(draft, 'content')} />
+                                            </label>
+                                            <textarea 
+                                                value={draft.content_en?.join('\n') || ''}
+                                                onChange={(e) => updateDraft({ content_en: e.target.value ? e.target.value.split('\n') : null })}
+                                                rows={8}
+                                                className="w-full bg-neutral-950 border border-neutral-800 rounded-lg px-4 py-3 text-white text-sm focus:border-red-600 outline-none transition-colors resize-y leading-relaxed"
+                                                placeholder="Lesson text..."
+                                            />
+                                        </div>
+                                    </div>
+
+                                    {/* Chapters (part of the draft) */}
+                                    <ChaptersEditor chapters={draft.chapters || []} onChange={(chapters) => updateDraft({ chapters: chapters.length ? chapters : null })} />
+
+                                    {/* Subtitles — saved on upload, independent of the draft */}
+                                    <SubtitlesEditor lessonId={lesson.id} />
+
+                                    {/* Quiz — saved with its own button, independent of the draft */}
+                                    <QuizEditor lessonId={lesson.id} onSave={onSave} />
+
+                                    {/* Row 2: Access */}
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                        <div className="space-y-2">
+                                            <label className="text-xs font-bold text-neutral-500 uppercase flex justify-between">
+                                                <span>Доступ</span>
+                                                {!draft.access_level && <span className="text-[10px] font-normal opacity-50">По умолчанию (первые 4 открыты)</span>}
+                                            </label>
+                                            <select
+                                                value={accessLevel}
+                                                onChange={(e) => {
+                                                    const level = e.target.value as LessonAccessLevel;
+                                                    updateDraft({ access_level: level, access_course_id: level === 'course' ? (draft.access_course_id || courses[0]?.id || null) : null });
+                                                }}
+                                                className="w-full bg-neutral-950 border border-neutral-800 rounded-lg px-4 py-3 text-white text-sm focus:border-red-600 outline-none transition-colors"
+                                            >
+                                                {LESSON_ACCESS_LEVELS.map(level => (
+                                                    <option key={level} value={level}>{ACCESS_LEVEL_LABELS[level]}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        {accessLevel === 'course' && (
+                                            <div className="space-y-2">
+                                                <label className="text-xs font-bold text-neutral-500 uppercase">Курс</label>
+                                                <select
+                                                    value={draft.access_course_id || 0}
+                                                    onChange={(e) => updateDraft({ access_course_id: parseInt(e.target.value) || null })}
+                                                    className={`w-full bg-neutral-950 border rounded-lg px-4 py-3 text-white text-sm focus:border-red-600 outline-none transition-colors ${draft.access_course_id ? 'border-neutral-800' : 'border-red-900'}`}
+                                                >
+                                                    <option value={0}>-- Выберите курс --</option>
+                                                    {courses.map(course => (
+                                                        <option key={course.id} value={course.id}>{course.title}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {/* Row 3: Related Articles */}
+                                    <div className="space-y-3 bg-black/20 p-4 rounded-lg border border-white/5">
+                                        <div className="flex justify-between items-center">
+                                            <label className="text-xs font-bold text-neutral-500 uppercase flex items-center gap-2">
+                                                <FileText className="w-3 h-3"/> Карточки статей (Снизу видео)
+                                            </label>
+                                            <span className="text-[9px] text-neutral-600 italic">Пустые слоты будут заполнены автоматически</span>
+                                        </div>
+                                        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+                                            {[0,1,2,3].map(i => (
+                                                <div key={i} className="space-y-1">
+                                                    <span className="text-[10px] text-neutral-400 uppercase font-bold pl-1">Слот #{i+1}</span>
+                                                    <div className="relative">
+                                                        <select 
+                                                            value={draft.related_articles?.[i] || 0}
+                                                            onChange={(e) => {
+                                                                const newIds = [...(draft.related_articles || [])];
+                                                                // Fill gaps
+                                                                for(let k=0; k<=i; k++) { if(newIds[k] === undefined) newIds[k] = 0; }
+                                                                newIds[i] = parseInt(e.target.value);
+                                                                updateDraft({ related_articles: newIds });
+                                                            }}
+                                                            className="w-full bg-neutral-950 border border-neutral-800 rounded-lg pl-3 pr-8 py-2.5 text-xs text-white outline-none focus:border-red-600 appearance-none cursor-pointer hover:bg-neutral-900 transition-colors"
+                                                        >
+                                                            <option value={0} className="text-neutral-500">-- Авто (Случайно) --</option>
+                                                            {articles.map(art => (
+                                                                <option key={art.id} value={art.id}>
+                                                                    #{art.id} {art.title ? (art.title.length > 20 ? art.title.substring(0,20)+'...' : art.title) : 'Untitled'}
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                        <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none text-neutral-500">
+                                                            <ChevronDown className="w-3 h-3" />
+                                                        </div>
+                                                    </div>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+
+                                    {/* Save / Discard */}
+                                    <div className={`sticky bottom-0 -mx-4 -mb-4 px-4 py-3 rounded-b-xl border-t flex items-center justify-between gap-4 backdrop-blur ${isDirty ? 'bg-yellow-950/40 border-yellow-900/50' : 'bg-neutral-900/80 border-neutral-800'}`}>
+                                        <span className={`text-xs ${isDirty ? 'text-yellow-400' : 'text-neutral-500'}`}>
+                                            {isDirty ? `Несохранённые изменения: ${Object.keys(changes).length}` : 'Все изменения сохранены'}
+                                        </span>
+                                        <div className="flex gap-2">
+                                            <button onClick={handleDiscard} disabled={!isDirty || isSaving} className="px-4 py-2 rounded-lg text-sm font-medium flex items-center gap-2 bg-neutral-800 text-neutral-300 hover:bg-neutral-700 hover:text-white disabled:opacity-40">
+                                                <RotateCcw className="w-4 h-4" /> Отменить
+                                            </button>
+                                            <button onClick={handleSaveDraft} disabled={!isDirty || isSaving} className="px-5 py-2 rounded-lg text-sm font-medium flex items-center gap-2 bg-green-700 hover:bg-green-600 text-white disabled:opacity-40">
+                                                {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Сохранить
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
+                     )}
+                </div>
+                );
+            })}
+            {filter === 'missing_en' && lessons.length > 0 && shown.length === 0 && <div className="text-center text-neutral-600 py-10 border border-dashed border-neutral-800 rounded-xl">Все уроки переведены</div>}
+            {lessons.length === 0 && <div className="text-center text-neutral-600 py-10 border border-dashed border-neutral-800 rounded-xl">Уроков пока нет</div>}
+          </div>
+
+          {isTranslating && draft && (
+              <TranslationReview fields={translationFields(draft)} onApply={applyTranslation} onClose={() => setIsTranslating(false)} />
+          )}
+      </div>
+  );
+};
+
+export default LessonsManager;
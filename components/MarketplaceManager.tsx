@@ -1,9 +1,11 @@
 
 import React, { useState, useMemo } from 'react';
-import { Plus, Trash2, Save, ArrowLeft, Loader2, ShoppingBag, Upload, X, HelpCircle, Image as ImageIcon, Video, Database, PenTool, Tag } from 'lucide-react';
-import { Product, ProductFAQ } from '../types';
+import { Plus, Trash2, Save, ArrowLeft, Loader2, ShoppingBag, Upload, X, HelpCircle, Image as ImageIcon, Video, Database, PenTool, Tag, Layers } from 'lucide-react';
+import { Product, ProductFAQ, ProductVariant } from '../types';
 import { supabase } from '../supabaseClient';
 import { INITIAL_PRODUCTS } from '../constants';
+import { getAvailableStock, STOCK_REPAIR_SQL } from '../utils/stock';
+import VideoUrlField from './VideoUrlField';
 
 interface MarketplaceManagerProps {
   products: Product[];
@@ -75,7 +77,9 @@ const MarketplaceManager: React.FC<MarketplaceManagerProps> = ({ products, onSav
         price: 0,
         images: [],
         faq: [],
-        video_url: ''
+        video_url: '',
+        stock: null,
+        variants: []
       });
     }
     setView('edit');
@@ -88,6 +92,20 @@ const MarketplaceManager: React.FC<MarketplaceManagerProps> = ({ products, onSav
       return;
     }
 
+    const variants = currentProduct.variants || [];
+    if (variants.some(v => !v.label.trim())) {
+      alert("У каждого варианта должно быть название");
+      return;
+    }
+    if (variants.some(v => !Number.isInteger(v.stock) || v.stock < 0)) {
+      alert("Остаток варианта — целое число от 0");
+      return;
+    }
+    if (typeof currentProduct.stock === 'number' && (!Number.isInteger(currentProduct.stock) || currentProduct.stock < 0)) {
+      alert("Остаток — целое число от 0 (или пусто, если не учитывается)");
+      return;
+    }
+
     setIsSaving(true);
     try {
       if (!supabase) throw new Error("No database connection");
@@ -101,7 +119,9 @@ const MarketplaceManager: React.FC<MarketplaceManagerProps> = ({ products, onSav
         price: currentProduct.price,
         images: currentProduct.images || [],
         video_url: currentProduct.video_url,
-        faq: currentProduct.faq || []
+        faq: currentProduct.faq || [],
+        stock: variants.length ? null : (currentProduct.stock ?? null),
+        variants
       };
 
       if (currentProduct.id) {
@@ -139,10 +159,16 @@ create table if not exists public.market_shibari (
   faq jsonb default '[]'
 );
 alter table public.market_shibari add column if not exists category text;
+${STOCK_REPAIR_SQL}
 alter table public.market_shibari enable row level security;
+-- Everyone reads the catalog, only admins change it (utils/roles); orders take stock through place_order
+drop policy if exists "Allow all operations" on public.market_shibari;
 do $$ begin
-  if not exists (select 1 from pg_policies where tablename = 'market_shibari' and policyname = 'Allow all operations') then
-    create policy "Allow all operations" on public.market_shibari for all using (true) with check (true);
+  if not exists (select 1 from pg_policies where tablename = 'market_shibari' and policyname = 'Read products') then
+    create policy "Read products" on public.market_shibari for select using (true);
+  end if;
+  if not exists (select 1 from pg_policies where tablename = 'market_shibari' and policyname = 'Admins manage products') then
+    create policy "Admins manage products" on public.market_shibari for all using (public.is_shibari_admin()) with check (public.is_shibari_admin());
   end if;
 end $$;
       `.trim();
@@ -225,6 +251,36 @@ end $$;
     }));
   };
 
+  // Logic: Variants
+  // Each variant has its own price (empty = product price), stock and a subset of the product photos.
+  const addVariant = () => {
+    setCurrentProduct(prev => ({
+        ...prev,
+        variants: [...(prev.variants || []), { id: Math.random().toString(36).substring(2, 8), label: '', stock: 0 }]
+    }));
+  };
+
+  const updateVariant = (index: number, patch: Partial<ProductVariant>) => {
+    setCurrentProduct(prev => {
+        const newVariants = [...(prev.variants || [])];
+        newVariants[index] = { ...newVariants[index], ...patch };
+        return { ...prev, variants: newVariants };
+    });
+  };
+
+  const removeVariant = (index: number) => {
+    if (!window.confirm("Удалить вариант? Он пропадёт из корзин покупателей.")) return;
+    setCurrentProduct(prev => ({
+        ...prev,
+        variants: prev.variants?.filter((_, i) => i !== index)
+    }));
+  };
+
+  const toggleVariantImage = (index: number, url: string) => {
+    const images = currentProduct.variants?.[index]?.images || [];
+    updateVariant(index, { images: images.includes(url) ? images.filter(i => i !== url) : [...images, url] });
+  };
+
   if (view === 'list') {
     return (
       <div className="space-y-6">
@@ -282,9 +338,12 @@ end $$;
                             {p.category && <span className="text-[9px] bg-neutral-800 px-1.5 py-0.5 rounded text-neutral-400 ml-2 shrink-0">{p.category}</span>}
                          </div>
                          <div className="flex justify-between items-center mt-1">
-                            <span className="text-xs text-neutral-500 truncate max-w-[60%]">{p.color}</span>
+                            <span className="text-xs text-neutral-500 truncate max-w-[60%]">{p.variants?.length ? `${p.variants.length} вар.` : p.color}</span>
                             <span className="text-xs font-mono font-bold text-neutral-300">${p.price}</span>
                          </div>
+                         {getAvailableStock(p) !== null && (
+                            <span className={`text-[10px] ${getAvailableStock(p) === 0 ? 'text-red-500' : 'text-neutral-500'}`}>Остаток: {getAvailableStock(p)}</span>
+                         )}
                      </div>
                 </div>
             ))}
@@ -359,6 +418,19 @@ end $$;
                             className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none"
                           />
                       </div>
+                      {!currentProduct.variants?.length && (
+                          <div className="w-28 space-y-1">
+                              <label className="text-xs font-bold text-neutral-500 uppercase">Остаток</label>
+                              <input 
+                                type="number"
+                                min={0}
+                                value={currentProduct.stock ?? ''}
+                                onChange={e => setCurrentProduct({...currentProduct, stock: e.target.value === '' ? null : parseInt(e.target.value)})}
+                                placeholder="∞"
+                                className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none"
+                              />
+                          </div>
+                      )}
                   </div>
                   <textarea 
                     value={currentProduct.description_short || ''}
@@ -389,11 +461,11 @@ end $$;
                        {(!currentProduct.images?.length) && <div className="text-neutral-600 text-sm flex items-center">Нет фото</div>}
                    </div>
                    
-                   <input 
+                   <VideoUrlField
                     value={currentProduct.video_url || ''}
-                    onChange={e => setCurrentProduct({...currentProduct, video_url: e.target.value})}
-                    placeholder="Ссылка на видео (YouTube)"
-                    className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none text-sm"
+                    onChange={value => setCurrentProduct({...currentProduct, video_url: value})}
+                    placeholder="Ссылка на видео"
+                    inputClassName="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none text-sm"
                   />
               </div>
           </div>
@@ -406,6 +478,72 @@ end $$;
             className="w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none"
           />
 
+          {/* Variants Editor */}
+          <div className="bg-neutral-900/50 border border-neutral-800 rounded-xl p-4">
+              <div className="flex items-center justify-between mb-4">
+                  <div>
+                      <h4 className="font-bold text-white text-sm flex items-center gap-2"><Layers className="w-4 h-4"/> Варианты (длина, материал, цвет)</h4>
+                      <p className="text-neutral-500 text-xs mt-1">Если есть варианты, остаток считается по каждому из них.</p>
+                  </div>
+                  <button onClick={addVariant} className="text-xs text-red-500 hover:text-red-400 font-bold flex items-center gap-1"><Plus className="w-3 h-3"/> Добавить вариант</button>
+              </div>
+              <div className="space-y-4">
+                  {(currentProduct.variants || []).map((variant, idx) => (
+                      <div key={variant.id} className="flex flex-col gap-2 border-b border-neutral-800 pb-4 last:border-0 last:pb-0">
+                          <div className="flex flex-wrap gap-2">
+                              <input 
+                                value={variant.label}
+                                onChange={e => updateVariant(idx, { label: e.target.value })}
+                                placeholder="8 м · джут · натуральный"
+                                className="flex-1 min-w-[180px] bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none"
+                              />
+                              <input 
+                                value={variant.label_en || ''}
+                                onChange={e => updateVariant(idx, { label_en: e.target.value })}
+                                placeholder="8 m · jute · natural"
+                                className="flex-1 min-w-[180px] bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-neutral-300 outline-none"
+                              />
+                              <button onClick={() => removeVariant(idx)} className="text-neutral-500 hover:text-red-500 px-1"><Trash2 className="w-4 h-4"/></button>
+                          </div>
+                          <div className="flex flex-wrap gap-2 items-center">
+                              <input 
+                                type="number"
+                                value={variant.price ?? ''}
+                                onChange={e => updateVariant(idx, { price: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                                placeholder={`Цена: $${currentProduct.price || 0}`}
+                                className="w-32 bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none"
+                              />
+                              <input 
+                                type="number"
+                                min={0}
+                                value={variant.stock}
+                                onChange={e => updateVariant(idx, { stock: parseInt(e.target.value) || 0 })}
+                                title="Остаток"
+                                className="w-24 bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none"
+                              />
+                              <input 
+                                value={variant.sku || ''}
+                                onChange={e => updateVariant(idx, { sku: e.target.value })}
+                                placeholder="Артикул"
+                                className="w-32 bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none font-mono"
+                              />
+                              {(currentProduct.images || []).map(img => (
+                                  <button
+                                    key={img}
+                                    onClick={() => toggleVariantImage(idx, img)}
+                                    title="Фото варианта"
+                                    className={`w-9 h-9 rounded overflow-hidden border-2 ${variant.images?.includes(img) ? 'border-red-600' : 'border-transparent opacity-40 hover:opacity-100'}`}
+                                  >
+                                      <img src={img} alt="" className="w-full h-full object-cover" />
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                  ))}
+                  {!currentProduct.variants?.length && <div className="text-neutral-500 text-sm text-center py-2">Без вариантов</div>}
+              </div>
+          </div>
+
           {/* FAQ Editor */}
           <div className="bg-neutral-900/50 border border-neutral-800 rounded-xl p-4">
               <div className="flex items-center justify-between mb-4">
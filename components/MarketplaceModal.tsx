@@ -1,28 +1,49 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { X, ShoppingBag, ShoppingCart, Search, Filter, Tag, ArrowRight, Star, Image as ImageIcon, Video, ChevronRight, Check } from 'lucide-react';
-import { Product, CartItem } from '../types';
+import { Product, ProductVariant, CartItem } from '../types';
 import VideoPlayer from './VideoPlayer';
+import BehaviorTracker from '../utils/BehaviorTracker';
+import { getAvailableStock } from '../utils/stock';
 
 interface MarketplaceModalProps {
   isOpen: boolean;
   onClose: () => void;
   products: Product[];
   cart: CartItem[];
-  addToCart: (product: Product) => void;
+  addToCart: (product: Product, variant?: ProductVariant) => void;
   openCart: () => void;
+  selectedProductId?: number | null; // Driven by /shop/:productId
+  onSelectProduct: (product: Product | null) => void;
   lang: 'ru' | 'en';
   t: any;
   getData: (item: any, field: string) => string;
 }
 
 const MarketplaceModal: React.FC<MarketplaceModalProps> = ({ 
-    isOpen, onClose, products, cart, addToCart, openCart, lang, t, getData
+    isOpen, onClose, products, cart, addToCart, openCart, selectedProductId, onSelectProduct, lang, t, getData
 }) => {
   const [selectedCategory, setSelectedCategory] = useState('all');
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
 
+  const selectedProduct = products.find(p => p.id === selectedProductId) || null;
+
+  // Analytics: a product detail view (also fires for /shop/:productId deep links)
+  useEffect(() => {
+      if (!isOpen || !selectedProduct) return;
+      BehaviorTracker.trackProductView(selectedProduct.id, selectedProduct.price || 0, selectedProduct.category || 'uncategorized');
+  }, [isOpen, selectedProduct?.id]);
+
+  const handleSearchChange = (value: string) => {
+      setSearchQuery(value);
+      BehaviorTracker.trackSearch(value);
+  };
+
+  const handleCategorySelect = (category: string) => {
+      setSelectedCategory(category);
+      if (category !== 'all') BehaviorTracker.trackFilterUsage();
+  };
+
   // Extract unique categories from products
   const dynamicCategories = useMemo(() => {
       const cats = new Set<string>();
@@ -50,6 +71,12 @@ const MarketplaceModal: React.FC<MarketplaceModalProps> = ({
       });
   }, [products, selectedCategory, searchQuery, getData]);
 
+  // Products with variants need a choice first, so quick-add opens the detail view instead
+  const handleQuickAdd = (product: Product) => {
+      if (product.variants?.length) onSelectProduct(product);
+      else addToCart(product);
+  };
+
   if (!isOpen) return null;
 
   const cartCount = cart.reduce((acc, item) => acc + item.quantity, 0);
@@ -75,7 +102,7 @@ const MarketplaceModal: React.FC<MarketplaceModalProps> = ({
                   <Search className="w-4 h-4 text-neutral-500 mr-2" />
                   <input 
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onChange={(e) => handleSearchChange(e.target.value)}
                     placeholder={lang === 'ru' ? "Поиск..." : "Search..."}
                     className="bg-transparent border-none outline-none text-sm text-white placeholder-neutral-600 w-full"
                   />
@@ -115,7 +142,7 @@ const MarketplaceModal: React.FC<MarketplaceModalProps> = ({
                   
                   {/* All Products Button */}
                   <button
-                    onClick={() => setSelectedCategory('all')}
+                    onClick={() => handleCategorySelect('all')}
                     className={`w-full text-left px-4 py-3 rounded-xl text-sm font-medium transition-all duration-200 flex items-center justify-between group ${
                         selectedCategory === 'all' 
                         ? 'bg-red-600 text-white shadow-lg shadow-red-900/20' 
@@ -130,7 +157,7 @@ const MarketplaceModal: React.FC<MarketplaceModalProps> = ({
                   {dynamicCategories.map(cat => (
                       <button
                         key={cat}
-                        onClick={() => setSelectedCategory(cat)}
+                        onClick={() => handleCategorySelect(cat)}
                         className={`w-full text-left px-4 py-3 rounded-xl text-sm font-medium transition-all duration-200 flex items-center justify-between group ${
                             selectedCategory === cat 
                             ? 'bg-red-600 text-white shadow-lg shadow-red-900/20' 
@@ -166,14 +193,14 @@ const MarketplaceModal: React.FC<MarketplaceModalProps> = ({
                       <Search className="w-5 h-5 text-neutral-500 mr-3" />
                       <input 
                         value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
+                        onChange={(e) => handleSearchChange(e.target.value)}
                         placeholder="Search products..."
                         className="bg-transparent border-none outline-none text-base text-white placeholder-neutral-600 w-full"
                       />
                   </div>
                   <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
                       <button
-                        onClick={() => setSelectedCategory('all')}
+                        onClick={() => handleCategorySelect('all')}
                         className={`whitespace-nowrap px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wide border transition-all ${
                             selectedCategory === 'all' 
                             ? 'bg-red-600 border-red-600 text-white' 
@@ -185,7 +212,7 @@ const MarketplaceModal: React.FC<MarketplaceModalProps> = ({
                       {dynamicCategories.map(cat => (
                           <button
                             key={cat}
-                            onClick={() => setSelectedCategory(cat)}
+                            onClick={() => handleCategorySelect(cat)}
                             className={`whitespace-nowrap px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wide border transition-all ${
                                 selectedCategory === cat 
                                 ? 'bg-red-600 border-red-600 text-white' 
@@ -210,7 +237,7 @@ const MarketplaceModal: React.FC<MarketplaceModalProps> = ({
                       {filteredProducts.map(product => (
                           <div 
                               key={product.id}
-                              onClick={() => setSelectedProduct(product)}
+                              onClick={() => onSelectProduct(product)}
                               className="group flex flex-col cursor-pointer"
                           >
                               {/* Image Container */}
@@ -232,14 +259,18 @@ const MarketplaceModal: React.FC<MarketplaceModalProps> = ({
                                       {product.price && product.price > 100 && (
                                           <span className="bg-black/80 backdrop-blur text-white text-[9px] font-bold px-2 py-0.5 rounded uppercase tracking-wider border border-white/10">Premium</span>
                                       )}
+                                      {getAvailableStock(product) === 0 && (
+                                          <span className="bg-neutral-800/90 backdrop-blur text-neutral-300 text-[9px] font-bold px-2 py-0.5 rounded uppercase tracking-wider border border-white/10">{t.out_of_stock}</span>
+                                      )}
                                   </div>
 
                                   {/* Quick Actions (Desktop Hover) */}
                                   <div className="absolute inset-x-0 bottom-0 p-3 bg-gradient-to-t from-black via-black/80 to-transparent translate-y-full group-hover:translate-y-0 transition-transform duration-300 hidden md:flex items-center justify-between">
-                                      <span className="text-white font-mono font-bold">${product.price}</span>
+                                      <span className="text-white font-mono font-bold">{formatPrice(product, t)}</span>
                                       <button 
-                                        onClick={(e) => { e.stopPropagation(); addToCart(product); }}
-                                        className="w-8 h-8 rounded-full bg-white text-black flex items-center justify-center hover:bg-red-600 hover:text-white transition-colors"
+                                        onClick={(e) => { e.stopPropagation(); handleQuickAdd(product); }}
+                                        disabled={getAvailableStock(product) === 0}
+                                        className="w-8 h-8 rounded-full bg-white text-black flex items-center justify-center hover:bg-red-600 hover:text-white transition-colors disabled:opacity-30 disabled:hover:bg-white disabled:hover:text-black"
                                       >
                                           <ShoppingCart className="w-4 h-4" />
                                       </button>
@@ -255,10 +286,11 @@ const MarketplaceModal: React.FC<MarketplaceModalProps> = ({
                                       {getData(product, 'color') || getData(product, 'description_short')}
                                   </p>
                                   <div className="md:hidden mt-2 flex items-center justify-between">
-                                      <span className="text-sm font-mono font-bold text-white">${product.price}</span>
+                                      <span className="text-sm font-mono font-bold text-white">{formatPrice(product, t)}</span>
                                       <button 
-                                          onClick={(e) => { e.stopPropagation(); addToCart(product); }}
-                                          className="p-1.5 bg-neutral-800 rounded-full text-white"
+                                          onClick={(e) => { e.stopPropagation(); handleQuickAdd(product); }}
+                                          disabled={getAvailableStock(product) === 0}
+                                          className="p-1.5 bg-neutral-800 rounded-full text-white disabled:opacity-30"
                                       >
                                           <ShoppingCart className="w-4 h-4" />
                                       </button>
@@ -274,9 +306,10 @@ const MarketplaceModal: React.FC<MarketplaceModalProps> = ({
       {/* Detail Overlay */}
       {selectedProduct && (
           <ProductDetailOverlay 
+            key={selectedProduct.id}
             product={selectedProduct} 
-            onClose={() => setSelectedProduct(null)} 
-            onAdd={() => addToCart(selectedProduct)} 
+            onClose={() => onSelectProduct(null)} 
+            onAdd={(variant) => addToCart(selectedProduct, variant)} 
             t={t} 
             getData={getData} 
           />
@@ -285,10 +318,32 @@ const MarketplaceModal: React.FC<MarketplaceModalProps> = ({
   );
 };
 
-const ProductDetailOverlay: React.FC<{ product: Product, onClose: () => void, onAdd: () => void, t: any, getData: any }> = ({ product, onClose, onAdd, t, getData }) => {
-    const [activeImage, setActiveImage] = useState(product.images?.[0] || '');
+// "$25" or "from $18" when variants are priced differently
+const formatPrice = (product: Product, t: any) => {
+    const prices = (product.variants || []).map(v => v.price ?? product.price ?? 0);
+    if (prices.length && new Set(prices).size > 1) return `${t.price_from} $${Math.min(...prices)}`;
+    return `$${prices[0] ?? product.price}`;
+};
+
+const ProductDetailOverlay: React.FC<{ product: Product, onClose: () => void, onAdd: (variant?: ProductVariant) => void, t: any, getData: any }> = ({ product, onClose, onAdd, t, getData }) => {
+    const variants = product.variants || [];
+    // Preselect the first variant that is in stock
+    const [variantId, setVariantId] = useState<string | undefined>(() => (variants.find(v => v.stock > 0) || variants[0])?.id);
+    const variant = variants.find(v => v.id === variantId);
+
+    const images = variant?.images?.length ? variant.images : (product.images || []);
+    const [activeImage, setActiveImage] = useState(images[0] || '');
     const [faqOpen, setFaqOpen] = useState<number | null>(null);
 
+    const price = variant?.price ?? product.price;
+    const stock = getAvailableStock(product, variant?.id);
+    const isSoldOut = stock === 0;
+
+    const selectVariant = (v: ProductVariant) => {
+        setVariantId(v.id);
+        setActiveImage((v.images?.length ? v.images : product.images || [])[0] || '');
+    };
+
     return (
         <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/90 backdrop-blur-md p-0 md:p-8 animate-in zoom-in-95 duration-200">
             <div className="bg-neutral-950 w-full h-full md:h-auto md:max-h-[90vh] md:max-w-6xl md:rounded-2xl shadow-2xl overflow-hidden flex flex-col md:flex-row relative border border-white/10">
@@ -306,9 +361,9 @@ const ProductDetailOverlay: React.FC<{ product: Product, onClose: () => void, on
                          )}
                      </div>
                      {/* Thumbnails */}
-                     {(product.images?.length || 0) > 1 && (
+                     {images.length > 1 && (
                          <div className="p-4 flex gap-3 overflow-x-auto bg-neutral-950 border-t border-white/5 scrollbar-hide">
-                             {product.images.map((img, idx) => (
+                             {images.map((img, idx) => (
                                  <button 
                                     key={idx} 
                                     onClick={() => setActiveImage(img)}
@@ -337,26 +392,52 @@ const ProductDetailOverlay: React.FC<{ product: Product, onClose: () => void, on
                                         {getData(product, 'color')}
                                     </span>
                                 )}
-                                <span className="px-3 py-1 rounded-full bg-red-900/20 text-red-500 border border-red-900/30 text-xs font-bold uppercase tracking-wider flex items-center gap-1">
-                                    <Check className="w-3 h-3" /> {t.in_stock}
-                                </span>
+                                {isSoldOut ? (
+                                    <span className="px-3 py-1 rounded-full bg-neutral-800 text-neutral-400 border border-neutral-700 text-xs font-bold uppercase tracking-wider">
+                                        {t.out_of_stock}
+                                    </span>
+                                ) : (
+                                    <span className="px-3 py-1 rounded-full bg-red-900/20 text-red-500 border border-red-900/30 text-xs font-bold uppercase tracking-wider flex items-center gap-1">
+                                        <Check className="w-3 h-3" /> {stock !== null && stock <= 5 ? `${t.only_left}: ${stock}` : t.in_stock}
+                                    </span>
+                                )}
                             </div>
 
                             <h2 className="text-3xl md:text-4xl font-bold text-white leading-tight mb-4">{getData(product, 'title')}</h2>
                             
                             <div className="text-3xl font-mono font-bold text-white flex items-center gap-2">
-                                ${product.price}
+                                ${price}
                                 <span className="text-sm font-sans font-normal text-neutral-500 ml-2">USD</span>
                             </div>
                         </div>
 
+                        {/* Variant Selector */}
+                        {variants.length > 0 && (
+                            <div className="mb-6">
+                                <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.2em] mb-3">{t.choose_variant}</h3>
+                                <div className="flex flex-wrap gap-2">
+                                    {variants.map(v => (
+                                        <button
+                                            key={v.id}
+                                            onClick={() => selectVariant(v)}
+                                            className={`px-4 py-2 rounded-lg text-sm border transition-all ${v.id === variantId ? 'border-red-600 bg-red-900/20 text-white' : 'border-white/10 text-neutral-300 hover:border-white/30'} ${v.stock <= 0 ? 'opacity-40 line-through' : ''}`}
+                                        >
+                                            {getData(v, 'label')}
+                                            {v.price !== undefined && v.price !== product.price && <span className="ml-2 font-mono text-neutral-500">${v.price}</span>}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         {/* Actions */}
                         <div className="mb-10">
                             <button 
-                                onClick={() => { onAdd(); onClose(); }}
-                                className="w-full bg-white hover:bg-neutral-200 text-black py-4 rounded-xl font-bold uppercase tracking-widest text-sm shadow-lg shadow-white/5 transition-all active:scale-[0.98] flex items-center justify-center gap-3"
+                                onClick={() => { onAdd(variant); onClose(); }}
+                                disabled={isSoldOut}
+                                className="w-full bg-white hover:bg-neutral-200 text-black py-4 rounded-xl font-bold uppercase tracking-widest text-sm shadow-lg shadow-white/5 transition-all active:scale-[0.98] flex items-center justify-center gap-3 disabled:opacity-40 disabled:cursor-not-allowed disabled:active:scale-100"
                             >
-                                <ShoppingBag className="w-5 h-5" /> {t.add_to_cart}
+                                <ShoppingBag className="w-5 h-5" /> {isSoldOut ? t.out_of_stock : t.add_to_cart}
                             </button>
                         </div>
 
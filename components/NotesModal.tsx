@@ -0,0 +1,218 @@
+import React, { useMemo } from 'react';
+import { X, Download, Trash2, NotebookPen, Lock } from 'lucide-react';
+import { Article, Bookmark, BookmarkType, CatalogVideo, DictionaryEntry, Lesson, LessonNote } from '../types';
+import { sortNotes, notebookToMarkdown, downloadMarkdown, NoteGroup, BookmarkGroup } from '../utils/notes';
+import { formatClock } from '../utils/subtitles';
+import BookmarkButton from './BookmarkButton';
+
+interface NotesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  notes: LessonNote[];
+  bookmarks: Bookmark[];
+  lessons: Lesson[];
+  articles: Article[];
+  catalogVideos: CatalogVideo[];
+  dictionary: DictionaryEntry[];
+  onOpenNote: (lessonId: number, videoTime: number | null) => void;
+  onOpenArticle: (article: Article) => void;
+  onOpenVideo: (video: CatalogVideo) => void;
+  onOpenTerm: (term: string) => void;
+  onDeleteNote: (noteId: string) => void;
+  onToggleBookmark: (type: BookmarkType, itemId: string) => void;
+  lang: 'ru' | 'en';
+  t: any;
+  getData: (item: any, field: string) => string;
+}
+
+interface ResolvedBookmark {
+  bookmark: Bookmark;
+  title: string;
+  markdown: string;
+  open: () => void;
+}
+
+// "My notes": every lesson note and bookmark of the student in one place, exportable as Markdown
+const NotesModal: React.FC<NotesModalProps> = ({
+    isOpen, onClose, notes, bookmarks, lessons, articles, catalogVideos, dictionary,
+    onOpenNote, onOpenArticle, onOpenVideo, onOpenTerm, onDeleteNote, onToggleBookmark, lang, t, getData
+}) => {
+  // Notes grouped by lesson in course order; notes of removed lessons are kept at the end
+  const noteGroups = useMemo(() => {
+      const byLesson = new Map<number, LessonNote[]>();
+      notes.forEach(note => byLesson.set(note.lesson_id, [...(byLesson.get(note.lesson_id) || []), note]));
+      const known = lessons.filter(l => byLesson.has(l.id)).map(lesson => ({ lesson, title: getData(lesson, 'title'), notes: byLesson.get(lesson.id)! }));
+      const orphaned = Array.from(byLesson.keys())
+          .filter(id => !lessons.some(l => l.id === id))
+          .map(id => ({ lesson: null, title: `#${id}`, notes: byLesson.get(id)! }));
+      return [...known, ...orphaned];
+  }, [notes, lessons, lang]);
+
+  // Bookmarks by kind, newest first; items that no longer exist are skipped
+  const bookmarkGroups = useMemo(() => {
+      const resolve = (bookmark: Bookmark): ResolvedBookmark | null => {
+          switch (bookmark.item_type) {
+              case 'lesson': {
+                  const lesson = lessons.find(l => String(l.id) === bookmark.item_id);
+                  if (!lesson) return null;
+                  const title = getData(lesson, 'title');
+                  return { bookmark, title, markdown: title, open: () => onOpenNote(lesson.id, null) };
+              }
+              case 'article': {
+                  const article = articles.find(a => String(a.id) === bookmark.item_id);
+                  if (!article) return null;
+                  const title = getData(article, 'title');
+                  return { bookmark, title, markdown: article.url && article.url !== '#' ? `[${title}](${article.url})` : title, open: () => onOpenArticle(article) };
+              }
+              case 'catalog_video': {
+                  const video = catalogVideos.find(v => String(v.id) === bookmark.item_id);
+                  if (!video) return null;
+                  return { bookmark, title: video.title, markdown: video.video_url ? `[${video.title}](${video.video_url})` : video.title, open: () => onOpenVideo(video) };
+              }
+              case 'term': {
+                  const entry = dictionary.find(d => d.term === bookmark.item_id);
+                  if (!entry) return null;
+                  const title = getData(entry, 'term');
+                  return { bookmark, title, markdown: `**${title}** — ${getData(entry, 'definition')}`, open: () => onOpenTerm(entry.term) };
+              }
+          }
+      };
+      const sections: { type: BookmarkType; title: string }[] = [
+          { type: 'lesson', title: t.bookmarks_lessons },
+          { type: 'article', title: t.bookmarks_articles },
+          { type: 'catalog_video', title: t.bookmarks_videos },
+          { type: 'term', title: t.bookmarks_terms }
+      ];
+      const newestFirst = [...bookmarks].sort((a, b) => b.created_at.localeCompare(a.created_at));
+      return sections
+          .map(section => ({
+              ...section,
+              items: newestFirst.filter(b => b.item_type === section.type).map(resolve).filter((item): item is ResolvedBookmark => item !== null)
+          }))
+          .filter(section => section.items.length);
+  }, [bookmarks, lessons, articles, catalogVideos, dictionary, lang]);
+
+  if (!isOpen) return null;
+
+  const isEmpty = !noteGroups.length && !bookmarkGroups.length;
+
+  const exportMarkdown = () => {
+      const markdown = notebookToMarkdown(
+          t.my_notes,
+          noteGroups.map((group): NoteGroup => ({ title: group.title, notes: group.notes })),
+          t.bookmarks,
+          bookmarkGroups.map((group): BookmarkGroup => ({ title: group.title, items: group.items.map(item => item.markdown) }))
+      );
+      downloadMarkdown(markdown, 'shibari-notes');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black/95 backdrop-blur-sm animate-in fade-in duration-200 overflow-hidden">
+      {/* Header */}
+      <div className="flex justify-end items-center gap-3 p-4 md:p-8 shrink-0">
+        {!isEmpty && (
+            <button
+                onClick={exportMarkdown}
+                className="flex items-center gap-2 px-4 h-10 rounded-full bg-neutral-900 border border-neutral-800 text-neutral-400 hover:text-white hover:border-neutral-600 transition-all text-xs font-bold uppercase tracking-wider"
+            >
+                <Download className="w-4 h-4" /> {t.export_markdown}
+            </button>
+        )}
+        <button
+          onClick={onClose}
+          className="group flex items-center justify-center w-10 h-10 rounded-full bg-neutral-900 border border-neutral-800 text-neutral-400 hover:text-white hover:border-red-600 hover:bg-red-900/20 transition-all duration-300"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 md:px-20 pb-20 scroll-smooth">
+        <div className="max-w-4xl mx-auto">
+          <h2 className="text-3xl md:text-5xl font-bold text-center text-white mb-3 tracking-tight">{t.my_notes}</h2>
+          <p className="text-center text-[10px] text-neutral-600 uppercase tracking-widest flex items-center justify-center gap-1.5 mb-10 md:mb-16">
+              <Lock className="w-3 h-3" /> {t.notes_private_hint}
+          </p>
+
+          {isEmpty ? (
+              <div className="text-center text-neutral-500 py-12 space-y-4">
+                  <NotebookPen className="w-10 h-10 mx-auto text-neutral-700" />
+                  <p>{t.notes_empty}</p>
+              </div>
+          ) : (
+              <div className="space-y-14">
+                  {/* Lesson Notes */}
+                  {noteGroups.map(group => (
+                      <section key={group.lesson?.id ?? group.title}>
+                          <button
+                              onClick={() => group.lesson && onOpenNote(group.lesson.id, null)}
+                              disabled={!group.lesson}
+                              className="text-xl font-bold text-white hover:text-red-500 disabled:hover:text-white transition-colors text-left mb-4"
+                          >
+                              {group.title}
+                          </button>
+                          <div className="space-y-1">
+                              {sortNotes(group.notes).map(note => (
+                                  <div key={note.id} className="group flex gap-4 px-3 py-2 rounded-lg hover:bg-white/5 transition-colors">
+                                      {note.video_time !== null && group.lesson ? (
+                                          <button onClick={() => onOpenNote(group.lesson!.id, note.video_time)} className="font-mono text-xs pt-0.5 shrink-0 w-14 text-left text-red-500 hover:text-red-400 transition-colors">
+                                              {formatClock(note.video_time)}
+                                          </button>
+                                      ) : (
+                                          <span className="font-mono text-xs pt-0.5 shrink-0 w-14 text-neutral-700">{note.video_time !== null ? formatClock(note.video_time) : '—'}</span>
+                                      )}
+                                      <p className="flex-1 min-w-0 text-sm text-neutral-300 leading-relaxed whitespace-pre-wrap break-words">{note.text}</p>
+                                      <button
+                                          onClick={() => window.confirm(t.note_delete_confirm) && onDeleteNote(note.id)}
+                                          className="p-1 shrink-0 text-neutral-600 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                                          title={t.note_delete}
+                                      >
+                                          <Trash2 className="w-3.5 h-3.5" />
+                                      </button>
+                                  </div>
+                              ))}
+                          </div>
+                      </section>
+                  ))}
+
+                  {/* Bookmarks */}
+                  {bookmarkGroups.length > 0 && (
+                      <section>
+                          <div className="flex items-center mb-8 relative">
+                              <div className="absolute inset-0 flex items-center" aria-hidden="true">
+                                  <div className="w-full border-t border-neutral-800"></div>
+                              </div>
+                              <span className="relative bg-black pr-6 text-2xl font-light text-white">{t.bookmarks}</span>
+                          </div>
+                          <div className="space-y-8">
+                              {bookmarkGroups.map(group => (
+                                  <div key={group.type}>
+                                      <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.15em] mb-3 pl-1">{group.title}</h3>
+                                      <div className="space-y-1">
+                                          {group.items.map(item => (
+                                              <div key={item.bookmark.item_id} className="flex items-center gap-3 px-3 py-2 rounded-lg hover:bg-white/5 transition-colors">
+                                                  <button onClick={item.open} className="flex-1 min-w-0 text-left text-sm text-neutral-300 hover:text-white truncate transition-colors">
+                                                      {item.title}
+                                                  </button>
+                                                  <BookmarkButton
+                                                      isActive
+                                                      onToggle={() => onToggleBookmark(item.bookmark.item_type, item.bookmark.item_id)}
+                                                      t={t}
+                                                      className="shrink-0"
+                                                  />
+                                              </div>
+                                          ))}
+                                      </div>
+                                  </div>
+                              ))}
+                          </div>
+                      </section>
+                  )}
+              </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotesModal;
@@ -0,0 +1,282 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Loader2, RefreshCw, Search, ArrowLeft, Receipt, User, Mail, Database } from 'lucide-react';
+import { Order, OrderStatus } from '../types';
+import { supabase } from '../supabaseClient';
+import { ORDERS_TABLE, ORDERS_REPAIR_SQL, ORDER_STATUS_LABELS, ORDER_STATUS_FLOW, updateOrderStatus } from '../utils/orders';
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  new: 'bg-blue-900/30 text-blue-300 border-blue-900/50',
+  processing: 'bg-yellow-900/30 text-yellow-300 border-yellow-900/50',
+  completed: 'bg-green-900/30 text-green-300 border-green-900/50',
+  cancelled: 'bg-neutral-800 text-neutral-500 border-neutral-700'
+};
+
+const STATUSES = Object.keys(ORDER_STATUS_LABELS) as OrderStatus[];
+
+const StatusBadge: React.FC<{ status: OrderStatus }> = ({ status }) => (
+    <span className={`text-[10px] font-bold uppercase px-2 py-1 rounded border ${STATUS_STYLES[status] || STATUS_STYLES.new}`}>
+        {ORDER_STATUS_LABELS[status] || status}
+    </span>
+);
+
+const OrdersManager: React.FC = () => {
+  const [view, setView] = useState<'list' | 'edit'>('list');
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [currentOrder, setCurrentOrder] = useState<Order | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Filters
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>('all');
+  const [customerFilter, setCustomerFilter] = useState<'all' | 'guest' | 'member'>('all');
+  const [search, setSearch] = useState('');
+
+  const loadOrders = async () => {
+      if (!supabase) return;
+      setIsLoading(true);
+      setLoadError(null);
+      try {
+          const { data, error } = await supabase.from(ORDERS_TABLE).select('*').order('date', { ascending: false });
+          if (error) throw error;
+          setOrders((data || []) as Order[]);
+      } catch (e: any) {
+          console.error("Error loading orders:", e);
+          setLoadError(e.message);
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  useEffect(() => { loadOrders(); }, []);
+
+  const filtered = useMemo(() => {
+      const q = search.trim().toLowerCase();
+      return orders.filter(order => {
+          if (statusFilter !== 'all' && order.status !== statusFilter) return false;
+          if (customerFilter === 'guest' && order.user_id) return false;
+          if (customerFilter === 'member' && !order.user_id) return false;
+          if (!q) return true;
+          return [order.id, order.customer_details?.name, order.customer_details?.email]
+              .some(v => v?.toLowerCase().includes(q));
+      });
+  }, [orders, statusFilter, customerFilter, search]);
+
+  const statusCounts = useMemo(() => {
+      const counts = {} as Record<OrderStatus, number>;
+      STATUSES.forEach(s => { counts[s] = orders.filter(o => o.status === s).length; });
+      return counts;
+  }, [orders]);
+
+  const handleStatusChange = async (status: OrderStatus) => {
+      if (!currentOrder) return;
+      if (status === 'cancelled' && !window.confirm(`Отменить заказ ${currentOrder.id}? Он перестанет учитываться в статистике клиента.`)) return;
+
+      setIsSaving(true);
+      try {
+          const updated = await updateOrderStatus(currentOrder, status);
+          setCurrentOrder(updated);
+          setOrders(prev => prev.map(o => o.id === updated.id ? updated : o));
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка: ${e.message}`);
+          loadOrders();
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const openOrder = (order: Order) => {
+      setCurrentOrder(order);
+      setView('edit');
+  };
+
+  // --- Detail View ---
+
+  if (view === 'edit' && currentOrder) {
+      return (
+        <div className="space-y-6 pb-10">
+            <div className="flex items-center justify-between">
+                <button onClick={() => setView('list')} className="text-neutral-400 hover:text-white flex items-center gap-2 text-sm">
+                    <ArrowLeft className="w-4 h-4"/> Все заказы
+                </button>
+                <StatusBadge status={currentOrder.status} />
+            </div>
+
+            <div className="bg-neutral-900/30 p-6 rounded-xl border border-neutral-800 space-y-4">
+                <div className="flex justify-between items-start">
+                    <div>
+                        <h3 className="text-xl font-bold text-white font-mono">{currentOrder.id}</h3>
+                        <p className="text-neutral-500 text-sm">{new Date(currentOrder.date).toLocaleString()}</p>
+                        {currentOrder.updated_at && <p className="text-neutral-600 text-xs">Изменён: {new Date(currentOrder.updated_at).toLocaleString()}</p>}
+                    </div>
+                    <div className="text-2xl font-bold text-white font-mono">${currentOrder.total_amount}</div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    <div className="flex items-center gap-2 text-neutral-300">
+                        <User className="w-4 h-4 text-neutral-500"/> {currentOrder.customer_details?.name || '—'}
+                        <span className="text-[10px] uppercase text-neutral-500 border border-neutral-800 px-1.5 rounded">{currentOrder.user_id ? 'ученик' : 'гость'}</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-neutral-300">
+                        <Mail className="w-4 h-4 text-neutral-500"/>
+                        {currentOrder.customer_details?.email ? <a href={`mailto:${currentOrder.customer_details.email}`} className="hover:text-red-400">{currentOrder.customer_details.email}</a> : '—'}
+                    </div>
+                    {currentOrder.customer_details?.contact && (
+                        <div className="text-neutral-400 md:col-span-2">Контакт: {currentOrder.customer_details.contact}</div>
+                    )}
+                </div>
+            </div>
+
+            <div className="bg-neutral-900/30 rounded-xl border border-neutral-800 overflow-hidden">
+                <table className="w-full text-sm">
+                    <thead className="bg-neutral-900 text-neutral-500 text-xs uppercase">
+                        <tr>
+                            <th className="text-left px-4 py-3">Товар</th>
+                            <th className="text-right px-4 py-3">Кол-во</th>
+                            <th className="text-right px-4 py-3">Цена</th>
+                            <th className="text-right px-4 py-3">Сумма</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {(currentOrder.items || []).map((item, idx) => (
+                            <tr key={idx} className="border-t border-neutral-800 text-neutral-300">
+                                <td className="px-4 py-3">
+                                    {item.title} <span className="text-neutral-600 text-xs">#{item.productId}</span>
+                                    {item.courseId !== undefined && <span className="ml-2 text-[10px] uppercase text-red-400 border border-red-900/50 px-1.5 rounded">курс</span>}
+                                </td>
+                                <td className="px-4 py-3 text-right">{item.quantity}</td>
+                                <td className="px-4 py-3 text-right font-mono">${item.price}</td>
+                                <td className="px-4 py-3 text-right font-mono text-white">${item.price * item.quantity}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    {!!currentOrder.discount_amount && (
+                        <tfoot className="text-sm">
+                            <tr className="border-t border-neutral-800 text-neutral-400">
+                                <td colSpan={3} className="px-4 py-2 text-right">Сумма товаров</td>
+                                <td className="px-4 py-2 text-right font-mono">${currentOrder.subtotal_amount ?? currentOrder.total_amount + currentOrder.discount_amount}</td>
+                            </tr>
+                            <tr className="text-green-400">
+                                <td colSpan={3} className="px-4 py-2 text-right">Промокод {currentOrder.promo_code}</td>
+                                <td className="px-4 py-2 text-right font-mono">−${currentOrder.discount_amount}</td>
+                            </tr>
+                        </tfoot>
+                    )}
+                </table>
+            </div>
+
+            <div className="bg-neutral-900/30 p-6 rounded-xl border border-neutral-800">
+                <h4 className="text-xs font-bold text-neutral-500 uppercase mb-3">Перевести в статус</h4>
+                {currentOrder.items?.some(item => item.courseId !== undefined) && (
+                    <p className="text-neutral-500 text-xs mb-3">
+                        {currentOrder.user_id ? 'Статус «Выполнен» открывает доступ к курсам заказа, «Отменён» — закрывает его.' : 'Гостевой заказ: доступ к курсам выдаётся вручную в разделе «Курсы».'}
+                    </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                    {ORDER_STATUS_FLOW[currentOrder.status].map(status => (
+                        <button
+                            key={status}
+                            onClick={() => handleStatusChange(status)}
+                            disabled={isSaving}
+                            className={`px-4 py-2 rounded-lg text-sm font-bold transition-colors disabled:opacity-50 ${status === 'cancelled' ? 'bg-neutral-800 text-red-400 hover:bg-red-900/40' : 'bg-red-700 text-white hover:bg-red-600'}`}
+                        >
+                            {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : ORDER_STATUS_LABELS[status]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+      );
+  }
+
+  // --- List View ---
+
+  return (
+    <div className="space-y-6">
+        <div className="flex justify-between items-center bg-neutral-900/50 p-4 rounded-xl border border-neutral-800">
+            <div>
+                <p className="text-white font-bold">Заказы</p>
+                <p className="text-neutral-500 text-sm">Заказы гостей и учеников. Всего: {orders.length}</p>
+            </div>
+            <button onClick={loadOrders} disabled={isLoading} className="bg-neutral-800 hover:bg-neutral-700 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin"/> : <RefreshCw className="w-4 h-4"/>} Обновить
+            </button>
+        </div>
+
+        {loadError && (
+            <div className="bg-red-900/20 border border-red-900/50 p-4 rounded-xl space-y-2">
+                <p className="text-red-200 text-sm flex items-center gap-2"><Database className="w-4 h-4"/> Не удалось загрузить заказы: {loadError}</p>
+                <p className="text-neutral-400 text-xs">Создайте таблицу в Supabase SQL Editor:</p>
+                <pre className="text-[10px] text-neutral-400 bg-black/40 p-3 rounded overflow-x-auto">{ORDERS_REPAIR_SQL}</pre>
+            </div>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-2 items-center">
+            <button
+                onClick={() => setStatusFilter('all')}
+                className={`px-3 py-1.5 rounded-lg text-xs font-bold ${statusFilter === 'all' ? 'bg-red-700 text-white' : 'bg-neutral-900 text-neutral-400 hover:text-white'}`}
+            >
+                Все ({orders.length})
+            </button>
+            {STATUSES.map(status => (
+                <button
+                    key={status}
+                    onClick={() => setStatusFilter(status)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-bold ${statusFilter === status ? 'bg-red-700 text-white' : 'bg-neutral-900 text-neutral-400 hover:text-white'}`}
+                >
+                    {ORDER_STATUS_LABELS[status]} ({statusCounts[status]})
+                </button>
+            ))}
+            <select value={customerFilter} onChange={e => setCustomerFilter(e.target.value as typeof customerFilter)} className="bg-neutral-900 border border-neutral-800 rounded-lg px-3 py-1.5 text-xs text-white outline-none">
+                <option value="all">Все клиенты</option>
+                <option value="guest">Гости</option>
+                <option value="member">Ученики</option>
+            </select>
+            <div className="relative ml-auto">
+                <Search className="w-4 h-4 text-neutral-500 absolute left-3 top-1/2 -translate-y-1/2"/>
+                <input
+                    value={search}
+                    onChange={e => setSearch(e.target.value)}
+                    placeholder="Номер, имя, email"
+                    className="bg-neutral-900 border border-neutral-800 rounded-lg pl-9 pr-3 py-1.5 text-sm text-white outline-none focus:border-red-600"
+                />
+            </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3">
+            {filtered.map(order => (
+                <div
+                    key={order.id}
+                    onClick={() => openOrder(order)}
+                    className="bg-neutral-900 border border-neutral-800 p-4 rounded-xl flex items-center gap-4 cursor-pointer hover:border-neutral-700 transition-colors"
+                >
+                    <div className="w-10 h-10 rounded-lg bg-black border border-neutral-800 flex items-center justify-center shrink-0">
+                        <Receipt className="w-5 h-5 text-neutral-600"/>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                            <span className="text-white font-mono font-bold text-sm">{order.id}</span>
+                            <StatusBadge status={order.status} />
+                        </div>
+                        <p className="text-neutral-500 text-xs truncate mt-1">
+                            {new Date(order.date).toLocaleDateString()} · {order.customer_details?.name || 'Guest'} · {order.customer_details?.email}
+                        </p>
+                    </div>
+                    <div className="text-right shrink-0">
+                        <div className="text-white font-mono font-bold">${order.total_amount}</div>
+                        <div className="text-neutral-600 text-[10px]">{(order.items || []).reduce((sum, i) => sum + i.quantity, 0)} шт.</div>
+                    </div>
+                </div>
+            ))}
+            {!isLoading && filtered.length === 0 && (
+                <div className="text-center text-neutral-600 py-10 border border-dashed border-neutral-800 rounded-xl">Заказов нет</div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default OrdersManager;
@@ -0,0 +1,403 @@
+import React, { useState, useEffect } from 'react';
+import { X, User, Mail, Lock, KeyRound, Loader2, CheckCircle, AlertCircle, ShieldCheck, MapPin, Heart, Star, Save, Receipt, Video, Play, Trash2 } from 'lucide-react';
+import { UserProfile, Course, Order, OrderStatus, ShibariRole, ExperienceLevel } from '../types';
+import { supabase } from '../supabaseClient';
+import { MIN_PASSWORD_LENGTH, changePassword, requestEmailChange, sendPasswordReset, deleteMyAccount } from '../utils/auth';
+
+interface ProfileModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userProfile: UserProfile | null;
+  courses: Course[];
+  entitledCourseIds: number[]; // Courses the student actually owns (not the admin "all courses" view)
+  pendingCourseIds: number[];
+  onOpenCourse: (course: Course) => void;
+  onProfileUpdated: () => void;
+  onAccountDeleted: () => void;
+  t: any;
+  getData: (item: any, field: string) => string;
+}
+
+const SHIBARI_ROLES: ShibariRole[] = ['rigger', 'model', 'switch', 'unknown'];
+const EXPERIENCE_LEVELS: ExperienceLevel[] = ['newbie', 'beginner', 'experienced', 'expert'];
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  new: 'text-blue-300',
+  processing: 'text-yellow-300',
+  completed: 'text-green-400',
+  cancelled: 'text-neutral-500'
+};
+
+type Feedback = { type: 'error' | 'success'; text: string } | null;
+
+const FeedbackLine: React.FC<{ feedback: Feedback }> = ({ feedback }) => {
+  if (!feedback) return null;
+  const isError = feedback.type === 'error';
+  return (
+    <div className={`p-3 rounded-lg flex items-start gap-2 text-sm border ${isError ? 'bg-red-900/20 border-red-900/50 text-red-200' : 'bg-green-900/20 border-green-900/50 text-green-200'}`}>
+        {isError ? <AlertCircle className="w-4 h-4 shrink-0 mt-0.5 text-red-500" /> : <CheckCircle className="w-4 h-4 shrink-0 mt-0.5 text-green-500" />}
+        <span>{feedback.text}</span>
+    </div>
+  );
+};
+
+const inputClass = "w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none transition-colors";
+const labelClass = "text-xs text-neutral-500 uppercase font-bold flex items-center gap-2";
+
+const ProfileModal: React.FC<ProfileModalProps> = ({
+  isOpen, onClose, userProfile, courses, entitledCourseIds, pendingCourseIds, onOpenCourse, onProfileUpdated, onAccountDeleted, t, getData
+}) => {
+  // Personal data
+  const [form, setForm] = useState({ full_name: '', country: '', city: '', shibari_role: 'unknown' as ShibariRole, experience_level: 'newbie' as ExperienceLevel });
+  const [isProfileSaving, setIsProfileSaving] = useState(false);
+  const [profileFeedback, setProfileFeedback] = useState<Feedback>(null);
+
+  // Email change
+  const [newEmail, setNewEmail] = useState('');
+  const [isEmailSaving, setIsEmailSaving] = useState(false);
+  const [emailFeedback, setEmailFeedback] = useState<Feedback>(null);
+
+  // Password change
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isPasswordSaving, setIsPasswordSaving] = useState(false);
+  const [passwordFeedback, setPasswordFeedback] = useState<Feedback>(null);
+
+  // Account deletion
+  const [deleteConfirm, setDeleteConfirm] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  // The form is reset from the profile whenever the screen is opened or the profile reloads
+  useEffect(() => {
+      if (!isOpen || !userProfile) return;
+      setForm({
+          full_name: userProfile.full_name || '',
+          country: userProfile.country || '',
+          city: userProfile.city || '',
+          shibari_role: userProfile.shibari_role || 'unknown',
+          experience_level: userProfile.experience_level || 'newbie'
+      });
+      setProfileFeedback(null);
+  }, [isOpen, userProfile]);
+
+  if (!isOpen || !userProfile) return null;
+
+  const orders: Order[] = userProfile.orders_history || [];
+  const ownedCourses = courses.filter(c => entitledCourseIds.includes(c.id));
+  const awaitingCourses = courses.filter(c => pendingCourseIds.includes(c.id) && !entitledCourseIds.includes(c.id));
+
+  const handleProfileSave = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!form.full_name.trim()) {
+          setProfileFeedback({ type: 'error', text: t.name_required });
+          return;
+      }
+      setIsProfileSaving(true);
+      setProfileFeedback(null);
+      try {
+          if (!supabase) throw new Error("No database connection");
+          const { error } = await supabase
+              .from('user_shibari')
+              .update({ ...form, full_name: form.full_name.trim(), country: form.country.trim(), city: form.city.trim() })
+              .eq('id', userProfile.id);
+          if (error) throw error;
+          setProfileFeedback({ type: 'success', text: t.profile_saved });
+          onProfileUpdated();
+      } catch (err: any) {
+          console.error(err);
+          setProfileFeedback({ type: 'error', text: err.message || t.auth_error });
+      } finally {
+          setIsProfileSaving(false);
+      }
+  };
+
+  const handleDeleteAccount = async () => {
+      if (deleteConfirm.trim().toLowerCase() !== userProfile.email.toLowerCase()) return;
+      if (!window.confirm(t.delete_account_hint)) return;
+      setIsDeleting(true);
+      setDeleteError(null);
+      try {
+          await deleteMyAccount();
+          alert(t.account_deleted);
+          onAccountDeleted();
+      } catch (err: any) {
+          setDeleteError(err.message || t.auth_error);
+      } finally {
+          setIsDeleting(false);
+      }
+  };
+
+  // For accounts that sign in by link and never had a password
+  const handleSendReset = async () => {
+      setPasswordFeedback(null);
+      try {
+          await sendPasswordReset(userProfile.email);
+          setPasswordFeedback({ type: 'success', text: t.reset_link_sent });
+      } catch (err: any) {
+          setPasswordFeedback({ type: 'error', text: err.message || t.auth_error });
+      }
+  };
+
+  const handleEmailChange = async (e: React.FormEvent) => {
+      e.preventDefault();
+      const email = newEmail.trim();
+      if (!email.includes('@') || email.toLowerCase() === userProfile.email?.toLowerCase()) {
+          setEmailFeedback({ type: 'error', text: t.email_required });
+          return;
+      }
+      setIsEmailSaving(true);
+      setEmailFeedback(null);
+      try {
+          await requestEmailChange(email);
+          setEmailFeedback({ type: 'success', text: t.email_change_sent });
+          setNewEmail('');
+      } catch (err: any) {
+          console.error(err);
+          setEmailFeedback({ type: 'error', text: err.message || t.auth_error });
+      } finally {
+          setIsEmailSaving(false);
+      }
+  };
+
+  const handlePasswordChange = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (newPassword.length < MIN_PASSWORD_LENGTH) {
+          setPasswordFeedback({ type: 'error', text: t.password_too_short });
+          return;
+      }
+      if (newPassword !== confirmPassword) {
+          setPasswordFeedback({ type: 'error', text: t.passwords_mismatch });
+          return;
+      }
+      setIsPasswordSaving(true);
+      setPasswordFeedback(null);
+      try {
+          const changed = await changePassword(userProfile.email, currentPassword, newPassword);
+          if (!changed) {
+              setPasswordFeedback({ type: 'error', text: t.current_password_wrong });
+              return;
+          }
+          setPasswordFeedback({ type: 'success', text: t.password_updated });
+          setCurrentPassword('');
+          setNewPassword('');
+          setConfirmPassword('');
+      } catch (err: any) {
+          console.error(err);
+          setPasswordFeedback({ type: 'error', text: err.message || t.auth_error });
+      } finally {
+          setIsPasswordSaving(false);
+      }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black animate-in fade-in duration-200 overflow-hidden">
+      {/* Header */}
+      <div className="flex justify-between items-center p-4 md:p-6 border-b border-white/10 bg-black shrink-0 z-10">
+         <div className="flex items-center gap-3">
+             <div className="p-2 bg-red-900/20 rounded-lg">
+                <User className="w-6 h-6 text-red-600" />
+             </div>
+             <div>
+                <h2 className="text-xl md:text-2xl font-bold text-white tracking-tight uppercase">{t.profile}</h2>
+                <p className="text-[10px] md:text-xs text-neutral-400">{userProfile.email}</p>
+             </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="group flex items-center justify-center w-10 h-10 rounded-full bg-black border border-white/20 text-white hover:border-red-600 hover:bg-red-600 transition-all duration-300"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto bg-neutral-950 p-4 md:p-8">
+          <div className="max-w-3xl mx-auto space-y-8 pb-20">
+              {/* Personal data */}
+              <section className="space-y-4">
+                  <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.2em] flex items-center gap-2"><User className="w-4 h-4" /> {t.personal_data}</h3>
+                  <form onSubmit={handleProfileSave} className="bg-neutral-900/50 border border-neutral-800 rounded-xl p-6 space-y-4">
+                      <div className="space-y-2">
+                          <label className={labelClass}><User className="w-3 h-3" /> {t.user_name}</label>
+                          <input value={form.full_name} onChange={e => { setForm({ ...form, full_name: e.target.value }); setProfileFeedback(null); }} className={inputClass} />
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                              <label className={labelClass}><MapPin className="w-3 h-3" /> {t.country}</label>
+                              <input value={form.country} onChange={e => setForm({ ...form, country: e.target.value })} className={inputClass} />
+                          </div>
+                          <div className="space-y-2">
+                              <label className={labelClass}><MapPin className="w-3 h-3" /> {t.city}</label>
+                              <input value={form.city} onChange={e => setForm({ ...form, city: e.target.value })} className={inputClass} />
+                          </div>
+                      </div>
+                      <div className="space-y-2">
+                          <label className={labelClass}><Heart className="w-3 h-3" /> {t.role}</label>
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                              {SHIBARI_ROLES.map(role => (
+                                  <button
+                                      type="button"
+                                      key={role}
+                                      onClick={() => setForm({ ...form, shibari_role: role })}
+                                      className={`p-2 rounded-lg text-sm border transition-all ${form.shibari_role === role ? 'bg-red-900/40 border-red-600 text-white' : 'bg-neutral-800 border-neutral-800 text-neutral-400 hover:bg-neutral-700'}`}
+                                  >
+                                      {role}
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                      <div className="space-y-2">
+                          <label className={labelClass}><Star className="w-3 h-3" /> {t.experience}</label>
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                              {EXPERIENCE_LEVELS.map(level => (
+                                  <button
+                                      type="button"
+                                      key={level}
+                                      onClick={() => setForm({ ...form, experience_level: level })}
+                                      className={`p-2 rounded-lg text-sm border transition-all ${form.experience_level === level ? 'bg-red-900/40 border-red-600 text-white' : 'bg-neutral-800 border-neutral-800 text-neutral-400 hover:bg-neutral-700'}`}
+                                  >
+                                      {level}
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                      <FeedbackLine feedback={profileFeedback} />
+                      <button type="submit" disabled={isProfileSaving} className="bg-red-700 hover:bg-red-600 text-white px-6 py-3 rounded-lg font-bold text-sm flex items-center gap-2 disabled:opacity-50">
+                          {isProfileSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} {t.save}
+                      </button>
+                  </form>
+              </section>
+
+              {/* Courses */}
+              <section className="space-y-4">
+                  <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.2em] flex items-center gap-2"><Video className="w-4 h-4" /> {t.my_courses}</h3>
+                  {ownedCourses.length === 0 && awaitingCourses.length === 0 ? (
+                      <p className="text-neutral-600 text-sm py-6 text-center border border-dashed border-neutral-800 rounded-xl">{t.no_courses}</p>
+                  ) : (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          {[...ownedCourses, ...awaitingCourses].map(course => {
+                              const isOwned = entitledCourseIds.includes(course.id);
+                              return (
+                                  <button
+                                      key={course.id}
+                                      onClick={() => onOpenCourse(course)}
+                                      className="flex items-center gap-4 p-3 bg-neutral-900/50 border border-neutral-800 rounded-xl text-left hover:border-red-600 transition-colors group"
+                                  >
+                                      <div className="w-20 aspect-video bg-black rounded overflow-hidden shrink-0">
+                                          {course.image_url && <img src={course.image_url} alt="" className="w-full h-full object-cover" />}
+                                      </div>
+                                      <div className="min-w-0 flex-1">
+                                          <div className="text-white font-bold text-sm truncate group-hover:text-red-500 transition-colors">{getData(course, 'title')}</div>
+                                          <div className={`text-xs mt-1 flex items-center gap-1 ${isOwned ? 'text-green-400' : 'text-yellow-400'}`}>
+                                              {isOwned ? <><Play className="w-3 h-3 fill-current" /> {t.watch_course}</> : t.course_awaiting_payment}
+                                          </div>
+                                      </div>
+                                  </button>
+                              );
+                          })}
+                      </div>
+                  )}
+              </section>
+
+              {/* Orders */}
+              <section className="space-y-4">
+                  <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.2em] flex items-center gap-2"><Receipt className="w-4 h-4" /> {t.my_orders}</h3>
+                  {orders.length === 0 ? (
+                      <p className="text-neutral-600 text-sm py-6 text-center border border-dashed border-neutral-800 rounded-xl">{t.no_orders}</p>
+                  ) : (
+                      <div className="space-y-3">
+                          {orders.map(order => (
+                              <div key={order.id} className="bg-neutral-900/50 border border-neutral-800 rounded-xl p-4">
+                                  <div className="flex justify-between items-start gap-4">
+                                      <div>
+                                          <div className="text-white font-mono font-bold text-sm">{order.id}</div>
+                                          <div className="text-neutral-500 text-xs mt-1">
+                                              {new Date(order.date).toLocaleDateString()} · <span className={STATUS_STYLES[order.status] || ''}>{t[`order_status_${order.status}`] || order.status}</span>
+                                          </div>
+                                      </div>
+                                      <div className="text-right">
+                                          <div className="text-white font-mono font-bold">${order.total_amount}</div>
+                                          {!!order.discount_amount && <div className="text-green-400 text-[10px]">{order.promo_code} −${order.discount_amount}</div>}
+                                      </div>
+                                  </div>
+                                  <ul className="mt-3 pt-3 border-t border-neutral-800 space-y-1">
+                                      {(order.items || []).map((item, idx) => (
+                                          <li key={idx} className="flex justify-between text-xs text-neutral-400">
+                                              <span className="truncate">{item.title}{item.variantLabel ? ` (${item.variantLabel})` : ''} × {item.quantity}</span>
+                                              <span className="font-mono shrink-0 ml-4">${item.price * item.quantity}</span>
+                                          </li>
+                                      ))}
+                                  </ul>
+                              </div>
+                          ))}
+                      </div>
+                  )}
+              </section>
+
+              <section className="space-y-4">
+                  <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.2em] flex items-center gap-2"><ShieldCheck className="w-4 h-4" /> {t.account_security}</h3>
+
+                  <form onSubmit={handleEmailChange} className="bg-neutral-900/50 border border-neutral-800 rounded-xl p-6 space-y-4">
+                      <h4 className="text-white font-bold">{t.change_email}</h4>
+                      <div className="space-y-2">
+                          <label className={labelClass}><Mail className="w-3 h-3" /> {t.new_email}</label>
+                          <input type="email" value={newEmail} onChange={e => { setNewEmail(e.target.value); setEmailFeedback(null); }} className={inputClass} placeholder="email@example.com" />
+                      </div>
+                      <FeedbackLine feedback={emailFeedback} />
+                      <button type="submit" disabled={isEmailSaving || !newEmail.trim()} className="bg-red-700 hover:bg-red-600 text-white px-6 py-3 rounded-lg font-bold text-sm flex items-center gap-2 disabled:opacity-50">
+                          {isEmailSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />} {t.change_email}
+                      </button>
+                  </form>
+
+                  <form onSubmit={handlePasswordChange} className="bg-neutral-900/50 border border-neutral-800 rounded-xl p-6 space-y-4">
+                      <h4 className="text-white font-bold">{t.change_password}</h4>
+                      <div className="space-y-2">
+                          <label className={labelClass}><Lock className="w-3 h-3" /> {t.current_password}</label>
+                          <input type="password" value={currentPassword} onChange={e => { setCurrentPassword(e.target.value); setPasswordFeedback(null); }} className={inputClass} placeholder="••••••••" autoComplete="current-password" />
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                              <label className={labelClass}><KeyRound className="w-3 h-3" /> {t.new_password}</label>
+                              <input type="password" value={newPassword} onChange={e => { setNewPassword(e.target.value); setPasswordFeedback(null); }} className={inputClass} placeholder="••••••••" autoComplete="new-password" />
+                          </div>
+                          <div className="space-y-2">
+                              <label className={labelClass}><KeyRound className="w-3 h-3" /> {t.confirm_password}</label>
+                              <input type="password" value={confirmPassword} onChange={e => { setConfirmPassword(e.target.value); setPasswordFeedback(null); }} className={inputClass} placeholder="••••••••" autoComplete="new-password" />
+                          </div>
+                      </div>
+                      <button type="button" onClick={handleSendReset} className="text-xs text-neutral-500 hover:text-red-500 transition-colors">
+                          {t.forgot_password} {t.send_reset_link}
+                      </button>
+                      <FeedbackLine feedback={passwordFeedback} />
+                      <button type="submit" disabled={isPasswordSaving || !currentPassword || !newPassword} className="bg-red-700 hover:bg-red-600 text-white px-6 py-3 rounded-lg font-bold text-sm flex items-center gap-2 disabled:opacity-50">
+                          {isPasswordSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />} {t.change_password}
+                      </button>
+                  </form>
+              </section>
+
+              {/* Danger zone */}
+              <section className="bg-red-950/20 border border-red-900/40 rounded-xl p-6 space-y-4">
+                  <h4 className="text-red-400 font-bold flex items-center gap-2"><Trash2 className="w-4 h-4" /> {t.delete_account}</h4>
+                  <p className="text-sm text-neutral-400">{t.delete_account_hint}</p>
+                  <div className="space-y-2">
+                      <label className={labelClass}>{t.delete_account_confirm}</label>
+                      <input value={deleteConfirm} onChange={e => { setDeleteConfirm(e.target.value); setDeleteError(null); }} className={inputClass} placeholder={userProfile.email} />
+                  </div>
+                  {deleteError && <FeedbackLine feedback={{ type: 'error', text: deleteError }} />}
+                  <button
+                      onClick={handleDeleteAccount}
+                      disabled={isDeleting || deleteConfirm.trim().toLowerCase() !== userProfile.email.toLowerCase()}
+                      className="bg-red-900/60 hover:bg-red-800 text-white px-6 py-3 rounded-lg font-bold text-sm flex items-center gap-2 disabled:opacity-40"
+                  >
+                      {isDeleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />} {t.delete_account}
+                  </button>
+              </section>
+          </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileModal;
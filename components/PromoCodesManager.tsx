@@ -0,0 +1,323 @@
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Trash2, Save, ArrowLeft, Loader2, Ticket, Percent, DollarSign, Database } from 'lucide-react';
+import { PromoCode, Product, Course } from '../types';
+import { supabase } from '../supabaseClient';
+import { PROMO_TABLE, PROMO_REPAIR_SQL, normalizePromoCode, isPromoExpired } from '../utils/promo';
+
+interface PromoCodesManagerProps {
+  products: Product[];
+  courses: Course[];
+}
+
+const EMPTY_PROMO: PromoCode = {
+  code: '',
+  discount_type: 'percent',
+  discount_value: 10,
+  expires_at: null,
+  max_uses: null,
+  used_count: 0,
+  product_ids: [],
+  categories: [],
+  course_ids: [],
+  is_active: true
+};
+
+// Toggles a value in a restriction list
+const toggle = <T,>(list: T[] | undefined, value: T): T[] =>
+  (list || []).includes(value) ? (list || []).filter(v => v !== value) : [...(list || []), value];
+
+const PromoCodesManager: React.FC<PromoCodesManagerProps> = ({ products, courses }) => {
+  const [view, setView] = useState<'list' | 'edit'>('list');
+  const [promos, setPromos] = useState<PromoCode[]>([]);
+  const [currentPromo, setCurrentPromo] = useState<PromoCode>(EMPTY_PROMO);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const categories = useMemo(() => {
+      const cats = new Set<string>();
+      products.forEach(p => { if (p.category) cats.add(p.category); });
+      return Array.from(cats).sort();
+  }, [products]);
+
+  const loadPromos = async () => {
+      if (!supabase) return;
+      setIsLoading(true);
+      setLoadError(null);
+      try {
+          const { data, error } = await supabase.from(PROMO_TABLE).select('*').order('created_at', { ascending: false });
+          if (error) throw error;
+          setPromos((data || []) as PromoCode[]);
+      } catch (e: any) {
+          console.error("Error loading promo codes:", e);
+          setLoadError(e.message);
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  useEffect(() => { loadPromos(); }, []);
+
+  const startEdit = (promo?: PromoCode) => {
+      setCurrentPromo(promo ? { ...promo } : { ...EMPTY_PROMO });
+      setView('edit');
+  };
+
+  const handleSave = async () => {
+      const code = normalizePromoCode(currentPromo.code);
+      if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+          alert("Код: 3–32 символа, латиница, цифры, - и _");
+          return;
+      }
+      if (!(currentPromo.discount_value > 0)) {
+          alert("Размер скидки должен быть больше нуля");
+          return;
+      }
+      if (currentPromo.discount_type === 'percent' && currentPromo.discount_value > 100) {
+          alert("Скидка в процентах — не больше 100");
+          return;
+      }
+      if (currentPromo.max_uses !== null && currentPromo.max_uses !== undefined && currentPromo.max_uses < 1) {
+          alert("Лимит использований — минимум 1 (или пусто для безлимита)");
+          return;
+      }
+      if (promos.some(p => p.code === code && p.id !== currentPromo.id)) {
+          alert(`Код ${code} уже существует`);
+          return;
+      }
+
+      setIsSaving(true);
+      try {
+          if (!supabase) throw new Error("No database connection");
+
+          const payload = {
+              code,
+              discount_type: currentPromo.discount_type,
+              discount_value: currentPromo.discount_value,
+              expires_at: currentPromo.expires_at || null,
+              max_uses: currentPromo.max_uses || null,
+              product_ids: currentPromo.product_ids || [],
+              categories: currentPromo.categories || [],
+              course_ids: currentPromo.course_ids || [],
+              is_active: currentPromo.is_active
+          };
+
+          if (currentPromo.id) {
+              // used_count is owned by checkout and never overwritten here
+              const { error } = await supabase.from(PROMO_TABLE).update(payload).eq('id', currentPromo.id);
+              if (error) throw error;
+          } else {
+              const { error } = await supabase.from(PROMO_TABLE).insert([{ ...payload, used_count: 0 }]);
+              if (error) throw error;
+          }
+
+          await loadPromos();
+          setView('list');
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка сохранения: ${e.message}\nSQL:\n${PROMO_REPAIR_SQL}`);
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const handleDelete = async (id?: number) => {
+      if (!id || !window.confirm("Удалить промокод? Уже оформленные заказы сохранят скидку.")) return;
+      try {
+          if (supabase) {
+              await supabase.from(PROMO_TABLE).delete().eq('id', id);
+              loadPromos();
+          }
+      } catch (e) {
+          console.error(e);
+      }
+  };
+
+  const describe = (promo: PromoCode) =>
+      promo.discount_type === 'percent' ? `−${promo.discount_value}%` : `−$${promo.discount_value}`;
+
+  const restrictionCount = (promo: PromoCode) =>
+      (promo.product_ids?.length || 0) + (promo.categories?.length || 0) + (promo.course_ids?.length || 0);
+
+  // --- List View ---
+
+  if (view === 'list') {
+      return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center bg-neutral-900/50 p-4 rounded-xl border border-neutral-800">
+                <div>
+                    <p className="text-white font-bold">Промокоды</p>
+                    <p className="text-neutral-500 text-sm">Скидки для распродаж и воркшопов.</p>
+                </div>
+                <button onClick={() => startEdit()} className="bg-red-700 hover:bg-red-600 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2 transition-colors">
+                    <Plus className="w-4 h-4" /> Новый код
+                </button>
+            </div>
+
+            {loadError && (
+                <div className="bg-red-900/20 border border-red-900/50 p-4 rounded-xl space-y-2">
+                    <p className="text-red-200 text-sm flex items-center gap-2"><Database className="w-4 h-4"/> Не удалось загрузить промокоды: {loadError}</p>
+                    <pre className="text-[10px] text-neutral-400 bg-black/40 p-3 rounded overflow-x-auto">{PROMO_REPAIR_SQL}</pre>
+                </div>
+            )}
+
+            {isLoading && <div className="flex justify-center py-6 text-neutral-500"><Loader2 className="w-5 h-5 animate-spin"/></div>}
+
+            <div className="grid grid-cols-1 gap-3">
+                {promos.map(promo => {
+                    const expired = isPromoExpired(promo);
+                    const exhausted = !!promo.max_uses && (promo.used_count || 0) >= promo.max_uses;
+                    return (
+                        <div key={promo.id} className="bg-neutral-900 border border-neutral-800 p-4 rounded-xl flex items-center gap-4 hover:border-neutral-700 transition-colors">
+                            <div className="w-10 h-10 rounded-lg bg-black border border-neutral-800 flex items-center justify-center shrink-0">
+                                <Ticket className={`w-5 h-5 ${promo.is_active && !expired && !exhausted ? 'text-red-500' : 'text-neutral-700'}`}/>
+                            </div>
+                            <div className="flex-1 min-w-0 cursor-pointer" onClick={() => startEdit(promo)}>
+                                <div className="flex items-center gap-2">
+                                    <span className="text-white font-mono font-bold">{promo.code}</span>
+                                    <span className="text-green-400 text-sm font-bold">{describe(promo)}</span>
+                                    {!promo.is_active && <span className="text-[10px] uppercase bg-neutral-800 text-neutral-500 px-1.5 rounded">выкл</span>}
+                                    {expired && <span className="text-[10px] uppercase bg-neutral-800 text-neutral-500 px-1.5 rounded">истёк</span>}
+                                    {exhausted && <span className="text-[10px] uppercase bg-neutral-800 text-neutral-500 px-1.5 rounded">исчерпан</span>}
+                                </div>
+                                <p className="text-neutral-500 text-xs mt-1">
+                                    Использован: {promo.used_count || 0}{promo.max_uses ? ` / ${promo.max_uses}` : ''}
+                                    {promo.expires_at && ` · до ${new Date(promo.expires_at).toLocaleDateString()}`}
+                                    {restrictionCount(promo) > 0 ? ` · ограничений: ${restrictionCount(promo)}` : ' · на всю корзину'}
+                                </p>
+                            </div>
+                            <button onClick={() => handleDelete(promo.id)} className="p-2 bg-neutral-800 hover:bg-red-900/50 text-red-500 rounded-lg transition-colors"><Trash2 className="w-4 h-4"/></button>
+                        </div>
+                    );
+                })}
+                {!isLoading && !loadError && promos.length === 0 && (
+                    <div className="text-center text-neutral-600 py-10 border border-dashed border-neutral-800 rounded-xl">Промокодов нет</div>
+                )}
+            </div>
+        </div>
+      );
+  }
+
+  // --- Edit View ---
+
+  const inputClass = "w-full bg-neutral-900 border border-neutral-800 rounded-lg px-4 py-3 text-white focus:border-red-600 outline-none text-sm";
+  const chipClass = (active: boolean) => `px-3 py-1.5 rounded-lg text-xs border transition-colors ${active ? 'bg-red-900/30 border-red-700 text-white' : 'bg-neutral-900 border-neutral-800 text-neutral-400 hover:border-neutral-700'}`;
+
+  return (
+    <div className="space-y-6 pb-10">
+        <div className="flex items-center justify-between">
+            <button onClick={() => setView('list')} className="text-neutral-400 hover:text-white flex items-center gap-2 text-sm">
+                <ArrowLeft className="w-4 h-4"/> Назад
+            </button>
+            <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="bg-green-700 hover:bg-green-600 text-white px-6 py-2 rounded-lg font-medium flex items-center gap-2 disabled:opacity-50 transition-colors"
+            >
+                {isSaving ? <Loader2 className="w-4 h-4 animate-spin"/> : <Save className="w-4 h-4" />} Сохранить
+            </button>
+        </div>
+
+        <div className="bg-neutral-900/30 p-6 rounded-xl border border-neutral-800 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-neutral-500 uppercase">Код</label>
+                    <input
+                        value={currentPromo.code}
+                        onChange={e => setCurrentPromo({ ...currentPromo, code: e.target.value.toUpperCase() })}
+                        placeholder="WORKSHOP2024"
+                        className={`${inputClass} font-mono`}
+                    />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-neutral-500 uppercase">Скидка</label>
+                    <div className="flex gap-2">
+                        <div className="flex bg-neutral-900 border border-neutral-800 rounded-lg p-1 shrink-0">
+                            <button onClick={() => setCurrentPromo({ ...currentPromo, discount_type: 'percent' })} className={`px-3 rounded ${currentPromo.discount_type === 'percent' ? 'bg-red-700 text-white' : 'text-neutral-500'}`}><Percent className="w-4 h-4"/></button>
+                            <button onClick={() => setCurrentPromo({ ...currentPromo, discount_type: 'fixed' })} className={`px-3 rounded ${currentPromo.discount_type === 'fixed' ? 'bg-red-700 text-white' : 'text-neutral-500'}`}><DollarSign className="w-4 h-4"/></button>
+                        </div>
+                        <input
+                            type="number"
+                            min={0}
+                            value={currentPromo.discount_value}
+                            onChange={e => setCurrentPromo({ ...currentPromo, discount_value: parseFloat(e.target.value) || 0 })}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-neutral-500 uppercase">Действует до (включительно)</label>
+                    <input
+                        type="date"
+                        value={currentPromo.expires_at?.slice(0, 10) || ''}
+                        onChange={e => setCurrentPromo({ ...currentPromo, expires_at: e.target.value || null })}
+                        className={inputClass}
+                    />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs font-bold text-neutral-500 uppercase">Лимит использований</label>
+                    <input
+                        type="number"
+                        min={1}
+                        value={currentPromo.max_uses ?? ''}
+                        onChange={e => setCurrentPromo({ ...currentPromo, max_uses: e.target.value ? parseInt(e.target.value) : null })}
+                        placeholder="Без лимита"
+                        className={inputClass}
+                    />
+                    {currentPromo.id && <p className="text-[10px] text-neutral-500">Использован: {currentPromo.used_count || 0}</p>}
+                </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+                <input type="checkbox" checked={currentPromo.is_active} onChange={e => setCurrentPromo({ ...currentPromo, is_active: e.target.checked })} className="accent-red-600" />
+                Активен
+            </label>
+        </div>
+
+        {/* Restrictions */}
+        <div className="bg-neutral-900/30 p-6 rounded-xl border border-neutral-800 space-y-5">
+            <div>
+                <h4 className="font-bold text-white text-sm">Ограничения</h4>
+                <p className="text-neutral-500 text-xs">Если ничего не выбрано — скидка на всю корзину. Иначе — только на отмеченные товары, категории и курсы.</p>
+            </div>
+
+            {categories.length > 0 && (
+                <div className="space-y-2">
+                    <label className="text-xs font-bold text-neutral-500 uppercase">Категории</label>
+                    <div className="flex flex-wrap gap-2">
+                        {categories.map(cat => (
+                            <button key={cat} onClick={() => setCurrentPromo({ ...currentPromo, categories: toggle(currentPromo.categories, cat) })} className={chipClass(!!currentPromo.categories?.includes(cat))}>
+                                {cat}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <label className="text-xs font-bold text-neutral-500 uppercase">Товары</label>
+                <div className="flex flex-wrap gap-2">
+                    {products.map(product => (
+                        <button key={product.id} onClick={() => setCurrentPromo({ ...currentPromo, product_ids: toggle(currentPromo.product_ids, product.id) })} className={chipClass(!!currentPromo.product_ids?.includes(product.id))}>
+                            {product.title}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <label className="text-xs font-bold text-neutral-500 uppercase">Курсы</label>
+                <div className="flex flex-wrap gap-2">
+                    {courses.map(course => (
+                        <button key={course.id} onClick={() => setCurrentPromo({ ...currentPromo, course_ids: toggle(currentPromo.course_ids, course.id) })} className={chipClass(!!currentPromo.course_ids?.includes(course.id))}>
+                            {course.title}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default PromoCodesManager;
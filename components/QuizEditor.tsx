@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, Trash2, Loader2, Save, Languages, ClipboardCheck, Circle, CircleCheck, Square, SquareCheck, ImagePlus, X, ArrowUp, ArrowDown } from 'lucide-react';
+import { LessonQuiz, QuizOption, QuizQuestion, QuizQuestionType } from '../types';
+import { DEFAULT_PASS_PERCENT, QUESTION_TYPE_LABELS, QUIZZES_REPAIR_SQL, createQuestion, createOption, validateQuiz, fetchLessonQuiz, saveLessonQuiz, deleteLessonQuiz, uploadQuizImage } from '../utils/quizzes';
+import { TranslationField } from '../utils/translation';
+import TranslationReview from './TranslationReview';
+
+interface QuizEditorProps {
+  lessonId: number;
+  onSave: () => void; // Reloads the quizzes the lesson page gates on
+}
+
+const INPUT = "w-full bg-neutral-900 border border-neutral-800 rounded px-3 py-2 text-white text-sm outline-none focus:border-red-600";
+
+// Picture by link or upload (storage bucket), with a small preview
+const ImageInput: React.FC<{ value?: string | null; onChange: (url: string | null) => void; placeholder: string }> = ({ value, onChange, placeholder }) => {
+  const [isUploading, setIsUploading] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const upload = async (file: File) => {
+      setIsUploading(true);
+      try {
+          onChange(await uploadQuizImage(file));
+      } catch (e: any) {
+          alert("Ошибка загрузки картинки: " + e.message);
+      } finally {
+          setIsUploading(false);
+      }
+  };
+
+  return (
+    <div className="flex gap-2 items-center">
+        {value && <img src={value} alt="" className="w-9 h-9 rounded object-cover border border-neutral-800 shrink-0" />}
+        <input type="text" value={value || ''} onChange={(e) => onChange(e.target.value || null)} placeholder={placeholder} className={INPUT} />
+        <input ref={fileRef} type="file" accept="image/*" className="hidden" onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) upload(file);
+        }} />
+        <button onClick={() => fileRef.current?.click()} disabled={isUploading} className="p-2 rounded bg-neutral-800 hover:bg-neutral-700 text-neutral-300 shrink-0 disabled:opacity-40" title="Загрузить">
+            {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+        </button>
+    </div>
+  );
+};
+
+// Quiz of one lesson. Like the subtitles it is saved on its own, not with the lesson draft.
+const QuizEditor: React.FC<QuizEditorProps> = ({ lessonId, onSave }) => {
+  const [quiz, setQuiz] = useState<LessonQuiz | null>(null);
+  const [savedJson, setSavedJson] = useState('null');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const isDirty = JSON.stringify(quiz) !== savedJson;
+
+  const load = (loaded: LessonQuiz | null) => {
+      setQuiz(loaded);
+      setSavedJson(JSON.stringify(loaded));
+  };
+
+  useEffect(() => {
+      let cancelled = false;
+      setIsLoading(true);
+      fetchLessonQuiz(lessonId)
+          .then(loaded => { if (!cancelled) load(loaded); })
+          .catch(e => console.error(`Quiz load failed: ${e.message}\nSQL:\n${QUIZZES_REPAIR_SQL}`))
+          .finally(() => { if (!cancelled) setIsLoading(false); });
+      return () => { cancelled = true; };
+  }, [lessonId]);
+
+  // --- Logic: Editing ---
+  const updateQuiz = (data: Partial<LessonQuiz>) => setQuiz(prev => prev ? { ...prev, ...data } : prev);
+
+  const updateQuestion = (id: string, change: (q: QuizQuestion) => QuizQuestion) =>
+      setQuiz(prev => prev ? { ...prev, questions: prev.questions.map(q => q.id === id ? change(q) : q) } : prev);
+
+  const moveQuestion = (index: number, delta: number) => {
+      if (!quiz) return;
+      const questions = [...quiz.questions];
+      const [moved] = questions.splice(index, 1);
+      questions.splice(index + delta, 0, moved);
+      updateQuiz({ questions });
+  };
+
+  const changeType = (question: QuizQuestion, type: QuizQuestionType) =>
+      updateQuestion(question.id, q => ({ ...q, type, correct: type === 'multiple' ? q.correct : q.correct.slice(0, 1) }));
+
+  const toggleCorrect = (question: QuizQuestion, optionId: string) =>
+      updateQuestion(question.id, q => {
+          if (q.type !== 'multiple') return { ...q, correct: [optionId] };
+          return { ...q, correct: q.correct.includes(optionId) ? q.correct.filter(id => id !== optionId) : [...q.correct, optionId] };
+      });
+
+  const updateOption = (question: QuizQuestion, optionId: string, data: Partial<QuizOption>) =>
+      updateQuestion(question.id, q => ({ ...q, options: q.options.map(o => o.id === optionId ? { ...o, ...data } : o) }));
+
+  const removeOption = (question: QuizQuestion, optionId: string) =>
+      updateQuestion(question.id, q => ({ ...q, options: q.options.filter(o => o.id !== optionId), correct: q.correct.filter(id => id !== optionId) }));
+
+  // --- Logic: Translation ---
+  // One field per question: its text, every option and the explanation, one line each
+  const translationFields = (current: LessonQuiz): TranslationField[] => current.questions.map((q, index) => ({
+      key: q.id,
+      label: `Вопрос ${index + 1}`,
+      source: [q.text, ...q.options.map(o => o.text), q.explanation || ''].join('\n'),
+      current: [q.text_en || '', ...q.options.map(o => o.text_en || ''), q.explanation_en || ''].join('\n')
+  }));
+
+  const applyTranslation = (values: Record<string, string>) => {
+      setIsTranslating(false);
+      setQuiz(prev => prev ? {
+          ...prev,
+          questions: prev.questions.map(q => {
+              if (values[q.id] === undefined) return q;
+              const lines = values[q.id].split('\n').map(line => line.trim() || null);
+              return {
+                  ...q,
+                  text_en: lines[0],
+                  options: q.options.map((o, i) => ({ ...o, text_en: lines[i + 1] ?? null })),
+                  explanation_en: lines[q.options.length + 1] ?? null
+              };
+          })
+      } : prev);
+  };
+
+  // --- Logic: CRUD ---
+  const handleSave = async () => {
+      if (!quiz) return;
+      const problem = validateQuiz(quiz);
+      if (problem) {
+          alert(problem);
+          return;
+      }
+      setIsSaving(true);
+      try {
+          load(await saveLessonQuiz(quiz));
+          onSave();
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка сохранения теста: ${e.message}\nSQL:\n${QUIZZES_REPAIR_SQL}`);
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  const handleDelete = async () => {
+      if (!window.confirm("Удалить тест урока? Результаты учеников тоже перестанут учитываться.")) return;
+      if (savedJson === 'null') {
+          load(null);
+          return;
+      }
+      setIsSaving(true);
+      try {
+          await deleteLessonQuiz(lessonId);
+          load(null);
+          onSave();
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка удаления: ${e.message}`);
+      } finally {
+          setIsSaving(false);
+      }
+  };
+
+  return (
+    <div className="space-y-3">
+        <label className="text-xs font-bold text-neutral-500 uppercase flex items-center gap-2">
+            <ClipboardCheck className="w-3.5 h-3.5" /> Тест по уроку
+            {isDirty && <span className="text-[9px] font-bold normal-case px-1.5 rounded border text-yellow-400 border-yellow-900/50">Не сохранён</span>}
+        </label>
+
+        {isLoading ? (
+            <div className="flex items-center gap-2 text-xs text-neutral-500"><Loader2 className="w-3 h-3 animate-spin" /> Загрузка...</div>
+        ) : !quiz ? (
+            <button
+                onClick={() => setQuiz({ lesson_id: lessonId, questions: [createQuestion()], pass_percent: DEFAULT_PASS_PERCENT, gates_next: false })}
+                className="text-xs bg-neutral-800 hover:bg-neutral-700 text-white px-3 py-1.5 rounded flex items-center gap-1.5"
+            >
+                <Plus className="w-3 h-3" /> Создать тест
+            </button>
+        ) : (
+            <div className="bg-neutral-950 border border-neutral-800 rounded-lg p-4 space-y-4">
+                {/* Settings */}
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+                    <label className="flex items-center gap-2 text-sm text-neutral-300">
+                        Проходной балл
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={quiz.pass_percent}
+                            onChange={(e) => updateQuiz({ pass_percent: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+                            className="w-20 bg-neutral-900 border border-neutral-800 rounded px-2 py-1.5 text-white text-sm outline-none focus:border-red-600"
+                        />
+                        %
+                    </label>
+                    <label className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+                        <input type="checkbox" checked={quiz.gates_next} onChange={(e) => updateQuiz({ gates_next: e.target.checked })} className="accent-red-600" />
+                        Не открывать следующие уроки, пока тест не пройден
+                    </label>
+                </div>
+
+                {/* Questions */}
+                {quiz.questions.map((question, index) => (
+                    <div key={question.id} className="border border-neutral-800 rounded-lg p-3 space-y-3">
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs font-bold text-white uppercase tracking-widest">Вопрос {index + 1}</span>
+                            <select
+                                value={question.type}
+                                onChange={(e) => changeType(question, e.target.value as QuizQuestionType)}
+                                className="bg-neutral-900 border border-neutral-800 rounded px-2 py-1 text-xs text-white outline-none"
+                            >
+                                {(Object.keys(QUESTION_TYPE_LABELS) as QuizQuestionType[]).map(type => (
+                                    <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                                ))}
+                            </select>
+                            <div className="ml-auto flex gap-1">
+                                <button onClick={() => moveQuestion(index, -1)} disabled={index === 0} className="p-1.5 text-neutral-500 hover:text-white disabled:opacity-30" title="Выше"><ArrowUp className="w-3.5 h-3.5" /></button>
+                                <button onClick={() => moveQuestion(index, 1)} disabled={index === quiz.questions.length - 1} className="p-1.5 text-neutral-500 hover:text-white disabled:opacity-30" title="Ниже"><ArrowDown className="w-3.5 h-3.5" /></button>
+                                <button onClick={() => updateQuiz({ questions: quiz.questions.filter(q => q.id !== question.id) })} className="p-1.5 text-red-500 hover:bg-red-900/40 rounded" title="Удалить вопрос"><Trash2 className="w-3.5 h-3.5" /></button>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-2">
+                            <input type="text" value={question.text} onChange={(e) => updateQuestion(question.id, q => ({ ...q, text: e.target.value }))} placeholder="Текст вопроса" className={INPUT} />
+                            <input type="text" value={question.text_en || ''} onChange={(e) => updateQuestion(question.id, q => ({ ...q, text_en: e.target.value || null }))} placeholder="Question (EN)" className={INPUT} />
+                        </div>
+                        <ImageInput value={question.image_url} onChange={(url) => updateQuestion(question.id, q => ({ ...q, image_url: url }))} placeholder="Иллюстрация к вопросу (необязательно)" />
+
+                        {/* Options: the mark on the left is the right answer */}
+                        <div className="space-y-2">
+                            {question.options.map(option => {
+                                const isRight = question.correct.includes(option.id);
+                                const Mark = question.type === 'multiple' ? (isRight ? SquareCheck : Square) : (isRight ? CircleCheck : Circle);
+                                return (
+                                    <div key={option.id} className="flex gap-2 items-start">
+                                        <button onClick={() => toggleCorrect(question, option.id)} className={`p-2 shrink-0 ${isRight ? 'text-green-500' : 'text-neutral-600 hover:text-neutral-400'}`} title="Правильный ответ">
+                                            <Mark className="w-4 h-4" />
+                                        </button>
+                                        <div className="flex-1 min-w-0 space-y-2">
+                                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-2">
+                                                <input type="text" value={option.text} onChange={(e) => updateOption(question, option.id, { text: e.target.value })} placeholder={question.type === 'image' ? 'Подпись (необязательно)' : 'Вариант ответа'} className={INPUT} />
+                                                <input type="text" value={option.text_en || ''} onChange={(e) => updateOption(question, option.id, { text_en: e.target.value || null })} placeholder="Option (EN)" className={INPUT} />
+                                            </div>
+                                            {question.type === 'image' && (
+                                                <ImageInput value={option.image_url} onChange={(url) => updateOption(question, option.id, { image_url: url })} placeholder="Картинка варианта" />
+                                            )}
+                                        </div>
+                                        <button onClick={() => removeOption(question, option.id)} className="p-2 text-neutral-600 hover:text-red-500 shrink-0" title="Удалить вариант">
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                            <button onClick={() => updateQuestion(question.id, q => ({ ...q, options: [...q.options, createOption()] }))} className="text-xs text-neutral-400 hover:text-white flex items-center gap-1.5 pl-2">
+                                <Plus className="w-3 h-3" /> Вариант
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-2">
+                            <input type="text" value={question.explanation || ''} onChange={(e) => updateQuestion(question.id, q => ({ ...q, explanation: e.target.value || null }))} placeholder="Пояснение после ответа (необязательно)" className={INPUT} />
+                            <input type="text" value={question.explanation_en || ''} onChange={(e) => updateQuestion(question.id, q => ({ ...q, explanation_en: e.target.value || null }))} placeholder="Explanation (EN)" className={INPUT} />
+                        </div>
+                    </div>
+                ))}
+
+                {/* Actions */}
+                <div className="flex flex-wrap gap-2 pt-2 border-t border-neutral-800">
+                    {(Object.keys(QUESTION_TYPE_LABELS) as QuizQuestionType[]).map(type => (
+                        <button key={type} onClick={() => updateQuiz({ questions: [...quiz.questions, createQuestion(type)] })} className="text-xs bg-neutral-800 hover:bg-neutral-700 text-white px-3 py-1.5 rounded flex items-center gap-1.5">
+                            <Plus className="w-3 h-3" /> {QUESTION_TYPE_LABELS[type]}
+                        </button>
+                    ))}
+                    <button onClick={() => setIsTranslating(true)} disabled={!quiz.questions.length} className="text-xs bg-blue-900/30 hover:bg-blue-900/50 text-blue-400 px-3 py-1.5 rounded flex items-center gap-1.5 disabled:opacity-40">
+                        <Languages className="w-3 h-3" /> Перевести на EN
+                    </button>
+                    <div className="ml-auto flex gap-2">
+                        <button onClick={handleDelete} disabled={isSaving} className="text-xs text-red-500 hover:bg-red-900/40 px-3 py-1.5 rounded flex items-center gap-1.5 disabled:opacity-40">
+                            <Trash2 className="w-3 h-3" /> Удалить тест
+                        </button>
+                        <button onClick={handleSave} disabled={isSaving || !isDirty} className="text-xs bg-green-700 hover:bg-green-600 text-white px-4 py-1.5 rounded font-bold flex items-center gap-1.5 disabled:opacity-40">
+                            {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Сохранить тест
+                        </button>
+                    </div>
+                </div>
+            </div>
+        )}
+
+        {isTranslating && quiz && (
+            <TranslationReview fields={translationFields(quiz)} onApply={applyTranslation} onClose={() => setIsTranslating(false)} />
+        )}
+    </div>
+  );
+};
+
+export default QuizEditor;
@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Upload, Download, Trash2, Loader2, Languages, Captions } from 'lucide-react';
+import { LessonSubtitles, SubtitleLanguage } from '../types';
+import { parseSubtitles, downloadSubtitles, formatClock, segmentsToLines, withTranslatedText, fetchLessonSubtitles, saveLessonSubtitles, deleteLessonSubtitles, SUBTITLES_REPAIR_SQL } from '../utils/subtitles';
+import TranslationReview from './TranslationReview';
+
+interface SubtitlesEditorProps {
+  lessonId: number;
+}
+
+const LANGUAGES: { id: SubtitleLanguage; label: string }[] = [
+  { id: 'ru', label: 'Русские' },
+  { id: 'en', label: 'English' }
+];
+
+// Subtitle files of one lesson. Unlike the lesson fields they are saved right away, not with the draft.
+const SubtitlesEditor: React.FC<SubtitlesEditorProps> = ({ lessonId }) => {
+  const [rows, setRows] = useState<LessonSubtitles[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyLang, setBusyLang] = useState<SubtitleLanguage | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const fileInputs = useRef<Partial<Record<SubtitleLanguage, HTMLInputElement | null>>>({});
+
+  useEffect(() => {
+      let cancelled = false;
+      setIsLoading(true);
+      fetchLessonSubtitles(lessonId).then(data => {
+          if (cancelled) return;
+          setRows(data);
+          setIsLoading(false);
+      });
+      return () => { cancelled = true; };
+  }, [lessonId]);
+
+  const rowFor = (lang: SubtitleLanguage) => rows.find(r => r.lang === lang && r.segments.length);
+  const ru = rowFor('ru');
+  const en = rowFor('en');
+
+  const storeRow = (saved: LessonSubtitles) => setRows(prev => [...prev.filter(r => r.lang !== saved.lang), saved]);
+
+  const handleUpload = async (lang: SubtitleLanguage, file: File) => {
+      if (rowFor(lang) && !window.confirm(`Заменить загруженные субтитры (${lang.toUpperCase()})?`)) return;
+      setBusyLang(lang);
+      try {
+          const segments = parseSubtitles(await file.text());
+          storeRow(await saveLessonSubtitles(lessonId, lang, segments, file.name));
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка загрузки субтитров: ${e.message}\nSQL:\n${SUBTITLES_REPAIR_SQL}`);
+      } finally {
+          setBusyLang(null);
+      }
+  };
+
+  const handleDelete = async (lang: SubtitleLanguage) => {
+      if (!window.confirm(`Удалить субтитры (${lang.toUpperCase()})?`)) return;
+      setBusyLang(lang);
+      try {
+          await deleteLessonSubtitles(lessonId, lang);
+          setRows(prev => prev.filter(r => r.lang !== lang));
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка удаления: ${e.message}`);
+      } finally {
+          setBusyLang(null);
+      }
+  };
+
+  // English track from the reviewed translation of the Russian one, with the Russian timings
+  const applyTranslation = async (values: Record<string, string>) => {
+      setIsTranslating(false);
+      if (!ru || values.segments === undefined) return;
+      setBusyLang('en');
+      try {
+          const segments = withTranslatedText(ru.segments, values.segments);
+          const fileName = ru.file_name ? ru.file_name.replace(/(\.[^.]+)?$/, '.en$1') : null;
+          storeRow(await saveLessonSubtitles(lessonId, 'en', segments, fileName));
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка сохранения перевода: ${e.message}\nSQL:\n${SUBTITLES_REPAIR_SQL}`);
+      } finally {
+          setBusyLang(null);
+      }
+  };
+
+  return (
+    <div className="space-y-3">
+        <label className="text-xs font-bold text-neutral-500 uppercase flex items-center gap-2">
+            <Captions className="w-3.5 h-3.5" /> Субтитры (SRT / VTT)
+        </label>
+        {isLoading ? (
+            <div className="flex items-center gap-2 text-xs text-neutral-500"><Loader2 className="w-3 h-3 animate-spin" /> Загрузка...</div>
+        ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                {LANGUAGES.map(({ id, label }) => {
+                    const row = rowFor(id);
+                    const isBusy = busyLang === id;
+                    return (
+                        <div key={id} className="bg-neutral-950 border border-neutral-800 rounded-lg p-3 space-y-3">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="text-sm text-white font-medium">{label}</span>
+                                {isBusy && <Loader2 className="w-4 h-4 animate-spin text-neutral-500" />}
+                            </div>
+                            <p className="text-xs text-neutral-500 truncate">
+                                {row
+                                    ? `${row.file_name || 'Без имени'} · ${row.segments.length} фраз · ${formatClock(row.segments[row.segments.length - 1].end)}`
+                                    : 'Не загружены'}
+                            </p>
+                            <input
+                                ref={el => { fileInputs.current[id] = el; }}
+                                type="file"
+                                accept=".srt,.vtt,text/vtt"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    e.target.value = '';
+                                    if (file) handleUpload(id, file);
+                                }}
+                            />
+                            <div className="flex flex-wrap gap-2">
+                                <button onClick={() => fileInputs.current[id]?.click()} disabled={isBusy} className="text-xs bg-neutral-800 hover:bg-neutral-700 text-white px-3 py-1.5 rounded flex items-center gap-1.5 disabled:opacity-40">
+                                    <Upload className="w-3 h-3" /> {row ? 'Заменить' : 'Загрузить'}
+                                </button>
+                                {id === 'en' && (
+                                    <button onClick={() => setIsTranslating(true)} disabled={!ru || isBusy} className="text-xs bg-blue-900/30 hover:bg-blue-900/50 text-blue-400 px-3 py-1.5 rounded flex items-center gap-1.5 disabled:opacity-40" title={ru ? '' : 'Сначала загрузите русские субтитры'}>
+                                        <Languages className="w-3 h-3" /> Перевести с RU
+                                    </button>
+                                )}
+                                {row && (
+                                    <>
+                                        <button onClick={() => downloadSubtitles(row.segments, 'srt', `lesson-${lessonId}.${id}`)} className="text-xs bg-neutral-800 hover:bg-neutral-700 text-neutral-300 px-3 py-1.5 rounded flex items-center gap-1.5">
+                                            <Download className="w-3 h-3" /> SRT
+                                        </button>
+                                        <button onClick={() => downloadSubtitles(row.segments, 'vtt', `lesson-${lessonId}.${id}`)} className="text-xs bg-neutral-800 hover:bg-neutral-700 text-neutral-300 px-3 py-1.5 rounded flex items-center gap-1.5">
+                                            <Download className="w-3 h-3" /> VTT
+                                        </button>
+                                        <button onClick={() => handleDelete(id)} disabled={isBusy} className="text-xs text-red-500 hover:bg-red-900/40 px-2 py-1.5 rounded disabled:opacity-40" title="Удалить">
+                                            <Trash2 className="w-3 h-3" />
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+
+        {isTranslating && ru && (
+            <TranslationReview
+                fields={[{ key: 'segments', label: `Субтитры · ${ru.segments.length} фраз`, source: segmentsToLines(ru.segments), current: en ? segmentsToLines(en.segments) : '' }]}
+                onApply={applyTranslation}
+                onClose={() => setIsTranslating(false)}
+                applyLabel="Сохранить субтитры EN"
+            />
+        )}
+    </div>
+  );
+};
+
+export default SubtitlesEditor;
@@ -1,14 +1,17 @@
 import React, { useMemo } from 'react';
 import { DictionaryEntry } from '../types';
+import { splitTimestamps } from '../utils/chapters';
 
 interface TextContentProps {
   paragraphs: string[];
   dictionary: DictionaryEntry[];
   onWordClick: (term: string) => void;
   lang?: 'ru' | 'en';
+  // Makes "[12:34]" in the text a link to that moment of the video
+  onTimestampClick?: (seconds: number) => void;
 }
 
-const TextContent: React.FC<TextContentProps> = ({ paragraphs, dictionary, onWordClick, lang='ru' }) => {
+const TextContent: React.FC<TextContentProps> = ({ paragraphs, dictionary, onWordClick, lang='ru', onTimestampClick }) => {
   
   // Create a regex to find dictionary terms (case insensitive)
   const regex = useMemo(() => {
@@ -32,38 +35,52 @@ const TextContent: React.FC<TextContentProps> = ({ paragraphs, dictionary, onWor
     return new RegExp(`(^|[^\\p{L}\\p{N}_])(${escapedTerms.join('|')})(?=[^\\p{L}\\p{N}_]|$)`, 'gui');
   }, [dictionary]);
 
-  const renderParagraph = (text: string, index: number) => {
-    if (!regex) return <p key={index} className="mb-4 text-base md:text-lg leading-relaxed text-gray-300">{text}</p>;
+  const renderTerms = (text: string) => {
+    if (!regex) return text;
 
     const parts = text.split(regex);
-    
-    return (
-      <p key={index} className="mb-4 text-base md:text-lg leading-relaxed text-gray-300">
-        {parts.map((part, i) => {
-            if (part === undefined) return null;
 
-            // Check if this part is a dictionary term (case insensitive check against any version)
-            const match = dictionary.find(d => 
-                (d.term && d.term.toLowerCase() === part.toLowerCase()) || 
-                (d.term_en && d.term_en.toLowerCase() === part.toLowerCase())
+    return parts.map((part, i) => {
+        if (part === undefined) return null;
+
+        // Check if this part is a dictionary term (case insensitive check against any version)
+        const match = dictionary.find(d => 
+            (d.term && d.term.toLowerCase() === part.toLowerCase()) || 
+            (d.term_en && d.term_en.toLowerCase() === part.toLowerCase())
+        );
+        
+        if (match) {
+            // Pass the term that was actually matched (or just the main term, 
+            // but passing match.term ensures the drawer opens the correct entry)
+            return (
+                <span
+                    key={i}
+                    onClick={() => onWordClick(part)} // Pass the clicked word to find it in drawer
+                    className="text-red-500 cursor-pointer font-bold hover:text-red-400 transition-colors"
+                    title="Info"
+                >
+                    {part}
+                </span>
             );
-            
-            if (match) {
-                // Pass the term that was actually matched (or just the main term, 
-                // but passing match.term ensures the drawer opens the correct entry)
-                return (
-                    <span
-                        key={i}
-                        onClick={() => onWordClick(part)} // Pass the clicked word to find it in drawer
-                        className="text-red-500 cursor-pointer font-bold hover:text-red-400 transition-colors"
-                        title="Info"
-                    >
-                        {part}
-                    </span>
-                );
-            }
-            return <span key={i}>{part}</span>;
-        })}
+        }
+        return <span key={i}>{part}</span>;
+    });
+  };
+
+  const renderParagraph = (text: string, index: number) => {
+    const parts = onTimestampClick ? splitTimestamps(text) : [text];
+
+    return (
+      <p key={index} className="mb-4 text-base md:text-lg leading-relaxed text-gray-300">
+        {parts.map((part, i) => typeof part === 'string' ? <React.Fragment key={i}>{renderTerms(part)}</React.Fragment> : (
+            <button
+                key={i}
+                onClick={() => onTimestampClick!(part.seconds)}
+                className="font-mono text-sm text-red-500 hover:text-red-400 bg-red-900/20 px-1.5 py-0.5 rounded transition-colors"
+            >
+                {part.label}
+            </button>
+        ))}
       </p>
     );
   };
@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Languages, RotateCcw, Check, AlertTriangle } from 'lucide-react';
+import { TranslationField, TranslatedField, translateFields, getTranslationProvider, getTranslationProviders, setTranslationProvider } from '../utils/translation';
+
+interface TranslationReviewProps {
+  fields: TranslationField[];
+  onApply: (values: Record<string, string>) => void; // Only the fields the admin kept, by key
+  onClose: () => void;
+  applyLabel?: string;
+}
+
+// Runs the RU -> EN translation and shows it next to the current EN text line by line.
+// Applying normally only fills the editor form; the editor's own "Save" writes it to the database.
+const TranslationReview: React.FC<TranslationReviewProps> = ({ fields, onApply, onClose, applyLabel = 'Подставить в форму' }) => {
+  const providers = getTranslationProviders();
+  const [providerId, setProviderId] = useState(() => getTranslationProvider().id);
+  const [result, setResult] = useState<TranslatedField[] | null>(null);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+
+  const runTranslation = async (id: string) => {
+      const provider = providers.find(p => p.id === id) || providers[0];
+      setIsTranslating(true);
+      setError(null);
+      setResult(null);
+      try {
+          const translated = await translateFields(fields, provider);
+          setResult(translated);
+          // Unchanged fields start unticked so applying doesn't touch them
+          setSelected(Object.fromEntries(translated.map(f => [f.key, f.translated !== f.current])));
+      } catch (e: any) {
+          console.error("Translation failed:", e);
+          setError(e?.message || "Не удалось получить перевод");
+      } finally {
+          setIsTranslating(false);
+      }
+  };
+
+  useEffect(() => {
+      runTranslation(providerId);
+  }, []);
+
+  const changeProvider = (id: string) => {
+      setProviderId(id);
+      setTranslationProvider(id);
+      runTranslation(id);
+  };
+
+  const handleApply = () => {
+      if (!result) return;
+      const values: Record<string, string> = {};
+      result.forEach(f => { if (selected[f.key]) values[f.key] = f.translated; });
+      onApply(values);
+  };
+
+  const selectedCount = result ? result.filter(f => selected[f.key]).length : 0;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-neutral-900 border border-neutral-800 rounded-xl w-full max-w-6xl max-h-[90vh] flex flex-col shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 p-4 border-b border-neutral-800">
+            <h3 className="text-white font-bold flex items-center gap-2"><Languages className="w-4 h-4 text-blue-500" /> Перевод на английский</h3>
+            <div className="flex items-center gap-2">
+                <select
+                    value={providerId}
+                    onChange={(e) => changeProvider(e.target.value)}
+                    disabled={isTranslating}
+                    className="bg-neutral-950 border border-neutral-700 rounded-lg px-3 py-2 text-xs text-white outline-none focus:border-blue-600 disabled:opacity-50"
+                >
+                    {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+                <button onClick={() => runTranslation(providerId)} disabled={isTranslating} className="p-2 rounded-lg text-neutral-400 hover:text-white hover:bg-neutral-800 disabled:opacity-40" title="Перевести заново">
+                    <RotateCcw className="w-4 h-4" />
+                </button>
+                <button onClick={onClose} className="p-2 rounded-lg text-neutral-400 hover:text-white hover:bg-neutral-800" title="Закрыть">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+            {isTranslating && (
+                <div className="flex items-center justify-center gap-2 py-16 text-neutral-400 text-sm">
+                    <Loader2 className="w-5 h-5 animate-spin" /> Перевод...
+                </div>
+            )}
+
+            {error && (
+                <div className="flex items-start gap-2 bg-red-900/20 border border-red-900/50 rounded-lg p-4 text-sm text-red-300">
+                    <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" /> {error}
+                </div>
+            )}
+
+            {result && result.map(field => {
+                const sourceLines = field.source.split('\n');
+                const currentLines = field.current.split('\n');
+                const newLines = field.translated.split('\n');
+                const isChanged = field.translated !== field.current;
+                return (
+                    <div key={field.key} className="space-y-2">
+                        <label className="flex items-center gap-2 text-xs font-bold text-neutral-400 uppercase cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={!!selected[field.key]}
+                                onChange={(e) => setSelected(prev => ({ ...prev, [field.key]: e.target.checked }))}
+                                className="accent-blue-600"
+                            />
+                            {field.label}
+                            {!isChanged && <span className="text-[10px] font-normal normal-case text-neutral-600">без изменений</span>}
+                        </label>
+                        <div className="border border-neutral-800 rounded-lg overflow-hidden text-sm">
+                            <div className="grid grid-cols-3 bg-neutral-950 text-[10px] font-bold uppercase text-neutral-500">
+                                <div className="px-3 py-2">RU</div>
+                                <div className="px-3 py-2 border-l border-neutral-800">EN сейчас</div>
+                                <div className="px-3 py-2 border-l border-neutral-800">EN новый</div>
+                            </div>
+                            {sourceLines.map((line, i) => {
+                                const current = currentLines[i] || '';
+                                const next = newLines[i] || '';
+                                const lineChanged = current !== next;
+                                return (
+                                    <div key={i} className="grid grid-cols-3 border-t border-neutral-800 leading-relaxed">
+                                        <div className="px-3 py-2 text-neutral-300 whitespace-pre-wrap">{line}</div>
+                                        <div className={`px-3 py-2 border-l border-neutral-800 whitespace-pre-wrap ${lineChanged ? 'bg-red-900/10 text-red-300/80 line-through decoration-red-900' : 'text-neutral-500'}`}>{current}</div>
+                                        <div className={`px-3 py-2 border-l border-neutral-800 whitespace-pre-wrap ${lineChanged ? 'bg-green-900/10 text-green-300' : 'text-neutral-500'}`}>{next}</div>
+                                    </div>
+                                );
+                            })}
+                            {currentLines.length > sourceLines.length && (
+                                <div className="border-t border-neutral-800 px-3 py-2 text-xs text-neutral-500">
+                                    В текущем EN ещё строк: {currentLines.length - sourceLines.length} — они будут заменены
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-neutral-800">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg bg-neutral-800 hover:bg-neutral-700 text-white text-sm">Отмена</button>
+            <button
+                onClick={handleApply}
+                disabled={!result || selectedCount === 0}
+                className="px-4 py-2 rounded-lg bg-blue-700 hover:bg-blue-600 text-white text-sm font-medium flex items-center gap-2 disabled:opacity-40"
+            >
+                <Check className="w-4 h-4" /> {applyLabel} ({selectedCount})
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranslationReview;
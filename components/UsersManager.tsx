@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Loader2, RefreshCw, Search, Shield, ShieldOff, Database, UserPlus, Copy, Trash2, Mail, User, Crown } from 'lucide-react';
+import { UserProfile } from '../types';
+import { supabase } from '../supabaseClient';
+import { AdminInvite, ROLES_REPAIR_SQL, fetchAdminIds, setAdminRole, fetchAdminInvites, createAdminInvite, deleteAdminInvite, buildInviteLink } from '../utils/roles';
+
+type UserRow = Pick<UserProfile, 'id' | 'full_name' | 'email' | 'country' | 'city' | 'created_at' | 'is_subscription_active'>;
+
+interface UsersManagerProps {
+  currentUserId?: string;
+}
+
+const inviteState = (invite: AdminInvite) => {
+  if (invite.accepted_at) return { label: 'Принято', style: 'text-green-400' };
+  if (Date.parse(invite.expires_at) < Date.now()) return { label: 'Истекло', style: 'text-neutral-500' };
+  return { label: 'Ожидает', style: 'text-yellow-400' };
+};
+
+const UsersManager: React.FC<UsersManagerProps> = ({ currentUserId }) => {
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [adminIds, setAdminIds] = useState<string[]>([]);
+  const [invites, setInvites] = useState<AdminInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Filters
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState<'all' | 'admin' | 'user'>('all');
+
+  // Invite form
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+
+  const loadAll = async () => {
+      if (!supabase) return;
+      setIsLoading(true);
+      setLoadError(null);
+      try {
+          const [{ data, error }, admins, inviteRows] = await Promise.all([
+              supabase.from('user_shibari').select('id, full_name, email, country, city, created_at, is_subscription_active').order('created_at', { ascending: false }),
+              fetchAdminIds(),
+              fetchAdminInvites()
+          ]);
+          if (error) throw error;
+          setUsers((data || []) as UserRow[]);
+          setAdminIds(admins);
+          setInvites(inviteRows);
+      } catch (e: any) {
+          console.error("Error loading users:", e);
+          setLoadError(e.message);
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  useEffect(() => { loadAll(); }, []);
+
+  const filtered = useMemo(() => {
+      const q = search.trim().toLowerCase();
+      return users.filter(user => {
+          const isAdmin = adminIds.includes(user.id);
+          if (roleFilter === 'admin' && !isAdmin) return false;
+          if (roleFilter === 'user' && isAdmin) return false;
+          if (!q) return true;
+          return [user.full_name, user.email, user.city, user.country].some(v => v?.toLowerCase().includes(q));
+      });
+  }, [users, adminIds, search, roleFilter]);
+
+  // --- Logic: Roles ---
+  const toggleAdmin = async (user: UserRow) => {
+      if (!currentUserId) return;
+      const makeAdmin = !adminIds.includes(user.id);
+      if (!makeAdmin && user.id === currentUserId) {
+          alert("Нельзя снять роль администратора с самого себя.");
+          return;
+      }
+      if (!makeAdmin && adminIds.length <= 1) {
+          alert("Должен остаться хотя бы один администратор.");
+          return;
+      }
+      const name = user.full_name || user.email;
+      if (!window.confirm(makeAdmin ? `Сделать ${name} администратором?` : `Снять роль администратора с ${name}?`)) return;
+
+      setSavingId(user.id);
+      try {
+          await setAdminRole(user.id, makeAdmin, currentUserId);
+          setAdminIds(prev => makeAdmin ? [...prev, user.id] : prev.filter(id => id !== user.id));
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка: ${e.message}`);
+          loadAll();
+      } finally {
+          setSavingId(null);
+      }
+  };
+
+  // --- Logic: Subscription ---
+  // Opens "subscriber" lessons for the student (see utils/lessonAccess)
+  const toggleSubscription = async (user: UserRow) => {
+      if (!supabase) return;
+      const isActive = !user.is_subscription_active;
+      const name = user.full_name || user.email;
+      if (!window.confirm(isActive ? `Включить подписку для ${name}?` : `Отключить подписку для ${name}?`)) return;
+
+      setSavingId(user.id);
+      try {
+          const { error } = await supabase.from('user_shibari').update({ is_subscription_active: isActive }).eq('id', user.id);
+          if (error) throw error;
+          setUsers(prev => prev.map(u => u.id === user.id ? { ...u, is_subscription_active: isActive } : u));
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка: ${e.message}`);
+      } finally {
+          setSavingId(null);
+      }
+  };
+
+  // --- Logic: Invites ---
+  const copyLink = async (invite: AdminInvite) => {
+      const link = buildInviteLink(invite.token);
+      try {
+          await navigator.clipboard.writeText(link);
+          alert("Ссылка скопирована. Отправьте её приглашённому — войти нужно с тем же email.");
+      } catch (e) {
+          window.prompt("Скопируйте ссылку:", link);
+      }
+  };
+
+  const handleInvite = async () => {
+      const email = inviteEmail.trim();
+      if (!email.includes('@') || !currentUserId) {
+          alert("Введите email");
+          return;
+      }
+      setIsInviting(true);
+      try {
+          const invite = await createAdminInvite(email, currentUserId);
+          setInvites(prev => [invite, ...prev]);
+          setInviteEmail('');
+          copyLink(invite);
+      } catch (e: any) {
+          console.error(e);
+          alert(`Ошибка создания приглашения: ${e.message}\n\nSQL:\n${ROLES_REPAIR_SQL}`);
+      } finally {
+          setIsInviting(false);
+      }
+  };
+
+  const handleDeleteInvite = async (invite: AdminInvite) => {
+      if (!window.confirm(`Удалить приглашение для ${invite.email}?`)) return;
+      try {
+          await deleteAdminInvite(invite.id);
+          setInvites(prev => prev.filter(i => i.id !== invite.id));
+      } catch (e: any) {
+          alert(`Ошибка: ${e.message}`);
+      }
+  };
+
+  return (
+    <div className="space-y-6">
+        <div className="flex justify-between items-center bg-neutral-900/50 p-4 rounded-xl border border-neutral-800">
+            <div>
+                <p className="text-white font-bold">Пользователи</p>
+                <p className="text-neutral-500 text-sm">Всего: {users.length} · Администраторов: {adminIds.length}</p>
+            </div>
+            <button onClick={loadAll} disabled={isLoading} className="bg-neutral-800 hover:bg-neutral-700 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+                {isLoading ? <Loader2 className="w-4 h-4 animate-spin"/> : <RefreshCw className="w-4 h-4"/>} Обновить
+            </button>
+        </div>
+
+        {loadError && (
+            <div className="bg-red-900/20 border border-red-900/50 p-4 rounded-xl space-y-2">
+                <p className="text-red-200 text-sm flex items-center gap-2"><Database className="w-4 h-4"/> Не удалось загрузить пользователей: {loadError}</p>
+                <p className="text-neutral-400 text-xs">Создайте таблицы ролей в Supabase SQL Editor (первого администратора назначьте последней строкой):</p>
+                <pre className="text-[10px] text-neutral-400 bg-black/40 p-3 rounded overflow-x-auto">{ROLES_REPAIR_SQL}</pre>
+            </div>
+        )}
+
+        {/* Invites */}
+        <div className="bg-neutral-900/50 border border-neutral-800 rounded-xl p-4 space-y-4">
+            <div>
+                <h4 className="font-bold text-white text-sm flex items-center gap-2"><UserPlus className="w-4 h-4"/> Пригласить администратора</h4>
+                <p className="text-neutral-500 text-xs mt-1">Ссылка действует 7 дней и только для указанного email.</p>
+            </div>
+            <div className="flex gap-2">
+                <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={e => setInviteEmail(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleInvite()}
+                    placeholder="email@example.com"
+                    className="flex-1 bg-neutral-900 border border-neutral-700 rounded px-3 py-2 text-sm text-white outline-none focus:border-red-600"
+                />
+                <button onClick={handleInvite} disabled={isInviting || !inviteEmail.trim()} className="bg-red-700 hover:bg-red-600 text-white px-4 py-2 rounded text-sm font-bold flex items-center gap-2 disabled:opacity-50">
+                    {isInviting ? <Loader2 className="w-4 h-4 animate-spin"/> : <Mail className="w-4 h-4"/>} Создать ссылку
+                </button>
+            </div>
+            {invites.length > 0 && (
+                <div className="space-y-1">
+                    {invites.map(invite => {
+                        const state = inviteState(invite);
+                        const isOpen = state.label === 'Ожидает';
+                        return (
+                            <div key={invite.id} className="flex items-center justify-between gap-4 text-sm px-3 py-2 rounded bg-black/30">
+                                <div className="min-w-0">
+                                    <div className="text-white truncate">{invite.email}</div>
+                                    <div className="text-neutral-500 text-xs">
+                                        <span className={state.style}>{state.label}</span>
+                                        {invite.created_at && ` · создано ${new Date(invite.created_at).toLocaleDateString()}`}
+                                        {` · до ${new Date(invite.expires_at).toLocaleDateString()}`}
+                                    </div>
+                                </div>
+                                <div className="flex gap-2 shrink-0">
+                                    {isOpen && (
+                                        <button onClick={() => copyLink(invite)} className="p-2 text-neutral-400 hover:text-white" title="Скопировать ссылку"><Copy className="w-4 h-4"/></button>
+                                    )}
+                                    <button onClick={() => handleDeleteInvite(invite)} className="p-2 text-neutral-500 hover:text-red-500" title="Удалить"><Trash2 className="w-4 h-4"/></button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-2 items-center">
+            <select value={roleFilter} onChange={e => setRoleFilter(e.target.value as typeof roleFilter)} className="bg-neutral-900 border border-neutral-800 rounded-lg px-3 py-1.5 text-xs text-white outline-none">
+                <option value="all">Все роли</option>
+                <option value="admin">Администраторы</option>
+                <option value="user">Ученики</option>
+            </select>
+            <div className="relative ml-auto">
+                <Search className="w-4 h-4 text-neutral-500 absolute left-3 top-1/2 -translate-y-1/2"/>
+                <input
+                    value={search}
+                    onChange={e => setSearch(e.target.value)}
+                    placeholder="Имя, email, город"
+                    className="bg-neutral-900 border border-neutral-800 rounded-lg pl-9 pr-3 py-1.5 text-sm text-white outline-none focus:border-red-600"
+                />
+            </div>
+        </div>
+
+        <div className="grid grid-cols-1 gap-3">
+            {filtered.map(user => {
+                const isAdmin = adminIds.includes(user.id);
+                return (
+                    <div key={user.id} className="bg-neutral-900 border border-neutral-800 p-4 rounded-xl flex items-center gap-4">
+                        <div className="w-10 h-10 rounded-lg bg-black border border-neutral-800 flex items-center justify-center shrink-0">
+                            {isAdmin ? <Shield className="w-5 h-5 text-red-500"/> : <User className="w-5 h-5 text-neutral-600"/>}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                                <span className="text-white font-bold text-sm truncate">{user.full_name || '—'}</span>
+                                {isAdmin && <span className="text-[10px] uppercase text-red-400 border border-red-900/50 px-1.5 rounded">admin</span>}
+                                {user.is_subscription_active && <span className="text-[10px] uppercase text-yellow-400 border border-yellow-900/50 px-1.5 rounded">подписка</span>}
+                                {user.id === currentUserId && <span className="text-[10px] uppercase text-neutral-500 border border-neutral-800 px-1.5 rounded">вы</span>}
+                            </div>
+                            <p className="text-neutral-500 text-xs truncate mt-1">
+                                {user.email} · {[user.city, user.country].filter(Boolean).join(', ') || '—'}
+                                {user.created_at && ` · ${new Date(user.created_at).toLocaleDateString()}`}
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => toggleSubscription(user)}
+                            disabled={savingId === user.id}
+                            title={user.is_subscription_active ? 'Отключить подписку' : 'Включить подписку'}
+                            className={`p-2 rounded-lg shrink-0 disabled:opacity-40 ${user.is_subscription_active ? 'bg-yellow-900/20 text-yellow-400 hover:bg-yellow-900/40' : 'bg-neutral-800 text-neutral-500 hover:text-white'}`}
+                        >
+                            <Crown className="w-4 h-4"/>
+                        </button>
+                        <button
+                            onClick={() => toggleAdmin(user)}
+                            disabled={savingId === user.id || (isAdmin && user.id === currentUserId)}
+                            className={`px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 shrink-0 disabled:opacity-40 ${isAdmin ? 'bg-neutral-800 text-red-400 hover:bg-red-900/40' : 'bg-neutral-800 text-neutral-300 hover:text-white'}`}
+                        >
+                            {savingId === user.id ? <Loader2 className="w-4 h-4 animate-spin"/> : isAdmin ? <ShieldOff className="w-4 h-4"/> : <Shield className="w-4 h-4"/>}
+                            <span className="hidden md:inline">{isAdmin ? 'Снять админа' : 'Сделать админом'}</span>
+                        </button>
+                    </div>
+                );
+            })}
+            {!isLoading && filtered.length === 0 && (
+                <div className="text-center text-neutral-600 py-10 border border-dashed border-neutral-800 rounded-xl">Пользователей нет</div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default UsersManager;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { ListVideo } from 'lucide-react';
+import { VideoChapter } from '../types';
+import { chapterTitle } from '../utils/chapters';
+import { formatClock } from '../utils/subtitles';
+
+interface VideoChaptersProps {
+  chapters: VideoChapter[];
+  activeIndex: number; // Chapter playing right now, -1 if none
+  onSeek: (index: number) => void;
+  lang: 'ru' | 'en';
+  t: any;
+}
+
+// Chapter list next to a video; a click jumps the video to the chapter
+const VideoChapters: React.FC<VideoChaptersProps> = ({ chapters, activeIndex, onSeek, lang, t }) => (
+  <div>
+      <div className="flex items-center gap-3 mb-4 pl-1 border-b border-white/5 pb-4">
+          <ListVideo className="w-4 h-4 text-red-600" />
+          <h3 className="text-xs font-bold text-neutral-500 uppercase tracking-[0.15em]">{t.chapters}</h3>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+          {chapters.map((chapter, index) => (
+              <button
+                  key={index}
+                  onClick={() => onSeek(index)}
+                  className={`text-left flex gap-4 px-3 py-2 rounded-lg transition-colors ${index === activeIndex ? 'bg-red-900/20 text-white' : 'text-neutral-400 hover:bg-white/5 hover:text-neutral-200'}`}
+              >
+                  <span className={`font-mono text-xs pt-0.5 shrink-0 w-14 ${index === activeIndex ? 'text-red-500' : 'text-neutral-600'}`}>{formatClock(chapter.start)}</span>
+                  <span className="text-sm leading-relaxed">{chapterTitle(chapter, lang)}</span>
+              </button>
+          ))}
+      </div>
+  </div>
+);
+
+export default VideoChapters;
@@ -1,52 +1,153 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { Play, Loader2 } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef, forwardRef, useImperativeHandle } from 'react';
+import { Play, Loader2, ExternalLink } from 'lucide-react';
+import { parseVideoUrl, getVideoProvider, getEmbedUrl, getEmbedApi, getThumbnailUrl, isNativeVideo, canPlayHls, PlaybackEvent, PlaybackEventType, EmbedMessage } from '../utils/video';
+import { formatClock } from '../utils/subtitles';
+import BehaviorTracker from '../utils/BehaviorTracker';
 
 interface VideoPlayerProps {
   url: string;
   showPlayButton?: boolean;
+  resumeAt?: number; // Saved position (seconds) the video starts from
+  // play / pause / ended, and timeupdate a few times per second while playing
+  onPlayback?: (event: PlaybackEvent) => void;
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, showPlayButton = true }) => {
+export interface VideoPlayerHandle {
+  // Jumps to the position; starts the video first if only the cover is shown
+  seekTo: (seconds: number) => void;
+}
+
+// Plays any link utils/video recognises: YouTube, Vimeo, Rutube, VK Video and Kinescope
+// in their iframe players, MP4/WebM and HLS files in a <video> element.
+// Playback events are reported for files, YouTube, Vimeo and Rutube (and counted by BehaviorTracker);
+// VK Video and Kinescope don't expose them.
+const VideoPlayer = forwardRef<VideoPlayerHandle, VideoPlayerProps>(({ url, showPlayButton = true, resumeAt, onPlayback }, ref) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
+  const [startAt, setStartAt] = useState(Math.floor(resumeAt || 0)); // Position the embed opens at
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastTimeRef = useRef<number | null>(null);
+  const durationRef = useRef(0);
+  const stateRef = useRef<EmbedMessage['state'] | null>(null); // Last reported play / pause / ended
+  const watchedRef = useRef(new Set<number>()); // Whole seconds actually played
+  const onPlaybackRef = useRef(onPlayback);
+  onPlaybackRef.current = onPlayback;
+
+  const source = useMemo(() => parseVideoUrl(url), [url]);
+  const provider = source ? getVideoProvider(source.provider) : null;
+  const isNative = !!source && isNativeVideo(source);
+  const embedApi = source && !isNative ? getEmbedApi(source) : null;
 
   // Сбрасываем состояние проигрывания при смене URL (переключении урока)
   useEffect(() => {
     setIsPlaying(false);
+    setStartAt(Math.floor(resumeAt || 0));
+    lastTimeRef.current = null;
+    durationRef.current = 0;
+    stateRef.current = null;
+    watchedRef.current = new Set();
   }, [url]);
 
-  const videoId = useMemo(() => {
-    if (!url) return null;
-    try {
-      if (url.length === 11 && /^[a-zA-Z0-9_-]{11}$/.test(url)) return url;
-      const urlObj = new URL(url);
-      if (urlObj.pathname.startsWith('/embed/')) return urlObj.pathname.split('/')[2];
-      if (urlObj.pathname === '/watch') return urlObj.searchParams.get('v');
-      if (urlObj.hostname.includes('youtu.be')) return urlObj.pathname.slice(1);
-      return null;
-    } catch (e) {
-      return null;
-    }
-  }, [url]);
+  // The saved position may arrive after the player mounted; it only matters before playback starts
+  useEffect(() => {
+    if (!isPlaying) setStartAt(Math.floor(resumeAt || 0));
+  }, [resumeAt]);
+
+  // Обложка: у части площадок её нужно запросить (Vimeo), у части её нет вовсе
+  useEffect(() => {
+    setThumbnailUrl(null);
+    if (!source) return;
+    let cancelled = false;
+    getThumbnailUrl(source).then(thumbnail => {
+      if (!cancelled) setThumbnailUrl(thumbnail);
+    });
+    return () => { cancelled = true; };
+  }, [source]);
 
-  const cleanId = videoId ? videoId.split('&')[0].split('?')[0] : null;
+  const emit = (type: PlaybackEventType, played = 0) => {
+    const duration = durationRef.current;
+    const total = Math.ceil(duration);
+    const event: PlaybackEvent = {
+      type,
+      url,
+      currentTime: lastTimeRef.current || 0,
+      duration,
+      played,
+      watchedPercent: total > 0 ? Math.min(100, Math.round((watchedRef.current.size / total) * 100)) : 0
+    };
+    BehaviorTracker.trackVideo(event);
+    onPlaybackRef.current?.(event);
+  };
 
-  // Формируем ссылку на превью высокого качества
-  const thumbnailUrl = cleanId 
-    ? `https://img.youtube.com/vi/${cleanId}/maxresdefault.jpg` 
-    : null;
+  // Only small forward steps count as watching; jumps are seeks
+  const reportTime = (currentTime: number, duration?: number) => {
+    if (duration && duration > 0 && Number.isFinite(duration)) durationRef.current = duration;
+    const last = lastTimeRef.current;
+    lastTimeRef.current = currentTime;
+    const delta = last === null ? 0 : currentTime - last;
+    const played = delta > 0 && delta <= 3 ? delta : 0;
+    if (played) {
+      for (let second = Math.floor(last!); second < currentTime; second++) watchedRef.current.add(second);
+    }
+    emit('timeupdate', played);
+  };
 
-  // Формируем ссылку для iframe
-  // ВАЖНО: origin должен совпадать с текущим доменом.
-  // autoplay=1 нужен, чтобы видео пошло сразу после клика по обложке
-  const getIframeUrl = () => {
-    if (!cleanId) return '';
-    const origin = typeof window !== 'undefined' ? window.location.origin : '';
-    return `https://www.youtube.com/embed/${cleanId}?autoplay=1&rel=0&showinfo=0&origin=${origin}`;
+  const reportState = (state: NonNullable<EmbedMessage['state']>) => {
+    if (stateRef.current === state) return;
+    stateRef.current = state;
+    emit(state);
   };
 
-  if (!cleanId) {
+  const postToPlayer = (messages: unknown[]) => {
+    messages.forEach(message => iframeRef.current?.contentWindow?.postMessage(JSON.stringify(message), '*'));
+  };
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (seconds: number) => {
+      if (!isPlaying) {
+        setStartAt(Math.floor(seconds));
+        setIsPlaying(true);
+        return;
+      }
+      if (isNative && videoRef.current) {
+        videoRef.current.currentTime = seconds;
+        videoRef.current.play().catch(() => {});
+      } else if (embedApi) {
+        postToPlayer(embedApi.seek(seconds));
+      } else {
+        // Players without a JS API are reopened at the new position
+        lastTimeRef.current = null;
+        setStartAt(Math.floor(seconds));
+      }
+    }
+  }), [isPlaying, isNative, embedApi]);
+
+  // Iframe players post their events once subscribed (on load and again when they say they are ready)
+  useEffect(() => {
+    if (!isPlaying || !embedApi) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (!iframeRef.current || event.source !== iframeRef.current.contentWindow) return;
+      let data: any;
+      try {
+        data = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
+      } catch (e) {
+        return;
+      }
+      const message = embedApi.parse(data);
+      if (!message) return;
+      if (message.ready) postToPlayer(embedApi.subscribe);
+      if (typeof message.duration === 'number' && message.duration > 0) durationRef.current = message.duration;
+      if (typeof message.currentTime === 'number') reportTime(message.currentTime, message.duration);
+      if (message.state) reportState(message.state);
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [isPlaying, embedApi]);
+
+  if (!source || !provider) {
     return (
       <div className="w-full aspect-video bg-neutral-900 rounded-xl border border-neutral-800 flex items-center justify-center flex-col gap-2 text-neutral-500 shadow-2xl">
         <div className="w-12 h-12 rounded-full border-2 border-neutral-700 flex items-center justify-center">!</div>
@@ -55,26 +156,37 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, showPlayButton = true })
     );
   }
 
+  const embedUrl = getEmbedUrl(source, startAt);
+  const hlsUnsupported = source.provider === 'hls' && !canPlayHls();
+
   return (
-    <div 
+    <div
       className="w-full aspect-video bg-black rounded-xl overflow-hidden shadow-2xl shadow-red-900/10 border border-neutral-800 relative z-0 group"
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
     >
       {!isPlaying ? (
         // РЕЖИМ ОБЛОЖКИ (FACADE)
-        <button 
+        <button
           onClick={() => setIsPlaying(true)}
           className="relative w-full h-full cursor-pointer flex items-center justify-center bg-black"
           aria-label="Запустить видео"
         >
-          {/* Фоновая картинка */}
-          <img 
-            src={thumbnailUrl || ''} 
-            alt="Video Thumbnail" 
-            className={`w-full h-full object-cover transition-opacity duration-700 ${isHovered ? 'opacity-80' : 'opacity-100'}`}
-          />
-          
+          {/* Фоновая картинка; у файла — первый кадр, у площадок без обложки — подпись */}
+          {thumbnailUrl ? (
+            <img
+              src={thumbnailUrl}
+              alt="Video Thumbnail"
+              className={`w-full h-full object-cover transition-opacity duration-700 ${isHovered ? 'opacity-80' : 'opacity-100'}`}
+            />
+          ) : source.provider === 'file' ? (
+            <video src={`${source.id}#t=1`} preload="metadata" muted playsInline className="w-full h-full object-cover pointer-events-none" />
+          ) : (
+            <div className="w-full h-full bg-gradient-to-br from-neutral-900 to-black flex items-end justify-start p-4">
+              <span className="text-[10px] font-bold uppercase tracking-widest text-neutral-600">{provider.label}</span>
+            </div>
+          )}
+
           {/* Темный градиент поверх картинки */}
           <div className="absolute inset-0 bg-black/20 group-hover:bg-black/40 transition-colors duration-300" />
 
@@ -84,13 +196,41 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, showPlayButton = true })
                <Play className="w-8 h-8 sm:w-10 sm:h-10 text-white fill-white ml-1" />
             </div>
           )}
-          
+
+          {showPlayButton && startAt > 0 && (
+            <div className="absolute top-4 right-4 z-10 bg-black/70 text-white text-xs font-mono px-2.5 py-1 rounded-full">
+               ▶ {formatClock(startAt)}
+            </div>
+          )}
+
           {showPlayButton && (
             <div className="absolute bottom-6 text-white font-medium text-sm tracking-widest uppercase opacity-0 group-hover:opacity-100 transition-opacity duration-300 transform translate-y-2 group-hover:translate-y-0">
                Нажмите для просмотра
             </div>
           )}
         </button>
+      ) : hlsUnsupported ? (
+        <div className="w-full h-full flex flex-col items-center justify-center gap-3 text-neutral-400 text-sm p-6 text-center">
+            <p>Этот браузер не воспроизводит HLS-потоки напрямую.</p>
+            <a href={source.id} target="_blank" rel="noopener noreferrer" className="text-red-500 hover:text-red-400 flex items-center gap-1.5">
+                <ExternalLink className="w-4 h-4" /> Открыть поток
+            </a>
+        </div>
+      ) : isNative ? (
+        // РЕЖИМ ФАЙЛА (MP4 / WebM / HLS)
+        <video
+            ref={videoRef}
+            src={source.id}
+            className="w-full h-full bg-black"
+            controls
+            autoPlay
+            playsInline
+            onLoadedMetadata={(e) => { if (startAt > 0) e.currentTarget.currentTime = startAt; }}
+            onTimeUpdate={(e) => reportTime(e.currentTarget.currentTime, e.currentTarget.duration)}
+            onPlay={() => reportState('play')}
+            onPause={(e) => { if (!e.currentTarget.ended) reportState('pause'); }}
+            onEnded={() => reportState('ended')}
+        />
       ) : (
         // РЕЖИМ IFRAME (Загружается только после клика)
         <div className="w-full h-full relative bg-black">
@@ -98,20 +238,22 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ url, showPlayButton = true })
             <div className="absolute inset-0 flex items-center justify-center z-0">
                 <Loader2 className="w-10 h-10 text-red-600 animate-spin" />
             </div>
-            
+
             <iframe
-                key={getIframeUrl()}
+                key={embedUrl || ''}
+                ref={iframeRef}
+                onLoad={() => embedApi && postToPlayer(embedApi.subscribe)}
                 className="w-full h-full relative z-10"
-                src={getIframeUrl()}
-                title="YouTube video player"
+                src={embedUrl || ''}
+                title={`${provider.label} video player`}
                 frameBorder="0"
-                allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share"
+                allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share; fullscreen"
                 allowFullScreen
             ></iframe>
         </div>
       )}
     </div>
   );
-};
+});
 
-export default VideoPlayer;
\ No newline at end of file
+export default VideoPlayer;
@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+import { CheckCircle, AlertTriangle } from 'lucide-react';
+import { parseVideoUrl, getVideoProvider, SUPPORTED_VIDEO_HOSTS } from '../utils/video';
+import VideoPlayer from './VideoPlayer';
+
+interface VideoUrlFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  inputClassName: string; // Each editor keeps its own input style
+  preview?: boolean; // Off for compact rows (course modules)
+}
+
+// Video link input for the admin editors: says which host was recognised and shows the player under it
+const VideoUrlField: React.FC<VideoUrlFieldProps> = ({ value, onChange, placeholder = 'YouTube, Vimeo, Rutube, VK, Kinescope или ссылка на файл', inputClassName, preview = true }) => {
+  const source = useMemo(() => parseVideoUrl(value), [value]);
+  const isEmpty = !value.trim();
+
+  return (
+    <div className="space-y-2">
+        <input
+            type="text"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            className={`${inputClassName} ${!isEmpty && !source ? '!border-red-800' : ''}`}
+        />
+        {!isEmpty && (source ? (
+            <p className="text-[11px] text-green-500 flex items-center gap-1.5">
+                <CheckCircle className="w-3 h-3 shrink-0" /> {getVideoProvider(source.provider).label}
+                {source.provider !== 'file' && source.provider !== 'hls' && <span className="text-neutral-600 font-mono truncate">{source.id}</span>}
+            </p>
+        ) : (
+            <p className="text-[11px] text-red-400 flex items-start gap-1.5">
+                <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" /> Ссылка не распознана. Поддерживаются: {SUPPORTED_VIDEO_HOSTS}.
+            </p>
+        ))}
+        {preview && source && (
+            <div className="max-w-xs">
+                <VideoPlayer url={value} />
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default VideoUrlField;
@@ -154,6 +154,131 @@ export const UI_TRANSLATIONS = {
     order_success_message: "Ссылка на курс отправлена на вашу почту.",
     guest_email_label: "Ваш Email для отправки заказа",
     continue_shopping: "Продолжить покупки",
+    cart_items_removed: "Больше не продаются и убраны из корзины:",
+    cart_items_repriced: "Изменилась цена:",
+    promo_code: "Промокод",
+    promo_apply: "Применить",
+    discount: "Скидка",
+    promo_invalid: "Промокод не найден",
+    promo_expired: "Срок действия промокода истёк",
+    promo_limit_reached: "Промокод больше недоступен",
+    promo_not_applicable: "Промокод не действует на товары в корзине",
+    promo_login_required: "Войдите, чтобы использовать промокод",
+    out_of_stock: "Нет в наличии",
+    only_left: "Осталось",
+    choose_variant: "Вариант",
+    price_from: "от",
+    stock_shortage: "Недостаточно на складе",
+    watch_course: "Смотреть курс",
+    course_access_open: "Доступ открыт",
+    course_access_pending: "Заказ оформлен. Доступ откроется после подтверждения оплаты.",
+    course_login_required: "Курсы привязываются к аккаунту — войдите, чтобы купить курс",
+    course_module_no_video: "Видео модуля ещё не загружено",
+    course_content_error: "Не удалось загрузить содержимое курса",
+    admin_invite_accepted: "Приглашение принято: вам открыт раздел администратора.",
+    admin_invite_invalid: "Приглашение недействительно: ссылка устарела, уже использована или выдана на другой email.",
+    forgot_password: "Забыли пароль?",
+    reset_password_title: "Сброс пароля",
+    reset_password_hint: "Пришлём ссылку для смены пароля.",
+    send_reset_link: "Отправить ссылку",
+    reset_link_sent: "Письмо отправлено. Перейдите по ссылке из письма, чтобы задать новый пароль.",
+    magic_link: "Войти по ссылке из письма",
+    magic_link_hint: "Без пароля: одноразовая ссылка для входа.",
+    send_magic_link: "Прислать ссылку",
+    magic_link_sent: "Ссылка для входа отправлена. Откройте письмо на этом устройстве.",
+    magic_link_no_account: "Аккаунт с таким email не найден. Зарегистрируйтесь.",
+    new_password_title: "Новый пароль",
+    new_password_hint: "Придумайте новый пароль для входа.",
+    new_password: "Новый пароль",
+    confirm_password: "Повторите пароль",
+    current_password: "Текущий пароль",
+    save_password: "Сохранить пароль",
+    password_updated: "Пароль обновлён.",
+    password_too_short: "Пароль должен быть не короче 6 символов",
+    passwords_mismatch: "Пароли не совпадают",
+    current_password_wrong: "Текущий пароль неверен",
+    email_required: "Введите корректный email",
+    link_expired: "Ссылка устарела. Запросите новую.",
+    back_to_login: "Вернуться ко входу",
+    profile: "Профиль",
+    account_security: "Вход и безопасность",
+    change_email: "Сменить email",
+    new_email: "Новый email",
+    email_change_sent: "Подтвердите смену по ссылкам, отправленным на старый и новый адрес.",
+    change_password: "Сменить пароль",
+    personal_data: "Личные данные",
+    save: "Сохранить",
+    profile_saved: "Профиль сохранён.",
+    name_required: "Введите имя",
+    my_orders: "Мои заказы",
+    no_orders: "Заказов пока нет",
+    my_courses: "Мои курсы",
+    no_courses: "Купленных курсов пока нет",
+    course_awaiting_payment: "Ожидает оплаты",
+    order_status_new: "Новый",
+    order_status_processing: "В работе",
+    order_status_completed: "Выполнен",
+    order_status_cancelled: "Отменён",
+    delete_account: "Удалить аккаунт",
+    delete_account_hint: "Профиль, заказы, доступы к курсам и история посещений будут удалены без возможности восстановления.",
+    delete_account_confirm: "Для подтверждения введите ваш email",
+    account_deleted: "Аккаунт удалён.",
+    progress_completed: "Пройдено",
+    lesson_started: "Начат",
+    lesson_completed: "Урок пройден",
+    mark_completed: "Отметить пройденным",
+    transcript: "Расшифровка",
+    watched: "Просмотрено",
+    chapters: "Главы",
+    lesson_locked_login: "Урок доступен после регистрации",
+    lesson_locked_login_hint: "Создайте бесплатный аккаунт или войдите, чтобы открыть этот урок и сохранять прогресс.",
+    lesson_locked_subscription: "Урок доступен по подписке",
+    lesson_locked_subscription_hint: "Этот урок открыт для учеников с активной подпиской. Свяжитесь со школой, чтобы оформить её.",
+    lesson_locked_course: "Урок входит в платный курс",
+    lesson_locked_course_hint: "Урок открывается после покупки курса",
+    contact_school: "Связаться со школой",
+    go_to_course: "Перейти к курсу",
+    lesson_locked_quiz: "Сначала пройдите тест",
+    lesson_locked_quiz_hint: "Урок откроется после успешного прохождения теста в уроке",
+    go_to_quiz: "Перейти к тесту",
+    quiz_title: "Проверка знаний",
+    quiz_pass_threshold: "Проходной балл",
+    quiz_gates_next: "Следующие уроки откроются после прохождения этого теста",
+    quiz_single_hint: "Выберите один ответ",
+    quiz_multiple_hint: "Выберите все правильные ответы",
+    quiz_image_hint: "Выберите картинку",
+    quiz_submit: "Проверить ответы",
+    quiz_answer_all: "Ответьте на все вопросы",
+    quiz_passed: "Тест пройден",
+    quiz_failed: "Тест не пройден",
+    quiz_score: "Результат",
+    quiz_best: "Лучший",
+    quiz_retake: "Пройти ещё раз",
+    quiz_show_result: "Показать результат",
+    quiz_correct: "Верно",
+    quiz_wrong: "Неверно",
+    quiz_submit_failed: "Не удалось проверить ответы, попробуйте ещё раз",
+    my_notes: "Мои заметки",
+    notes_private_hint: "Видны только вам",
+    notes_empty: "Здесь появятся ваши заметки к урокам и закладки.",
+    notes_sync_failed: "Не удалось сохранить. Проверьте соединение и попробуйте ещё раз.",
+    note_placeholder: "Что стоит запомнить из урока?",
+    note_time: "Момент видео",
+    note_time_hint: "Например 12:34. Оставьте пустым, если заметка не про конкретный момент.",
+    note_add: "Добавить заметку",
+    note_edit: "Изменить",
+    note_delete: "Удалить",
+    note_delete_confirm: "Удалить заметку?",
+    cancel: "Отмена",
+    bookmarks: "Закладки",
+    bookmark_add: "В закладки",
+    bookmark_remove: "Убрать из закладок",
+    bookmarks_lessons: "Уроки",
+    bookmarks_articles: "Статьи",
+    bookmarks_videos: "Видео каталога",
+    bookmarks_terms: "Термины",
+    export_markdown: "Экспорт в Markdown",
+    lesson_draft: "Черновик",
     invalid_credentials: "Неверный email или пароль. Если вы только что зарегистрировались, проверьте почту для подтверждения аккаунта.",
     auth_error: "Ошибка авторизации",
     account_created: "Аккаунт создан! Проверьте почту для подтверждения.",
@@ -216,6 +341,131 @@ export const UI_TRANSLATIONS = {
     order_success_message: "Course link has been sent to your email.",
     guest_email_label: "Your Email for order details",
     continue_shopping: "Continue Shopping",
+    cart_items_removed: "No longer available and removed from your cart:",
+    cart_items_repriced: "Price changed:",
+    promo_code: "Promo code",
+    promo_apply: "Apply",
+    discount: "Discount",
+    promo_invalid: "Promo code not found",
+    promo_expired: "This promo code has expired",
+    promo_limit_reached: "This promo code is no longer available",
+    promo_not_applicable: "This promo code does not apply to your cart",
+    promo_login_required: "Sign in to use a promo code",
+    out_of_stock: "Out of stock",
+    only_left: "Only left",
+    choose_variant: "Option",
+    price_from: "from",
+    stock_shortage: "Not enough in stock",
+    watch_course: "Watch course",
+    course_access_open: "Access granted",
+    course_access_pending: "Order placed. Access opens once the payment is confirmed.",
+    course_login_required: "Courses are linked to an account — sign in to buy a course",
+    course_module_no_video: "The video for this module is not uploaded yet",
+    course_content_error: "Could not load the course content",
+    admin_invite_accepted: "Invite accepted: the admin hub is now available to you.",
+    admin_invite_invalid: "This invite is not valid: the link expired, was already used or belongs to another email.",
+    forgot_password: "Forgot password?",
+    reset_password_title: "Reset password",
+    reset_password_hint: "We will email you a link to set a new password.",
+    send_reset_link: "Send link",
+    reset_link_sent: "Email sent. Follow the link in it to set a new password.",
+    magic_link: "Sign in with an email link",
+    magic_link_hint: "No password: a one-time sign-in link.",
+    send_magic_link: "Send link",
+    magic_link_sent: "Sign-in link sent. Open the email on this device.",
+    magic_link_no_account: "No account with this email. Please register.",
+    new_password_title: "New password",
+    new_password_hint: "Choose a new password to sign in with.",
+    new_password: "New password",
+    confirm_password: "Repeat password",
+    current_password: "Current password",
+    save_password: "Save password",
+    password_updated: "Password updated.",
+    password_too_short: "Password must be at least 6 characters",
+    passwords_mismatch: "Passwords do not match",
+    current_password_wrong: "Current password is incorrect",
+    email_required: "Enter a valid email",
+    link_expired: "The link has expired. Please request a new one.",
+    back_to_login: "Back to sign in",
+    profile: "Profile",
+    account_security: "Sign-in & security",
+    change_email: "Change email",
+    new_email: "New email",
+    email_change_sent: "Confirm the change with the links sent to your old and new address.",
+    change_password: "Change password",
+    personal_data: "Personal data",
+    save: "Save",
+    profile_saved: "Profile saved.",
+    name_required: "Enter your name",
+    my_orders: "My orders",
+    no_orders: "No orders yet",
+    my_courses: "My courses",
+    no_courses: "No purchased courses yet",
+    course_awaiting_payment: "Awaiting payment",
+    order_status_new: "New",
+    order_status_processing: "Processing",
+    order_status_completed: "Completed",
+    order_status_cancelled: "Cancelled",
+    delete_account: "Delete account",
+    delete_account_hint: "Your profile, orders, course access and visit history will be deleted permanently.",
+    delete_account_confirm: "Type your email to confirm",
+    account_deleted: "Account deleted.",
+    progress_completed: "Completed",
+    lesson_started: "Started",
+    lesson_completed: "Lesson completed",
+    mark_completed: "Mark as completed",
+    transcript: "Transcript",
+    watched: "Watched",
+    chapters: "Chapters",
+    lesson_locked_login: "Sign up to watch this lesson",
+    lesson_locked_login_hint: "Create a free account or sign in to open this lesson and keep your progress.",
+    lesson_locked_subscription: "This lesson is for subscribers",
+    lesson_locked_subscription_hint: "This lesson is open to students with an active subscription. Contact the school to subscribe.",
+    lesson_locked_course: "This lesson is part of a paid course",
+    lesson_locked_course_hint: "The lesson opens after you buy the course",
+    contact_school: "Contact the school",
+    go_to_course: "Go to course",
+    lesson_locked_quiz: "Pass the quiz first",
+    lesson_locked_quiz_hint: "This lesson opens once you pass the quiz in the lesson",
+    go_to_quiz: "Go to the quiz",
+    quiz_title: "Knowledge check",
+    quiz_pass_threshold: "Passing score",
+    quiz_gates_next: "The next lessons open once you pass this quiz",
+    quiz_single_hint: "Choose one answer",
+    quiz_multiple_hint: "Choose all correct answers",
+    quiz_image_hint: "Choose a picture",
+    quiz_submit: "Check answers",
+    quiz_answer_all: "Answer every question",
+    quiz_passed: "Quiz passed",
+    quiz_failed: "Quiz not passed",
+    quiz_score: "Score",
+    quiz_best: "Best",
+    quiz_retake: "Try again",
+    quiz_show_result: "Show result",
+    quiz_correct: "Correct",
+    quiz_wrong: "Wrong",
+    quiz_submit_failed: "Couldn't check the answers, please try again",
+    my_notes: "My notes",
+    notes_private_hint: "Only visible to you",
+    notes_empty: "Your lesson notes and bookmarks will appear here.",
+    notes_sync_failed: "Could not save. Check your connection and try again.",
+    note_placeholder: "What's worth remembering from this lesson?",
+    note_time: "Video moment",
+    note_time_hint: "For example 12:34. Leave empty if the note isn't about a specific moment.",
+    note_add: "Add note",
+    note_edit: "Edit",
+    note_delete: "Delete",
+    note_delete_confirm: "Delete this note?",
+    cancel: "Cancel",
+    bookmarks: "Bookmarks",
+    bookmark_add: "Bookmark",
+    bookmark_remove: "Remove bookmark",
+    bookmarks_lessons: "Lessons",
+    bookmarks_articles: "Articles",
+    bookmarks_videos: "Catalog videos",
+    bookmarks_terms: "Terms",
+    export_markdown: "Export to Markdown",
+    lesson_draft: "Draft",
     invalid_credentials: "Invalid email or password. If you just registered, please verify your email.",
     auth_error: "Authentication Error",
     account_created: "Account created! Check email to verify.",
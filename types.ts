@@ -43,6 +43,19 @@ export interface Article {
 }
 
 // Table: lessons_shibari
+// Drafts are only visible to admins. Rows without a status are published.
+export type LessonStatus = 'draft' | 'published';
+
+// Who can open a lesson. 'course' lessons need an entitlement to access_course_id.
+export type LessonAccessLevel = 'public' | 'registered' | 'subscriber' | 'course';
+
+// A named point on a video timeline (lessons and catalog videos)
+export interface VideoChapter {
+  start: number; // Seconds
+  title: string;
+  title_en?: string | null;
+}
+
 export interface Lesson {
   id: number;
   title: string;
@@ -52,6 +65,108 @@ export interface Lesson {
   content: string[]; // Array of paragraphs
   content_en?: string[];
   related_articles?: number[]; // IDs of related articles (max 4)
+  chapters?: VideoChapter[] | null;
+  access_level?: LessonAccessLevel | null; // Not set -> first 4 lessons public, the rest registered
+  access_course_id?: number | null;
+  position?: number | null; // Sidebar order (falls back to id)
+  status?: LessonStatus | null;
+  updated_at?: string | null; // Version check for concurrent edits
+}
+
+export type LessonProgressStatus = 'started' | 'completed';
+
+// Table: lesson_progress_shibari (one row per user and lesson; guests keep the same shape in localStorage)
+export interface LessonProgress {
+  lesson_id: number;
+  status: LessonProgressStatus;
+  watched_seconds: number; // Seconds of the video actually played
+  video_duration?: number | null;
+  watched_percent: number; // Share of the video played at least once (0–100); completion is based on it
+  read_complete: boolean; // The lesson text was scrolled to the end
+  last_position?: number | null; // Video position (seconds) to resume from
+  updated_at: string; // Last visit, used to resume at the last lesson
+  completed_at?: string | null;
+}
+
+// One timed cue of a subtitle file, times in seconds
+export interface SubtitleSegment {
+  start: number;
+  end: number;
+  text: string; // May contain line breaks
+}
+
+export type SubtitleLanguage = 'ru' | 'en';
+
+// Table: lesson_subtitles_shibari (one row per lesson and language)
+export interface LessonSubtitles {
+  lesson_id: number;
+  lang: SubtitleLanguage;
+  segments: SubtitleSegment[];
+  file_name?: string | null;
+  updated_at?: string | null;
+}
+
+// single: one right answer; multiple: every right answer must be picked; image: pick the right picture
+export type QuizQuestionType = 'single' | 'multiple' | 'image';
+
+export interface QuizOption {
+  id: string;
+  text: string;
+  text_en?: string | null;
+  image_url?: string | null; // Used by 'image' questions
+}
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  text: string;
+  text_en?: string | null;
+  image_url?: string | null; // Optional illustration
+  options: QuizOption[];
+  correct: string[]; // Option ids; always empty in quizzes served to students (get_lesson_quizzes)
+  explanation?: string | null; // Shown after the answer is checked
+  explanation_en?: string | null;
+}
+
+// Table: lesson_quizzes_shibari (at most one quiz per lesson)
+export interface LessonQuiz {
+  lesson_id: number;
+  questions: QuizQuestion[];
+  pass_percent: number; // Score needed to pass, 0–100
+  gates_next: boolean; // Following lessons stay locked until the quiz is passed
+  updated_at?: string | null;
+}
+
+// Table: quiz_results_shibari (one row per user and lesson; guests keep the same shape in localStorage)
+export interface QuizResult {
+  lesson_id: number;
+  best_score: number; // 0–100
+  last_score: number;
+  passed: boolean; // Never taken back once reached
+  attempts: number;
+  answers: Record<string, string[]>; // Last attempt: question id -> chosen option ids
+  checked: Record<string, boolean>; // Last attempt, graded by submit_quiz: question id -> answered right
+  correct?: Record<string, string[]> | null; // Right option ids per question, only sent once the quiz is passed
+  updated_at: string;
+}
+
+// Table: lesson_notes_shibari (private notes of a student on a lesson; guests keep the same shape in localStorage)
+export interface LessonNote {
+  id: string;
+  lesson_id: number;
+  text: string;
+  video_time: number | null; // Second of the lesson video the note refers to
+  created_at: string;
+  updated_at: string;
+}
+
+export type BookmarkType = 'lesson' | 'article' | 'catalog_video' | 'term';
+
+// Table: bookmarks_shibari (one row per user and bookmarked item)
+export interface Bookmark {
+  item_type: BookmarkType;
+  item_id: string; // Lesson / article / catalog video id, or the (Russian) term of a glossary entry
+  created_at: string;
 }
 
 export enum TabView {
@@ -96,6 +211,18 @@ export interface ProductFAQ {
   answer: string;
 }
 
+// A purchasable option of a product (length / material / colour).
+// Price and images fall back to the parent product when not set.
+export interface ProductVariant {
+  id: string;
+  label: string; // e.g. "8 м · джут · натуральный"
+  label_en?: string;
+  price?: number;
+  images?: string[];
+  stock: number;
+  sku?: string;
+}
+
 // Table: market_shibari
 export interface Product {
   id: number;
@@ -113,7 +240,10 @@ export interface Product {
   faq?: ProductFAQ[];
   created_at?: string;
   is_course?: boolean; // Helper flag to distinguish in cart
+  course_id?: number; // Set on cart snapshots of a course (see utils/cart.courseToProduct)
   category?: string; // New field for dynamic categories
+  stock?: number | null; // Products without variants; null = not tracked
+  variants?: ProductVariant[];
 }
 
 // --- Courses Types ---
@@ -131,11 +261,42 @@ export interface Course {
   video_url: string;
   image_url?: string; // Cover image
   price: number;
-  modules: string[]; // List of module titles
+  modules: string[]; // List of module titles (public outline on the landing page)
   faq?: ProductFAQ[];
   created_at?: string;
 }
 
+// One module of a course as shown in the course player
+export interface CourseModuleContent {
+  id: string;
+  title: string;
+  title_en?: string;
+  video_url: string;
+  description?: string;
+  description_en?: string;
+}
+
+// Table: course_content_shibari (one row per course, readable by entitled users only)
+export interface CourseContent {
+  course_id: number;
+  modules: CourseModuleContent[];
+  updated_at?: string;
+}
+
+export type CourseEntitlementSource = 'purchase' | 'manual';
+
+// Table: course_entitlements_shibari
+// Active while revoked_at is null. Purchase grants point to the order that paid for them.
+export interface CourseEntitlement {
+  id?: number;
+  user_id: string;
+  course_id: number;
+  source: CourseEntitlementSource;
+  order_id?: string | null;
+  granted_at?: string;
+  revoked_at?: string | null;
+}
+
 // --- Catalog Types ---
 
 export interface CatalogSubcategory {
@@ -163,6 +324,7 @@ export interface CatalogVideo {
   title: string;
   description: string;
   video_url: string;
+  chapters?: VideoChapter[] | null;
   // Legacy fields (kept for compatibility during migration)
   category_id?: string; 
   subcategory_id?: string;
@@ -172,28 +334,62 @@ export interface CatalogVideo {
 }
 
 export interface CartItem {
-  product: Product;
+  product: Product; // Snapshot; for a variant line price/images/color come from the variant
   quantity: number;
+  variantId?: string;
 }
 
 export interface OrderItem {
   productId: number;
+  courseId?: number; // Course lines: the purchased course (grants access when the order is completed)
+  variantId?: string;
+  variantLabel?: string;
   title: string;
   quantity: number;
   price: number;
 }
 
+export type OrderStatus = 'new' | 'processing' | 'completed' | 'cancelled';
+
+// Table: orders_shibari (also mirrored into user_shibari.orders_history for members)
 export interface Order {
   id: string;
   date: string; // ISO string
-  total_amount: number;
-  status: 'new' | 'processing' | 'completed' | 'cancelled';
+  total_amount: number; // Amount charged, after discount
+  subtotal_amount?: number; // Before discount
+  promo_code?: string | null;
+  discount_amount?: number;
+  status: OrderStatus;
   items: OrderItem[];
   customer_details?: {
     name: string;
     email: string;
     contact?: string;
   }
+  user_id?: string | null; // null for guest orders
+  updated_at?: string;
+}
+
+// --- Promo Types ---
+
+export type PromoDiscountType = 'percent' | 'fixed';
+
+// Table: promo_codes_shibari
+// Restrictions: when any of product_ids / categories / course_ids is set, the discount
+// only applies to matching cart lines; otherwise it applies to the whole cart.
+export interface PromoCode {
+  id?: number;
+  code: string; // Stored uppercase
+  discount_type: PromoDiscountType;
+  discount_value: number; // Percent (1-100) or USD amount
+  expires_at?: string | null; // ISO date, valid through the end of that day
+  max_uses?: number | null;   // null = unlimited
+  used_count?: number;
+  product_ids?: number[];
+  categories?: string[];
+  course_ids?: number[];
+  is_active: boolean;
+  created_at?: string;
 }
 
 // --- Auth Types ---
@@ -230,6 +426,9 @@ export interface UserProfile {
   
   // History
   orders_history?: Order[];
+
+  // Saved cart (synced across devices)
+  cart?: CartItem[];
 }
 
 // --- Settings Types ---
@@ -248,6 +447,14 @@ export interface MetricRule {
   max?: number; // For range
 }
 
+// A named goal: reached when ALL rules match. `name` is sent to Yandex.Metrica as the goal id.
+export interface MetricGoal {
+  id: string;
+  name: string;   // e.g. 'Gold_User_Tier_1'
+  label?: string; // Human readable title for the admin UI
+  rules: MetricRule[];
+}
+
 export interface SocialResource {
   id: string;
   label: string;
@@ -262,6 +469,7 @@ export interface AppSettings {
   custom_html_body?: string;
   gold_user_threshold_minutes?: number; // Legacy simple threshold
   gold_config?: MetricRule[]; // New flexible config
+  goals_config?: MetricGoal[]; // Multiple named goals (gold_config mirrors 'Gold_User_Tier_1')
   
   // EmailJS Config
   emailjs_service_id?: string;
@@ -1,6 +1,7 @@
 
 import { supabase } from '../supabaseClient';
-import { MetricRule } from '../types';
+import { MetricRule, MetricGoal, MetricType } from '../types';
+import { PlaybackEvent } from './video';
 
 // --- Interfaces for Rich Metrics ---
 
@@ -24,6 +25,13 @@ interface EcommerceMetrics {
   size_guide_viewed: 0 | 1;
 }
 
+interface VideoMetrics {
+  videos_started: number;
+  videos_completed: number;
+  watch_seconds: number; // Actually played, seeks excluded
+  max_watched_percent: number; // Best coverage of a single video, 0-100
+}
+
 interface ContextMetrics {
   device_category: 'mobile' | 'desktop' | 'tablet';
   os_type: string;
@@ -60,6 +68,7 @@ export interface AdvancedSessionMetrics {
   
   behavior: BehavioralMetrics;
   ecommerce: EcommerceMetrics;
+  video: VideoMetrics;
   context: ContextMetrics;
   temporal: TemporalMetrics;
   source: SourceMetrics;
@@ -78,10 +87,136 @@ export interface AdvancedSessionMetrics {
   };
 }
 
+// --- Metric Catalog (used by the Goal rule builder) ---
+
+// Scalar keys of a metrics group. Sets and nested records cannot be compared by rules.
+type ScalarKeys<T> = { [K in keyof T & string]: T[K] extends string | number | boolean | null ? K : never }[keyof T & string];
+
+// Every rule-addressable path. Derived from the interfaces above, so adding a metric
+// without describing it in METRIC_DEFINITIONS is a compile error.
+export type MetricPath =
+  | `behavior.${ScalarKeys<BehavioralMetrics>}`
+  | `ecommerce.${ScalarKeys<EcommerceMetrics>}`
+  | `video.${ScalarKeys<VideoMetrics>}`
+  | `context.${ScalarKeys<ContextMetrics>}`
+  | `temporal.${ScalarKeys<TemporalMetrics>}`
+  | `source.${ScalarKeys<SourceMetrics>}`
+  | `calculated.${ScalarKeys<CalculatedMetrics>}`
+  | '_internal.active_seconds'
+  | '_internal.total_seconds';
+
+export interface MetricDefinition {
+  label: string;
+  types: MetricType[]; // Allowed rule types, the first one is the default
+  options?: string[];  // Known values for 'select'
+}
+
+const NUMERIC: MetricType[] = ['threshold', 'range'];
+const SECONDS: MetricType[] = ['time', 'threshold', 'range'];
+const FLAG: MetricType[] = ['boolean'];
+
+export const METRIC_DEFINITIONS: Record<MetricPath, MetricDefinition> = {
+  'behavior.total_pageviews': { label: 'Просмотры страниц', types: NUMERIC },
+  'behavior.avg_time_per_page': { label: 'Среднее время на странице (сек)', types: SECONDS },
+  'behavior.max_scroll_depth': { label: 'Глубина скролла (%)', types: NUMERIC },
+  'behavior.click_count': { label: 'Клики', types: NUMERIC },
+  'behavior.site_search_usage': { label: 'Использовал поиск', types: FLAG },
+  'behavior.filter_usage': { label: 'Использовал фильтры', types: FLAG },
+
+  'ecommerce.cart_adds_count': { label: 'Добавления в корзину', types: NUMERIC },
+  'ecommerce.cart_removes_count': { label: 'Удаления из корзины', types: NUMERIC },
+  'ecommerce.viewed_product_count': { label: 'Просмотрено товаров', types: NUMERIC },
+  'ecommerce.avg_price_viewed': { label: 'Средняя цена просмотренных ($)', types: NUMERIC },
+  'ecommerce.reviews_read': { label: 'Читал отзывы', types: FLAG },
+  'ecommerce.size_guide_viewed': { label: 'Смотрел гид по размерам', types: FLAG },
+
+  'video.videos_started': { label: 'Запущено видео', types: NUMERIC },
+  'video.videos_completed': { label: 'Досмотрено видео', types: NUMERIC },
+  'video.watch_seconds': { label: 'Время просмотра видео (сек)', types: SECONDS },
+  'video.max_watched_percent': { label: 'Максимум просмотренного в одном видео (%)', types: NUMERIC },
+
+  'context.device_category': { label: 'Устройство', types: ['select'], options: ['mobile', 'desktop', 'tablet'] },
+  'context.os_type': { label: 'ОС', types: ['select'], options: ['Windows', 'macOS', 'Linux', 'Android', 'iOS', 'Unknown'] },
+  'context.browser_language': { label: 'Язык браузера', types: ['select'], options: ['ru-RU', 'en-US', 'en-GB', 'de-DE'] },
+  'context.is_wifi': { label: 'Быстрое соединение (Wi-Fi / 4G)', types: FLAG },
+  'context.geo_city_tier': { label: 'Уровень города', types: ['select'] },
+  'context.screen_resolution': { label: 'Разрешение экрана', types: ['select'] },
+
+  'temporal.hour_of_day': { label: 'Час суток (0-23)', types: ['range', 'threshold'] },
+  'temporal.day_of_week': { label: 'День недели (0 = вс)', types: ['select', 'range'], options: ['0', '1', '2', '3', '4', '5', '6'] },
+  'temporal.is_work_hours': { label: 'Рабочие часы (9-18)', types: FLAG },
+  'temporal.time_since_last_visit_hours': { label: 'Часов с прошлого визита', types: NUMERIC },
+  'temporal.session_start_ts': { label: 'Начало сессии (timestamp)', types: ['range'] },
+
+  'source.traffic_source': { label: 'Источник трафика', types: ['select'], options: ['direct', 'organic_search', 'social', 'referral'] },
+  'source.referrer_domain': { label: 'Домен реферера', types: ['select'] },
+
+  'calculated.cart_to_detail_ratio': { label: 'Корзина / просмотры товара', types: NUMERIC },
+  'calculated.idle_time_ratio': { label: 'Доля простоя (0-1)', types: NUMERIC },
+  'calculated.scroll_speed': { label: 'Скорость скролла (px/сек)', types: NUMERIC },
+
+  '_internal.active_seconds': { label: 'Активное время (сек)', types: SECONDS },
+  '_internal.total_seconds': { label: 'Общее время (сек)', types: SECONDS }
+};
+
+// Goal reported by the legacy single-threshold config (and by `gold_config` rules)
+export const LEGACY_GOLD_GOAL = 'Gold_User_Tier_1';
+
+// --- Rule Evaluation ---
+// Pure helpers, shared by the tracker and the admin preview (live session or stored log_data).
+
+export const getMetricValue = (metrics: any, path: string): any => {
+  return path.split('.').reduce((acc, part) => (acc === undefined || acc === null ? undefined : acc[part]), metrics);
+};
+
+export const evaluateRule = (rule: MetricRule, metrics: any): boolean => {
+  const currentVal = getMetricValue(metrics, rule.metricPath);
+
+  // Safety check for undefined
+  if (currentVal === undefined || currentVal === null) return false;
+
+  switch (rule.type) {
+      case 'range': {
+          // e.g. 5 to 10 pageviews
+          const min = rule.min ?? -Infinity;
+          const max = rule.max ?? Infinity;
+          return (currentVal as number) >= min && (currentVal as number) <= max;
+      }
+
+      case 'threshold':
+          // e.g. scroll depth >= 50%
+          return (currentVal as number) >= (Number(rule.value) || 0);
+
+      case 'time':
+          // e.g. active seconds >= 60
+          return (currentVal as number) >= (Number(rule.value) || 0);
+      
+      case 'select':
+          // e.g. device == 'mobile'
+          return String(currentVal) === String(rule.value);
+      
+      case 'boolean': {
+          // e.g. is_wifi == true
+          // Cast 'true'/'false' strings if needed, though config should have proper bool
+          const ruleBool = rule.value === 'true' || rule.value === true;
+          return !!currentVal === ruleBool;
+      }
+      
+      default:
+          return false;
+  }
+};
+
+// AND logic - all rules must match. A goal without rules never matches here.
+export const evaluateGoal = (goal: MetricGoal, metrics: any): boolean => {
+  return goal.rules.length > 0 && goal.rules.every(rule => evaluateRule(rule, metrics));
+};
+
 class BehaviorTracker {
   private static instance: BehaviorTracker;
   private metrics: AdvancedSessionMetrics;
   
+  private isInitialized: boolean = false;
   private isIdle: boolean = false;
   private idleTimer: any = null;
   private syncInterval: any = null;
@@ -90,10 +225,14 @@ class BehaviorTracker {
   
   // Settings
   private goldThresholdSeconds: number = 300; // Default legacy fallback
-  private goldRules: MetricRule[] = []; // New dynamic rules
+  private goals: MetricGoal[] = [{ id: 'gold', name: LEGACY_GOLD_GOAL, rules: [] }]; // Dynamic rules per goal
   private yandexCounterId: number | null = null;
   private minSessionDuration: number = 30; // Minimum seconds before saving to DB
 
+  // Videos already counted as started / completed in this session
+  private startedVideos = new Set<string>();
+  private completedVideos = new Set<string>();
+
   private constructor() {
     const now = new Date();
     
@@ -127,6 +266,12 @@ class BehaviorTracker {
         reviews_read: 0,
         size_guide_viewed: 0
       },
+      video: {
+        videos_started: 0,
+        videos_completed: 0,
+        watch_seconds: 0,
+        max_watched_percent: 0
+      },
       context: this.detectContext(),
       temporal: {
         hour_of_day: now.getHours(),
@@ -162,17 +307,27 @@ class BehaviorTracker {
     return BehaviorTracker.instance;
   }
 
-  public init(userId: string | null, settings?: { goldThreshold?: number, yandexId?: string, goldConfig?: MetricRule[] }) {
-    this.metrics.userId = userId;
+  public init(userId: string | null, settings?: { goldThreshold?: number, yandexId?: string, goldConfig?: MetricRule[], goals?: MetricGoal[] }) {
+    // Listeners and intervals must be attached only once (React StrictMode runs effects twice)
+    if (this.isInitialized) return;
+    this.isInitialized = true;
+
+    // Keep an id set earlier via identify() if the session resolved before settings loaded
+    if (userId) this.metrics.userId = userId;
     if (settings?.goldThreshold) this.goldThresholdSeconds = settings.goldThreshold * 60;
     if (settings?.yandexId) this.yandexCounterId = parseInt(settings.yandexId);
-    if (settings?.goldConfig && Array.isArray(settings.goldConfig)) {
-        this.goldRules = settings.goldConfig;
+    if (settings?.goals && Array.isArray(settings.goals) && settings.goals.length > 0) {
+        this.goals = settings.goals;
+    } else if (settings?.goldConfig && Array.isArray(settings.goldConfig)) {
+        this.goals = [{ id: 'gold', name: LEGACY_GOLD_GOAL, rules: settings.goldConfig }];
     }
 
     console.log("🕵️ Advanced Tracker Online. Session:", this.metrics.sessionId);
     this.startTracking();
-    this.trackPageView(window.location.pathname); // Track initial page
+    // Track initial page (unless the router already reported it)
+    if (this.metrics._internal.page_history.length === 0) {
+        this.trackPageView(window.location.pathname);
+    }
   }
 
   // --- Getter for UI Debugging ---
@@ -236,6 +391,23 @@ class BehaviorTracker {
     this.metrics.behavior.filter_usage = 1;
   }
 
+  public trackVideo(event: PlaybackEvent) {
+    const video = this.metrics.video;
+    if (event.type === 'play' && !this.startedVideos.has(event.url)) {
+        this.startedVideos.add(event.url);
+        video.videos_started++;
+    }
+    if (event.type === 'ended' && !this.completedVideos.has(event.url)) {
+        this.completedVideos.add(event.url);
+        video.videos_completed++;
+    }
+    if (event.played > 0) {
+        video.watch_seconds = Math.round((video.watch_seconds + event.played) * 10) / 10;
+        this.resetIdleTimer(); // Watching is activity even without mouse movement
+    }
+    video.max_watched_percent = Math.max(video.max_watched_percent, event.watchedPercent);
+  }
+
   // --- Internal Logic ---
 
   private detectContext(): ContextMetrics {
@@ -343,7 +515,7 @@ class BehaviorTracker {
 
     // 5. Intervals
     this.syncInterval = setInterval(() => this.syncToSupabase(), 30000); // 30 sec sync
-    this.goldCheckInterval = setInterval(() => this.checkGoldStatus(), 10000); // 10 sec check
+    this.goldCheckInterval = setInterval(() => this.checkGoals(), 10000); // 10 sec check
 
     window.addEventListener('beforeunload', () => this.syncToSupabase());
   }
@@ -371,69 +543,31 @@ class BehaviorTracker {
     }
   }
 
-  private getNestedValue(obj: any, path: string): any {
-      return path.split('.').reduce((acc, part) => acc && acc[part], obj);
-  }
+  private checkGoals() {
+    let reachedAny = false;
 
-  private checkGoldStatus() {
-    if (this.metrics._internal.goals_reached.includes('Gold_User_Tier_1')) return;
-    
-    let isGold = false;
+    this.goals.forEach(goal => {
+        if (this.metrics._internal.goals_reached.includes(goal.name)) return;
 
-    if (this.goldRules.length > 0) {
-        // Dynamic Rules Check (AND logic - all must match)
-        isGold = this.goldRules.every(rule => {
-            const currentVal = this.getNestedValue(this.metrics, rule.metricPath);
-            
-            // Safety check for undefined
-            if (currentVal === undefined || currentVal === null) return false;
-
-            switch (rule.type) {
-                case 'range':
-                    // e.g. 5 to 10 pageviews
-                    const min = rule.min ?? -Infinity;
-                    const max = rule.max ?? Infinity;
-                    return (currentVal as number) >= min && (currentVal as number) <= max;
-
-                case 'threshold':
-                    // e.g. scroll depth >= 50%
-                    return (currentVal as number) >= (Number(rule.value) || 0);
-
-                case 'time':
-                    // e.g. active seconds >= 60
-                    return (currentVal as number) >= (Number(rule.value) || 0);
-                
-                case 'select':
-                    // e.g. device == 'mobile'
-                    return String(currentVal) === String(rule.value);
-                
-                case 'boolean':
-                    // e.g. is_wifi == true
-                    // Cast 'true'/'false' strings if needed, though config should have proper bool
-                    const ruleBool = rule.value === 'true' || rule.value === true;
-                    return !!currentVal === ruleBool;
-                
-                default:
-                    return false;
-            }
-        });
+        const isReached = goal.rules.length > 0
+            ? evaluateGoal(goal, this.metrics)
+            // Fallback to legacy single threshold logic
+            : goal.name === LEGACY_GOLD_GOAL && this.metrics._internal.active_seconds >= this.goldThresholdSeconds;
 
-    } else {
-        // Fallback to legacy single threshold logic
-        isGold = this.metrics._internal.active_seconds >= this.goldThresholdSeconds;
-    }
+        if (!isReached) return;
+
+        console.log(`🏆 Goal Reached: ${goal.name} (Rules Matched)`);
+        this.metrics._internal.goals_reached.push(goal.name);
+        reachedAny = true;
 
-    if (isGold) {
-        console.log("🏆 Gold User Threshold Reached! (Rules Matched)");
-        this.metrics._internal.goals_reached.push('Gold_User_Tier_1');
-        
         // @ts-ignore
         if (typeof window.ym !== 'undefined' && this.yandexCounterId) {
              // @ts-ignore
-             window.ym(this.yandexCounterId, 'reachGoal', 'Gold_User_Tier_1');
+             window.ym(this.yandexCounterId, 'reachGoal', goal.name);
         }
-        this.syncToSupabase();
-    }
+    });
+
+    if (reachedAny) this.syncToSupabase();
   }
 
   private async syncToSupabase() {
@@ -459,6 +593,7 @@ class BehaviorTracker {
         _internal: {
             // Only save essential internal stats to avoid bloat
             active_seconds: this.metrics._internal.active_seconds,
+            total_seconds: this.metrics._internal.total_seconds,
             goals_reached: this.metrics._internal.goals_reached
         }
     };
@@ -0,0 +1,75 @@
+import { supabase } from '../supabaseClient';
+
+/**
+ * Account credential flows on top of Supabase Auth.
+ *
+ * Emailed links (password reset, magic link, email change) return to the site root;
+ * the Supabase client picks the session up from the URL and App reacts to the auth event.
+ * Redirect URLs must be allowed in Supabase → Authentication → URL Configuration.
+ */
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const authRedirectUrl = () => window.location.origin;
+
+export const updatePassword = async (password: string) => {
+  if (!supabase) throw new Error("Supabase client not initialized");
+  const { error } = await supabase.auth.updateUser({ password });
+  if (error) throw error;
+};
+
+export const sendPasswordReset = async (email: string) => {
+  if (!supabase) throw new Error("Supabase client not initialized");
+  const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo: authRedirectUrl() });
+  if (error) throw error;
+};
+
+// Re-checks the current password before setting a new one, so an unattended session
+// cannot be used to take over the account. Returns false if the current password is wrong.
+export const changePassword = async (email: string, currentPassword: string, newPassword: string): Promise<boolean> => {
+  if (!supabase) throw new Error("Supabase client not initialized");
+  const { error: verifyError } = await supabase.auth.signInWithPassword({ email, password: currentPassword });
+  if (verifyError) return false;
+  await updatePassword(newPassword);
+  return true;
+};
+
+// Supabase sends confirmation links to the old and the new address; the email
+// only changes after they are confirmed (App then syncs user_shibari.email).
+export const requestEmailChange = async (newEmail: string) => {
+  if (!supabase) throw new Error("Supabase client not initialized");
+  const { error } = await supabase.auth.updateUser({ email: newEmail.trim() }, { emailRedirectTo: authRedirectUrl() });
+  if (error) throw error;
+};
+
+// --- Account deletion ---
+// The client cannot delete auth users, so a SECURITY DEFINER function removes the caller's
+// rows from every table that holds personal data and then the auth user itself.
+export const ACCOUNT_DELETE_SQL = `
+CREATE OR REPLACE FUNCTION public.delete_my_account()
+RETURNS void LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  uid uuid := auth.uid();
+BEGIN
+  IF uid IS NULL THEN RAISE EXCEPTION 'Not signed in'; END IF;
+  DELETE FROM public.orders_shibari WHERE user_id = uid;
+  DELETE FROM public.course_entitlements_shibari WHERE user_id = uid;
+  DELETE FROM public.user_behavior_logs_shibari WHERE user_id::text = uid::text;
+  DELETE FROM public.user_shibari WHERE id = uid;
+  DELETE FROM auth.users WHERE id = uid; -- cascades to user_roles_shibari and lesson_progress_shibari
+END $$;
+
+REVOKE ALL ON FUNCTION public.delete_my_account() FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.delete_my_account() TO authenticated;
+`.trim();
+
+export const deleteMyAccount = async () => {
+  if (!supabase) throw new Error("Supabase client not initialized");
+  const { error } = await supabase.rpc('delete_my_account');
+  if (error) {
+      console.error(`Account deletion failed: ${error.message}\nSQL:\n${ACCOUNT_DELETE_SQL}`);
+      throw error;
+  }
+  // The session belongs to a user that no longer exists: only drop it locally
+  await supabase.auth.signOut({ scope: 'local' });
+};
@@ -0,0 +1,174 @@
+import { supabase } from '../supabaseClient';
+import { CartItem, Product, ProductVariant, Course } from '../types';
+
+/**
+ * Cart persistence.
+ *
+ * Guests keep the cart in localStorage. Members keep it in `user_shibari.cart`;
+ * on sign-in the guest cart is merged into the profile cart and the local copy is cleared.
+ * Items are stored with a product snapshot and reconciled against the loaded catalog
+ * (deleted products are dropped, prices and titles are refreshed).
+ *
+ * A cart line is identified by product id + variant id, so two lengths of the same rope
+ * are separate lines. Courses are sold through the same cart as a product snapshot that
+ * carries `course_id`; their lines are keyed by course id.
+ */
+
+export const CART_STORAGE_KEY = 'shibari_cart';
+
+export const CART_REPAIR_SQL = `ALTER TABLE public.user_shibari ADD COLUMN IF NOT EXISTS cart jsonb DEFAULT '[]';`;
+
+// Carts saved before course_id existed stored courses as id = 90000 + course id, color "Video Course"
+const LEGACY_COURSE_ID_OFFSET = 90000;
+
+export const courseIdOf = (product: Product): number | null => {
+  if (typeof product.course_id === 'number') return product.course_id;
+  if (product.is_course || product.color === 'Video Course') return product.id - LEGACY_COURSE_ID_OFFSET;
+  return null;
+};
+
+export const isCourseItem = (product: Product) => courseIdOf(product) !== null;
+
+const FALLBACK_COURSE_IMAGE = "https://images.unsplash.com/photo-1533561052600-4b68e9255416?auto=format&fit=crop&q=80&w=800";
+
+// Cart snapshot of a course
+export const courseToProduct = (course: Course): Product => {
+  let thumb = course.image_url;
+
+  // Fallback to youtube thumbnail if no image uploaded
+  if (!thumb && course.video_url) {
+      const videoId = course.video_url.split('v=')[1]?.split('&')[0];
+      if (videoId) thumb = `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`;
+  }
+
+  return {
+      id: course.id,
+      course_id: course.id,
+      is_course: true,
+      title: course.title,
+      title_en: course.title_en,
+      price: course.price,
+      color: course.author,
+      description_short: course.description_short,
+      description_short_en: course.description_short_en,
+      description_long: course.description_long,
+      description_long_en: course.description_long_en,
+      images: [thumb || FALLBACK_COURSE_IMAGE],
+      video_url: course.video_url
+  };
+};
+
+export const lineKey = (product: Product, variantId?: string) => {
+  const courseId = courseIdOf(product);
+  if (courseId !== null) return `course:${courseId}`;
+  return variantId ? `${product.id}:${variantId}` : String(product.id);
+};
+export const cartLineKey = (item: CartItem) => lineKey(item.product, item.variantId);
+
+// Product snapshot stored in a cart line. For a variant, its price/images/stock win and
+// its label goes into `color` (the subtitle shown by the cart and the order email).
+export const productForVariant = (product: Product, variant?: ProductVariant): Product => {
+  const { variants, ...base } = product;
+  if (!variant) return base;
+  return {
+      ...base,
+      price: variant.price ?? product.price,
+      images: variant.images?.length ? variant.images : product.images,
+      color: variant.label,
+      color_en: variant.label_en,
+      stock: variant.stock
+  };
+};
+
+// Drops anything that does not look like a cart line (old formats, manual edits)
+const sanitize = (raw: any): CartItem[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(item =>
+      item && item.product && typeof item.product.id === 'number' &&
+      typeof item.quantity === 'number' && item.quantity > 0
+  ).map(item => ({
+      product: item.product,
+      quantity: Math.floor(item.quantity),
+      ...(typeof item.variantId === 'string' ? { variantId: item.variantId } : {})
+  }));
+};
+
+export const loadGuestCart = (): CartItem[] => {
+  try {
+      return sanitize(JSON.parse(localStorage.getItem(CART_STORAGE_KEY) || '[]'));
+  } catch (e) {
+      return [];
+  }
+};
+
+export const saveGuestCart = (items: CartItem[]) => {
+  try {
+      if (items.length) localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(items));
+      else localStorage.removeItem(CART_STORAGE_KEY);
+  } catch (e) {
+      // Storage full or disabled (private mode) — the cart just won't survive a reload
+  }
+};
+
+export const clearGuestCart = () => saveGuestCart([]);
+
+export const loadProfileCart = (raw: unknown): CartItem[] => sanitize(raw);
+
+export const saveProfileCart = async (userId: string, items: CartItem[]) => {
+  if (!supabase) return;
+  const { error } = await supabase.from('user_shibari').update({ cart: items }).eq('id', userId);
+  if (error) {
+      console.error(`Cart sync failed: ${error.message}\nSQL:\n${CART_REPAIR_SQL}`);
+  }
+};
+
+// Guest lines are added on top of the profile cart (same product and variant -> quantities summed)
+export const mergeCarts = (base: CartItem[], incoming: CartItem[]): CartItem[] => {
+  const merged = base.map(item => ({ ...item }));
+  incoming.forEach(item => {
+      const existing = merged.find(i => cartLineKey(i) === cartLineKey(item));
+      if (existing) existing.quantity += item.quantity;
+      else merged.push({ ...item });
+  });
+  return merged;
+};
+
+export interface CartReconcileResult {
+  items: CartItem[];
+  removed: string[];  // Titles of items that no longer exist (or are sold out)
+  repriced: string[]; // Titles of items whose price changed since they were added
+}
+
+export const reconcileCart = (items: CartItem[], products: Product[], courses: Course[]): CartReconcileResult => {
+  const result: CartReconcileResult = { items: [], removed: [], repriced: [] };
+
+  items.forEach(item => {
+      let fresh: Product | undefined;
+
+      const courseId = courseIdOf(item.product);
+      if (courseId !== null) {
+          // Rebuilt from the catalog, which also upgrades legacy snapshots
+          const course = courses.find(c => c.id === courseId);
+          if (course) fresh = courseToProduct(course);
+      } else {
+          const product = products.find(p => p.id === item.product.id);
+          const variant = item.variantId ? product?.variants?.find(v => v.id === item.variantId) : undefined;
+          // A variant line whose variant was deleted is gone, even if the product remains
+          if (product && (!item.variantId || variant)) fresh = productForVariant(product, variant);
+      }
+
+      // Quantities above the current stock are trimmed; sold-out lines are removed
+      const stock = fresh?.stock;
+      // A course is bought once
+      const quantity = courseId !== null ? 1 : typeof stock === 'number' ? Math.min(item.quantity, stock) : item.quantity;
+
+      if (!fresh || quantity < 1) {
+          result.removed.push(item.product.title + (item.variantId && item.product.color ? ` (${item.product.color})` : ''));
+          return;
+      }
+      if ((fresh.price || 0) !== (item.product.price || 0)) result.repriced.push(fresh.title);
+      result.items.push({ product: fresh, quantity, ...(item.variantId ? { variantId: item.variantId } : {}) });
+  });
+
+  return result;
+};
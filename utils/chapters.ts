@@ -0,0 +1,63 @@
+import { VideoChapter } from '../types';
+
+/**
+ * Video chapters.
+ *
+ * Lessons and catalog videos keep their chapters in a `chapters` jsonb column: the start time
+ * in seconds plus a Russian and an optional English title. Lesson paragraphs link into the video
+ * with a timestamp in square brackets, e.g. "[12:34] Второй оборот верёвки".
+ */
+
+export const chaptersColumnSql = (table: string) =>
+  `ALTER TABLE public.${table} ADD COLUMN IF NOT EXISTS chapters jsonb DEFAULT '[]'::jsonb;`;
+
+// "1:02:03", "12:34" or plain seconds; null when it is not a time
+export const parseClock = (value: string): number | null => {
+  const text = value.trim();
+  if (/^\d+$/.test(text)) return Number(text);
+  const match = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[3]) > 59 || (match[1] !== undefined && Number(match[2]) > 59)) return null;
+  return Number(match[1] || 0) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+// Chapters as stored may be missing, unordered or half-filled by the editor
+export const sanitizeChapters = (raw: unknown): VideoChapter[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+      .filter((c: any) => c && Number.isFinite(Number(c.start)) && typeof c.title === 'string' && c.title.trim())
+      .map((c: any) => ({ start: Math.max(0, Math.floor(Number(c.start))), title: c.title.trim(), title_en: c.title_en?.trim() || null }))
+      .sort((a, b) => a.start - b.start);
+};
+
+export const chapterTitle = (chapter: VideoChapter, lang: 'ru' | 'en') =>
+  lang === 'en' && chapter.title_en ? chapter.title_en : chapter.title;
+
+// Chapter playing at the given time, -1 before the first one
+export const activeChapterIndex = (chapters: VideoChapter[], time: number): number => {
+  let index = -1;
+  chapters.forEach((chapter, i) => {
+      if (chapter.start <= time) index = i;
+  });
+  return index;
+};
+
+// --- Timestamps in lesson text ---
+
+const TIMESTAMP_PATTERN = /\[((?:\d+:)?\d{1,2}:\d{2})\]/g;
+
+export type TextPart = string | { seconds: number; label: string };
+
+// Splits a paragraph into text and timestamp links; malformed brackets stay text
+export const splitTimestamps = (text: string): TextPart[] => {
+  const parts: TextPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(TIMESTAMP_PATTERN)) {
+      const seconds = parseClock(match[1]);
+      if (seconds === null) continue;
+      if (match.index! > last) parts.push(text.slice(last, match.index));
+      parts.push({ seconds, label: match[1] });
+      last = match.index! + match[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+};
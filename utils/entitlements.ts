@@ -0,0 +1,163 @@
+import { supabase } from '../supabaseClient';
+import { Course, CourseEntitlement, CourseEntitlementSource, CourseModuleContent, Order } from '../types';
+
+/**
+ * Course access.
+ *
+ * An entitlement links a user to a course. Purchases are granted when the order is
+ * completed (paid) and revoked when that order is cancelled; admins can grant or revoke
+ * access by hand. Revoking keeps the row (revoked_at is set) so the history stays visible.
+ *
+ * Module videos live in `course_content_shibari`, apart from the public course row,
+ * so the catalog never ships the paid content to visitors. RLS lets a student read only
+ * their own entitlements and the content of courses they hold an active one for;
+ * granting access and editing content need the admin role (utils/roles, run ROLES_REPAIR_SQL first).
+ */
+
+export const ENTITLEMENTS_TABLE = 'course_entitlements_shibari';
+export const COURSE_CONTENT_TABLE = 'course_content_shibari';
+
+export const ENTITLEMENTS_REPAIR_SQL = `
+CREATE TABLE IF NOT EXISTS public.course_entitlements_shibari (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    course_id bigint NOT NULL,
+    source text NOT NULL DEFAULT 'manual',
+    order_id text,
+    granted_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
+    revoked_at timestamp with time zone,
+    UNIQUE (user_id, course_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.course_content_shibari (
+    course_id bigint PRIMARY KEY,
+    modules jsonb DEFAULT '[]',
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.course_entitlements_shibari ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.course_content_shibari ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all" ON public.course_entitlements_shibari;
+DROP POLICY IF EXISTS "Allow all" ON public.course_content_shibari;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'course_entitlements_shibari' AND policyname = 'Read own entitlements') THEN
+    CREATE POLICY "Read own entitlements" ON public.course_entitlements_shibari FOR SELECT USING (user_id = auth.uid() OR public.is_shibari_admin());
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'course_entitlements_shibari' AND policyname = 'Admins manage entitlements') THEN
+    CREATE POLICY "Admins manage entitlements" ON public.course_entitlements_shibari FOR ALL USING (public.is_shibari_admin()) WITH CHECK (public.is_shibari_admin());
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'course_content_shibari' AND policyname = 'Entitled read content') THEN
+    CREATE POLICY "Entitled read content" ON public.course_content_shibari FOR SELECT USING (
+      public.is_shibari_admin() OR EXISTS (
+        SELECT 1 FROM public.course_entitlements_shibari e
+         WHERE e.course_id = course_content_shibari.course_id AND e.user_id = auth.uid() AND e.revoked_at IS NULL
+      )
+    );
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'course_content_shibari' AND policyname = 'Admins manage content') THEN
+    CREATE POLICY "Admins manage content" ON public.course_content_shibari FOR ALL USING (public.is_shibari_admin()) WITH CHECK (public.is_shibari_admin());
+  END IF;
+END $$;
+`.trim();
+
+// Course ids of the user's active entitlements
+export const fetchEntitledCourseIds = async (userId: string): Promise<number[]> => {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+      .from(ENTITLEMENTS_TABLE)
+      .select('course_id')
+      .eq('user_id', userId)
+      .is('revoked_at', null);
+  if (error) throw error;
+  return (data || []).map((row: { course_id: number }) => Number(row.course_id));
+};
+
+// All entitlements of a course (active and revoked), newest first
+export const fetchCourseEntitlements = async (courseId: number): Promise<CourseEntitlement[]> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase
+      .from(ENTITLEMENTS_TABLE)
+      .select('*')
+      .eq('course_id', courseId)
+      .order('granted_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as CourseEntitlement[];
+};
+
+export const grantCourseAccess = async (userId: string, courseId: number, source: CourseEntitlementSource, orderId: string | null = null) => {
+  if (!supabase) throw new Error("No database connection");
+  const { error } = await supabase
+      .from(ENTITLEMENTS_TABLE)
+      .upsert({
+          user_id: userId,
+          course_id: courseId,
+          source,
+          order_id: orderId,
+          granted_at: new Date().toISOString(),
+          revoked_at: null
+      }, { onConflict: 'user_id,course_id' });
+  if (error) throw error;
+};
+
+export const revokeCourseAccess = async (userId: string, courseId: number) => {
+  if (!supabase) throw new Error("No database connection");
+  const { error } = await supabase
+      .from(ENTITLEMENTS_TABLE)
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('course_id', courseId)
+      .is('revoked_at', null);
+  if (error) throw error;
+};
+
+// Applies an order status to the course access it paid for.
+// Cancelling only revokes grants made by this order, so a manual grant survives.
+export const syncOrderEntitlements = async (order: Order) => {
+  if (!supabase || !order.user_id) return;
+  const courseIds = order.items.map(item => item.courseId).filter((id): id is number => typeof id === 'number');
+  if (!courseIds.length) return;
+
+  if (order.status === 'completed') {
+      for (const courseId of courseIds) {
+          await grantCourseAccess(order.user_id, courseId, 'purchase', order.id);
+      }
+  } else if (order.status === 'cancelled') {
+      const { error } = await supabase
+          .from(ENTITLEMENTS_TABLE)
+          .update({ revoked_at: new Date().toISOString() })
+          .eq('user_id', order.user_id)
+          .eq('order_id', order.id)
+          .eq('source', 'purchase')
+          .is('revoked_at', null);
+      if (error) throw error;
+  }
+};
+
+// --- Content ---
+
+const newModuleId = () => Math.random().toString(36).substring(2, 8);
+
+// Modules for the player. Courses created before content existed get one empty module per outline title.
+export const fetchCourseContent = async (course: Course): Promise<CourseModuleContent[]> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase
+      .from(COURSE_CONTENT_TABLE)
+      .select('modules')
+      .eq('course_id', course.id)
+      .maybeSingle();
+  if (error) throw error;
+  if (data && Array.isArray(data.modules)) return data.modules as CourseModuleContent[];
+  return (course.modules || []).map(title => ({ id: newModuleId(), title, video_url: '' }));
+};
+
+export const saveCourseContent = async (courseId: number, modules: CourseModuleContent[]) => {
+  if (!supabase) throw new Error("No database connection");
+  const { error } = await supabase
+      .from(COURSE_CONTENT_TABLE)
+      .upsert({ course_id: courseId, modules, updated_at: new Date().toISOString() }, { onConflict: 'course_id' });
+  if (error) throw error;
+};
+
+export const createCourseModule = (): CourseModuleContent => ({ id: newModuleId(), title: '', video_url: '' });
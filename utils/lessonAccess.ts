@@ -0,0 +1,134 @@
+import { Lesson, LessonAccessLevel, UserProfile } from '../types';
+
+/**
+ * Lesson access tiers.
+ *
+ * Every lesson declares who can open it: everyone, signed-in students, students with an
+ * active subscription (`user_shibari.is_subscription_active`) or owners of a specific course.
+ * Lessons without a level keep the original rule: the first 4 are free, the rest need an account.
+ * Admins can open every lesson.
+ *
+ * The tiers are enforced by the database: students read lessons only through `get_lessons()`,
+ * which blanks the video, text and chapters of every lesson the caller cannot open
+ * (`can_open_lesson` mirrors getLessonLock below and the quiz gate of utils/quizzes), and subtitles
+ * follow the same rule. Guests can't pass a quiz on the server, so lessons behind a gate need an account.
+ * `getLessonLock` only decides which lock panel / upsell the browser shows.
+ * Only admins can switch a subscription on (utils/roles, run ROLES_REPAIR_SQL first).
+ */
+
+export const LESSON_ACCESS_SQL = `
+ALTER TABLE public.lessons_shibari ADD COLUMN IF NOT EXISTS access_level text;
+ALTER TABLE public.lessons_shibari ADD COLUMN IF NOT EXISTS access_course_id bigint;
+ALTER TABLE public.user_shibari ADD COLUMN IF NOT EXISTS is_subscription_active boolean DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.can_open_lesson(l public.lessons_shibari)
+RETURNS boolean LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  level text := l.access_level;
+BEGIN
+  IF public.is_shibari_admin() THEN RETURN true; END IF;
+  IF level IS NULL OR level NOT IN ('public', 'registered', 'subscriber', 'course') THEN
+    level := CASE WHEN (
+      SELECT count(*) FROM public.lessons_shibari o
+       WHERE o.status IS DISTINCT FROM 'draft'
+         AND (COALESCE(o.position, o.id), o.id) < (COALESCE(l.position, l.id), l.id)
+    ) < 4 THEN 'public' ELSE 'registered' END;
+  END IF;
+  IF level <> 'public' THEN
+    IF auth.uid() IS NULL THEN RETURN false; END IF;
+    IF level = 'subscriber' AND NOT EXISTS (
+      SELECT 1 FROM public.user_shibari WHERE id = auth.uid() AND is_subscription_active
+    ) THEN RETURN false; END IF;
+    IF level = 'course' AND NOT EXISTS (
+      SELECT 1 FROM public.course_entitlements_shibari
+       WHERE user_id = auth.uid() AND course_id = l.access_course_id AND revoked_at IS NULL
+    ) THEN RETURN false; END IF;
+  END IF;
+  -- An earlier gating quiz the caller hasn't passed keeps the lesson closed (once QUIZZES_REPAIR_SQL ran)
+  IF to_regclass('public.lesson_quizzes_shibari') IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM public.lesson_quizzes_shibari q
+        JOIN public.lessons_shibari o ON o.id = q.lesson_id
+       WHERE q.gates_next AND jsonb_array_length(q.questions) > 0
+         AND o.status IS DISTINCT FROM 'draft'
+         AND (COALESCE(o.position, o.id), o.id) < (COALESCE(l.position, l.id), l.id)
+         AND NOT EXISTS (
+           SELECT 1 FROM public.quiz_results_shibari r
+            WHERE r.user_id = auth.uid() AND r.lesson_id = q.lesson_id AND r.passed
+         )
+    ) THEN RETURN false; END IF;
+  END IF;
+  RETURN true;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.can_open_lesson_id(lesson_id bigint)
+RETURNS boolean LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT COALESCE((SELECT public.can_open_lesson(l) FROM public.lessons_shibari l WHERE l.id = lesson_id AND (l.status IS DISTINCT FROM 'draft' OR public.is_shibari_admin())), false);
+$$;
+
+-- Published lessons (drafts too for admins); locked ones come without video, text and chapters
+CREATE OR REPLACE FUNCTION public.get_lessons()
+RETURNS SETOF public.lessons_shibari LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  l public.lessons_shibari;
+BEGIN
+  FOR l IN SELECT * FROM public.lessons_shibari WHERE status IS DISTINCT FROM 'draft' OR public.is_shibari_admin() ORDER BY id LOOP
+    IF NOT public.can_open_lesson(l) THEN
+      l.video_url := NULL;
+      l.video_url_en := NULL;
+      l.content := NULL;
+      l.content_en := NULL;
+      l.chapters := NULL;
+    END IF;
+    RETURN NEXT l;
+  END LOOP;
+END $$;
+
+-- Subscriptions are switched by admins (or from the SQL editor); values sent by students are ignored
+CREATE OR REPLACE FUNCTION public.shibari_guard_subscription() RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_shibari_admin() THEN
+    NEW.is_subscription_active := CASE WHEN TG_OP = 'UPDATE' THEN OLD.is_subscription_active ELSE false END;
+  END IF;
+  RETURN NEW;
+END $$;
+DROP TRIGGER IF EXISTS user_shibari_subscription ON public.user_shibari;
+CREATE TRIGGER user_shibari_subscription BEFORE INSERT OR UPDATE ON public.user_shibari
+  FOR EACH ROW EXECUTE FUNCTION public.shibari_guard_subscription();
+`.trim();
+
+const DEFAULT_FREE_LESSONS = 4;
+
+export const LESSON_ACCESS_LEVELS: LessonAccessLevel[] = ['public', 'registered', 'subscriber', 'course'];
+
+// Why a lesson is closed to the current visitor; decides which upsell is shown.
+// 'quiz' comes from an earlier lesson's quiz that has to be passed first (utils/quizzes).
+export type LessonLockReason = 'login' | 'subscription' | 'course' | 'quiz';
+
+export interface LessonLock {
+  reason: LessonLockReason;
+  courseId?: number | null;
+  lessonId?: number; // 'quiz': the lesson whose quiz unlocks this one
+}
+
+export const lessonAccessLevel = (lesson: Lesson, index: number): LessonAccessLevel => {
+  if (lesson.access_level && LESSON_ACCESS_LEVELS.includes(lesson.access_level)) return lesson.access_level;
+  return index < DEFAULT_FREE_LESSONS ? 'public' : 'registered';
+};
+
+// null -> the lesson is open
+export const getLessonLock = (
+  lesson: Lesson,
+  index: number,
+  userProfile: UserProfile | null,
+  entitledCourseIds: number[]
+): LessonLock | null => {
+  const level = lessonAccessLevel(lesson, index);
+  if (level === 'public' || userProfile?.system_role === 'admin') return null;
+  if (!userProfile) return { reason: 'login' };
+  if (level === 'subscriber' && !userProfile.is_subscription_active) return { reason: 'subscription' };
+  if (level === 'course' && !(lesson.access_course_id && entitledCourseIds.includes(lesson.access_course_id))) {
+      return { reason: 'course', courseId: lesson.access_course_id || null };
+  }
+  return null;
+};
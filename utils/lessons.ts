@@ -0,0 +1,176 @@
+import { supabase } from '../supabaseClient';
+import { Lesson } from '../types';
+import { LESSON_ACCESS_SQL } from './lessonAccess';
+import { chaptersColumnSql } from './chapters';
+
+/**
+ * Lessons table.
+ *
+ * Lessons are shown by `position` (then id, for rows created before positions existed).
+ * A lesson starts as a draft and only reaches students once it is published.
+ * Edits are saved only if the row still has the `updated_at` the editor loaded,
+ * so one admin cannot silently overwrite another admin's changes.
+ * Only admins read and write the table directly (utils/roles, run ROLES_REPAIR_SQL first);
+ * students get lessons from `get_lessons()`, which leaves drafts out and blanks the lessons
+ * their access tier does not open (utils/lessonAccess).
+ */
+
+export const LESSONS_TABLE = 'lessons_shibari';
+
+export const LESSONS_REPAIR_SQL = `
+CREATE TABLE IF NOT EXISTS public.lessons_shibari (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    title text,
+    video_url text,
+    content text[],
+    related_articles integer[] DEFAULT '{}',
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now())
+);
+ALTER TABLE public.lessons_shibari ADD COLUMN IF NOT EXISTS related_articles integer[] DEFAULT '{}';
+ALTER TABLE public.lessons_shibari ADD COLUMN IF NOT EXISTS title_en text;
+ALTER TABLE public.lessons_shibari ADD COLUMN IF NOT EXISTS video_url_en text;
+ALTER TABLE public.lessons_shibari ADD COLUMN IF NOT EXISTS content_en text[];
+ALTER TABLE public.lessons_shibari ADD COLUMN IF NOT EXISTS position integer;
+ALTER TABLE public.lessons_shibari ADD COLUMN IF NOT EXISTS status text DEFAULT 'published';
+ALTER TABLE public.lessons_shibari ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone DEFAULT timezone('utc'::text, now());
+${chaptersColumnSql('lessons_shibari')}
+${LESSON_ACCESS_SQL}
+ALTER TABLE public.lessons_shibari ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Allow all" ON public.lessons_shibari;
+DROP POLICY IF EXISTS "Read published lessons" ON public.lessons_shibari;
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'lessons_shibari' AND policyname = 'Admins manage lessons') THEN
+    CREATE POLICY "Admins manage lessons" ON public.lessons_shibari FOR ALL USING (public.is_shibari_admin()) WITH CHECK (public.is_shibari_admin());
+  END IF;
+END $$;
+`.trim();
+
+export const isLessonPublished = (lesson: Lesson) => lesson.status !== 'draft';
+
+// --- Translations ---
+// English fields sit next to the Russian ones (`title_en`, ...); App.getData falls back to Russian
+// when an English field is empty, so a missing English video simply reuses the Russian one.
+
+export const TRANSLATED_FIELDS = ['title', 'video_url', 'content'] as const;
+export type TranslatedField = typeof TRANSLATED_FIELDS[number];
+
+// translated: both languages filled; partial: fewer English paragraphs than Russian;
+// missing: Russian only; fallback: no English video (the Russian one is shown); empty: no Russian text
+export type TranslationState = 'translated' | 'partial' | 'missing' | 'fallback' | 'empty';
+
+const filledCount = (value: unknown): number => {
+  if (Array.isArray(value)) return value.filter(p => typeof p === 'string' && p.trim()).length;
+  return typeof value === 'string' && value.trim() ? 1 : 0;
+};
+
+export const translationState = (lesson: Lesson, field: TranslatedField): TranslationState => {
+  const ru = filledCount(lesson[field]);
+  const en = filledCount(lesson[`${field}_en` as keyof Lesson]);
+  if (!ru) return en ? 'translated' : 'empty';
+  if (!en) return field === 'video_url' ? 'fallback' : 'missing';
+  if (en < ru) return 'partial';
+  return 'translated';
+};
+
+export const isMissingEnglish = (lesson: Lesson) =>
+  TRANSLATED_FIELDS.some(field => {
+      const state = translationState(lesson, field);
+      return state === 'missing' || state === 'partial';
+  });
+
+export const sortLessons = (lessons: Lesson[]): Lesson[] =>
+  [...lessons].sort((a, b) => (a.position ?? a.id) - (b.position ?? b.id) || a.id - b.id);
+
+// Fields copied by "duplicate" and sent on insert (id, position and status are set by the caller).
+// Optional columns are only sent when set, so older tables without them still accept the row.
+const lessonPayload = (lesson: Partial<Lesson>) => {
+  const payload: Record<string, unknown> = {
+      title: lesson.title || '',
+      video_url: lesson.video_url || '',
+      content: lesson.content || [],
+      related_articles: lesson.related_articles || []
+  };
+  (['title_en', 'video_url_en', 'content_en', 'access_level', 'access_course_id'] as const).forEach(field => {
+      if (lesson[field]) payload[field] = lesson[field];
+  });
+  if (lesson.chapters?.length) payload.chapters = lesson.chapters;
+  return payload;
+};
+
+const nextPosition = (lessons: Lesson[]) =>
+  lessons.reduce((max, l) => Math.max(max, l.position ?? l.id), 0) + 1;
+
+export const createLesson = async (lessons: Lesson[], title: string): Promise<Lesson> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase
+      .from(LESSONS_TABLE)
+      .insert([{ ...lessonPayload({ title }), position: nextPosition(lessons), status: 'draft' }])
+      .select()
+      .single();
+  if (error) throw error;
+  return data as Lesson;
+};
+
+// The copy is placed at the end as a draft
+export const duplicateLesson = async (lessons: Lesson[], source: Lesson): Promise<Lesson> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase
+      .from(LESSONS_TABLE)
+      .insert([{ ...lessonPayload(source), title: `${source.title} (копия)`, position: nextPosition(lessons), status: 'draft' }])
+      .select()
+      .single();
+  if (error) throw error;
+  return data as Lesson;
+};
+
+// Lessons as the visitor may see them (get_lessons); null when the database is unavailable
+export const fetchLessons = async (): Promise<Lesson[] | null> => {
+  if (!supabase) return null;
+  const { data, error } = await supabase.rpc('get_lessons');
+  if (error) {
+      console.error(`Lessons load failed: ${error.message}\nSQL:\n${LESSONS_REPAIR_SQL}`);
+      return null;
+  }
+  return sortLessons((data || []) as Lesson[]);
+};
+
+export const fetchLesson = async (id: number): Promise<Lesson | null> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase.from(LESSONS_TABLE).select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data as Lesson | null;
+};
+
+// Saves changes on top of the version the editor loaded.
+// Returns null when the lesson was changed (or deleted) by someone else in the meantime.
+export const updateLesson = async (loaded: Lesson, changes: Partial<Lesson>): Promise<Lesson | null> => {
+  if (!supabase) throw new Error("No database connection");
+  const query = supabase
+      .from(LESSONS_TABLE)
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', loaded.id);
+  const { data, error } = await (loaded.updated_at ? query.eq('updated_at', loaded.updated_at) : query.is('updated_at', null))
+      .select()
+      .maybeSingle();
+  if (error) throw error;
+  return data as Lesson | null;
+};
+
+export const deleteLesson = async (id: number) => {
+  if (!supabase) throw new Error("No database connection");
+  const { error } = await supabase.from(LESSONS_TABLE).delete().eq('id', id);
+  if (error) throw error;
+};
+
+// Writes position = index + 1 for the given order; only rows whose position changed are updated
+export const saveLessonOrder = async (ordered: Lesson[]) => {
+  if (!supabase) throw new Error("No database connection");
+  const changed = ordered
+      .map((lesson, index) => ({ lesson, position: index + 1 }))
+      .filter(({ lesson, position }) => lesson.position !== position);
+  const results = await Promise.all(changed.map(({ lesson, position }) =>
+      supabase!.from(LESSONS_TABLE).update({ position }).eq('id', lesson.id)
+  ));
+  const failed = results.find(r => r.error);
+  if (failed?.error) throw failed.error;
+};
@@ -0,0 +1,261 @@
+import { supabase } from '../supabaseClient';
+import { Bookmark, BookmarkType, LessonNote } from '../types';
+import { formatClock } from './subtitles';
+
+/**
+ * Private notes and bookmarks of a student.
+ *
+ * A note belongs to a lesson and may point at a moment of the lesson video.
+ * Bookmarks keep lessons, articles, catalog videos and glossary terms at hand.
+ * Both are only ever visible to their owner and are collected on the "My notes" screen,
+ * which exports them as Markdown.
+ *
+ * Guests keep them in localStorage. Members keep them in `lesson_notes_shibari` and
+ * `bookmarks_shibari`; every change is written right away. On sign-in the guest copy
+ * is merged into the account and cleared, like the lesson progress.
+ */
+
+export const NOTES_TABLE = 'lesson_notes_shibari';
+export const BOOKMARKS_TABLE = 'bookmarks_shibari';
+export const NOTES_STORAGE_KEY = 'shibari_lesson_notes';
+export const BOOKMARKS_STORAGE_KEY = 'shibari_bookmarks';
+
+export const NOTES_REPAIR_SQL = `
+CREATE TABLE IF NOT EXISTS public.lesson_notes_shibari (
+    id text NOT NULL,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    lesson_id bigint NOT NULL,
+    text text NOT NULL,
+    video_time integer,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
+    PRIMARY KEY (user_id, id)
+);
+
+CREATE TABLE IF NOT EXISTS public.bookmarks_shibari (
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    item_type text NOT NULL CHECK (item_type IN ('lesson', 'article', 'catalog_video', 'term')),
+    item_id text NOT NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
+    PRIMARY KEY (user_id, item_type, item_id)
+);
+
+ALTER TABLE public.lesson_notes_shibari ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bookmarks_shibari ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'lesson_notes_shibari' AND policyname = 'Own notes') THEN
+    CREATE POLICY "Own notes" ON public.lesson_notes_shibari FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'bookmarks_shibari' AND policyname = 'Own bookmarks') THEN
+    CREATE POLICY "Own bookmarks" ON public.bookmarks_shibari FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+  END IF;
+END $$;
+`.trim();
+
+const BOOKMARK_TYPES: BookmarkType[] = ['lesson', 'article', 'catalog_video', 'term'];
+
+export interface Notebook {
+  notes: LessonNote[];
+  bookmarks: Bookmark[];
+}
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+export const createNote = (lessonId: number, text: string, videoTime: number | null): LessonNote => {
+  const now = new Date().toISOString();
+  return { id: newId(), lesson_id: lessonId, text, video_time: videoTime, created_at: now, updated_at: now };
+};
+
+// Notes of one lesson: tied to the video in timeline order first, then the rest by creation
+export const sortNotes = (notes: LessonNote[]): LessonNote[] => [...notes].sort((a, b) => {
+  if (a.video_time !== null && b.video_time !== null && a.video_time !== b.video_time) return a.video_time - b.video_time;
+  if ((a.video_time === null) !== (b.video_time === null)) return a.video_time === null ? 1 : -1;
+  return a.created_at.localeCompare(b.created_at);
+});
+
+export const hasBookmark = (bookmarks: Bookmark[], type: BookmarkType, itemId: string | number) =>
+  bookmarks.some(b => b.item_type === type && b.item_id === String(itemId));
+
+const bookmarkKey = (bookmark: Bookmark) => `${bookmark.item_type}:${bookmark.item_id}`;
+
+const sanitizeNotes = (raw: unknown): LessonNote[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+      .filter((row: any) => typeof row?.id === 'string' && Number.isFinite(Number(row.lesson_id)) && typeof row.text === 'string')
+      .map((row: any) => ({
+          id: row.id,
+          lesson_id: Number(row.lesson_id),
+          text: row.text,
+          video_time: row.video_time === null || row.video_time === undefined || isNaN(Number(row.video_time)) ? null : Math.max(0, Math.floor(Number(row.video_time))),
+          created_at: typeof row.created_at === 'string' ? row.created_at : new Date(0).toISOString(),
+          updated_at: typeof row.updated_at === 'string' ? row.updated_at : new Date(0).toISOString()
+      }));
+};
+
+const sanitizeBookmarks = (raw: unknown): Bookmark[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+      .filter((row: any) => BOOKMARK_TYPES.includes(row?.item_type) && row.item_id !== undefined && row.item_id !== null && row.item_id !== '')
+      .map((row: any) => ({
+          item_type: row.item_type,
+          item_id: String(row.item_id),
+          created_at: typeof row.created_at === 'string' ? row.created_at : new Date(0).toISOString()
+      }));
+};
+
+// --- Guests (localStorage) ---
+const readStorage = (key: string): unknown => {
+  try {
+      return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch (e) {
+      return [];
+  }
+};
+
+const writeStorage = (key: string, rows: unknown[]) => {
+  try {
+      if (rows.length) localStorage.setItem(key, JSON.stringify(rows));
+      else localStorage.removeItem(key);
+  } catch (e) {
+      // Storage full or disabled (private mode) — notes just won't survive a reload
+  }
+};
+
+export const loadGuestNotebook = (): Notebook => ({
+  notes: sanitizeNotes(readStorage(NOTES_STORAGE_KEY)),
+  bookmarks: sanitizeBookmarks(readStorage(BOOKMARKS_STORAGE_KEY))
+});
+
+export const saveGuestNotes = (notes: LessonNote[]) => writeStorage(NOTES_STORAGE_KEY, notes);
+export const saveGuestBookmarks = (bookmarks: Bookmark[]) => writeStorage(BOOKMARKS_STORAGE_KEY, bookmarks);
+
+// --- Members (Supabase) ---
+// Missing tables -> empty notebook (the SQL is logged for the admin)
+export const fetchNotebook = async (userId: string): Promise<Notebook> => {
+  if (!supabase) return { notes: [], bookmarks: [] };
+  const [notesRes, bookmarksRes] = await Promise.all([
+      supabase.from(NOTES_TABLE).select('*').eq('user_id', userId),
+      supabase.from(BOOKMARKS_TABLE).select('*').eq('user_id', userId)
+  ]);
+  const error = notesRes.error || bookmarksRes.error;
+  if (error) console.error(`Notes load failed: ${error.message}\nSQL:\n${NOTES_REPAIR_SQL}`);
+  return { notes: sanitizeNotes(notesRes.data), bookmarks: sanitizeBookmarks(bookmarksRes.data) };
+};
+
+export const saveNotes = async (userId: string, notes: LessonNote[]) => {
+  if (!supabase) throw new Error("No database connection");
+  if (!notes.length) return;
+  const { error } = await supabase
+      .from(NOTES_TABLE)
+      .upsert(notes.map(note => ({ ...note, user_id: userId })), { onConflict: 'user_id,id' });
+  if (error) {
+      console.error(`Notes sync failed: ${error.message}\nSQL:\n${NOTES_REPAIR_SQL}`);
+      throw error;
+  }
+};
+
+export const deleteNote = async (userId: string, noteId: string) => {
+  if (!supabase) throw new Error("No database connection");
+  const { error } = await supabase.from(NOTES_TABLE).delete().eq('user_id', userId).eq('id', noteId);
+  if (error) throw error;
+};
+
+export const saveBookmarks = async (userId: string, bookmarks: Bookmark[]) => {
+  if (!supabase) throw new Error("No database connection");
+  if (!bookmarks.length) return;
+  const { error } = await supabase
+      .from(BOOKMARKS_TABLE)
+      .upsert(bookmarks.map(bookmark => ({ ...bookmark, user_id: userId })), { onConflict: 'user_id,item_type,item_id' });
+  if (error) {
+      console.error(`Bookmarks sync failed: ${error.message}\nSQL:\n${NOTES_REPAIR_SQL}`);
+      throw error;
+  }
+};
+
+export const deleteBookmark = async (userId: string, bookmark: Bookmark) => {
+  if (!supabase) throw new Error("No database connection");
+  const { error } = await supabase
+      .from(BOOKMARKS_TABLE)
+      .delete()
+      .eq('user_id', userId)
+      .eq('item_type', bookmark.item_type)
+      .eq('item_id', bookmark.item_id);
+  if (error) throw error;
+};
+
+// Union of both: a note edited on both sides keeps the later text, a bookmark is kept once
+export const mergeNotebook = (base: Notebook, incoming: Notebook): Notebook => {
+  const notes = new Map(base.notes.map(note => [note.id, note]));
+  incoming.notes.forEach(note => {
+      const existing = notes.get(note.id);
+      if (!existing || note.updated_at > existing.updated_at) notes.set(note.id, note);
+  });
+  const bookmarks = new Map(base.bookmarks.map(bookmark => [bookmarkKey(bookmark), bookmark]));
+  incoming.bookmarks.forEach(bookmark => {
+      if (!bookmarks.has(bookmarkKey(bookmark))) bookmarks.set(bookmarkKey(bookmark), bookmark);
+  });
+  return { notes: Array.from(notes.values()), bookmarks: Array.from(bookmarks.values()) };
+};
+
+// Notebook of the visitor; signing in moves the guest notes and bookmarks into the account
+export const loadNotebook = async (userId: string | null): Promise<Notebook> => {
+  const guestNotebook = loadGuestNotebook();
+  if (!userId) return guestNotebook;
+  const merged = mergeNotebook(await fetchNotebook(userId), guestNotebook);
+  if (guestNotebook.notes.length || guestNotebook.bookmarks.length) {
+      try {
+          await Promise.all([saveNotes(userId, guestNotebook.notes), saveBookmarks(userId, guestNotebook.bookmarks)]);
+          saveGuestNotes([]);
+          saveGuestBookmarks([]);
+      } catch (e) {
+          // Keep the guest copy for the next sign-in
+      }
+  }
+  return merged;
+};
+
+// --- Markdown export ---
+export interface NoteGroup {
+  title: string; // Lesson title
+  notes: LessonNote[];
+}
+
+export interface BookmarkGroup {
+  title: string; // "Articles", "Terms", ...
+  items: string[]; // One Markdown line each (without the list marker)
+}
+
+// Multi-line note text stays inside its list item
+const listItem = (text: string) => `- ${text.trim().split('\n').join('\n  ')}`;
+
+export const notebookToMarkdown = (title: string, noteGroups: NoteGroup[], bookmarksTitle: string, bookmarkGroups: BookmarkGroup[]): string => {
+  const lines: string[] = [`# ${title}`, ''];
+  noteGroups.forEach(group => {
+      lines.push(`## ${group.title}`, '');
+      sortNotes(group.notes).forEach(note => {
+          lines.push(listItem(note.video_time !== null ? `**[${formatClock(note.video_time)}]** ${note.text}` : note.text));
+      });
+      lines.push('');
+  });
+  const filled = bookmarkGroups.filter(group => group.items.length);
+  if (filled.length) {
+      lines.push(`## ${bookmarksTitle}`, '');
+      filled.forEach(group => {
+          lines.push(`### ${group.title}`, '');
+          group.items.forEach(item => lines.push(listItem(item)));
+          lines.push('');
+      });
+  }
+  return lines.join('\n').trimEnd() + '\n';
+};
+
+export const downloadMarkdown = (markdown: string, baseName: string) => {
+  const blob = new Blob([markdown], { type: 'text/markdown' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.md`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
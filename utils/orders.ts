@@ -0,0 +1,253 @@
+import { supabase } from '../supabaseClient';
+import { CartItem, Order, OrderStatus } from '../types';
+import { courseIdOf } from './cart';
+import { syncOrderEntitlements } from './entitlements';
+
+/**
+ * Orders store.
+ *
+ * Every checkout (guest or member) goes through `place_order`, which prices the cart from
+ * the catalog, applies the promo code and stores the order as 'new'; the browser only sends
+ * what was picked. For members the CRM fields of `user_shibari` (orders_history,
+ * rope_purchases_count, total_revenue_usd, ordered courses) are recomputed by a trigger on
+ * that table, so a status change in the admin panel never leaves the counters out of sync
+ * and customers cannot write them. Course access follows the order status (see utils/entitlements).
+ */
+
+export const ORDERS_TABLE = 'orders_shibari';
+
+// Customers place orders through place_order (guests: without user_id) and read their own;
+// the order list and status changes need the admin role (utils/roles, run ROLES_REPAIR_SQL first).
+// place_order also needs STOCK_REPAIR_SQL (utils/stock) and, run after this, PROMO_REPAIR_SQL (utils/promo).
+// Promo codes are only accepted from signed-in customers.
+export const ORDERS_REPAIR_SQL = `
+CREATE TABLE IF NOT EXISTS public.orders_shibari (
+    id text PRIMARY KEY,
+    date timestamp with time zone DEFAULT timezone('utc'::text, now()),
+    user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    customer_details jsonb,
+    items jsonb DEFAULT '[]',
+    total_amount numeric DEFAULT 0,
+    status text DEFAULT 'new',
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now())
+);
+
+ALTER TABLE public.orders_shibari ADD COLUMN IF NOT EXISTS subtotal_amount numeric;
+ALTER TABLE public.orders_shibari ADD COLUMN IF NOT EXISTS promo_code text;
+ALTER TABLE public.orders_shibari ADD COLUMN IF NOT EXISTS discount_amount numeric DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS orders_shibari_user_id_idx ON public.orders_shibari (user_id);
+
+ALTER TABLE public.user_shibari ADD COLUMN IF NOT EXISTS orders_history jsonb DEFAULT '[]';
+ALTER TABLE public.user_shibari ADD COLUMN IF NOT EXISTS rope_purchases_count integer DEFAULT 0;
+ALTER TABLE public.user_shibari ADD COLUMN IF NOT EXISTS total_revenue_usd numeric DEFAULT 0;
+ALTER TABLE public.user_shibari ADD COLUMN IF NOT EXISTS has_ordered_course boolean DEFAULT false;
+ALTER TABLE public.user_shibari ADD COLUMN IF NOT EXISTS ordered_courses_list text[] DEFAULT '{}';
+
+ALTER TABLE public.orders_shibari ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all" ON public.orders_shibari;
+DROP POLICY IF EXISTS "Place own orders" ON public.orders_shibari;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'orders_shibari' AND policyname = 'Read own orders') THEN
+    CREATE POLICY "Read own orders" ON public.orders_shibari FOR SELECT USING (user_id = auth.uid() OR public.is_shibari_admin());
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'orders_shibari' AND policyname = 'Admins update orders') THEN
+    CREATE POLICY "Admins update orders" ON public.orders_shibari FOR UPDATE USING (public.is_shibari_admin()) WITH CHECK (public.is_shibari_admin());
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'orders_shibari' AND policyname = 'Admins delete orders') THEN
+    CREATE POLICY "Admins delete orders" ON public.orders_shibari FOR DELETE USING (public.is_shibari_admin());
+  END IF;
+END $$;
+
+-- The only way to create an order: lines are priced from the catalog, stock and the promo code
+-- are taken in the same transaction (a failed order gives both back) and the order starts as 'new'.
+-- Short lines fail the whole order with 'stock_shortage' and [{title, available}] as details.
+CREATE OR REPLACE FUNCTION public.place_order(order_items jsonb, customer jsonb, order_promo_code text DEFAULT NULL)
+RETURNS SETOF public.orders_shibari LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  item jsonb;
+  lines jsonb := '[]';
+  product public.market_shibari;
+  course public.kurs_market_shibari;
+  variant jsonb;
+  amount integer;
+  subtotal numeric;
+  promo_used text;
+  discount numeric := 0;
+  shortages jsonb := '[]';
+  new_order_id text := 'ORD-' || right(floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint::text, 6) || '-' || upper(substr(md5(random()::text), 1, 3));
+BEGIN
+  IF jsonb_typeof(order_items) IS DISTINCT FROM 'array' OR jsonb_array_length(order_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+  FOR item IN SELECT value FROM jsonb_array_elements(order_items) LOOP
+    amount := GREATEST(COALESCE((item ->> 'quantity')::integer, 1), 1);
+    IF item ? 'courseId' THEN
+      IF auth.uid() IS NULL THEN RAISE EXCEPTION 'course_login_required'; END IF;
+      SELECT * INTO course FROM public.kurs_market_shibari WHERE id = (item ->> 'courseId')::bigint;
+      IF NOT FOUND THEN RAISE EXCEPTION 'Course % not found', item ->> 'courseId'; END IF;
+      lines := lines || jsonb_build_array(jsonb_build_object(
+        'productId', course.id, 'courseId', course.id, 'title', course.title, 'quantity', 1, 'price', COALESCE(course.price, 0)));
+    ELSE
+      SELECT * INTO product FROM public.market_shibari WHERE id = (item ->> 'productId')::bigint;
+      IF NOT FOUND THEN RAISE EXCEPTION 'Product % not found', item ->> 'productId'; END IF;
+      variant := NULL;
+      IF item ->> 'variantId' IS NOT NULL THEN
+        SELECT value INTO variant FROM jsonb_array_elements(COALESCE(product.variants, '[]'::jsonb)) WHERE value ->> 'id' = item ->> 'variantId';
+        IF variant IS NULL THEN RAISE EXCEPTION 'Variant % not found', item ->> 'variantId'; END IF;
+      END IF;
+      lines := lines || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+        'productId', product.id, 'variantId', variant ->> 'id', 'variantLabel', variant ->> 'label', 'title', product.title,
+        'quantity', amount, 'price', COALESCE((variant ->> 'price')::numeric, product.price, 0))));
+      IF NOT public.shibari_take_stock(product.id, variant ->> 'id', amount) THEN
+        shortages := shortages || jsonb_build_array(jsonb_build_object(
+          'title', CASE WHEN variant IS NULL THEN product.title ELSE product.title || ' (' || (variant ->> 'label') || ')' END,
+          'available', GREATEST(COALESCE((variant ->> 'stock')::integer, product.stock, 0), 0)));
+      END IF;
+    END IF;
+  END LOOP;
+  IF jsonb_array_length(shortages) > 0 THEN
+    RAISE EXCEPTION 'stock_shortage' USING DETAIL = shortages::text;
+  END IF;
+
+  SELECT COALESCE(sum((l ->> 'price')::numeric * (l ->> 'quantity')::integer), 0) INTO subtotal FROM jsonb_array_elements(lines) l;
+  IF NULLIF(trim(order_promo_code), '') IS NOT NULL THEN
+    SELECT r.code, r.discount INTO promo_used, discount FROM public.shibari_redeem_promo(order_promo_code, lines, new_order_id) r;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.orders_shibari (id, date, user_id, customer_details, items, subtotal_amount, promo_code, discount_amount, total_amount, status)
+  VALUES (
+    new_order_id,
+    timezone('utc'::text, now()), auth.uid(), customer, lines, subtotal, promo_used, discount, GREATEST(subtotal - discount, 0), 'new'
+  )
+  RETURNING *;
+END $$;
+
+-- CRM fields of a member, derived from their orders. Orders that exist only in the legacy
+-- orders_history JSON (placed before the table existed) are kept.
+CREATE OR REPLACE FUNCTION public.shibari_sync_customer_stats(customer_id uuid) RETURNS void LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  WITH entries AS (
+    SELECT to_jsonb(o) AS doc FROM public.orders_shibari o WHERE o.user_id = customer_id
+    UNION ALL
+    SELECT e.value FROM public.user_shibari p,
+           jsonb_array_elements(CASE WHEN jsonb_typeof(p.orders_history) = 'array' THEN p.orders_history ELSE '[]'::jsonb END) e
+     WHERE p.id = customer_id AND NOT EXISTS (SELECT 1 FROM public.orders_shibari o WHERE o.id = e.value ->> 'id')
+  ), totals AS (
+    SELECT COALESCE(jsonb_agg(doc ORDER BY doc ->> 'date' DESC), '[]'::jsonb) AS history,
+           count(*) FILTER (WHERE doc ->> 'status' IS DISTINCT FROM 'cancelled') AS purchases,
+           COALESCE(sum((doc ->> 'total_amount')::numeric) FILTER (WHERE doc ->> 'status' IS DISTINCT FROM 'cancelled'), 0) AS revenue,
+           ARRAY(SELECT DISTINCT i ->> 'title' FROM public.orders_shibari o, jsonb_array_elements(o.items) i
+                  WHERE o.user_id = customer_id AND i ? 'courseId') AS course_titles
+      FROM entries
+  )
+  UPDATE public.user_shibari u
+     SET orders_history = t.history,
+         rope_purchases_count = t.purchases,
+         total_revenue_usd = t.revenue,
+         ordered_courses_list = ARRAY(SELECT DISTINCT unnest(COALESCE(u.ordered_courses_list, '{}') || t.course_titles)),
+         has_ordered_course = COALESCE(u.has_ordered_course, false) OR cardinality(t.course_titles) > 0
+    FROM totals t
+   WHERE u.id = customer_id;
+END $$;
+REVOKE EXECUTE ON FUNCTION public.shibari_sync_customer_stats(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.shibari_orders_sync_customer() RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.user_id IS NOT NULL THEN
+    PERFORM public.shibari_sync_customer_stats(OLD.user_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.user_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.user_id IS DISTINCT FROM OLD.user_id) THEN
+    PERFORM public.shibari_sync_customer_stats(NEW.user_id);
+  END IF;
+  RETURN NULL;
+END $$;
+DROP TRIGGER IF EXISTS orders_shibari_sync_customer ON public.orders_shibari;
+CREATE TRIGGER orders_shibari_sync_customer AFTER INSERT OR UPDATE OR DELETE ON public.orders_shibari
+  FOR EACH ROW EXECUTE FUNCTION public.shibari_orders_sync_customer();
+
+-- Members cannot write their own CRM fields; only the trigger above (pg_trigger_depth() > 1) and admins can
+CREATE OR REPLACE FUNCTION public.shibari_guard_customer_stats() RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND pg_trigger_depth() <= 1 AND NOT public.is_shibari_admin() THEN
+    IF TG_OP = 'UPDATE' THEN
+      NEW.orders_history := OLD.orders_history;
+      NEW.rope_purchases_count := OLD.rope_purchases_count;
+      NEW.total_revenue_usd := OLD.total_revenue_usd;
+      NEW.has_ordered_course := OLD.has_ordered_course;
+      NEW.ordered_courses_list := OLD.ordered_courses_list;
+    ELSE
+      NEW.orders_history := '[]';
+      NEW.rope_purchases_count := 0;
+      NEW.total_revenue_usd := 0;
+      NEW.has_ordered_course := false;
+      NEW.ordered_courses_list := '{}';
+    END IF;
+  END IF;
+  RETURN NEW;
+END $$;
+DROP TRIGGER IF EXISTS user_shibari_customer_stats ON public.user_shibari;
+CREATE TRIGGER user_shibari_customer_stats BEFORE INSERT OR UPDATE ON public.user_shibari
+  FOR EACH ROW EXECUTE FUNCTION public.shibari_guard_customer_stats();
+`.trim();
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  new: 'Новый',
+  processing: 'В работе',
+  completed: 'Выполнен',
+  cancelled: 'Отменён'
+};
+
+// Allowed manual transitions in the admin panel
+export const ORDER_STATUS_FLOW: Record<OrderStatus, OrderStatus[]> = {
+  new: ['processing', 'completed', 'cancelled'],
+  processing: ['completed', 'cancelled'],
+  completed: ['cancelled'],
+  cancelled: ['new']
+};
+
+// Places the cart as an order. Only ids and quantities are sent: prices, the promo discount
+// and the totals come from the server. Promo problems come back as the PromoError key (utils/promo).
+export const placeOrder = async (cart: CartItem[], customer: Order['customer_details'], promoCode: string | null): Promise<Order> => {
+  if (!supabase) throw new Error("No database connection");
+  const items = cart.map(item => {
+      const courseId = courseIdOf(item.product);
+      return courseId !== null
+          ? { courseId, quantity: 1 }
+          : { productId: item.product.id, variantId: item.variantId, quantity: item.quantity };
+  });
+  const { data, error } = await supabase.rpc('place_order', { order_items: items, customer, order_promo_code: promoCode });
+  if (error) throw error;
+  return (data as Order[])[0];
+};
+
+// Moves an order to a new status. The update is conditional on the status the admin saw,
+// so two admins clicking at once cannot apply conflicting transitions.
+export const updateOrderStatus = async (order: Order, status: OrderStatus): Promise<Order> => {
+  if (!supabase) throw new Error("No database connection");
+  if (!ORDER_STATUS_FLOW[order.status].includes(status)) {
+      throw new Error(`Переход ${ORDER_STATUS_LABELS[order.status]} → ${ORDER_STATUS_LABELS[status]} недоступен`);
+  }
+
+  const { data, error } = await supabase
+      .from(ORDERS_TABLE)
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', order.id)
+      .eq('status', order.status)
+      .select()
+      .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error("Заказ уже изменён другим пользователем. Обновите список.");
+
+  // The CRM counters follow by trigger; course access is synced here
+  try {
+      await syncOrderEntitlements(data as Order);
+  } catch (e: any) {
+      console.error("Course access sync failed:", e);
+      throw new Error(`Статус изменён, но доступ к курсам не обновлён: ${e.message}`);
+  }
+  return data as Order;
+};
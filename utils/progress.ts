@@ -0,0 +1,196 @@
+import { supabase } from '../supabaseClient';
+import { LessonProgress } from '../types';
+
+/**
+ * Lesson progress.
+ *
+ * A lesson is "started" once it is opened and "completed" when most of its video was played
+ * and its text was scrolled to the end (lessons without a video only need the reading).
+ * "Played" is the share of distinct seconds the player saw, so re-watching a part does not add up.
+ * Completion is never taken back. The most recently visited lesson is where the student resumes,
+ * and its video continues from the last saved position.
+ *
+ * Guests keep progress in localStorage. Members keep it in `lesson_progress_shibari`;
+ * on sign-in the guest progress is merged into the stored one and the local copy is cleared.
+ */
+
+export const PROGRESS_TABLE = 'lesson_progress_shibari';
+export const PROGRESS_STORAGE_KEY = 'shibari_lesson_progress';
+
+// Share of the video that has to be played for it to count as watched
+const VIDEO_COMPLETE_RATIO = 0.8;
+
+export const PROGRESS_REPAIR_SQL = `
+CREATE TABLE IF NOT EXISTS public.lesson_progress_shibari (
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    lesson_id bigint NOT NULL,
+    status text NOT NULL DEFAULT 'started' CHECK (status IN ('started', 'completed')),
+    watched_seconds integer NOT NULL DEFAULT 0,
+    video_duration integer,
+    read_complete boolean NOT NULL DEFAULT false,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
+    completed_at timestamp with time zone,
+    PRIMARY KEY (user_id, lesson_id)
+);
+
+ALTER TABLE public.lesson_progress_shibari ADD COLUMN IF NOT EXISTS last_position integer;
+ALTER TABLE public.lesson_progress_shibari ADD COLUMN IF NOT EXISTS watched_percent integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.lesson_progress_shibari ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'lesson_progress_shibari' AND policyname = 'Own progress') THEN
+    CREATE POLICY "Own progress" ON public.lesson_progress_shibari FOR ALL USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+  END IF;
+END $$;
+`.trim();
+
+export type LessonProgressMap = Record<number, LessonProgress>;
+
+export interface LessonProgressUpdate {
+  watchedSeconds?: number; // Newly played seconds, added to the total
+  videoDuration?: number;
+  watchedPercent?: number; // Share of the video played at least once in this viewing, 0–100
+  position?: number; // Where the video was left; 0 once it played to the end
+  readComplete?: boolean;
+  markCompleted?: boolean;
+}
+
+const sanitize = (raw: unknown): LessonProgressMap => {
+  const map: LessonProgressMap = {};
+  if (!Array.isArray(raw)) return map;
+  raw.forEach((row: any) => {
+      const lessonId = Number(row?.lesson_id);
+      if (!Number.isFinite(lessonId) || (row.status !== 'started' && row.status !== 'completed')) return;
+      map[lessonId] = {
+          lesson_id: lessonId,
+          status: row.status,
+          watched_seconds: Math.max(0, Number(row.watched_seconds) || 0),
+          video_duration: Number(row.video_duration) || null,
+          watched_percent: Math.min(100, Math.max(0, Number(row.watched_percent) || 0)),
+          read_complete: !!row.read_complete,
+          last_position: Number(row.last_position) || null,
+          updated_at: typeof row.updated_at === 'string' ? row.updated_at : new Date(0).toISOString(),
+          completed_at: row.completed_at || null
+      };
+  });
+  return map;
+};
+
+export const loadGuestProgress = (): LessonProgressMap => {
+  try {
+      return sanitize(JSON.parse(localStorage.getItem(PROGRESS_STORAGE_KEY) || '[]'));
+  } catch (e) {
+      return {};
+  }
+};
+
+export const saveGuestProgress = (progress: LessonProgressMap) => {
+  try {
+      const rows = Object.values(progress);
+      if (rows.length) localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(rows));
+      else localStorage.removeItem(PROGRESS_STORAGE_KEY);
+  } catch (e) {
+      // Storage full or disabled (private mode) — progress just won't survive a reload
+  }
+};
+
+export const clearGuestProgress = () => saveGuestProgress({});
+
+// Missing table -> empty progress (the SQL is logged for the admin)
+export const fetchLessonProgress = async (userId: string): Promise<LessonProgressMap> => {
+  if (!supabase) return {};
+  const { data, error } = await supabase.from(PROGRESS_TABLE).select('*').eq('user_id', userId);
+  if (error) {
+      console.error(`Progress load failed: ${error.message}\nSQL:\n${PROGRESS_REPAIR_SQL}`);
+      return {};
+  }
+  return sanitize(data);
+};
+
+export const saveLessonProgress = async (userId: string, rows: LessonProgress[]) => {
+  if (!supabase || !rows.length) return;
+  const { error } = await supabase
+      .from(PROGRESS_TABLE)
+      .upsert(rows.map(row => ({
+          ...row,
+          user_id: userId,
+          watched_seconds: Math.round(row.watched_seconds),
+          video_duration: row.video_duration ? Math.round(row.video_duration) : null,
+          watched_percent: Math.round(row.watched_percent),
+          last_position: row.last_position ? Math.floor(row.last_position) : null
+      })), { onConflict: 'user_id,lesson_id' });
+  if (error) {
+      console.error(`Progress sync failed: ${error.message}\nSQL:\n${PROGRESS_REPAIR_SQL}`);
+  }
+};
+
+// Per lesson the furthest state wins: completed over started, the larger watch time and coverage, the latest visit
+// (and the video position saved with it)
+export const mergeProgress = (base: LessonProgressMap, incoming: LessonProgressMap): LessonProgressMap => {
+  const merged: LessonProgressMap = { ...base };
+  Object.values(incoming).forEach(row => {
+      const existing = merged[row.lesson_id];
+      if (!existing) {
+          merged[row.lesson_id] = { ...row };
+          return;
+      }
+      const completedAt = [existing.completed_at, row.completed_at].filter(Boolean).sort()[0] || null;
+      merged[row.lesson_id] = {
+          lesson_id: row.lesson_id,
+          status: existing.status === 'completed' || row.status === 'completed' ? 'completed' : 'started',
+          watched_seconds: Math.max(existing.watched_seconds, row.watched_seconds),
+          video_duration: existing.video_duration || row.video_duration || null,
+          watched_percent: Math.max(existing.watched_percent, row.watched_percent),
+          read_complete: existing.read_complete || row.read_complete,
+          last_position: (existing.updated_at > row.updated_at ? existing : row).last_position ?? null,
+          updated_at: existing.updated_at > row.updated_at ? existing.updated_at : row.updated_at,
+          completed_at: completedAt
+      };
+  });
+  return merged;
+};
+
+// Applies a visit or a tracking event; an empty update just records the visit
+export const applyProgressUpdate = (
+  current: LessonProgress | undefined,
+  lessonId: number,
+  update: LessonProgressUpdate,
+  hasVideo: boolean
+): LessonProgress => {
+  const now = new Date().toISOString();
+  const duration = update.videoDuration || current?.video_duration || null;
+  let watched = (current?.watched_seconds || 0) + (update.watchedSeconds || 0);
+  if (duration) watched = Math.min(watched, duration);
+  // The player counts coverage per viewing; the best viewing is kept
+  const watchedPercent = Math.max(current?.watched_percent || 0, update.watchedPercent || 0);
+  const readComplete = !!(current?.read_complete || update.readComplete);
+
+  const videoDone = !hasVideo || watchedPercent >= VIDEO_COMPLETE_RATIO * 100;
+  const isCompleted = current?.status === 'completed' || !!update.markCompleted || (videoDone && readComplete);
+
+  return {
+      lesson_id: lessonId,
+      status: isCompleted ? 'completed' : 'started',
+      watched_seconds: watched,
+      video_duration: duration,
+      watched_percent: watchedPercent,
+      read_complete: readComplete,
+      last_position: update.position !== undefined ? update.position : current?.last_position ?? null,
+      updated_at: now,
+      completed_at: current?.completed_at || (isCompleted ? now : null)
+  };
+};
+
+export const lastVisitedLessonId = (progress: LessonProgressMap): number | null => {
+  const rows = Object.values(progress);
+  if (!rows.length) return null;
+  return rows.reduce((latest, row) => row.updated_at > latest.updated_at ? row : latest).lesson_id;
+};
+
+// Completed share of the given lessons, 0–100
+export const completionPercent = (progress: LessonProgressMap, lessonIds: number[]): number => {
+  if (!lessonIds.length) return 0;
+  const completed = lessonIds.filter(id => progress[id]?.status === 'completed').length;
+  return Math.round((completed / lessonIds.length) * 100);
+};
@@ -0,0 +1,156 @@
+import { supabase } from '../supabaseClient';
+import { CartItem, PromoCode } from '../types';
+import { courseIdOf } from './cart';
+
+/**
+ * Promo codes.
+ *
+ * Validation and discount math are pure so the cart can re-evaluate the code on every
+ * quantity change. Only admins can read or write the table; signed-in customers look up a code
+ * they already know through `find_promo`. Codes are only used by placing an order: place_order
+ * (utils/orders) repeats the same checks and math in `shibari_redeem_promo`, which locks the code
+ * row while `used_count` is incremented (so concurrent orders cannot exceed `max_uses`) and records
+ * the use against the order and the customer in `promo_redemptions_shibari`. Guests cannot use codes.
+ */
+
+export const PROMO_TABLE = 'promo_codes_shibari';
+export const PROMO_REDEMPTIONS_TABLE = 'promo_redemptions_shibari';
+
+export const PROMO_REPAIR_SQL = `
+CREATE TABLE IF NOT EXISTS public.promo_codes_shibari (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    code text NOT NULL UNIQUE,
+    discount_type text NOT NULL DEFAULT 'percent',
+    discount_value numeric NOT NULL DEFAULT 0,
+    expires_at date,
+    max_uses integer,
+    used_count integer DEFAULT 0,
+    product_ids integer[] DEFAULT '{}',
+    categories text[] DEFAULT '{}',
+    course_ids integer[] DEFAULT '{}',
+    is_active boolean DEFAULT true,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now())
+);
+
+CREATE TABLE IF NOT EXISTS public.promo_redemptions_shibari (
+    promo_id bigint NOT NULL REFERENCES public.promo_codes_shibari(id) ON DELETE CASCADE,
+    order_id text NOT NULL REFERENCES public.orders_shibari(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    redeemed_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
+    PRIMARY KEY (promo_id, order_id)
+);
+
+ALTER TABLE public.promo_codes_shibari ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_redemptions_shibari ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all" ON public.promo_codes_shibari;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'promo_codes_shibari' AND policyname = 'Admins manage promo codes') THEN
+    CREATE POLICY "Admins manage promo codes" ON public.promo_codes_shibari FOR ALL USING (public.is_shibari_admin()) WITH CHECK (public.is_shibari_admin());
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'promo_redemptions_shibari' AND policyname = 'Admins read promo redemptions') THEN
+    CREATE POLICY "Admins read promo redemptions" ON public.promo_redemptions_shibari FOR SELECT USING (public.is_shibari_admin());
+  END IF;
+END $$;
+
+-- One code by its exact text (the list of codes stays private)
+CREATE OR REPLACE FUNCTION public.find_promo(promo_code text)
+RETURNS SETOF public.promo_codes_shibari LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT * FROM public.promo_codes_shibari WHERE code = upper(trim(promo_code)) LIMIT 1;
+$$;
+REVOKE EXECUTE ON FUNCTION public.find_promo(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.find_promo(text) TO authenticated;
+
+-- Codes are no longer redeemed on their own, only as part of an order
+DROP FUNCTION IF EXISTS public.redeem_promo(text);
+
+-- Checks the code against the priced lines of an order, uses it once for the signed-in customer
+-- and returns the discount. Internal: only place_order calls it, so the use is taken in the same
+-- transaction as the order. Errors are PromoError keys.
+DROP FUNCTION IF EXISTS public.shibari_redeem_promo(text, jsonb);
+CREATE OR REPLACE FUNCTION public.shibari_redeem_promo(promo_code text, order_lines jsonb, redeemed_order_id text)
+RETURNS TABLE (code text, discount numeric) LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  promo public.promo_codes_shibari;
+  line jsonb;
+  base numeric := 0;
+  amount numeric;
+BEGIN
+  IF auth.uid() IS NULL THEN RAISE EXCEPTION 'promo_login_required'; END IF;
+  SELECT * INTO promo FROM public.promo_codes_shibari p WHERE p.code = upper(trim(promo_code)) FOR UPDATE;
+  IF NOT FOUND OR NOT COALESCE(promo.is_active, false) THEN RAISE EXCEPTION 'promo_invalid'; END IF;
+  IF promo.expires_at < current_date THEN RAISE EXCEPTION 'promo_expired'; END IF;
+  IF promo.max_uses > 0 AND COALESCE(promo.used_count, 0) >= promo.max_uses THEN RAISE EXCEPTION 'promo_limit_reached'; END IF;
+  FOR line IN SELECT value FROM jsonb_array_elements(order_lines) LOOP
+    IF COALESCE(cardinality(promo.product_ids), 0) + COALESCE(cardinality(promo.categories), 0) + COALESCE(cardinality(promo.course_ids), 0) = 0
+       OR CASE WHEN line ? 'courseId' THEN (line ->> 'courseId')::integer = ANY (promo.course_ids)
+               ELSE (line ->> 'productId')::integer = ANY (promo.product_ids)
+                    OR EXISTS (SELECT 1 FROM public.market_shibari m WHERE m.id = (line ->> 'productId')::bigint AND m.category = ANY (promo.categories))
+          END THEN
+      base := base + (line ->> 'price')::numeric * (line ->> 'quantity')::integer;
+    END IF;
+  END LOOP;
+  IF base <= 0 THEN RAISE EXCEPTION 'promo_not_applicable'; END IF;
+  amount := CASE WHEN promo.discount_type = 'percent'
+                 THEN base * LEAST(GREATEST(promo.discount_value, 0), 100) / 100
+                 ELSE GREATEST(promo.discount_value, 0) END;
+  UPDATE public.promo_codes_shibari SET used_count = COALESCE(used_count, 0) + 1 WHERE id = promo.id;
+  INSERT INTO public.promo_redemptions_shibari (promo_id, order_id, user_id) VALUES (promo.id, redeemed_order_id, auth.uid());
+  RETURN QUERY SELECT promo.code, round(LEAST(amount, base), 2);
+END $$;
+REVOKE EXECUTE ON FUNCTION public.shibari_redeem_promo(text, jsonb, text) FROM PUBLIC, anon, authenticated;
+`.trim();
+
+// Keys of UI_TRANSLATIONS
+export type PromoError = 'promo_invalid' | 'promo_expired' | 'promo_limit_reached' | 'promo_not_applicable' | 'promo_login_required';
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const hasRestrictions = (promo: PromoCode) =>
+  !!(promo.product_ids?.length || promo.categories?.length || promo.course_ids?.length);
+
+const isEligible = (promo: PromoCode, item: CartItem) => {
+  if (!hasRestrictions(promo)) return true;
+  const product = item.product;
+  const courseId = courseIdOf(product);
+  if (courseId !== null) return !!promo.course_ids?.includes(courseId);
+  if (promo.product_ids?.includes(product.id)) return true;
+  return !!product.category && !!promo.categories?.includes(product.category);
+};
+
+export const isPromoExpired = (promo: PromoCode, now = new Date()) => {
+  if (!promo.expires_at) return false;
+  const end = new Date(promo.expires_at);
+  end.setHours(23, 59, 59, 999);
+  return now > end;
+};
+
+// Sum of the cart lines the code applies to
+export const eligibleSubtotal = (promo: PromoCode, cart: CartItem[]) =>
+  cart.filter(item => isEligible(promo, item)).reduce((sum, item) => sum + (item.product.price || 0) * item.quantity, 0);
+
+export const validatePromoCode = (promo: PromoCode | null, cart: CartItem[], now = new Date()): PromoError | null => {
+  if (!promo || !promo.is_active) return 'promo_invalid';
+  if (isPromoExpired(promo, now)) return 'promo_expired';
+  if (promo.max_uses && (promo.used_count || 0) >= promo.max_uses) return 'promo_limit_reached';
+  if (eligibleSubtotal(promo, cart) <= 0) return 'promo_not_applicable';
+  return null;
+};
+
+export const calculateDiscount = (promo: PromoCode, cart: CartItem[]) => {
+  const base = eligibleSubtotal(promo, cart);
+  const discount = promo.discount_type === 'percent'
+      ? base * Math.min(Math.max(promo.discount_value, 0), 100) / 100
+      : Math.max(promo.discount_value, 0);
+  return roundMoney(Math.min(discount, base));
+};
+
+export const fetchPromoCode = async (code: string): Promise<PromoCode | null> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase.rpc('find_promo', { promo_code: normalizePromoCode(code) });
+  if (error) throw error;
+  return (data as PromoCode[] | null)?.[0] || null;
+};
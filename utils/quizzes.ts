@@ -0,0 +1,364 @@
+import { supabase } from '../supabaseClient';
+import { Lesson, LessonQuiz, QuizQuestion, QuizQuestionType, QuizResult } from '../types';
+import { LessonLock } from './lessonAccess';
+
+/**
+ * Lesson quizzes.
+ *
+ * A lesson can end with a knowledge check: single choice, multiple choice and picture questions,
+ * each in Russian with an optional English version. The student passes at `pass_percent`;
+ * a quiz with `gates_next` keeps every following lesson locked until it is passed.
+ * A question counts only when exactly the right options are picked. Passing is never taken back.
+ *
+ * The right answers never reach the browser before the quiz is passed: students get the questions
+ * from `get_lesson_quizzes()` without them, and `submit_quiz()` grades an attempt on the server.
+ * The gate itself is part of `can_open_lesson` (utils/lessonAccess), so only members' stored passes
+ * open the next lessons; a guest who passed is asked to sign in, which re-submits the attempt.
+ * Members' results are stored by that function only (`quiz_results_shibari` is read-only for them);
+ * guests keep the graded results in localStorage. On sign-in the last guest attempt of every quiz
+ * not passed in the account yet is submitted again, and the local copy is cleared.
+ */
+
+export const QUIZZES_TABLE = 'lesson_quizzes_shibari';
+export const QUIZ_RESULTS_TABLE = 'quiz_results_shibari';
+export const QUIZ_RESULTS_STORAGE_KEY = 'shibari_quiz_results';
+
+export const DEFAULT_PASS_PERCENT = 80;
+
+// Only admins read and edit the tables directly (utils/roles); students go through the functions below
+export const QUIZZES_REPAIR_SQL = `
+CREATE TABLE IF NOT EXISTS public.lesson_quizzes_shibari (
+    lesson_id bigint PRIMARY KEY REFERENCES public.lessons_shibari(id) ON DELETE CASCADE,
+    questions jsonb NOT NULL DEFAULT '[]',
+    pass_percent integer NOT NULL DEFAULT ${DEFAULT_PASS_PERCENT} CHECK (pass_percent BETWEEN 0 AND 100),
+    gates_next boolean NOT NULL DEFAULT false,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now())
+);
+
+CREATE TABLE IF NOT EXISTS public.quiz_results_shibari (
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    lesson_id bigint NOT NULL REFERENCES public.lessons_shibari(id) ON DELETE CASCADE,
+    best_score integer NOT NULL DEFAULT 0,
+    last_score integer NOT NULL DEFAULT 0,
+    passed boolean NOT NULL DEFAULT false,
+    attempts integer NOT NULL DEFAULT 0,
+    answers jsonb NOT NULL DEFAULT '{}',
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
+    PRIMARY KEY (user_id, lesson_id)
+);
+ALTER TABLE public.quiz_results_shibari ADD COLUMN IF NOT EXISTS checked jsonb NOT NULL DEFAULT '{}';
+ALTER TABLE public.quiz_results_shibari ADD COLUMN IF NOT EXISTS correct jsonb;
+
+ALTER TABLE public.lesson_quizzes_shibari ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quiz_results_shibari ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Read quizzes" ON public.lesson_quizzes_shibari;
+DROP POLICY IF EXISTS "Own quiz results" ON public.quiz_results_shibari;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'lesson_quizzes_shibari' AND policyname = 'Admins manage quizzes') THEN
+    CREATE POLICY "Admins manage quizzes" ON public.lesson_quizzes_shibari FOR ALL USING (public.is_shibari_admin()) WITH CHECK (public.is_shibari_admin());
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'quiz_results_shibari' AND policyname = 'Read own quiz results') THEN
+    CREATE POLICY "Read own quiz results" ON public.quiz_results_shibari FOR SELECT USING (user_id = auth.uid());
+  END IF;
+END $$;
+
+-- Quizzes of published lessons (drafts too for admins), with the right answers left out of the questions.
+-- Lessons the caller can't open come without questions: only whether they gate the next lessons.
+CREATE OR REPLACE FUNCTION public.get_lesson_quizzes()
+RETURNS SETOF public.lesson_quizzes_shibari LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT q.lesson_id,
+         CASE WHEN public.can_open_lesson(l) THEN COALESCE((
+           SELECT jsonb_agg(question.value - 'correct' ORDER BY question.idx)
+             FROM jsonb_array_elements(q.questions) WITH ORDINALITY AS question(value, idx)
+         ), '[]'::jsonb) ELSE '[]'::jsonb END,
+         q.pass_percent, q.gates_next, q.updated_at
+    FROM public.lesson_quizzes_shibari q
+    JOIN public.lessons_shibari l ON l.id = q.lesson_id
+   WHERE jsonb_array_length(q.questions) > 0
+     AND (l.status IS DISTINCT FROM 'draft' OR public.is_shibari_admin());
+$$;
+
+-- Grades an attempt; members get it stored. The right answers are returned only once the quiz is passed.
+CREATE OR REPLACE FUNCTION public.submit_quiz(quiz_lesson_id bigint, quiz_answers jsonb)
+RETURNS jsonb LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  quiz public.lesson_quizzes_shibari;
+  question jsonb;
+  chosen jsonb;
+  is_right boolean;
+  right_count integer := 0;
+  score integer;
+  is_passed boolean;
+  checks jsonb := '{}';
+  answer_key jsonb := '{}';
+BEGIN
+  SELECT * INTO quiz FROM public.lesson_quizzes_shibari WHERE lesson_id = quiz_lesson_id;
+  IF NOT FOUND OR jsonb_array_length(quiz.questions) = 0 THEN
+    RAISE EXCEPTION 'Quiz not found';
+  END IF;
+  IF NOT public.can_open_lesson_id(quiz_lesson_id) THEN
+    RAISE EXCEPTION 'Lesson is locked';
+  END IF;
+  FOR question IN SELECT value FROM jsonb_array_elements(quiz.questions) LOOP
+    chosen := COALESCE(quiz_answers -> (question ->> 'id'), '[]'::jsonb);
+    is_right := jsonb_typeof(chosen) = 'array'
+      AND jsonb_array_length(chosen) = jsonb_array_length(question -> 'correct')
+      AND chosen <@ (question -> 'correct') AND (question -> 'correct') <@ chosen;
+    IF is_right THEN right_count := right_count + 1; END IF;
+    checks := checks || jsonb_build_object(question ->> 'id', is_right);
+    answer_key := answer_key || jsonb_build_object(question ->> 'id', question -> 'correct');
+  END LOOP;
+  score := round(right_count * 100.0 / jsonb_array_length(quiz.questions));
+  is_passed := score >= quiz.pass_percent;
+
+  IF auth.uid() IS NOT NULL THEN
+    INSERT INTO public.quiz_results_shibari AS r (user_id, lesson_id, best_score, last_score, passed, attempts, answers, checked, correct, updated_at)
+    VALUES (auth.uid(), quiz_lesson_id, score, score, is_passed, 1, quiz_answers, checks, CASE WHEN is_passed THEN answer_key END, timezone('utc'::text, now()))
+    ON CONFLICT (user_id, lesson_id) DO UPDATE SET
+      best_score = GREATEST(r.best_score, EXCLUDED.best_score),
+      last_score = EXCLUDED.last_score,
+      passed = r.passed OR EXCLUDED.passed,
+      attempts = r.attempts + 1,
+      answers = EXCLUDED.answers,
+      checked = EXCLUDED.checked,
+      correct = CASE WHEN r.passed OR EXCLUDED.passed THEN answer_key END,
+      updated_at = EXCLUDED.updated_at
+    RETURNING r.passed INTO is_passed;
+  END IF;
+
+  RETURN jsonb_build_object('score', score, 'passed', is_passed, 'checked', checks, 'correct', CASE WHEN is_passed THEN answer_key END);
+END $$;
+`.trim();
+
+export type LessonQuizMap = Record<number, LessonQuiz>;
+export type QuizResultMap = Record<number, QuizResult>;
+
+export const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  single: 'Один ответ',
+  multiple: 'Несколько ответов',
+  image: 'Выбор картинки'
+};
+
+// --- Editing ---
+
+const newId = () => Math.random().toString(36).substring(2, 10);
+
+export const createQuestion = (type: QuizQuestionType = 'single'): QuizQuestion => ({
+  id: newId(),
+  type,
+  text: '',
+  options: [{ id: newId(), text: '' }, { id: newId(), text: '' }],
+  correct: []
+});
+
+export const createOption = () => ({ id: newId(), text: '' });
+
+// Reason the quiz can't be saved yet, null when it is complete
+export const validateQuiz = (quiz: LessonQuiz): string | null => {
+  if (!quiz.questions.length) return "Добавьте хотя бы один вопрос";
+  for (const [index, question] of quiz.questions.entries()) {
+      const name = `Вопрос ${index + 1}`;
+      if (!question.text.trim()) return `${name}: нет текста вопроса`;
+      if (question.options.length < 2) return `${name}: нужно минимум два варианта ответа`;
+      const isEmpty = (o: QuizQuestion['options'][number]) => question.type === 'image' ? !o.image_url : !o.text.trim();
+      if (question.options.some(isEmpty)) return `${name}: ${question.type === 'image' ? 'у каждого варианта должна быть картинка' : 'есть пустой вариант ответа'}`;
+      if (!question.correct.length) return `${name}: отметьте правильный ответ`;
+      if (question.type !== 'multiple' && question.correct.length > 1) return `${name}: правильный ответ должен быть один`;
+  }
+  return null;
+};
+
+// --- Taking ---
+
+export const localized = (item: any, field: string, lang: 'ru' | 'en'): string =>
+  (lang === 'en' && item[`${field}_en`]) || item[field] || '';
+
+// What submit_quiz says about one attempt
+export interface QuizGrade {
+  score: number; // 0–100
+  passed: boolean; // This attempt or, for members, any stored one
+  checked: Record<string, boolean>;
+  correct: Record<string, string[]> | null;
+}
+
+// Grades the attempt on the server; for members the result is stored there as well
+export const submitQuizAnswers = async (lessonId: number, answers: Record<string, string[]>): Promise<QuizGrade> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase.rpc('submit_quiz', { quiz_lesson_id: lessonId, quiz_answers: answers });
+  if (error) {
+      console.error(`Quiz submit failed: ${error.message}\nSQL:\n${QUIZZES_REPAIR_SQL}`);
+      throw error;
+  }
+  return {
+      score: Number(data?.score) || 0,
+      passed: !!data?.passed,
+      checked: data?.checked && typeof data.checked === 'object' ? data.checked : {},
+      correct: data?.correct && typeof data.correct === 'object' ? data.correct : null
+  };
+};
+
+// Same bookkeeping as submit_quiz does for members
+export const applyQuizAttempt = (
+  current: QuizResult | undefined,
+  lessonId: number,
+  answers: Record<string, string[]>,
+  grade: QuizGrade
+): QuizResult => ({
+  lesson_id: lessonId,
+  best_score: Math.max(current?.best_score || 0, grade.score),
+  last_score: grade.score,
+  passed: !!current?.passed || grade.passed,
+  attempts: (current?.attempts || 0) + 1,
+  answers,
+  checked: grade.checked,
+  correct: grade.correct || current?.correct || null,
+  updated_at: new Date().toISOString()
+});
+
+// --- Gating ---
+
+// The first earlier lesson whose gating quiz is not passed yet locks this one.
+// The server only counts stored passes, so behind a gate guests are asked to sign in.
+export const getQuizLock = (
+  lessons: Lesson[],
+  index: number,
+  quizzes: LessonQuizMap,
+  results: QuizResultMap,
+  isSignedIn: boolean
+): LessonLock | null => {
+  const gates = lessons.slice(0, index).filter(l => quizzes[l.id]?.gates_next);
+  const blocker = gates.find(l => !results[l.id]?.passed);
+  if (blocker) return { reason: 'quiz', lessonId: blocker.id };
+  return gates.length && !isSignedIn ? { reason: 'login' } : null;
+};
+
+// --- Quizzes ---
+
+const sanitizeQuiz = (row: any): LessonQuiz => ({
+  lesson_id: Number(row.lesson_id),
+  questions: Array.isArray(row.questions) ? row.questions.map((q: any) => ({ ...q, correct: Array.isArray(q?.correct) ? q.correct : [] })) : [],
+  pass_percent: Number.isFinite(Number(row.pass_percent)) ? Number(row.pass_percent) : DEFAULT_PASS_PERCENT,
+  gates_next: !!row.gates_next,
+  updated_at: row.updated_at || null
+});
+
+// Quizzes as students see them, without the right answers (locked lessons: only the gate flag).
+// Missing table -> no quizzes (the SQL is logged for the admin)
+export const fetchLessonQuizzes = async (): Promise<LessonQuizMap> => {
+  if (!supabase) return {};
+  const { data, error } = await supabase.rpc('get_lesson_quizzes');
+  if (error) {
+      console.error(`Quizzes load failed: ${error.message}\nSQL:\n${QUIZZES_REPAIR_SQL}`);
+      return {};
+  }
+  const map: LessonQuizMap = {};
+  ((data || []) as any[]).forEach(row => {
+      const quiz = sanitizeQuiz(row);
+      if (quiz.questions.length || quiz.gates_next) map[quiz.lesson_id] = quiz;
+  });
+  return map;
+};
+
+// The full quiz with the right answers, for the editor (admins only)
+export const fetchLessonQuiz = async (lessonId: number): Promise<LessonQuiz | null> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase.from(QUIZZES_TABLE).select('*').eq('lesson_id', lessonId).maybeSingle();
+  if (error) throw error;
+  return data ? sanitizeQuiz(data) : null;
+};
+
+export const saveLessonQuiz = async (quiz: LessonQuiz): Promise<LessonQuiz> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase
+      .from(QUIZZES_TABLE)
+      .upsert({ ...quiz, updated_at: new Date().toISOString() }, { onConflict: 'lesson_id' })
+      .select()
+      .single();
+  if (error) throw error;
+  return sanitizeQuiz(data);
+};
+
+export const deleteLessonQuiz = async (lessonId: number) => {
+  if (!supabase) throw new Error("No database connection");
+  const { error } = await supabase.from(QUIZZES_TABLE).delete().eq('lesson_id', lessonId);
+  if (error) throw error;
+};
+
+// Pictures for 'image' questions and illustrations go to the same bucket as the shop photos
+export const uploadQuizImage = async (file: File): Promise<string> => {
+  if (!supabase) throw new Error("No database connection");
+  const fileName = `quizzes/${newId()}.${file.name.split('.').pop()}`;
+  const { error } = await supabase.storage.from('Enot').upload(fileName, file);
+  if (error) throw error;
+  return supabase.storage.from('Enot').getPublicUrl(fileName).data.publicUrl;
+};
+
+// --- Results ---
+
+const sanitizeResults = (raw: unknown): QuizResultMap => {
+  const map: QuizResultMap = {};
+  if (!Array.isArray(raw)) return map;
+  raw.forEach((row: any) => {
+      const lessonId = Number(row?.lesson_id);
+      if (!Number.isFinite(lessonId)) return;
+      map[lessonId] = {
+          lesson_id: lessonId,
+          best_score: Number(row.best_score) || 0,
+          last_score: Number(row.last_score) || 0,
+          passed: !!row.passed,
+          attempts: Number(row.attempts) || 0,
+          answers: row.answers && typeof row.answers === 'object' ? row.answers : {},
+          checked: row.checked && typeof row.checked === 'object' ? row.checked : {},
+          correct: row.correct && typeof row.correct === 'object' ? row.correct : null,
+          updated_at: typeof row.updated_at === 'string' ? row.updated_at : new Date(0).toISOString()
+      };
+  });
+  return map;
+};
+
+export const loadGuestQuizResults = (): QuizResultMap => {
+  try {
+      return sanitizeResults(JSON.parse(localStorage.getItem(QUIZ_RESULTS_STORAGE_KEY) || '[]'));
+  } catch (e) {
+      return {};
+  }
+};
+
+export const saveGuestQuizResults = (results: QuizResultMap) => {
+  try {
+      const rows = Object.values(results);
+      if (rows.length) localStorage.setItem(QUIZ_RESULTS_STORAGE_KEY, JSON.stringify(rows));
+      else localStorage.removeItem(QUIZ_RESULTS_STORAGE_KEY);
+  } catch (e) {
+      // Storage full or disabled (private mode) — results just won't survive a reload
+  }
+};
+
+export const fetchQuizResults = async (userId: string): Promise<QuizResultMap> => {
+  if (!supabase) return {};
+  const { data, error } = await supabase.from(QUIZ_RESULTS_TABLE).select('*').eq('user_id', userId);
+  if (error) {
+      console.error(`Quiz results load failed: ${error.message}\nSQL:\n${QUIZZES_REPAIR_SQL}`);
+      return {};
+  }
+  return sanitizeResults(data);
+};
+
+// Results of the visitor; signing in re-submits the guest attempts, so the account only keeps graded ones
+export const loadQuizResults = async (userId: string | null): Promise<QuizResultMap> => {
+  const guestResults = loadGuestQuizResults();
+  if (!userId) return guestResults;
+  const stored = await fetchQuizResults(userId);
+  if (!Object.keys(guestResults).length) return stored;
+  const pending = Object.values(guestResults).filter(row => !stored[row.lesson_id]?.passed && Object.keys(row.answers).length);
+  for (const row of pending) {
+      try {
+          await submitQuizAnswers(row.lesson_id, row.answers);
+      } catch (e) {
+          // The quiz was removed or its lesson is closed to this account — the attempt is dropped
+      }
+  }
+  saveGuestQuizResults({});
+  return pending.length ? fetchQuizResults(userId) : stored;
+};
@@ -0,0 +1,213 @@
+import { supabase } from '../supabaseClient';
+
+/**
+ * Admin roles.
+ *
+ * The admin role lives in `user_roles_shibari`, which only admins can write (RLS).
+ * `user_shibari.system_role` is kept as a read-only mirror by a trigger, so a user editing
+ * their own profile row (or sign-up metadata) cannot make themselves an admin.
+ * New admins are either promoted by an existing admin or accept an invite link;
+ * the invite is checked server-side by `accept_admin_invite` (email must match the invite).
+ */
+
+export const ROLES_TABLE = 'user_roles_shibari';
+export const INVITES_TABLE = 'admin_invites_shibari';
+
+export const INVITE_QUERY_PARAM = 'admin_invite';
+const PENDING_INVITE_KEY = 'shibari_admin_invite';
+const INVITE_TTL_DAYS = 7;
+
+export const ROLES_REPAIR_SQL = `
+CREATE TABLE IF NOT EXISTS public.user_roles_shibari (
+    user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    role text NOT NULL DEFAULT 'admin' CHECK (role IN ('admin')),
+    granted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    granted_at timestamp with time zone DEFAULT timezone('utc'::text, now())
+);
+
+CREATE TABLE IF NOT EXISTS public.admin_invites_shibari (
+    id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+    email text NOT NULL,
+    token text NOT NULL UNIQUE,
+    invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
+    expires_at timestamp with time zone NOT NULL,
+    accepted_at timestamp with time zone,
+    accepted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE OR REPLACE FUNCTION public.is_shibari_admin(uid uuid DEFAULT auth.uid())
+RETURNS boolean LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles_shibari WHERE user_id = uid AND role = 'admin');
+$$;
+
+ALTER TABLE public.user_roles_shibari ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.admin_invites_shibari ENABLE ROW LEVEL SECURITY;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'user_roles_shibari' AND policyname = 'Read own role') THEN
+    CREATE POLICY "Read own role" ON public.user_roles_shibari FOR SELECT USING (user_id = auth.uid() OR public.is_shibari_admin());
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'user_roles_shibari' AND policyname = 'Admins manage roles') THEN
+    CREATE POLICY "Admins manage roles" ON public.user_roles_shibari FOR ALL USING (public.is_shibari_admin()) WITH CHECK (public.is_shibari_admin());
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'admin_invites_shibari' AND policyname = 'Admins manage invites') THEN
+    CREATE POLICY "Admins manage invites" ON public.admin_invites_shibari FOR ALL USING (public.is_shibari_admin()) WITH CHECK (public.is_shibari_admin());
+  END IF;
+END $$;
+
+-- The last admin cannot be removed
+CREATE OR REPLACE FUNCTION public.shibari_keep_last_admin() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF (SELECT count(*) FROM public.user_roles_shibari WHERE role = 'admin') <= 1 THEN
+    RAISE EXCEPTION 'Cannot remove the last admin';
+  END IF;
+  RETURN OLD;
+END $$;
+DROP TRIGGER IF EXISTS user_roles_shibari_keep_last_admin ON public.user_roles_shibari;
+CREATE TRIGGER user_roles_shibari_keep_last_admin BEFORE DELETE ON public.user_roles_shibari
+  FOR EACH ROW EXECUTE FUNCTION public.shibari_keep_last_admin();
+
+-- user_shibari.system_role mirrors user_roles_shibari and ignores values sent by clients
+CREATE OR REPLACE FUNCTION public.shibari_sync_system_role() RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  NEW.system_role := CASE WHEN public.is_shibari_admin(NEW.id) THEN 'admin' ELSE 'user' END;
+  RETURN NEW;
+END $$;
+DROP TRIGGER IF EXISTS user_shibari_system_role ON public.user_shibari;
+CREATE TRIGGER user_shibari_system_role BEFORE INSERT OR UPDATE ON public.user_shibari
+  FOR EACH ROW EXECUTE FUNCTION public.shibari_sync_system_role();
+
+CREATE OR REPLACE FUNCTION public.shibari_role_changed() RETURNS trigger LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  UPDATE public.user_shibari SET system_role = system_role WHERE id = COALESCE(NEW.user_id, OLD.user_id);
+  RETURN NULL;
+END $$;
+DROP TRIGGER IF EXISTS user_roles_shibari_changed ON public.user_roles_shibari;
+CREATE TRIGGER user_roles_shibari_changed AFTER INSERT OR UPDATE OR DELETE ON public.user_roles_shibari
+  FOR EACH ROW EXECUTE FUNCTION public.shibari_role_changed();
+
+CREATE OR REPLACE FUNCTION public.accept_admin_invite(invite_token text)
+RETURNS boolean LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  invite public.admin_invites_shibari%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN RETURN false; END IF;
+  SELECT * INTO invite FROM public.admin_invites_shibari
+   WHERE token = invite_token
+     AND accepted_at IS NULL
+     AND expires_at > now()
+     AND lower(email) = lower(auth.jwt() ->> 'email')
+   FOR UPDATE;
+  IF NOT FOUND THEN RETURN false; END IF;
+
+  INSERT INTO public.user_roles_shibari (user_id, role, granted_by)
+  VALUES (auth.uid(), 'admin', invite.invited_by)
+  ON CONFLICT (user_id) DO NOTHING;
+  UPDATE public.admin_invites_shibari SET accepted_at = now(), accepted_by = auth.uid() WHERE id = invite.id;
+  RETURN true;
+END $$;
+
+-- First admin (run once in the SQL editor, replace the email):
+-- INSERT INTO public.user_roles_shibari (user_id) SELECT id FROM auth.users WHERE email = 'owner@example.com';
+`.trim();
+
+export interface AdminInvite {
+  id: number;
+  email: string;
+  token: string;
+  invited_by?: string | null;
+  created_at?: string;
+  expires_at: string;
+  accepted_at?: string | null;
+  accepted_by?: string | null;
+}
+
+// Missing table or no row -> not an admin
+export const fetchIsAdmin = async (userId: string): Promise<boolean> => {
+  if (!supabase) return false;
+  const { data, error } = await supabase
+      .from(ROLES_TABLE)
+      .select('role')
+      .eq('user_id', userId)
+      .maybeSingle();
+  if (error) {
+      console.error(`Role check failed: ${error.message}\nSQL:\n${ROLES_REPAIR_SQL}`);
+      return false;
+  }
+  return data?.role === 'admin';
+};
+
+export const fetchAdminIds = async (): Promise<string[]> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase.from(ROLES_TABLE).select('user_id').eq('role', 'admin');
+  if (error) throw error;
+  return (data || []).map((row: { user_id: string }) => row.user_id);
+};
+
+export const setAdminRole = async (userId: string, isAdmin: boolean, grantedBy: string) => {
+  if (!supabase) throw new Error("No database connection");
+  const { error } = isAdmin
+      ? await supabase.from(ROLES_TABLE).upsert({ user_id: userId, role: 'admin', granted_by: grantedBy }, { onConflict: 'user_id' })
+      : await supabase.from(ROLES_TABLE).delete().eq('user_id', userId);
+  if (error) throw error;
+};
+
+// --- Invites ---
+
+const generateToken = () => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const buildInviteLink = (token: string) =>
+  `${window.location.origin}/?${INVITE_QUERY_PARAM}=${token}`;
+
+export const fetchAdminInvites = async (): Promise<AdminInvite[]> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase.from(INVITES_TABLE).select('*').order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as AdminInvite[];
+};
+
+export const createAdminInvite = async (email: string, invitedBy: string): Promise<AdminInvite> => {
+  if (!supabase) throw new Error("No database connection");
+  const expires = new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000);
+  const { data, error } = await supabase
+      .from(INVITES_TABLE)
+      .insert([{ email: email.trim().toLowerCase(), token: generateToken(), invited_by: invitedBy, expires_at: expires.toISOString() }])
+      .select()
+      .single();
+  if (error) throw error;
+  return data as AdminInvite;
+};
+
+export const deleteAdminInvite = async (id: number) => {
+  if (!supabase) throw new Error("No database connection");
+  const { error } = await supabase.from(INVITES_TABLE).delete().eq('id', id);
+  if (error) throw error;
+};
+
+// Returns false when the invite is unknown, used, expired or addressed to another email
+export const acceptAdminInvite = async (token: string): Promise<boolean> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase.rpc('accept_admin_invite', { invite_token: token });
+  if (error) throw error;
+  return data === true;
+};
+
+// An invite link opened while signed out is kept until the user signs in
+export const rememberPendingInvite = (token: string) => {
+  try { sessionStorage.setItem(PENDING_INVITE_KEY, token); } catch (e) {}
+};
+
+export const takePendingInvite = (): string | null => {
+  try {
+      const token = sessionStorage.getItem(PENDING_INVITE_KEY);
+      sessionStorage.removeItem(PENDING_INVITE_KEY);
+      return token;
+  } catch (e) {
+      return null;
+  }
+};
@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CatalogCategory } from '../types';
+
+/**
+ * Lightweight History API router.
+ *
+ * Maps URL paths to the existing modal/lesson state of App.tsx so that any screen
+ * can be shared as a link and the browser back button closes overlays one by one.
+ *
+ *   /lesson/:id            -> lesson in the main view
+ *   /articles[/:id]        -> articles list / article reader
+ *   /shop[/:productId]     -> marketplace / product detail
+ *   /courses[/:id]         -> courses / course landing (?watch=1 -> course player)
+ *   /catalog[/:videoId]    -> catalog (filters kept in ?cat=...&sub=...)
+ *   /events[/:id]          -> events (highlighted event)
+ *   /dictionary, /navazu, /history, /kinbakushi, /resources, /settings, /profile, /notes
+ */
+
+export type ModalId =
+  | 'articles'
+  | 'dictionary'
+  | 'navazu'
+  | 'shop'
+  | 'courses'
+  | 'catalog'
+  | 'history'
+  | 'kinbakushi'
+  | 'events'
+  | 'resources'
+  | 'settings'
+  | 'profile'
+  | 'notes';
+
+const MODAL_IDS: ModalId[] = ['articles', 'dictionary', 'navazu', 'shop', 'courses', 'catalog', 'history', 'kinbakushi', 'events', 'resources', 'settings', 'profile', 'notes'];
+
+export interface AppRoute {
+  lessonId: number | null; // /lesson/:id
+  modal: ModalId | null;   // First path segment when it names a module
+  itemId: string | null;   // Second path segment (article, product, course, video, event)
+  query: URLSearchParams;
+}
+
+// Marks history entries pushed by the app itself, so "close" can safely go back.
+interface RouterHistoryState {
+  fromApp?: boolean;
+}
+
+export const parseRoute = (pathname: string, search: string): AppRoute => {
+  const segments = pathname.split('/').filter(Boolean).map(s => decodeURIComponent(s));
+  const query = new URLSearchParams(search);
+  const route: AppRoute = { lessonId: null, modal: null, itemId: null, query };
+
+  if (segments[0] === 'lesson' && segments[1]) {
+    const id = parseInt(segments[1]);
+    if (!isNaN(id)) route.lessonId = id;
+    return route;
+  }
+
+  if (segments[0] && (MODAL_IDS as string[]).includes(segments[0])) {
+    route.modal = segments[0] as ModalId;
+    route.itemId = segments[1] || null;
+  }
+
+  return route;
+};
+
+export const buildPath = (modal: ModalId | null, itemId?: string | number | null, query?: URLSearchParams): string => {
+  let path = modal ? `/${modal}` : '/';
+  if (modal && itemId !== undefined && itemId !== null && itemId !== '') {
+    path += `/${encodeURIComponent(String(itemId))}`;
+  }
+  const qs = query ? query.toString() : '';
+  return qs ? `${path}?${qs}` : path;
+};
+
+export const lessonPath = (lessonId: number) => `/lesson/${lessonId}`;
+
+// --- Catalog filter <-> query string ---
+// Filters are stored as { categoryId: [subcategoryId, ...] }.
+// URL form: ?cat=catA,catB&sub=sub1,sub2,sub3 — each sub id is resolved back to the
+// selected category that owns it, so the link reproduces the exact filter set.
+
+export const encodeCatalogFilters = (filters: Record<string, string[]>): URLSearchParams => {
+  const query = new URLSearchParams();
+  const cats = Object.keys(filters).filter(catId => filters[catId]?.length);
+  if (cats.length === 0) return query;
+
+  const subs = new Set<string>();
+  cats.forEach(catId => filters[catId].forEach(subId => subs.add(subId)));
+
+  query.set('cat', cats.join(','));
+  query.set('sub', Array.from(subs).join(','));
+  return query;
+};
+
+export const decodeCatalogFilters = (query: URLSearchParams, categories: CatalogCategory[]): Record<string, string[]> => {
+  const cats = (query.get('cat') || '').split(',').filter(Boolean);
+  const subs = (query.get('sub') || '').split(',').filter(Boolean);
+  const filters: Record<string, string[]> = {};
+
+  cats.forEach(catId => {
+    const category = categories.find(c => c.id === catId);
+    if (!category) return;
+    const owned = subs.filter(subId => category.subcategories?.some(s => s.id === subId));
+    if (owned.length > 0) filters[catId] = owned;
+  });
+
+  return filters;
+};
+
+// --- Leave guard ---
+// A screen with unsaved changes registers a message; leaving it (in-app navigation,
+// browser back/forward, reload) asks for confirmation first.
+
+let leaveMessage: string | null = null;
+
+export const setLeaveGuard = (message: string | null) => {
+  leaveMessage = message;
+};
+
+// true when there is nothing to lose or the user agreed to leave
+export const confirmLeave = () => !leaveMessage || window.confirm(leaveMessage);
+
+// --- Hook ---
+
+const readLocation = () => parseRoute(window.location.pathname, window.location.search);
+const currentUrl = () => window.location.pathname + window.location.search + window.location.hash;
+
+export const useRouter = () => {
+  const [route, setRoute] = useState<AppRoute>(readLocation);
+  const lastUrlRef = useRef(currentUrl()); // Where a cancelled back/forward returns to
+
+  useEffect(() => {
+    const onPopState = () => {
+      if (!confirmLeave()) {
+        // Stay: put the screen the user was on back on top of the history
+        window.history.pushState({ fromApp: true } as RouterHistoryState, '', lastUrlRef.current);
+        return;
+      }
+      lastUrlRef.current = currentUrl();
+      setRoute(readLocation());
+    };
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (!leaveMessage) return;
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('popstate', onPopState);
+    window.addEventListener('beforeunload', onBeforeUnload);
+    return () => {
+      window.removeEventListener('popstate', onPopState);
+      window.removeEventListener('beforeunload', onBeforeUnload);
+    };
+  }, []);
+
+  // Pushes (or replaces) a history entry and re-parses the route.
+  // The hash is preserved, because Supabase auth redirects deliver tokens in it.
+  const navigate = useCallback((path: string, options?: { replace?: boolean }) => {
+    const target = path + window.location.hash;
+    if (target === currentUrl()) return;
+    if (!confirmLeave()) return;
+
+    if (options?.replace) {
+      // Keep the marker of the entry being replaced (a redirect is not a new step)
+      const prev = window.history.state as RouterHistoryState | null;
+      window.history.replaceState({ fromApp: !!prev?.fromApp } as RouterHistoryState, '', target);
+    } else {
+      window.history.pushState({ fromApp: true } as RouterHistoryState, '', target);
+    }
+    lastUrlRef.current = currentUrl();
+    setRoute(readLocation());
+  }, []);
+
+  // Closes the current screen: steps back if the previous entry belongs to the app,
+  // otherwise (direct link / new tab) replaces the entry with the fallback path.
+  const goBack = useCallback((fallbackPath: string) => {
+    const state = window.history.state as RouterHistoryState | null;
+    if (state?.fromApp) window.history.back();
+    else navigate(fallbackPath, { replace: true });
+  }, [navigate]);
+
+  return { route, navigate, goBack };
+};
@@ -0,0 +1,67 @@
+import { Product } from '../types';
+
+/**
+ * Stock keeping for market_shibari.
+ *
+ * Products without variants use `stock` (null = not tracked). Products with variants
+ * keep a stock count per variant inside the `variants` JSON.
+ * Stock is taken by place_order (utils/orders) in the same transaction as the order: every
+ * line is one conditional UPDATE, so two orders can never sell the same last item, and a
+ * failed order gives everything back. Only admins write the table directly.
+ */
+
+export const STOCK_REPAIR_SQL = `
+ALTER TABLE public.market_shibari ADD COLUMN IF NOT EXISTS stock integer;
+ALTER TABLE public.market_shibari ADD COLUMN IF NOT EXISTS variants jsonb DEFAULT '[]';
+
+-- Takes quantity from the product (or one of its variants) if that much is left; false = shortage.
+-- Untracked stock (null) is never short. Internal: only place_order calls it.
+CREATE OR REPLACE FUNCTION public.shibari_take_stock(product_id bigint, variant_id text, quantity integer)
+RETURNS boolean LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  IF variant_id IS NULL THEN
+    UPDATE public.market_shibari m SET stock = m.stock - quantity
+     WHERE m.id = product_id AND (m.stock IS NULL OR m.stock >= quantity);
+  ELSE
+    UPDATE public.market_shibari m
+       SET variants = (
+         SELECT jsonb_agg(CASE WHEN v.value ->> 'id' = variant_id
+                               THEN jsonb_set(v.value, '{stock}', to_jsonb((v.value ->> 'stock')::integer - quantity))
+                               ELSE v.value END ORDER BY v.idx)
+           FROM jsonb_array_elements(m.variants) WITH ORDINALITY AS v(value, idx))
+     WHERE m.id = product_id
+       AND EXISTS (SELECT 1 FROM jsonb_array_elements(m.variants) v
+                    WHERE v.value ->> 'id' = variant_id AND (v.value ->> 'stock')::integer >= quantity);
+  END IF;
+  RETURN FOUND;
+END $$;
+REVOKE EXECUTE ON FUNCTION public.shibari_take_stock(bigint, text, integer) FROM PUBLIC, anon, authenticated;
+`.trim();
+
+export interface StockShortage {
+  title: string;
+  available: number;
+}
+
+// null = unlimited
+export const getAvailableStock = (product: Product, variantId?: string): number | null => {
+  if (variantId) {
+      const variant = product.variants?.find(v => v.id === variantId);
+      return variant ? Math.max(0, variant.stock) : 0;
+  }
+  if (product.variants?.length) {
+      return product.variants.reduce((sum, v) => sum + Math.max(0, v.stock), 0);
+  }
+  return typeof product.stock === 'number' ? Math.max(0, product.stock) : null;
+};
+
+// place_order fails with 'stock_shortage' and the short lines as details; nothing was taken then
+export const stockShortagesOf = (error: any): StockShortage[] | null => {
+  if (error?.message !== 'stock_shortage') return null;
+  try {
+      const shortages = JSON.parse(error.details || '[]');
+      return Array.isArray(shortages) ? shortages : [];
+  } catch (e) {
+      return [];
+  }
+};
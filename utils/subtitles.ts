@@ -0,0 +1,179 @@
+import { supabase } from '../supabaseClient';
+import { LessonSubtitles, SubtitleLanguage, SubtitleSegment } from '../types';
+
+/**
+ * Lesson subtitles.
+ *
+ * Admins upload an SRT or VTT file per lesson and language; it is stored parsed, as timed
+ * segments, so the lesson page can show a transcript that follows the video.
+ * English subtitles can be produced from the Russian ones: every segment becomes exactly one
+ * line for the translator (see utils/translation) and the translated lines get the Russian timings.
+ * Either language can be downloaded back as SRT or VTT.
+ */
+
+export const SUBTITLES_TABLE = 'lesson_subtitles_shibari';
+
+// Readable wherever the lesson itself is open (can_open_lesson_id, utils/lessonAccess), writing needs the admin role (utils/roles)
+export const SUBTITLES_REPAIR_SQL = `
+CREATE TABLE IF NOT EXISTS public.lesson_subtitles_shibari (
+    lesson_id bigint NOT NULL REFERENCES public.lessons_shibari(id) ON DELETE CASCADE,
+    lang text NOT NULL CHECK (lang IN ('ru', 'en')),
+    segments jsonb NOT NULL DEFAULT '[]',
+    file_name text,
+    updated_at timestamp with time zone DEFAULT timezone('utc'::text, now()),
+    PRIMARY KEY (lesson_id, lang)
+);
+
+ALTER TABLE public.lesson_subtitles_shibari ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Read subtitles" ON public.lesson_subtitles_shibari;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'lesson_subtitles_shibari' AND policyname = 'Read subtitles of open lessons') THEN
+    CREATE POLICY "Read subtitles of open lessons" ON public.lesson_subtitles_shibari FOR SELECT USING (public.can_open_lesson_id(lesson_id));
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE tablename = 'lesson_subtitles_shibari' AND policyname = 'Admins manage subtitles') THEN
+    CREATE POLICY "Admins manage subtitles" ON public.lesson_subtitles_shibari FOR ALL USING (public.is_shibari_admin()) WITH CHECK (public.is_shibari_admin());
+  END IF;
+END $$;
+`.trim();
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// --- Parsing ---
+
+// "01:02:03,456" (SRT) or "02:03.456" / "01:02:03.456" (VTT)
+const TIMESTAMP = '(?:\\d+:)?\\d{1,2}:\\d{2}[,.]\\d{1,3}';
+const CUE_TIMING = new RegExp(`^\\s*(${TIMESTAMP})\\s*-->\\s*(${TIMESTAMP})`);
+
+const parseTimestamp = (value: string): number => {
+  const [clock, fraction] = value.split(/[,.]/);
+  const parts = clock.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+// Accepts SRT and VTT. Cue settings, numbering, NOTE/STYLE blocks and inline tags are dropped.
+export const parseSubtitles = (raw: string): SubtitleSegment[] => {
+  const blocks = raw
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .split(/\n[ \t]*\n/);
+
+  const segments: SubtitleSegment[] = [];
+  blocks.forEach(block => {
+      const lines = block.split('\n');
+      const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+      if (timingIndex === -1) return;
+      const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+      const text = lines.slice(timingIndex + 1)
+          .map(line => line.replace(/<[^>]+>/g, '').trim())
+          .filter(Boolean)
+          .join('\n');
+      if (!text) return;
+      const startSeconds = parseTimestamp(start);
+      segments.push({ start: startSeconds, end: Math.max(startSeconds, parseTimestamp(end)), text });
+  });
+
+  if (!segments.length) throw new Error("В файле нет субтитров (ожидается формат SRT или VTT)");
+  return segments.sort((a, b) => a.start - b.start);
+};
+
+// --- Export ---
+
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, size = 2) => String(n).padStart(size, '0');
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor(totalMs / 60000) % 60;
+  const s = Math.floor(totalMs / 1000) % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+export const formatSubtitles = (segments: SubtitleSegment[], format: SubtitleFormat): string => {
+  const separator = format === 'srt' ? ',' : '.';
+  const cues = segments.map((segment, i) => {
+      const timing = `${formatTimestamp(segment.start, separator)} --> ${formatTimestamp(segment.end, separator)}`;
+      return format === 'srt' ? `${i + 1}\n${timing}\n${segment.text}` : `${timing}\n${segment.text}`;
+  });
+  return `${format === 'vtt' ? 'WEBVTT\n\n' : ''}${cues.join('\n\n')}\n`;
+};
+
+export const downloadSubtitles = (segments: SubtitleSegment[], format: SubtitleFormat, baseName: string) => {
+  const blob = new Blob([formatSubtitles(segments, format)], { type: format === 'vtt' ? 'text/vtt' : 'application/x-subrip' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${format}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Clock shown in the transcript: "m:ss" or "h:mm:ss"
+export const formatClock = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor(total / 60) % 60;
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// --- Translation ---
+
+// One line per segment: line breaks inside a cue are joined, so line N is always segment N
+export const segmentsToLines = (segments: SubtitleSegment[]): string =>
+  segments.map(segment => segment.text.replace(/\s*\n\s*/g, ' ')).join('\n');
+
+// Puts translated lines onto the timings of the source segments
+export const withTranslatedText = (source: SubtitleSegment[], lines: string): SubtitleSegment[] => {
+  const texts = lines.split('\n');
+  if (texts.length !== source.length) {
+      throw new Error(`Число строк перевода (${texts.length}) не совпадает с числом субтитров (${source.length})`);
+  }
+  return source.map((segment, i) => ({ ...segment, text: texts[i].trim() || segment.text }));
+};
+
+// Index of the segment playing at `time`, -1 between segments
+export const activeSegmentIndex = (segments: SubtitleSegment[], time: number): number =>
+  segments.findIndex(segment => time >= segment.start && time < segment.end);
+
+// --- Database ---
+
+const sanitizeSegments = (raw: unknown): SubtitleSegment[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+      .filter((s: any) => s && typeof s.text === 'string' && Number.isFinite(Number(s.start)) && Number.isFinite(Number(s.end)))
+      .map((s: any) => ({ start: Number(s.start), end: Number(s.end), text: s.text }));
+};
+
+// Missing table -> no subtitles (the SQL is logged for the admin)
+export const fetchLessonSubtitles = async (lessonId: number): Promise<LessonSubtitles[]> => {
+  if (!supabase) return [];
+  const { data, error } = await supabase.from(SUBTITLES_TABLE).select('*').eq('lesson_id', lessonId);
+  if (error) {
+      console.error(`Subtitles load failed: ${error.message}\nSQL:\n${SUBTITLES_REPAIR_SQL}`);
+      return [];
+  }
+  return (data || [])
+      .filter((row: any) => row.lang === 'ru' || row.lang === 'en')
+      .map((row: any) => ({ ...row, segments: sanitizeSegments(row.segments) }));
+};
+
+export const saveLessonSubtitles = async (lessonId: number, lang: SubtitleLanguage, segments: SubtitleSegment[], fileName: string | null): Promise<LessonSubtitles> => {
+  if (!supabase) throw new Error("No database connection");
+  const { data, error } = await supabase
+      .from(SUBTITLES_TABLE)
+      .upsert({ lesson_id: lessonId, lang, segments, file_name: fileName, updated_at: new Date().toISOString() }, { onConflict: 'lesson_id,lang' })
+      .select()
+      .single();
+  if (error) {
+      console.error(`Subtitles save failed: ${error.message}\nSQL:\n${SUBTITLES_REPAIR_SQL}`);
+      throw error;
+  }
+  return { ...data, segments: sanitizeSegments(data.segments) };
+};
+
+export const deleteLessonSubtitles = async (lessonId: number, lang: SubtitleLanguage) => {
+  if (!supabase) throw new Error("No database connection");
+  const { error } = await supabase.from(SUBTITLES_TABLE).delete().eq('lesson_id', lessonId).eq('lang', lang);
+  if (error) throw error;
+};
@@ -0,0 +1,161 @@
+import { supabase } from '../supabaseClient';
+import { AI_TRANSLATION_SYSTEM_PROMPT } from '../constants';
+
+/**
+ * RU -> EN machine translation for the admin editors.
+ *
+ * Editors pass their RU fields, the text goes through the selected provider line by line and the
+ * result is shown for review before it lands in the form — nothing is saved automatically.
+ * The prompt requires the output to have exactly as many lines as the input (subtitle timing
+ * depends on it), so a reply with a different line count is rejected instead of being guessed at.
+ *
+ * Providers are pluggable: `registerTranslationProvider` adds one, the admin's choice is kept
+ * in localStorage. The built-in mock needs no network and is meant for offline testing.
+ *
+ * Gemini is called by the `translate` Edge Function, which holds the API key and answers admins only;
+ * the key never reaches the browser bundle. Its source is TRANSLATE_FUNCTION_SOURCE below.
+ */
+
+export interface TranslationProvider {
+  id: string;
+  label: string;
+  // Must resolve to exactly one line per input line
+  translateLines: (lines: string[]) => Promise<string[]>;
+}
+
+// One editor field: the RU source and the EN value currently in the form
+export interface TranslationField {
+  key: string;
+  label: string;
+  source: string;
+  current: string;
+}
+
+export interface TranslatedField extends TranslationField {
+  translated: string;
+}
+
+export const TRANSLATION_PROVIDER_KEY = 'shibari_translation_provider';
+
+export const TRANSLATE_FUNCTION = 'translate';
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+// Deploy as the Edge Function "translate" (Dashboard -> Edge Functions, or `supabase functions deploy translate`)
+// and add the secret GEMINI_API_KEY. The caller's session decides whether it may translate.
+export const TRANSLATE_FUNCTION_SOURCE = `
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const GEMINI_ENDPOINT = 'https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent';
+const SYSTEM_PROMPT = ${JSON.stringify(AI_TRANSLATION_SYSTEM_PROMPT)};
+const CORS = { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type' };
+const reply = (body, status = 200) => new Response(JSON.stringify(body), { status, headers: { ...CORS, 'Content-Type': 'application/json' } });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: CORS });
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL'), Deno.env.get('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } }
+  });
+  const { data: isAdmin } = await supabase.rpc('is_shibari_admin');
+  if (!isAdmin) return reply({ error: 'Admins only' }, 403);
+
+  const apiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!apiKey) return reply({ error: 'GEMINI_API_KEY is not set' }, 500);
+  const { lines } = await req.json().catch(() => ({}));
+  if (!Array.isArray(lines) || !lines.every((line) => typeof line === 'string')) return reply({ error: 'lines must be a list of strings' }, 400);
+
+  const response = await fetch(\`\${GEMINI_ENDPOINT}?key=\${encodeURIComponent(apiKey)}\`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      systemInstruction: { parts: [{ text: SYSTEM_PROMPT }] },
+      contents: [{ role: 'user', parts: [{ text: lines.join('\\n') }] }],
+      generationConfig: { temperature: 0.2 }
+    })
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) return reply({ error: data?.error?.message || response.statusText }, 502);
+  return reply({ text: (data?.candidates?.[0]?.content?.parts || []).map((part) => part?.text || '').join('') });
+});
+`.trim();
+
+const geminiProvider: TranslationProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  translateLines: async (lines) => {
+      if (!supabase) throw new Error("No database connection");
+      const { data, error } = await supabase.functions.invoke(TRANSLATE_FUNCTION, { body: { lines } });
+      if (error) {
+          // Non-2xx replies carry the function's own message; a missing function has none
+          const details = await error.context?.json?.().catch(() => null);
+          console.error(`Translation failed: ${details?.error || error.message}\nEdge Function "${TRANSLATE_FUNCTION}":\n${TRANSLATE_FUNCTION_SOURCE}`);
+          throw new Error(`Gemini: ${details?.error || "функция перевода недоступна (исходник — в консоли)"}`);
+      }
+
+      const text: string = typeof data?.text === 'string' ? data.text : '';
+      // Models sometimes wrap the answer in a code fence or add trailing blank lines
+      return text.replace(/^```[a-z]*\n?|\n?```\s*$/g, '').replace(/\s+$/, '').split('\n');
+  }
+};
+
+const mockProvider: TranslationProvider = {
+  id: 'mock',
+  label: 'Тестовый (без сети)',
+  translateLines: async (lines) => lines.map(line => `[EN] ${line}`)
+};
+
+const providers: TranslationProvider[] = [geminiProvider, mockProvider];
+
+export const registerTranslationProvider = (provider: TranslationProvider) => {
+  const index = providers.findIndex(p => p.id === provider.id);
+  if (index >= 0) providers[index] = provider;
+  else providers.push(provider);
+};
+
+export const getTranslationProviders = (): TranslationProvider[] => [...providers];
+
+export const getTranslationProvider = (): TranslationProvider => {
+  let id: string | null = null;
+  try {
+      id = localStorage.getItem(TRANSLATION_PROVIDER_KEY);
+  } catch (e) {
+      // Storage disabled — use the default
+  }
+  return providers.find(p => p.id === id) || providers[0];
+};
+
+export const setTranslationProvider = (id: string) => {
+  try {
+      localStorage.setItem(TRANSLATION_PROVIDER_KEY, id);
+  } catch (e) {
+      // Storage disabled — the choice is just not remembered
+  }
+};
+
+// Long texts (subtitle files) go in several requests; shorter replies drift less in line count
+const BATCH_LINES = 100;
+
+// Translates all fields together. Blank lines are kept in place and not sent;
+// each field gets back exactly as many lines as its source.
+export const translateFields = async (fields: TranslationField[], provider: TranslationProvider = getTranslationProvider()): Promise<TranslatedField[]> => {
+  const sourceLines = fields.map(field => field.source.split('\n'));
+  const toSend = sourceLines.flat().filter(line => line.trim());
+  if (!toSend.length) throw new Error("Нет русского текста для перевода");
+
+  const received: string[] = [];
+  for (let i = 0; i < toSend.length; i += BATCH_LINES) {
+      const batch = toSend.slice(i, i + BATCH_LINES);
+      const lines = await provider.translateLines(batch);
+      if (lines.length !== batch.length) {
+          throw new Error(`Перевод отклонён: получено строк ${lines.length}, ожидалось ${batch.length}. Попробуйте ещё раз.`);
+      }
+      received.push(...lines.map(line => line.trim()));
+  }
+
+  let cursor = 0;
+  return fields.map((field, i) => ({
+      ...field,
+      translated: sourceLines[i].map(line => line.trim() ? received[cursor++] : '').join('\n')
+  }));
+};
@@ -0,0 +1,270 @@
+/**
+ * Video links.
+ *
+ * Admins paste whatever link the video host gives them; `parseVideoUrl` recognises the host and
+ * pulls out the video id, and the provider knows how to embed it and where its cover image lives.
+ * YouTube is not reachable for a large part of the audience, so Russian hosts (Rutube, VK Video,
+ * Kinescope), Vimeo and plain files (MP4 / WebM, HLS playlists) are supported as well.
+ *
+ * Playback events come from the <video> element for files and over postMessage from the YouTube,
+ * Vimeo and Rutube iframes. VK Video and Kinescope only offer script SDKs, so they play without events.
+ */
+
+export type VideoProviderId = 'youtube' | 'vimeo' | 'rutube' | 'vk' | 'kinescope' | 'file' | 'hls';
+
+export type PlaybackEventType = 'play' | 'pause' | 'timeupdate' | 'ended';
+
+// Emitted by VideoPlayer. Lesson progress, catalog watch history and BehaviorTracker consume these.
+export interface PlaybackEvent {
+  type: PlaybackEventType;
+  url: string;
+  currentTime: number;
+  duration: number; // 0 until the player reports it
+  played: number; // Seconds newly played since the previous event (seeks are not counted)
+  watchedPercent: number; // Share of the video actually played in this player, 0–100
+}
+
+export interface VideoSource {
+  provider: VideoProviderId;
+  id: string; // Provider's video id; for files the file URL
+  url: string; // The link as entered
+  hash?: string; // Access key of unlisted / private videos (Vimeo h, Rutube p, VK hash)
+}
+
+// What a player iframe told us; any field may be missing
+export interface EmbedMessage {
+  ready?: boolean;
+  state?: 'play' | 'pause' | 'ended';
+  currentTime?: number;
+  duration?: number;
+}
+
+// postMessage protocol of a player iframe. Messages are posted as JSON strings.
+interface EmbedApi {
+  // Posted on load and again when the player says it is ready: asks it to start sending events
+  subscribe: unknown[];
+  parse: (data: any) => EmbedMessage | null;
+  // Posted to jump to a position and keep playing
+  seek: (seconds: number) => unknown[];
+}
+
+interface VideoProvider {
+  id: VideoProviderId;
+  label: string;
+  native?: boolean; // Played by a <video> element instead of an iframe
+  match: (url: URL) => Pick<VideoSource, 'id' | 'hash'> | null;
+  embedUrl?: (source: VideoSource, startAt: number) => string;
+  thumbnail?: (source: VideoSource) => string | null | Promise<string | null>;
+  api?: EmbedApi; // Without it the player only reopens the embed at a position and reports nothing
+}
+
+const lastSegment = (url: URL) => url.pathname.split('/').filter(Boolean).pop() || '';
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+const RUTUBE_ID = /^[0-9a-f]{32}$/;
+
+const youtube: VideoProvider = {
+  id: 'youtube',
+  label: 'YouTube',
+  match: (url) => {
+      const host = url.hostname.replace(/^(www|m)\./, '');
+      let id: string | null = null;
+      if (host === 'youtu.be') id = url.pathname.slice(1);
+      else if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+          const [first, second] = url.pathname.split('/').filter(Boolean);
+          if (first === 'watch') id = url.searchParams.get('v');
+          else if (['embed', 'shorts', 'live', 'v'].includes(first)) id = second;
+      }
+      id = id ? id.split('&')[0] : null;
+      return id && YOUTUBE_ID.test(id) ? { id } : null;
+  },
+  // ВАЖНО: origin должен совпадать с текущим доменом, enablejsapi=1 — для событий плеера
+  embedUrl: (source, startAt) => {
+      const origin = typeof window !== 'undefined' ? window.location.origin : '';
+      const start = startAt > 0 ? `&start=${startAt}` : '';
+      return `https://www.youtube.com/embed/${source.id}?autoplay=1&rel=0&showinfo=0&enablejsapi=1&origin=${origin}${start}`;
+  },
+  thumbnail: (source) => `https://img.youtube.com/vi/${source.id}/maxresdefault.jpg`,
+  // IFrame API without the script: state 1 = playing, 2 = paused, 0 = ended
+  api: {
+      subscribe: [{ event: 'listening', id: 1, channel: 'widget' }],
+      parse: (data) => {
+          const states: Record<number, EmbedMessage['state']> = { 1: 'play', 2: 'pause', 0: 'ended' };
+          if (data?.event === 'onReady') return { ready: true };
+          if (data?.event === 'onStateChange') return { state: states[data.info] };
+          if (data?.event !== 'infoDelivery' || !data.info) return null;
+          const { currentTime, duration, playerState } = data.info;
+          return {
+              currentTime: typeof currentTime === 'number' ? currentTime : undefined,
+              duration: typeof duration === 'number' ? duration : undefined,
+              state: typeof playerState === 'number' ? states[playerState] : undefined
+          };
+      },
+      seek: (seconds) => [
+          { event: 'command', func: 'seekTo', args: [seconds, true] },
+          { event: 'command', func: 'playVideo', args: [] }
+      ]
+  }
+};
+
+// Cover images of Vimeo videos are only available through oEmbed
+const vimeoThumbnails = new Map<string, Promise<string | null>>();
+
+const vimeo: VideoProvider = {
+  id: 'vimeo',
+  label: 'Vimeo',
+  match: (url) => {
+      if (!/(^|\.)vimeo\.com$/.test(url.hostname)) return null;
+      const segments = url.pathname.split('/').filter(Boolean);
+      const index = segments.findIndex(s => /^\d+$/.test(s));
+      if (index === -1) return null;
+      const hash = url.searchParams.get('h') || (/^[0-9a-f]{6,}$/.test(segments[index + 1] || '') ? segments[index + 1] : undefined);
+      return { id: segments[index], hash };
+  },
+  embedUrl: (source, startAt) =>
+      `https://player.vimeo.com/video/${source.id}?autoplay=1${source.hash ? `&h=${source.hash}` : ''}${startAt > 0 ? `#t=${startAt}s` : ''}`,
+  thumbnail: (source) => {
+      const key = `${source.id}/${source.hash || ''}`;
+      if (!vimeoThumbnails.has(key)) {
+          const pageUrl = `https://vimeo.com/${source.id}${source.hash ? `/${source.hash}` : ''}`;
+          vimeoThumbnails.set(key, fetch(`https://vimeo.com/api/oembed.json?width=1280&url=${encodeURIComponent(pageUrl)}`)
+              .then(response => response.ok ? response.json() : null)
+              .then(data => data?.thumbnail_url || null)
+              .catch(() => null));
+      }
+      return vimeoThumbnails.get(key)!;
+  },
+  api: {
+      subscribe: ['play', 'pause', 'ended', 'timeupdate'].map(value => ({ method: 'addEventListener', value })),
+      parse: (data) => {
+          switch (data?.event) {
+              case 'ready': return { ready: true };
+              case 'play': return { state: 'play' };
+              case 'pause': return { state: 'pause' };
+              case 'ended': return { state: 'ended' };
+              case 'timeupdate': return { currentTime: data.data?.seconds, duration: data.data?.duration };
+              default: return null;
+          }
+      },
+      seek: (seconds) => [{ method: 'setCurrentTime', value: seconds }, { method: 'play' }]
+  }
+};
+
+const rutube: VideoProvider = {
+  id: 'rutube',
+  label: 'Rutube',
+  match: (url) => {
+      if (!/(^|\.)rutube\.ru$/.test(url.hostname)) return null;
+      const id = url.pathname.split('/').filter(Boolean).find(s => RUTUBE_ID.test(s));
+      return id ? { id, hash: url.searchParams.get('p') || undefined } : null;
+  },
+  embedUrl: (source, startAt) =>
+      `https://rutube.ru/play/embed/${source.id}?autoplay=1${source.hash ? `&p=${source.hash}` : ''}${startAt > 0 ? `&t=${startAt}` : ''}`,
+  // Private videos have no public cover
+  thumbnail: (source) => source.hash ? null : `https://rutube.ru/api/video/${source.id}/thumbnail/?redirect=1`,
+  // Rutube posts its events without a subscription
+  api: {
+      subscribe: [],
+      parse: (data) => {
+          switch (data?.type) {
+              case 'player:ready': return { ready: true };
+              case 'player:changeState': {
+                  const state = data.data?.state;
+                  if (state === 'playing') return { state: 'play' };
+                  if (state === 'paused' || state === 'stopped') return { state: 'pause' };
+                  if (state === 'ended' || state === 'completed') return { state: 'ended' };
+                  return null;
+              }
+              case 'player:playComplete': return { state: 'ended' };
+              case 'player:currentTime': return { currentTime: data.data?.time };
+              case 'player:durationChange': return { duration: data.data?.duration };
+              default: return null;
+          }
+      },
+      seek: (seconds) => [{ type: 'player:setCurrentTime', data: { time: seconds } }, { type: 'player:play', data: {} }]
+  }
+};
+
+// vk.com/video-123_456, vkvideo.ru/video-123_456, vk.com/videos-123?z=video-123_456, video_ext.php?oid=-123&id=456&hash=...
+const vk: VideoProvider = {
+  id: 'vk',
+  label: 'VK Видео',
+  match: (url) => {
+      if (!/(^|\.)(vk\.com|vk\.ru|vkvideo\.ru)$/.test(url.hostname)) return null;
+      if (url.pathname.endsWith('/video_ext.php')) {
+          const oid = url.searchParams.get('oid');
+          const vid = url.searchParams.get('id');
+          return oid && vid && /^-?\d+$/.test(oid) && /^\d+$/.test(vid) ? { id: `${oid}_${vid}`, hash: url.searchParams.get('hash') || undefined } : null;
+      }
+      const match = `${url.pathname} ${url.searchParams.get('z') || ''}`.match(/video(-?\d+_\d+)/);
+      return match ? { id: match[1] } : null;
+  },
+  embedUrl: (source, startAt) => {
+      const [oid, vid] = source.id.split('_');
+      return `https://vkvideo.ru/video_ext.php?oid=${oid}&id=${vid}${source.hash ? `&hash=${source.hash}` : ''}&hd=2&autoplay=1${startAt > 0 ? `&t=${startAt}s` : ''}`;
+  }
+};
+
+const kinescope: VideoProvider = {
+  id: 'kinescope',
+  label: 'Kinescope',
+  match: (url) => {
+      if (!/(^|\.)kinescope\.io$/.test(url.hostname)) return null;
+      const id = lastSegment(url);
+      return /^[\w-]{6,}$/.test(id) ? { id } : null;
+  },
+  embedUrl: (source, startAt) => `https://kinescope.io/embed/${source.id}?autoplay=1${startAt > 0 ? `&t=${startAt}` : ''}`
+};
+
+const file: VideoProvider = {
+  id: 'file',
+  label: 'Видеофайл',
+  native: true,
+  match: (url) => /\.(mp4|m4v|webm|mov|ogv)$/i.test(url.pathname) ? { id: url.href } : null
+};
+
+// Safari and most mobile browsers play HLS natively; elsewhere the player says so instead of failing silently
+const hls: VideoProvider = {
+  id: 'hls',
+  label: 'HLS-поток',
+  native: true,
+  match: (url) => /\.m3u8$/i.test(url.pathname) ? { id: url.href } : null
+};
+
+export const VIDEO_PROVIDERS: VideoProvider[] = [youtube, vimeo, rutube, vk, kinescope, file, hls];
+
+export const getVideoProvider = (id: VideoProviderId): VideoProvider => VIDEO_PROVIDERS.find(p => p.id === id)!;
+
+export const parseVideoUrl = (raw: string | null | undefined): VideoSource | null => {
+  const value = (raw || '').trim();
+  if (!value) return null;
+  // A bare YouTube id, as older lessons store it
+  if (YOUTUBE_ID.test(value)) return { provider: 'youtube', id: value, url: value };
+  let url: URL;
+  try {
+      url = new URL(value);
+  } catch (e) {
+      return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  for (const provider of VIDEO_PROVIDERS) {
+      const match = provider.match(url);
+      if (match) return { provider: provider.id, url: value, ...match };
+  }
+  return null;
+};
+
+export const getEmbedUrl = (source: VideoSource, startAt = 0): string | null =>
+  getVideoProvider(source.provider).embedUrl?.(source, Math.floor(startAt)) ?? null;
+
+export const getThumbnailUrl = async (source: VideoSource): Promise<string | null> =>
+  (await getVideoProvider(source.provider).thumbnail?.(source)) ?? null;
+
+export const isNativeVideo = (source: VideoSource) => !!getVideoProvider(source.provider).native;
+
+export const getEmbedApi = (source: VideoSource): EmbedApi | null => getVideoProvider(source.provider).api || null;
+
+export const canPlayHls = (): boolean =>
+  typeof document !== 'undefined' && !!document.createElement('video').canPlayType('application/vnd.apple.mpegurl');
+
+export const SUPPORTED_VIDEO_HOSTS = 'YouTube, Vimeo, Rutube, VK Видео, Kinescope, файлы MP4/WebM и HLS (.m3u8)';
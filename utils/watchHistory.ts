@@ -0,0 +1,71 @@
+import { PlaybackEvent } from './video';
+
+/**
+ * Catalog watch history.
+ *
+ * Kept per browser in localStorage: where each catalog video was left and how much of it
+ * was watched, so the catalog can mark watched videos and continue the others.
+ * A video played to the end starts from the beginning next time.
+ */
+
+export const WATCH_HISTORY_STORAGE_KEY = 'shibari_catalog_watch_history';
+
+// Share of a video after which the catalog shows it as watched
+export const WATCHED_PERCENT = 90;
+
+export interface WatchHistoryEntry {
+  video_id: number;
+  position: number; // Seconds to resume from
+  duration: number;
+  watched_percent: number; // 0–100, the best coverage reached
+  updated_at: string;
+}
+
+export type WatchHistoryMap = Record<number, WatchHistoryEntry>;
+
+export const loadWatchHistory = (): WatchHistoryMap => {
+  const map: WatchHistoryMap = {};
+  try {
+      const rows = JSON.parse(localStorage.getItem(WATCH_HISTORY_STORAGE_KEY) || '[]');
+      if (!Array.isArray(rows)) return map;
+      rows.forEach((row: any) => {
+          const videoId = Number(row?.video_id);
+          if (!Number.isFinite(videoId)) return;
+          map[videoId] = {
+              video_id: videoId,
+              position: Math.max(0, Number(row.position) || 0),
+              duration: Math.max(0, Number(row.duration) || 0),
+              watched_percent: Math.min(100, Math.max(0, Number(row.watched_percent) || 0)),
+              updated_at: typeof row.updated_at === 'string' ? row.updated_at : new Date(0).toISOString()
+          };
+      });
+  } catch (e) {
+      // Broken JSON — start over
+  }
+  return map;
+};
+
+const saveWatchHistory = (history: WatchHistoryMap) => {
+  try {
+      localStorage.setItem(WATCH_HISTORY_STORAGE_KEY, JSON.stringify(Object.values(history)));
+  } catch (e) {
+      // Storage full or disabled (private mode) — history just won't survive a reload
+  }
+};
+
+// Records a playback event of a catalog video and returns the updated history
+export const recordWatchEvent = (history: WatchHistoryMap, videoId: number, event: PlaybackEvent): WatchHistoryMap => {
+  const current = history[videoId];
+  const next: WatchHistoryMap = {
+      ...history,
+      [videoId]: {
+          video_id: videoId,
+          position: event.type === 'ended' ? 0 : Math.floor(event.currentTime),
+          duration: event.duration || current?.duration || 0,
+          watched_percent: Math.max(current?.watched_percent || 0, event.watchedPercent),
+          updated_at: new Date().toISOString()
+      }
+  };
+  saveWatchHistory(next);
+  return next;
+};